@@ -7,6 +7,8 @@ const nextConfig: NextConfig = {
   },
   // 禁用 Next.js 热重载，由 nodemon 处理重编译
   reactStrictMode: false,
+  // pdfkit reads its font metrics from disk at runtime, so it must not be bundled
+  serverExternalPackages: ["pdfkit"],
   webpack: (config, { dev }) => {
     if (dev) {
       // 禁用 webpack 的热模块替换
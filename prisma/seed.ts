@@ -0,0 +1,103 @@
+// Reference data a fresh database needs: the baseline price index the fallback valuation cites and the LTV caps
+// loans are sized under.
+// Run with `npx prisma db seed`; versions that are already loaded are left alone.
+
+import { AssetType } from "@prisma/client"
+import { db } from "@/lib/db"
+import { DEFAULT_LTV_RULES } from "@/lib/loan-sizing"
+import { publishLtvRuleVersion } from "@/lib/ltv-rules"
+import { loadPriceIndexVersion, PriceIndexVersionInput } from "@/lib/price-index"
+
+// The city base prices and district premiums the fallback valuation carried in code before the price index existed
+const CITY_BASE_PRICES: Record<string, { province: string; prices: Record<AssetType, number> }> = {
+  Jakarta: {
+    province: "DKI Jakarta",
+    prices: { RESIDENTIAL: 15000000, COMMERCIAL: 25000000, INDUSTRIAL: 8000000, MIXED_USE: 20000000, LAND_ONLY: 10000000, AGRICULTURAL: 2000000 }
+  },
+  Surabaya: {
+    province: "Jawa Timur",
+    prices: { RESIDENTIAL: 8000000, COMMERCIAL: 15000000, INDUSTRIAL: 5000000, MIXED_USE: 12000000, LAND_ONLY: 6000000, AGRICULTURAL: 1500000 }
+  },
+  Bandung: {
+    province: "Jawa Barat",
+    prices: { RESIDENTIAL: 6000000, COMMERCIAL: 12000000, INDUSTRIAL: 4000000, MIXED_USE: 9000000, LAND_ONLY: 4500000, AGRICULTURAL: 1200000 }
+  },
+  Medan: {
+    province: "Sumatera Utara",
+    prices: { RESIDENTIAL: 5000000, COMMERCIAL: 10000000, INDUSTRIAL: 3500000, MIXED_USE: 7500000, LAND_ONLY: 4000000, AGRICULTURAL: 1000000 }
+  }
+}
+
+const DISTRICT_MULTIPLIERS: Record<string, Record<string, number>> = {
+  Jakarta: {
+    Menteng: 1.5, Kuningan: 1.5, Sudirman: 1.5, Thamrin: 1.5, "Kelapa Gading": 1.5, "Pondok Indah": 1.5,
+    Kemayoran: 1.2, "Pasar Minggu": 1.2, Cilandak: 1.2, Kebayoran: 1.2
+  },
+  Surabaya: {
+    Tunjungan: 1.5, Gubeng: 1.5, Darmo: 1.5, Manyar: 1.5,
+    Wonokromo: 1.2, Sukomanunggal: 1.2, Tegalsari: 1.2
+  },
+  Bandung: {
+    Dago: 1.5, Ciumbuleuit: 1.5, Setiabudi: 1.5,
+    Antapani: 1.2, Arcamanik: 1.2, Bojongloa: 1.2
+  },
+  Medan: {
+    Polonia: 1.5, Sisingamangaraja: 1.5,
+    "Medan Area": 1.2, "Medan Baru": 1.2, "Medan Kota": 1.2
+  }
+}
+
+const BASELINE_PRICE_INDEX: PriceIndexVersionInput = {
+  version: "baseline",
+  source: "House price tables",
+  notes: "City base prices and district premiums previously built into the fallback valuation",
+  effectiveFrom: new Date("2020-01-01"),
+  entries: Object.entries(CITY_BASE_PRICES).flatMap(([city, { province, prices }]) =>
+    Object.values(AssetType).flatMap(assetType => [
+      { province, city, assetType, pricePerSqm: prices[assetType] },
+      ...Object.entries(DISTRICT_MULTIPLIERS[city] || {}).map(([district, multiplier]) => ({
+        province, city, district, assetType, pricePerSqm: prices[assetType] * multiplier
+      }))
+    ])
+  )
+}
+
+async function seedPriceIndex() {
+  const existing = await db.priceIndexVersion.findUnique({ where: { version: BASELINE_PRICE_INDEX.version } })
+  if (existing) {
+    console.log(`Price index version ${BASELINE_PRICE_INDEX.version} already loaded`)
+    return
+  }
+
+  const version = await loadPriceIndexVersion(BASELINE_PRICE_INDEX)
+  console.log(`Loaded price index version ${version.version} with ${version._count.entries} entries`)
+}
+
+async function seedLtvRules() {
+  const version = "PBI 20/8/2018"
+  const existing = await db.ltvRuleVersion.findUnique({ where: { version } })
+  if (existing) {
+    console.log(`LTV rule version ${version} already loaded`)
+    return
+  }
+
+  await publishLtvRuleVersion({
+    version,
+    regulation: "PBI 20/8/2018 with house policy where it sets no cap",
+    effectiveFrom: new Date("2018-08-01"),
+    rules: DEFAULT_LTV_RULES.map(rule => ({ ...rule, assetType: rule.assetType as AssetType }))
+  })
+  console.log(`Loaded LTV rule version ${version} with ${DEFAULT_LTV_RULES.length} rules`)
+}
+
+async function main() {
+  await seedPriceIndex()
+  await seedLtvRules()
+}
+
+main()
+  .catch(error => {
+    console.error("Error seeding the database:", error)
+    process.exitCode = 1
+  })
+  .finally(() => db.$disconnect())
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { findLtvRules, ltvRuleVersionSchema, publishLtvRuleVersion } from "@/lib/ltv-rules"
+import { getSessionUser, requirePlatformAdmin } from "@/lib/auth"
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requirePlatformAdmin("publish LTV rules")
+    if (admin instanceof NextResponse) return admin
+
+    const body = await request.json()
+    const parsed = ltvRuleVersionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid LTV rule payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Versions are immutable: a regulation change is published as a new version
+    const existing = await db.ltvRuleVersion.findUnique({
+      where: { version: parsed.data.version }
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `LTV rule version ${parsed.data.version} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const version = await publishLtvRuleVersion(parsed.data)
+
+    return NextResponse.json({ success: true, version })
+
+  } catch (error) {
+    console.error("Error publishing LTV rules:", error)
+    return NextResponse.json(
+      { error: "Failed to publish LTV rules" },
+      { status: 500 }
+    )
+  }
+}
+
+// The rules in force, which the financing screen sizes loans with, and every published version
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const versions = await db.ltvRuleVersion.findMany({
+      orderBy: { effectiveFrom: "desc" }
+    })
+
+    return NextResponse.json({
+      success: true,
+      current: await findLtvRules(),
+      versions: versions.map(version => ({ ...version, rules: JSON.parse(version.rules) }))
+    })
+
+  } catch (error) {
+    console.error("Error fetching LTV rules:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch LTV rules" },
+      { status: 500 }
+    )
+  }
+}
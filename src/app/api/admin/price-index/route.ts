@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { loadPriceIndexVersion, priceIndexVersionSchema } from "@/lib/price-index"
+import { getSessionUser, requirePlatformAdmin } from "@/lib/auth"
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requirePlatformAdmin("publish price index versions")
+    if (admin instanceof NextResponse) return admin
+
+    const body = await request.json()
+    const parsed = priceIndexVersionSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid price index payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Versions are immutable: corrections are published as a new version
+    const existing = await db.priceIndexVersion.findUnique({
+      where: { version: parsed.data.version }
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Price index version ${parsed.data.version} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const version = await loadPriceIndexVersion(parsed.data)
+
+    return NextResponse.json({
+      success: true,
+      version: {
+        id: version.id,
+        version: version.version,
+        source: version.source,
+        effectiveFrom: version.effectiveFrom,
+        entryCount: version._count.entries,
+        createdAt: version.createdAt
+      }
+    })
+
+  } catch (error) {
+    console.error("Error loading price index:", error)
+    return NextResponse.json(
+      { error: "Failed to load price index" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const version = searchParams.get("version")
+
+    if (version) {
+      const priceIndexVersion = await db.priceIndexVersion.findUnique({
+        where: { version },
+        include: {
+          entries: {
+            orderBy: [{ province: "asc" }, { city: "asc" }, { district: "asc" }]
+          }
+        }
+      })
+
+      if (!priceIndexVersion) {
+        return NextResponse.json(
+          { error: "Price index version not found" },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        version: priceIndexVersion
+      })
+    }
+
+    const versions = await db.priceIndexVersion.findMany({
+      include: { _count: { select: { entries: true, valuations: true } } },
+      orderBy: { effectiveFrom: "desc" }
+    })
+
+    return NextResponse.json({
+      success: true,
+      versions: versions.map(({ _count, ...rest }) => ({
+        ...rest,
+        entryCount: _count.entries,
+        valuationCount: _count.valuations
+      }))
+    })
+
+  } catch (error) {
+    console.error("Error fetching price index:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch price index" },
+      { status: 500 }
+    )
+  }
+}
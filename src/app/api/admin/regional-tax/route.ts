@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { findRegionalTaxRates, regionalTaxRateSchema } from "@/lib/regional-tax"
+import { getSessionUser, requirePlatformAdmin } from "@/lib/auth"
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requirePlatformAdmin("record regional tax rates")
+    if (admin instanceof NextResponse) return admin
+
+    const body = await request.json()
+    const parsed = regionalTaxRateSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid regional tax payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    // Rates change by regulation, so a change is recorded as a new effective record rather than an edit
+    const rate = await db.regionalTaxRate.create({
+      data: parsed.data
+    })
+
+    return NextResponse.json({ success: true, rate })
+
+  } catch (error) {
+    console.error("Error recording regional tax rates:", error)
+    return NextResponse.json(
+      { error: "Failed to record regional tax rates" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const province = searchParams.get("province")
+    const city = searchParams.get("city")
+
+    // With a location, return the rates that apply there; without one, every recorded rate
+    if (province) {
+      return NextResponse.json({
+        success: true,
+        rates: await findRegionalTaxRates(province, city)
+      })
+    }
+
+    const rates = await db.regionalTaxRate.findMany({
+      orderBy: [{ province: "asc" }, { city: "asc" }, { effectiveFrom: "desc" }]
+    })
+
+    return NextResponse.json({ success: true, rates })
+
+  } catch (error) {
+    console.error("Error fetching regional tax rates:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch regional tax rates" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server"
+import { UserRole } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { hashPassword, requireOrganizationAdmin } from "@/lib/auth"
+
+const createUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(UserRole)
+})
+
+const updateUserSchema = z.object({
+  userId: z.string().min(1),
+  role: z.enum(UserRole)
+})
+
+const userSelect = { id: true, email: true, name: true, role: true, createdAt: true }
+
+// Organisation admins manage their own members only
+export async function GET() {
+  try {
+    const admin = await requireOrganizationAdmin("manage users")
+    if (admin instanceof NextResponse) return admin
+
+    const users = await db.user.findMany({
+      where: { organizationId: admin.organizationId },
+      select: userSelect,
+      orderBy: { createdAt: "asc" }
+    })
+
+    return NextResponse.json({ success: true, users })
+
+  } catch (error) {
+    console.error("Error fetching users:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage users")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = createUserSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid user payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { email, name, password, role } = parsed.data
+
+    const existing = await db.user.findUnique({ where: { email } })
+    if (existing) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      )
+    }
+
+    const user = await db.user.create({
+      data: {
+        email,
+        name,
+        role,
+        passwordHash: hashPassword(password),
+        organizationId: admin.organizationId
+      },
+      select: userSelect
+    })
+
+    return NextResponse.json({ success: true, user })
+
+  } catch (error) {
+    console.error("Error creating user:", error)
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage users")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = updateUserSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid user payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { userId, role } = parsed.data
+
+    if (userId === admin.id && role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "Admins cannot remove their own admin role" },
+        { status: 400 }
+      )
+    }
+
+    const updated = await db.user.updateMany({
+      where: { id: userId, organizationId: admin.organizationId },
+      data: { role }
+    })
+
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: "User not found in your organisation" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: await db.user.findUnique({ where: { id: userId }, select: userSelect })
+    })
+
+  } catch (error) {
+    console.error("Error updating user:", error)
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { listZones, toZoningZoneData, zoningZoneSchema } from "@/lib/zoning-dataset"
+import { getSessionUser, requirePlatformAdmin } from "@/lib/auth"
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requirePlatformAdmin("record zoning zones")
+    if (admin instanceof NextResponse) return admin
+
+    const body = await request.json()
+    const parsed = zoningZoneSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid zoning zone payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.kdh + parsed.data.kdb > 1) {
+      return NextResponse.json(
+        { error: "Building coverage (KDB) and green area (KDH) cannot together exceed the land" },
+        { status: 400 }
+      )
+    }
+
+    // Zones are revised by regulation, so a revision is recorded as a new effective record rather than an edit
+    const zone = await db.zoningZone.create({
+      data: toZoningZoneData(parsed.data)
+    })
+
+    return NextResponse.json({ success: true, zone })
+
+  } catch (error) {
+    console.error("Error recording zoning zone:", error)
+    return NextResponse.json(
+      { error: "Failed to record zoning zone" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const province = searchParams.get("province")
+    const city = searchParams.get("city")
+
+    // With a location, return the zones in force there; without one, every recorded zone
+    if (province) {
+      return NextResponse.json({
+        success: true,
+        zones: await listZones(province, city)
+      })
+    }
+
+    const zones = await db.zoningZone.findMany({
+      orderBy: [{ province: "asc" }, { city: "asc" }, { code: "asc" }, { effectiveFrom: "desc" }]
+    })
+
+    return NextResponse.json({ success: true, zones })
+
+  } catch (error) {
+    console.error("Error fetching zoning zones:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch zoning zones" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { hashPassword } from "@/lib/auth"
+
+const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  organizationName: z.string().trim().min(1).optional()
+})
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = registerSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map(issue => issue.message).join(", ") },
+        { status: 400 }
+      )
+    }
+
+    const { email, name, password, organizationName } = parsed.data
+
+    const existing = await db.user.findUnique({ where: { email } })
+    if (existing) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      )
+    }
+
+    // Registering with an organisation name founds it, with the registrant as its admin.
+    // Everyone else joins as a valuer and is added to an organisation by its admin.
+    const user = await db.user.create({
+      data: {
+        email,
+        name,
+        passwordHash: hashPassword(password),
+        role: organizationName ? "ADMIN" : "VALUER",
+        organization: organizationName ? { create: { name: organizationName } } : undefined
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        organizationId: user.organizationId
+      }
+    })
+
+  } catch (error) {
+    console.error("Error registering user:", error)
+    return NextResponse.json(
+      { error: "Failed to register user" },
+      { status: 500 }
+    )
+  }
+}
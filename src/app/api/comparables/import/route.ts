@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import {
+  COMPARABLE_IMPORT_FIELDS,
+  ColumnMapping,
+  importComparableRows,
+  parseSpreadsheet,
+  suggestColumnMapping
+} from "@/lib/comparable-import"
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10 MB
+const SUPPORTED_EXTENSIONS = [".csv", ".xlsx"]
+
+// Multipart form: `file`, plus `dataSource` and a JSON `mapping` to import.
+// Without a mapping the route only previews headers, sample rows and a suggested mapping.
+// Rows belong to the importer's organisation; platform admins may send `reference=true` to share them with all.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const reference = formData.get("reference") === "true"
+
+    if (reference && !user.platformAdmin) {
+      return NextResponse.json(
+        { error: "Only platform admins can import reference transactions" },
+        { status: 403 }
+      )
+    }
+
+    if (!reference && (!user.organizationId || !hasRole(user, "VALUER", "ADMIN"))) {
+      return NextResponse.json(
+        { error: "Only valuers and admins of an organisation can import transactions" },
+        { status: 403 }
+      )
+    }
+
+    const file = formData.get("file")
+    const dataSource = String(formData.get("dataSource") || "").trim()
+    const mappingField = formData.get("mapping")
+    const dryRun = formData.get("dryRun") === "true"
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A CSV or XLSX file is required" },
+        { status: 400 }
+      )
+    }
+
+    if (!SUPPORTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported: ${SUPPORTED_EXTENSIONS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File exceeds the 10 MB import limit" },
+        { status: 400 }
+      )
+    }
+
+    let parsed
+    try {
+      parsed = await parseSpreadsheet(await file.arrayBuffer(), file.name)
+    } catch (parseError) {
+      console.error("Error parsing import file:", parseError)
+      return NextResponse.json(
+        { error: "Could not read the spreadsheet. Check that the file is a valid CSV or XLSX." },
+        { status: 400 }
+      )
+    }
+
+    if (!mappingField) {
+      return NextResponse.json({
+        success: true,
+        preview: {
+          headers: parsed.headers,
+          sampleRows: parsed.rows.slice(0, 5),
+          totalRows: parsed.rows.length,
+          fields: COMPARABLE_IMPORT_FIELDS.map(({ field, label, required }) => ({ field, label, required })),
+          suggestedMapping: suggestColumnMapping(parsed.headers)
+        }
+      })
+    }
+
+    if (!dataSource) {
+      return NextResponse.json(
+        { error: "Data source is required to import transactions" },
+        { status: 400 }
+      )
+    }
+
+    let mapping: ColumnMapping
+    try {
+      mapping = JSON.parse(String(mappingField))
+    } catch {
+      return NextResponse.json(
+        { error: "Column mapping must be valid JSON" },
+        { status: 400 }
+      )
+    }
+
+    const unknownColumns = Object.values(mapping).filter(column => column && !parsed.headers.includes(column))
+    const missingFields = COMPARABLE_IMPORT_FIELDS
+      .filter(({ field, required }) => required && !mapping[field])
+      .map(({ label }) => label)
+
+    if (unknownColumns.length > 0 || missingFields.length > 0) {
+      return NextResponse.json(
+        {
+          error: [
+            unknownColumns.length > 0 ? `Unknown columns: ${unknownColumns.join(", ")}` : null,
+            missingFields.length > 0 ? `Unmapped required fields: ${missingFields.join(", ")}` : null
+          ].filter(Boolean).join(". ")
+        },
+        { status: 400 }
+      )
+    }
+
+    const report = await importComparableRows(parsed, mapping, dataSource, {
+      importedById: user.id,
+      organizationId: reference ? null : user.organizationId,
+      accessFilter: propertyAccessFilter(user)
+    }, dryRun)
+
+    return NextResponse.json({
+      success: true,
+      report
+    })
+
+  } catch (error) {
+    console.error("Error importing comparables:", error)
+    return NextResponse.json(
+      { error: "Failed to import comparable transactions" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,114 @@
 import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
 import { db } from "@/lib/db"
-import ZAI from "z-ai-web-dev-sdk"
+import { generateStructured } from "@/lib/ai-client"
+import { financialNarrativeSchema, FinancialNarrativeResponse } from "@/lib/ai-schemas"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import {
+  analyseInvestment,
+  buildProForma,
+  coverageRisk,
+  DEFAULT_INTEREST_RATE,
+  DEFAULT_LOAN_TERM,
+  DEFAULT_OPERATING_EXPENSE_RATIO,
+  DEFAULT_VACANCY_RATE,
+  estimateGrossRent,
+  InvestmentMetrics,
+  ProFormaAssumptions,
+  ProFormaYear,
+  RiskLevel,
+  runScenarios,
+  STANDARD_SCENARIOS,
+  stressTest,
+  StressTest
+} from "@/lib/finance"
+import { defaultDistributions, MAX_SIMULATION_ITERATIONS, simulate, SimulationResult } from "@/lib/finance-simulation"
+import {
+  floatingRate,
+  LoanProductDefinition,
+  loanProductAccessFilter,
+  maxLoanToValue,
+  productEligibilityIssues,
+  productLoanTerms,
+  toLoanProductDefinition,
+  upfrontFees
+} from "@/lib/loan-products"
+import { BORROWER_TYPES, LoanSizingError, LoanSizingResult, LtvRule, resolveLoanAmount, sizeLoan } from "@/lib/loan-sizing"
+import { findLtvRules } from "@/lib/ltv-rules"
+import { findRegionalTaxRates } from "@/lib/regional-tax"
+import {
+  acquisitionCosts,
+  annualPropertyTax,
+  CostItem,
+  dispositionCosts,
+  RegionalTaxRates,
+  sellingCostRate,
+  totalCost
+} from "@/lib/transaction-costs"
 
-interface FinancialModelRequest {
-  propertyId: string
+const distributionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("fixed"), value: z.number() }),
+  z.object({ type: z.literal("uniform"), min: z.number(), max: z.number() }),
+  z.object({ type: z.literal("triangular"), min: z.number(), mode: z.number(), max: z.number() }),
+  z.object({ type: z.literal("normal"), mean: z.number(), sd: z.number().nonnegative(), min: z.number().optional(), max: z.number().optional() })
+])
+
+// Any distribution left out is centred on the modelled input
+const simulationSchema = z.object({
+  iterations: z.number().int().min(100).max(MAX_SIMULATION_ITERATIONS).optional(),
+  seed: z.number().int().optional(),
+  dscrCovenant: z.number().positive().optional(),
+  maxLoanToValue: z.number().positive().max(1).optional(), // defaults to the cap the loan was sized under
+  distributions: z.object({
+    interestRate: distributionSchema,
+    rentChange: distributionSchema,
+    vacancyRate: distributionSchema,
+    operatingExpenseRatio: distributionSchema,
+    exitValueChange: distributionSchema
+  }).partial().optional()
+})
+
+// Sizing inputs; without income figures the loan is sized on LTV and DSCR only
+const borrowerSchema = z.object({
+  type: z.enum(BORROWER_TYPES).default("INDIVIDUAL"),
+  facility: z.union([z.literal(1), z.literal(2), z.literal(3)]).default(1),
+  monthlyIncome: z.number().positive().optional(),
+  existingMonthlyDebt: z.number().nonnegative().optional(),
+  dscrTarget: z.number().min(1).max(3).optional()
+})
+
+const transactionSchema = z.object({
+  newBuild: z.boolean().optional(),
+  simpleHouse: z.boolean().optional(),
+  notaryRate: z.number().min(0).max(0.01).optional(),
+  agentRate: z.number().min(0).max(0.1).optional()
+})
+
+const financialModelRequestSchema = z.object({
+  propertyId: z.string().min(1, "Property ID is required"),
+  loanAmount: z.number().positive().optional(), // modelled as requested within the sizing limit
+  interestRate: z.number().positive().max(50).default(DEFAULT_INTEREST_RATE),
+  loanTerm: z.number().int().min(1).max(40).default(DEFAULT_LOAN_TERM),
+  includeStressTest: z.boolean().default(true),
+  scenarios: z.array(z.string()).default(["Base Case", "Optimistic", "Pessimistic"]),
+  simulation: simulationSchema.optional(),
+  loanProductId: z.string().optional(),
+  borrower: borrowerSchema.default({ type: "INDIVIDUAL", facility: 1 }),
+  transaction: transactionSchema.default({})
+})
+
+interface FinancialModelOptions {
   loanAmount?: number
-  interestRate?: number
-  loanTerm?: number
-  includeStressTest?: boolean
-  scenarios?: string[]
+  interestRate: number
+  loanTerm: number
+  includeStressTest: boolean
+  scenarios: string[]
+  simulation?: z.infer<typeof simulationSchema>
+  loanProduct?: LoanProductDefinition
+  borrower: z.infer<typeof borrowerSchema>
+  transaction: z.infer<typeof transactionSchema>
+  regionalTax: RegionalTaxRates
+  ltvRules: LtvRule[]
 }
 
 interface FinancialModelResult {
@@ -17,23 +117,185 @@ interface FinancialModelResult {
   estimatedRoi: number
   cashFlow: number
   capRate: number
-  stressTestResults: any
-  scenarioAnalysis: any[]
+  stressTestResults?: {
+    interestRateShock: number
+    rentalDecline: number
+    valueDecline: number
+    impact: RiskLevel
+    tests: StressTest[]
+    simulation: SimulationResult
+  }
+  scenarioAnalysis: Array<{
+    name: string
+    description: string
+    roi: number
+    cashFlow: number
+    probability: number
+  }>
   recommendedLoanAmount: number
-  riskAssessment: any
+  loanSizing: LoanSizingResult
+  transactionCosts: {
+    items: CostItem[]
+    acquisition: number
+    annualPropertyTax: number
+    disposition: number // at the projected exit price
+  }
+  riskAssessment: {
+    overallRisk: RiskLevel
+    summary: string
+    factors: string[]
+    mitigation: string[]
+  }
+  projection: InvestmentMetrics & {
+    loanAmount: number
+    monthlyPayment: number
+    proForma: ProFormaYear[]
+    loanProduct?: {
+      id: string
+      name: string
+      lender: string
+      rateTiers: LoanProductDefinition["rateTiers"]
+      floatingRate: number
+      upfrontFees: number
+    }
+  }
 }
 
-async function generateAIFinancialModel(propertyData: any, valuationData: any, options: any): Promise<FinancialModelResult> {
-  try {
-    const zai = await ZAI.create()
+// Figures only; the narrative fields of riskAssessment are filled in afterwards
+type CalculatedFinancialModel = Omit<FinancialModelResult, "riskAssessment"> & { overallRisk: RiskLevel }
+
+// Used when the property has not been valued yet
+const DEFAULT_PROPERTY_VALUE = 1000000000
+
+const formatIdr = (value: number) => Math.round(value).toLocaleString('id-ID')
+
+// Every figure comes from the shared finance engine; the model only sees the results
+function calculateFinancialModel(propertyData: any, valuationData: any, options: FinancialModelOptions): CalculatedFinancialModel {
+  const estimatedValue = valuationData?.estimatedValue || DEFAULT_PROPERTY_VALUE
+  // A product's fixed tiers and floating rate replace the flat rate
+  const loanTerms = options.loanProduct
+    ? productLoanTerms(options.loanProduct, 0, options.loanTerm)
+    : { principal: 0, annualRate: options.interestRate / 100, years: options.loanTerm }
+
+  // The valuation stands in for the purchase price; taxes follow the property's region
+  const costInputs = { ...options.transaction, njop: propertyData.njop, regional: options.regionalTax }
+  const acquisitionItems = acquisitionCosts({ ...costInputs, price: estimatedValue })
+  const propertyTax = annualPropertyTax({ ...costInputs, price: estimatedValue })
+
+  const income = {
+    propertyValue: estimatedValue,
+    grossPotentialRent: estimateGrossRent(estimatedValue, propertyData.assetType, propertyData.monthlyRent),
+    vacancyRate: propertyData.vacancyRate ?? DEFAULT_VACANCY_RATE,
+    operatingExpenseRatio: propertyData.operatingExpenseRatio ?? DEFAULT_OPERATING_EXPENSE_RATIO,
+    propertyTax: propertyTax.amount
+  }
+
+  // The recommended loan is the most a lender would advance; an explicit amount is modelled as requested within it
+  const loanSizing = sizeLoan({
+    propertyValue: estimatedValue,
+    assetType: propertyData.assetType,
+    borrowerType: options.borrower.type,
+    facility: options.borrower.facility,
+    buildingSize: propertyData.buildingSize,
+    productMaxLoanToValue: options.loanProduct && maxLoanToValue(options.loanProduct, propertyData.assetType),
+    ltvRules: options.ltvRules,
+    sharia: options.loanProduct?.productType === "KPR_SYARIAH",
+    loan: loanTerms,
+    netOperatingIncome: buildProForma({ ...income, loan: loanTerms, holdYears: 1 })[0].netOperatingIncome,
+    dscrTarget: options.borrower.dscrTarget,
+    monthlyIncome: options.borrower.monthlyIncome,
+    existingMonthlyDebt: options.borrower.existingMonthlyDebt
+  })
+  const loanAmount = resolveLoanAmount(options.loanAmount, loanSizing)
+
+  const assumptions: ProFormaAssumptions = {
+    ...income,
+    loan: { ...loanTerms, principal: loanAmount },
+    // Taxes, fees and any product fees come out of the borrower's equity
+    acquisitionCosts: totalCost(acquisitionItems) + (options.loanProduct ? upfrontFees(options.loanProduct, loanAmount) : 0),
+    sellingCosts: sellingCostRate(options.transaction)
+  }
+
+  const base = analyseInvestment(assumptions)
+  const { metrics } = base
+  const dispositionItems = dispositionCosts({ ...options.transaction, price: base.salePrice })
 
-    const estimatedValue = valuationData?.estimatedValue || 1000000000 // Default to 1B if not available
-    const valuePerSqm = valuationData?.valuePerSqm || 10000000 // Default to 10M/m²
+  const requested = STANDARD_SCENARIOS.filter(scenario => options.scenarios.includes(scenario.name))
+  const scenarioAnalysis = runScenarios(assumptions, requested.length > 0 ? requested : STANDARD_SCENARIOS)
+    .map(({ name, description, roi, cashFlow, probability }) => ({ name, description, roi, cashFlow, probability }))
 
+  const overallRisk = coverageRisk(metrics.debtServiceCoverage, metrics.loanToValue, loanSizing.maxLoanToValue)
+  const tests = options.includeStressTest ? stressTest(assumptions, loanSizing.maxLoanToValue) : []
+  const levels: RiskLevel[] = ["LOW", "MEDIUM", "HIGH"]
+
+  return {
+    loanToValue: metrics.loanToValue,
+    debtServiceCoverage: metrics.debtServiceCoverage,
+    estimatedRoi: metrics.cashOnCash,
+    cashFlow: metrics.cashFlow,
+    capRate: metrics.capRate,
+    stressTestResults: options.includeStressTest ? {
+      interestRateShock: options.interestRate + 3,
+      rentalDecline: 0.8,
+      valueDecline: 0.85,
+      impact: tests.reduce<RiskLevel>((worst, test) => levels.indexOf(test.impact) > levels.indexOf(worst) ? test.impact : worst, "LOW"),
+      tests,
+      simulation: simulate(
+        assumptions,
+        { ...defaultDistributions(assumptions), ...options.simulation?.distributions },
+        { ...options.simulation, maxLoanToValue: options.simulation?.maxLoanToValue ?? loanSizing.maxLoanToValue }
+      )
+    } : undefined,
+    scenarioAnalysis,
+    recommendedLoanAmount: loanSizing.maxLoanAmount,
+    loanSizing,
+    transactionCosts: {
+      items: [...acquisitionItems, propertyTax, ...dispositionItems],
+      acquisition: totalCost(acquisitionItems),
+      annualPropertyTax: propertyTax.amount,
+      disposition: totalCost(dispositionItems)
+    },
+    overallRisk,
+    projection: {
+      ...metrics,
+      loanAmount,
+      monthlyPayment: base.monthlyPayment,
+      proForma: base.proForma,
+      loanProduct: options.loanProduct && {
+        id: options.loanProduct.id,
+        name: options.loanProduct.name,
+        lender: options.loanProduct.lender,
+        rateTiers: options.loanProduct.rateTiers,
+        floatingRate: floatingRate(options.loanProduct),
+        upfrontFees: upfrontFees(options.loanProduct, loanAmount)
+      }
+    }
+  }
+}
+
+const FALLBACK_NARRATIVE: FinancialNarrativeResponse = {
+  summary: "",
+  riskFactors: [
+    "Market conditions",
+    "Interest rate risk",
+    "Property location",
+    "Asset type"
+  ],
+  mitigation: [
+    "Maintain adequate reserves",
+    "Monitor market trends",
+    "Consider fixed interest rate",
+    "Regular property maintenance"
+  ]
+}
+
+async function generateAINarrative(propertyData: any, model: CalculatedFinancialModel, options: FinancialModelOptions): Promise<FinancialNarrativeResponse> {
+  try {
     const prompt = `
     You are an expert financial analyst specializing in real estate financing and investment analysis in Indonesia.
     
-    Please analyze the following property and valuation data to create a comprehensive financial model:
+    The financial model below has already been calculated. Do not recalculate or restate different figures;
+    explain what they mean for a lender and an investor.
     
     Property Details:
     - Address: ${propertyData.address}
@@ -44,61 +306,40 @@ async function generateAIFinancialModel(propertyData: any, valuationData: any, o
     - Building Size: ${propertyData.buildingSize || 'N/A'} m²
     - Ownership Status: ${propertyData.ownershipStatus}
     
-    Valuation Data:
-    - Estimated Value: Rp ${estimatedValue.toLocaleString('id-ID')}
-    - Value per m²: Rp ${valuePerSqm.toLocaleString('id-ID')}
-    - Confidence Score: ${valuationData?.confidenceScore || 'N/A'}
-    
-    Financing Options:
-    - Loan Amount: Rp ${options.loanAmount?.toLocaleString('id-ID') || 'To be calculated'}
-    - Interest Rate: ${options.interestRate || 11}% (typical Indonesian rate)
-    - Loan Term: ${options.loanTerm || 10} years
-    - Include Stress Test: ${options.includeStressTest ? 'Yes' : 'No'}
-    - Scenarios: ${options.scenarios?.join(', ') || 'Base case only'}
+    Financing:
+    - Loan Amount: Rp ${formatIdr(model.projection.loanAmount)}
+    - Interest Rate: ${options.loanProduct
+      ? `${options.loanProduct.rateTiers.map(tier => `${(tier.annualRate * 100).toFixed(2)}% fixed for ${tier.years} years`).join(', then ')}${options.loanProduct.rateTiers.length ? ', then ' : ''}${options.interestRate.toFixed(2)}% floating (${options.loanProduct.lender} ${options.loanProduct.name})`
+      : `${options.interestRate}%`}
+    - Loan Term: ${options.loanTerm} years
+    - Monthly Payment: Rp ${formatIdr(model.projection.monthlyPayment)}
+    - Loan Sizing: ${model.loanSizing.explanation}
+    - Transaction Costs: Rp ${formatIdr(model.transactionCosts.acquisition)} on acquisition, Rp ${formatIdr(model.transactionCosts.annualPropertyTax)} PBB a year, Rp ${formatIdr(model.transactionCosts.disposition)} on sale
     
-    Please provide:
-    1. Loan-to-Value (LTV) ratio calculation
-    2. Debt Service Coverage Ratio (DSCR)
-    3. Estimated ROI
-    4. Annual cash flow projection
-    5. Capitalization rate
-    6. Stress test results (if requested)
-    7. Scenario analysis for different market conditions
-    8. Recommended loan amount
-    9. Risk assessment and mitigation strategies
+    Calculated Results (first year):
+    - Net Operating Income: Rp ${formatIdr(model.projection.netOperatingIncome)}
+    - Annual Debt Service: Rp ${formatIdr(model.projection.annualDebtService)}
+    - Cash Flow After Debt Service: Rp ${formatIdr(model.cashFlow)}
+    - LTV: ${(model.loanToValue * 100).toFixed(1)}%
+    - DSCR: ${model.debtServiceCoverage.toFixed(2)}x
+    - Cap Rate: ${(model.capRate * 100).toFixed(2)}%
+    - Cash-on-Cash: ${(model.estimatedRoi * 100).toFixed(2)}%
+    - Equity IRR over ${model.projection.proForma.length} years: ${model.projection.irr === null ? 'not defined' : `${(model.projection.irr * 100).toFixed(2)}%`}
+    - Overall Risk: ${model.overallRisk}
+    ${model.stressTestResults ? `- Stress Tests: ${model.stressTestResults.tests.map(test => `${test.description}: DSCR ${test.debtServiceCoverage.toFixed(2)}x (${test.impact})`).join('; ')}` : ''}
+    ${model.stressTestResults ? `- Simulation (${model.stressTestResults.simulation.iterations} runs): DSCR covenant breach ${(model.stressTestResults.simulation.dscrBreachProbability * 100).toFixed(1)}%, LTV breach ${(model.stressTestResults.simulation.ltvBreachProbability * 100).toFixed(1)}%` : ''}
     
     Format your response as a JSON object with the following structure:
     {
-      "loanToValue": number,
-      "debtServiceCoverage": number,
-      "estimatedRoi": number,
-      "cashFlow": number,
-      "capRate": number,
-      "stressTestResults": {
-        "interestRateShock": number,
-        "rentalDecline": number,
-        "valueDecline": number,
-        "impact": "LOW|MEDIUM|HIGH"
-      },
-      "scenarioAnalysis": [
-        {
-          "name": "string",
-          "description": "string",
-          "roi": number,
-          "cashFlow": number,
-          "probability": number
-        }
-      ],
-      "recommendedLoanAmount": number,
-      "riskAssessment": {
-        "overallRisk": "LOW|MEDIUM|HIGH",
-        "factors": ["string"],
-        "mitigation": ["string"]
-      }
+      "summary": "string",
+      "riskFactors": ["string"],
+      "mitigation": ["string"]
     }
     `
 
-    const completion = await zai.chat.completions.create({
+    const { data } = await generateStructured({
+      task: "financial-model",
+      schema: financialNarrativeSchema,
       messages: [
         {
           role: "system",
@@ -110,149 +351,59 @@ async function generateAIFinancialModel(propertyData: any, valuationData: any, o
         }
       ],
       temperature: 0.3,
-      max_tokens: 2000
+      maxTokens: 1000
     })
 
-    const responseContent = completion.choices[0]?.message?.content
-    
-    if (!responseContent) {
-      throw new Error("No response from AI")
-    }
-
-    try {
-      const financialData = JSON.parse(responseContent)
-      return financialData
-    } catch (parseError) {
-      console.error("Error parsing AI response:", parseError)
-      return generateFallbackFinancialModel(propertyData, valuationData, options)
-    }
+    return data
 
   } catch (error) {
-    console.error("Error in AI financial modeling:", error)
-    return generateFallbackFinancialModel(propertyData, valuationData, options)
+    console.error("Error in AI financial narrative:", error)
+    return FALLBACK_NARRATIVE
   }
 }
 
-function generateFallbackFinancialModel(propertyData: any, valuationData: any, options: any): FinancialModelResult {
-  const estimatedValue = valuationData?.estimatedValue || 1000000000
-  const loanAmount = options.loanAmount || (estimatedValue * 0.7) // 70% LTV default
-  const interestRate = options.interestRate || 11 // 11% typical Indonesian rate
-  const loanTerm = options.loanTerm || 10 // 10 years
-  
-  // Calculate LTV
-  const loanToValue = loanAmount / estimatedValue
-  
-  // Calculate annual loan payment (simplified)
-  const monthlyRate = interestRate / 100 / 12
-  const numPayments = loanTerm * 12
-  const monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1)
-  const annualPayment = monthlyPayment * 12
-  
-  // Estimate rental income based on property type and value
-  const rentalYield = {
-    RESIDENTIAL: 0.05, // 5%
-    COMMERCIAL: 0.07,  // 7%
-    INDUSTRIAL: 0.06, // 6%
-    MIXED_USE: 0.065, // 6.5%
-    LAND_ONLY: 0.02,  // 2%
-    AGRICULTURAL: 0.03 // 3%
-  }
-  
-  const yieldRate = rentalYield[propertyData.assetType] || rentalYield.RESIDENTIAL
-  const annualRentalIncome = estimatedValue * yieldRate
-  
-  // Calculate cash flow and DSCR
-  const operatingExpenses = annualRentalIncome * 0.3 // 30% operating expenses
-  const netOperatingIncome = annualRentalIncome - operatingExpenses
-  const cashFlow = netOperatingIncome - annualPayment
-  const debtServiceCoverage = annualPayment > 0 ? netOperatingIncome / annualPayment : 0
-  
-  // Calculate ROI and Cap Rate
-  const estimatedRoi = cashFlow / loanAmount
-  const capRate = netOperatingIncome / estimatedValue
-  
-  // Generate stress test results
-  const stressTestResults = {
-    interestRateShock: interestRate + 3, // 3% rate increase
-    rentalDecline: 0.8, // 20% rental decline
-    valueDecline: 0.85, // 15% value decline
-    impact: "MEDIUM"
-  }
-  
-  // Generate scenario analysis
-  const scenarioAnalysis = [
-    {
-      name: "Base Case",
-      description: "Current market conditions",
-      roi: estimatedRoi,
-      cashFlow: cashFlow,
-      probability: 0.6
-    },
-    {
-      name: "Optimistic",
-      description: "Strong market growth",
-      roi: estimatedRoi * 1.5,
-      cashFlow: cashFlow * 1.3,
-      probability: 0.2
-    },
-    {
-      name: "Pessimistic",
-      description: "Market downturn",
-      roi: estimatedRoi * 0.5,
-      cashFlow: cashFlow * 0.7,
-      probability: 0.2
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
     }
-  ]
 
-  return {
-    loanToValue,
-    debtServiceCoverage,
-    estimatedRoi,
-    cashFlow,
-    capRate,
-    stressTestResults,
-    scenarioAnalysis,
-    recommendedLoanAmount: estimatedValue * 0.7,
-    riskAssessment: {
-      overallRisk: loanToValue > 0.8 ? "HIGH" : loanToValue > 0.6 ? "MEDIUM" : "LOW",
-      factors: [
-        "Market conditions",
-        "Interest rate risk",
-        "Property location",
-        "Asset type"
-      ],
-      mitigation: [
-        "Maintain adequate reserves",
-        "Monitor market trends",
-        "Consider fixed interest rate",
-        "Regular property maintenance"
-      ]
+    if (!hasRole(user, "VALUER", "REVIEWER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
     }
-  }
-}
 
-export async function POST(request: NextRequest) {
-  try {
-    const body: FinancialModelRequest = await request.json()
-    const { 
-      propertyId, 
-      loanAmount, 
-      interestRate = 11, 
-      loanTerm = 10, 
-      includeStressTest = true,
-      scenarios = ["Base Case", "Optimistic", "Pessimistic"]
-    } = body
-
-    if (!propertyId) {
+    const parsed = financialModelRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Property ID is required" },
+        { error: parsed.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message).join(", ") },
         { status: 400 }
       )
     }
 
+    const {
+      propertyId,
+      loanAmount,
+      interestRate,
+      loanTerm,
+      includeStressTest,
+      scenarios,
+      simulation,
+      loanProductId,
+      borrower,
+      transaction
+    } = parsed.data
+
     // Fetch property data
-    const property = await db.property.findUnique({
-      where: { id: propertyId },
+    // Only the owner's properties are visible; anything else is reported as not found
+    const property = await db.property.findFirst({
+      where: { id: propertyId, ...propertyAccessFilter(user) },
       include: {
         valuations: {
           orderBy: { valuationDate: "desc" },
@@ -270,23 +421,80 @@ export async function POST(request: NextRequest) {
 
     const latestValuation = property.valuations[0]
 
-    // Generate AI-powered financial model
-    const financialModelResult = await generateAIFinancialModel(
-      property, 
-      latestValuation, 
-      {
-        loanAmount,
-        interestRate,
-        loanTerm,
-        includeStressTest,
-        scenarios
+    let loanProduct: LoanProductDefinition | undefined
+    if (loanProductId) {
+      const product = await db.loanProduct.findFirst({
+        where: { id: loanProductId, isActive: true, ...loanProductAccessFilter(user) }
+      })
+      if (!product) {
+        return NextResponse.json(
+          { error: "Loan product not found" },
+          { status: 404 }
+        )
       }
-    )
+      loanProduct = toLoanProductDefinition(product)
+
+      // Without an explicit amount the loan is sized within the product's LTV cap
+      const issues = productEligibilityIssues(
+        loanProduct,
+        property.assetType,
+        loanAmount ?? 0,
+        latestValuation?.estimatedValue || DEFAULT_PROPERTY_VALUE,
+        loanTerm
+      )
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: issues.join("; ") },
+          { status: 400 }
+        )
+      }
+    }
+
+    const options = {
+      loanAmount,
+      // With a product the flat rate is its floating rate; rate shocks and simulations move it and the fixed tiers together
+      interestRate: loanProduct ? floatingRate(loanProduct) * 100 : interestRate,
+      loanTerm,
+      includeStressTest,
+      scenarios,
+      simulation,
+      loanProduct,
+      borrower,
+      transaction,
+      regionalTax: await findRegionalTaxRates(property.province, property.city),
+      ltvRules: (await findLtvRules()).rules
+    }
+
+    let calculated: CalculatedFinancialModel
+    try {
+      calculated = calculateFinancialModel(property, latestValuation, options)
+    } catch (sizingError) {
+      if (sizingError instanceof LoanSizingError) {
+        return NextResponse.json(
+          { error: sizingError.message },
+          { status: 400 }
+        )
+      }
+      throw sizingError
+    }
+    const { overallRisk, ...model } = calculated
+    const narrative = await generateAINarrative(property, { overallRisk, ...model }, options)
+
+    const financialModelResult: FinancialModelResult = {
+      ...model,
+      riskAssessment: {
+        overallRisk,
+        summary: narrative.summary,
+        factors: narrative.riskFactors,
+        mitigation: narrative.mitigation
+      }
+    }
 
     // Save financial model to database
     const financialModel = await db.financialModel.create({
       data: {
         propertyId,
+        valuationId: latestValuation?.id,
         loanToValue: financialModelResult.loanToValue,
         debtServiceCoverage: financialModelResult.debtServiceCoverage,
         estimatedRoi: financialModelResult.estimatedRoi,
@@ -295,7 +503,10 @@ export async function POST(request: NextRequest) {
         stressTestResults: JSON.stringify(financialModelResult.stressTestResults),
         scenarioAnalysis: JSON.stringify(financialModelResult.scenarioAnalysis),
         recommendedLoanAmount: financialModelResult.recommendedLoanAmount,
-        riskAssessment: JSON.stringify(financialModelResult.riskAssessment)
+        riskAssessment: JSON.stringify(financialModelResult.riskAssessment),
+        loanSizing: JSON.stringify(financialModelResult.loanSizing),
+        transactionCosts: JSON.stringify(financialModelResult.transactionCosts),
+        loanProductId: loanProduct?.id
       }
     })
 
@@ -311,7 +522,10 @@ export async function POST(request: NextRequest) {
         stressTestResults: financialModelResult.stressTestResults,
         scenarioAnalysis: financialModelResult.scenarioAnalysis,
         recommendedLoanAmount: financialModel.recommendedLoanAmount,
-        riskAssessment: financialModelResult.riskAssessment
+        loanSizing: financialModelResult.loanSizing,
+        transactionCosts: financialModelResult.transactionCosts,
+        riskAssessment: financialModelResult.riskAssessment,
+        projection: financialModelResult.projection
       }
     })
 
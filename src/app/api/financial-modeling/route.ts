@@ -1,25 +1,138 @@
 import { NextRequest, NextResponse } from "next/server";
-import ZAI from 'z-ai-web-dev-sdk';
-
-interface FinancialModelingRequest {
-  propertyValue: number;
-  landSize: number;
-  assetType: string;
-  location: string;
-  scenarioType: 'conservative' | 'moderate' | 'aggressive';
-  loanAmount?: number;
-  interestRate?: number;
-  loanTerm?: number;
-}
+import { z } from 'zod';
+import { generateStructured } from '@/lib/ai-client';
+import { financialNarrativeSchema, FinancialNarrativeResponse } from '@/lib/ai-schemas';
+import { getSessionUserId } from '@/lib/auth';
+import { CAP_RATES } from '@/lib/valuation-approaches';
+import { findLtvLimit } from '@/lib/loan-sizing';
+import { findLtvRules } from '@/lib/ltv-rules';
+import {
+  applyScenario,
+  analyseInvestment,
+  coverageRisk,
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_INTEREST_RATE,
+  DEFAULT_LOAN_TERM,
+  DEFAULT_LOAN_TO_VALUE,
+  DEFAULT_OPERATING_EXPENSE_RATIO,
+  DEFAULT_VACANCY_RATE,
+  estimateGrossRent,
+  InvestmentAnalysis,
+  ProFormaAssumptions,
+  ScenarioDefinition
+} from '@/lib/finance';
+import {
+  acquisitionCosts,
+  annualPropertyTax,
+  dispositionCosts,
+  sellingCostRate,
+  totalCost
+} from '@/lib/transaction-costs';
+
+const SCENARIO_TYPES = ['conservative', 'moderate', 'aggressive'] as const;
+
+type ScenarioType = typeof SCENARIO_TYPES[number];
+
+// Percent inputs (e.g. interestRate: 11) to match the rest of the financing API
+const financialModelingRequestSchema = z.object({
+  propertyValue: z.number().positive(),
+  landSize: z.number().positive(),
+  assetType: z.string().min(1),
+  location: z.string().min(1),
+  scenarioType: z.enum(SCENARIO_TYPES).default('moderate'),
+  loanAmount: z.number().nonnegative().optional(),
+  interestRate: z.number().min(0).max(100).optional(),
+  loanTerm: z.number().int().min(1).max(40).optional(),
+  monthlyRent: z.number().positive().optional(),
+  holdYears: z.number().int().min(5).max(20).default(10),
+  discountRate: z.number().positive().max(100).optional(),
+  exitCapRate: z.number().positive().max(100).optional(),
+  // Defaults to PPh final plus agent commission when omitted
+  sellingCosts: z.number().min(0).max(20).optional(),
+  njop: z.number().positive().optional(),
+  newBuild: z.boolean().default(false)
+});
+
+// Each case moves the going-in rent, vacancy, growth, capex reserve and exit yield together
+const ASSUMPTION_SETS: Record<ScenarioType, ScenarioDefinition & { assumptions: string[] }> = {
+  conservative: {
+    name: 'conservative',
+    description: 'Softer rents, higher vacancy and a wider exit yield',
+    probability: 0.25,
+    rentChange: -0.1,
+    vacancyChange: 0.05,
+    rateChange: 0.01,
+    rentGrowth: 0.02,
+    valueGrowth: 0,
+    capexReserve: 0.05,
+    exitCapRateChange: 0.01,
+    assumptions: [
+      'Going-in rent 10% below market',
+      'Vacancy 5 points above the base rate',
+      'Rents grow 2% a year',
+      'Capex reserve of 5% of effective gross income',
+      'Exit yield 1 point above the going-in cap rate',
+      'Interest rate 1 point higher'
+    ]
+  },
+  moderate: {
+    name: 'moderate',
+    description: 'Market rent and vacancy with inflation-level growth',
+    probability: 0.5,
+    rentChange: 0,
+    vacancyChange: 0,
+    rateChange: 0,
+    rentGrowth: 0.04,
+    valueGrowth: 0,
+    capexReserve: 0.03,
+    exitCapRateChange: 0.005,
+    assumptions: [
+      'Market rent and vacancy',
+      'Rents grow 4% a year',
+      'Capex reserve of 3% of effective gross income',
+      'Exit yield 0.5 points above the going-in cap rate'
+    ]
+  },
+  aggressive: {
+    name: 'aggressive',
+    description: 'Rents above market, tight vacancy and an exit at the going-in yield',
+    probability: 0.25,
+    rentChange: 0.1,
+    vacancyChange: -0.02,
+    rateChange: 0,
+    rentGrowth: 0.06,
+    valueGrowth: 0,
+    capexReserve: 0.02,
+    exitCapRateChange: 0,
+    assumptions: [
+      'Going-in rent 10% above market',
+      'Vacancy 2 points below the base rate',
+      'Rents grow 6% a year',
+      'Capex reserve of 2% of effective gross income',
+      'Exit at the going-in cap rate'
+    ]
+  }
+};
 
 interface FinancialScenario {
-  scenario: string;
+  scenario: ScenarioType;
   projectedValue: number;
   roi: number;
   cashFlow: number;
-  breakEven: number;
+  breakEven: number | null;
+  irr: number | null;
+  npv: number;
+  equityMultiple: number;
   riskLevel: 'low' | 'medium' | 'high';
   assumptions: string[];
+  projection: Array<{
+    year: number;
+    netOperatingIncome: number;
+    capitalReserve: number;
+    debtService: number;
+    cashFlow: number;
+    loanBalance: number;
+  }>;
 }
 
 interface FinancialMetrics {
@@ -28,184 +141,187 @@ interface FinancialMetrics {
   capRate: number;
   noi: number;
   cashOnCash: number;
-  irr: number;
+  irr: number | null;
+  npv: number;
 }
 
+// Percentages are expressed as 0-100 for this endpoint; break-even is the first year cumulative equity cash turns positive
+function toScenario(type: ScenarioType, analysis: InvestmentAnalysis, maxLoanToValue: number): FinancialScenario {
+  const { metrics } = analysis;
+  const years = analysis.proForma.length;
+  const averageCashFlow = analysis.proForma.reduce((sum, year) => sum + year.cashFlow, 0) / years;
+
+  return {
+    scenario: type,
+    projectedValue: analysis.salePrice,
+    roi: analysis.equity > 0 ? averageCashFlow / analysis.equity * 100 : 0,
+    cashFlow: metrics.cashFlow,
+    breakEven: metrics.paybackYear,
+    irr: metrics.irr === null ? null : metrics.irr * 100,
+    npv: metrics.npv,
+    equityMultiple: metrics.equityMultiple,
+    riskLevel: coverageRisk(metrics.debtServiceCoverage, metrics.loanToValue, maxLoanToValue).toLowerCase() as FinancialScenario['riskLevel'],
+    assumptions: ASSUMPTION_SETS[type].assumptions,
+    projection: analysis.proForma.map(year => ({
+      year: year.year,
+      netOperatingIncome: year.netOperatingIncome,
+      capitalReserve: year.capitalReserve,
+      debtService: year.debtService,
+      cashFlow: year.cashFlow + (year.year === years ? analysis.saleProceeds : 0),
+      loanBalance: year.loanBalance
+    }))
+  };
+}
+
+const FALLBACK_NARRATIVE: FinancialNarrativeResponse = {
+  summary: '',
+  riskFactors: [],
+  mitigation: []
+};
+
 export async function POST(request: NextRequest) {
   try {
-    const body: FinancialModelingRequest = await request.json();
-    
-    // Validate required fields
-    if (!body.propertyValue || !body.landSize || !body.assetType || !body.location) {
+    const userId = await getSessionUserId();
+    if (!userId) {
       return NextResponse.json(
-        { error: "Missing required fields: propertyValue, landSize, assetType, location" },
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = financialModelingRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ') },
         { status: 400 }
       );
     }
 
-    // Initialize ZAI SDK
-    const zai = await ZAI.create();
+    const body = parsed.data;
+    const goingInCapRate = CAP_RATES[body.assetType] || CAP_RATES.RESIDENTIAL;
+    const discountRate = body.discountRate !== undefined ? body.discountRate / 100 : DEFAULT_DISCOUNT_RATE;
+
+    // Without a province the national minimum thresholds apply
+    const costInputs = { price: body.propertyValue, njop: body.njop, newBuild: body.newBuild };
+    const acquisitionItems = acquisitionCosts(costInputs);
+    const propertyTax = annualPropertyTax(costInputs);
+    const sellingCosts = body.sellingCosts !== undefined ? body.sellingCosts / 100 : sellingCostRate(costInputs);
 
-    // Create AI prompt for financial modeling
+    const base: ProFormaAssumptions = {
+      propertyValue: body.propertyValue,
+      grossPotentialRent: estimateGrossRent(body.propertyValue, body.assetType, body.monthlyRent),
+      vacancyRate: DEFAULT_VACANCY_RATE,
+      operatingExpenseRatio: DEFAULT_OPERATING_EXPENSE_RATIO,
+      propertyTax: propertyTax.amount,
+      loan: {
+        principal: body.loanAmount ?? body.propertyValue * DEFAULT_LOAN_TO_VALUE,
+        annualRate: (body.interestRate ?? DEFAULT_INTEREST_RATE) / 100,
+        years: body.loanTerm ?? DEFAULT_LOAN_TERM
+      },
+      holdYears: body.holdYears,
+      exitCapRate: body.exitCapRate !== undefined ? body.exitCapRate / 100 : goingInCapRate,
+      sellingCosts,
+      acquisitionCosts: totalCost(acquisitionItems),
+      discountRate
+    };
+
+    const analyses = Object.fromEntries(
+      SCENARIO_TYPES.map(type => [type, analyseInvestment(applyScenario(base, ASSUMPTION_SETS[type]))])
+    ) as Record<ScenarioType, InvestmentAnalysis>;
+    // Risk is judged against the cap for an individual's first facility, as this endpoint takes no borrower details
+    const { maxLoanToValue } = findLtvLimit(body.assetType, 'INDIVIDUAL', 1, null, (await findLtvRules()).rules);
+    const scenarios = SCENARIO_TYPES.map(type => toScenario(type, analyses[type], maxLoanToValue));
+
+    const selected = analyses[body.scenarioType].metrics;
+    const metrics: FinancialMetrics = {
+      ltv: selected.loanToValue * 100,
+      dscr: selected.debtServiceCoverage,
+      capRate: selected.capRate * 100,
+      noi: selected.netOperatingIncome,
+      cashOnCash: selected.cashOnCash * 100,
+      irr: selected.irr === null ? null : selected.irr * 100,
+      npv: selected.npv
+    };
+
+    const formatPercent = (value: number | null) => value === null ? 'not defined' : `${value.toFixed(2)}%`;
+
+    // The figures are final; the model only explains them
     const financialPrompt = `
     You are an expert financial analyst specializing in Indonesian real estate investments and banking.
-    
-    Analyze the following property for financial modeling and scenario analysis:
-    
+
+    Explain the following discounted cash flow analysis for a credit committee. Do not recalculate
+    or restate different figures.
+
     Property Value: IDR ${body.propertyValue.toLocaleString('id-ID')}
     Land Size: ${body.landSize} m²
     Asset Type: ${body.assetType}
     Location: ${body.location}
-    Scenario Type: ${body.scenarioType}
-    ${body.loanAmount ? `Loan Amount: IDR ${body.loanAmount.toLocaleString('id-ID')}` : ''}
-    ${body.interestRate ? `Interest Rate: ${body.interestRate}%` : ''}
-    ${body.loanTerm ? `Loan Term: ${body.loanTerm} years` : ''}
-    
-    Provide comprehensive financial analysis including:
-    1. Loan-to-Value (LTV) ratio calculation
-    2. Debt Service Coverage Ratio (DSCR)
-    3. Capitalization Rate (Cap Rate)
-    4. Net Operating Income (NOI)
-    5. Cash-on-Cash Return
-    6. Internal Rate of Return (IRR)
-    7. Multiple scenario projections (conservative, moderate, aggressive)
-    8. Risk assessment and stress testing
-    
+    Holding Period: ${body.holdYears} years
+    Discount Rate: ${(discountRate * 100).toFixed(1)}%
+
+    ${scenarios.map(scenario => `${scenario.scenario}: IRR ${formatPercent(scenario.irr)}, NPV IDR ${Math.round(scenario.npv).toLocaleString('id-ID')}, exit value IDR ${Math.round(scenario.projectedValue).toLocaleString('id-ID')}, break-even ${scenario.breakEven ? `year ${scenario.breakEven}` : 'not reached'}, risk ${scenario.riskLevel}`).join('\n    ')}
+
+    Selected case (${body.scenarioType}): DSCR ${metrics.dscr.toFixed(2)}x, LTV ${metrics.ltv.toFixed(1)}%, cap rate ${metrics.capRate.toFixed(2)}%
+
     Provide your response in the following JSON format:
     {
-      "scenarios": [
-        {
-          "scenario": "conservative" | "moderate" | "aggressive",
-          "projectedValue": number (5-year projected value),
-          "roi": number (return on investment percentage),
-          "cashFlow": number (annual cash flow),
-          "breakEven": number (break-even period in years),
-          "riskLevel": "low" | "medium" | "high",
-          "assumptions": string[]
-        }
-      ],
-      "metrics": {
-        "ltv": number (loan-to-value percentage),
-        "dscr": number (debt service coverage ratio),
-        "capRate": number (capitalization rate percentage),
-        "noi": number (net operating income),
-        "cashOnCash": number (cash-on-cash return percentage),
-        "irr": number (internal rate of return percentage)
-      }
+      "summary": "string",
+      "riskFactors": ["string"],
+      "mitigation": ["string"]
     }
     `;
 
-    // Get AI-powered financial analysis
-    const completion = await zai.chat.completions.create({
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert financial analyst with deep knowledge of Indonesian real estate, banking regulations, and investment analysis.'
-        },
-        {
-          role: 'user',
-          content: financialPrompt
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000
-    });
-
-    // Parse the AI response
-    let financialResult;
+    let narrative: FinancialNarrativeResponse;
     try {
-      const content = completion.choices[0]?.message?.content || '{}';
-      financialResult = JSON.parse(content);
-      
-      // Validate and ensure all required fields exist
-      if (!financialResult.scenarios || !financialResult.metrics) {
-        throw new Error('Invalid financial analysis response');
-      }
-
-      // Ensure all scenarios are present
-      const requiredScenarios = ['conservative', 'moderate', 'aggressive'];
-      if (financialResult.scenarios.length < requiredScenarios.length) {
-        const existingScenarios = financialResult.scenarios.map((s: any) => s.scenario);
-        const missingScenarios = requiredScenarios.filter(s => !existingScenarios.includes(s));
-        
-        missingScenarios.forEach(scenario => {
-          const baseValue = body.propertyValue;
-          const growthMultiplier = scenario === 'conservative' ? 1.15 : scenario === 'moderate' ? 1.35 : 1.6;
-          
-          financialResult.scenarios.push({
-            scenario,
-            projectedValue: Math.floor(baseValue * growthMultiplier),
-            roi: scenario === 'conservative' ? 8 : scenario === 'moderate' ? 15 : 25,
-            cashFlow: Math.floor(baseValue * (scenario === 'conservative' ? 0.03 : scenario === 'moderate' ? 0.06 : 0.1)),
-            breakEven: scenario === 'conservative' ? 12 : scenario === 'moderate' ? 8 : 5,
-            riskLevel: scenario === 'conservative' ? 'low' : scenario === 'moderate' ? 'medium' : 'high',
-            assumptions: [`Standard ${scenario} market assumptions`]
-          });
-        });
-      }
-
-      // Ensure all metrics are present
-      financialResult.metrics = {
-        ltv: financialResult.metrics.ltv || ((body.loanAmount || 0) / body.propertyValue * 100),
-        dscr: financialResult.metrics.dscr || 1.5,
-        capRate: financialResult.metrics.capRate || 6.5,
-        noi: financialResult.metrics.noi || Math.floor(body.propertyValue * 0.06),
-        cashOnCash: financialResult.metrics.cashOnCash || 12,
-        irr: financialResult.metrics.irr || 15
-      };
-
-    } catch (parseError) {
-      // Fallback to mock data if AI response parsing fails
-      const baseValue = body.propertyValue;
-      financialResult = {
-        scenarios: [
-          {
-            scenario: 'conservative',
-            projectedValue: Math.floor(baseValue * 1.15),
-            roi: 8,
-            cashFlow: Math.floor(baseValue * 0.03),
-            breakEven: 12,
-            riskLevel: 'low',
-            assumptions: ['Conservative market growth', 'Standard rental rates']
-          },
+      const { data } = await generateStructured({
+        task: 'financial-modeling',
+        schema: financialNarrativeSchema,
+        messages: [
           {
-            scenario: 'moderate',
-            projectedValue: Math.floor(baseValue * 1.35),
-            roi: 15,
-            cashFlow: Math.floor(baseValue * 0.06),
-            breakEven: 8,
-            riskLevel: 'medium',
-            assumptions: ['Moderate market growth', 'Above-average rental rates']
+            role: 'system',
+            content: 'You are an expert financial analyst with deep knowledge of Indonesian real estate, banking regulations, and investment analysis.'
           },
           {
-            scenario: 'aggressive',
-            projectedValue: Math.floor(baseValue * 1.6),
-            roi: 25,
-            cashFlow: Math.floor(baseValue * 0.1),
-            breakEven: 5,
-            riskLevel: 'high',
-            assumptions: ['Aggressive market growth', 'Premium rental rates', 'Value-add improvements']
+            role: 'user',
+            content: financialPrompt
           }
         ],
-        metrics: {
-          ltv: ((body.loanAmount || 0) / body.propertyValue * 100),
-          dscr: 1.5,
-          capRate: 6.5,
-          noi: Math.floor(baseValue * 0.06),
-          cashOnCash: 12,
-          irr: 15
-        }
-      };
+        temperature: 0.3,
+        maxTokens: 1000
+      });
+      narrative = data;
+
+    } catch (aiError) {
+      console.error('AI financial narrative failed, returning figures only:', aiError);
+      narrative = FALLBACK_NARRATIVE;
     }
 
     return NextResponse.json({
-      ...financialResult,
+      scenarios,
+      metrics,
+      narrative,
       analysisDate: new Date().toISOString(),
       propertyDetails: {
         value: body.propertyValue,
         landSize: body.landSize,
         assetType: body.assetType,
         location: body.location
+      },
+      assumptions: {
+        holdYears: body.holdYears,
+        discountRate: discountRate * 100,
+        goingInCapRate: goingInCapRate * 100,
+        exitCapRate: (base.exitCapRate as number) * 100,
+        sellingCosts: sellingCosts * 100,
+        transactionCosts: {
+          items: [
+            ...acquisitionItems,
+            propertyTax,
+            ...(body.sellingCosts === undefined ? dispositionCosts({ price: analyses[body.scenarioType].salePrice }) : [])
+          ],
+          acquisition: totalCost(acquisitionItems),
+          annualPropertyTax: propertyTax.amount
+        }
       }
     });
 
@@ -216,4 +332,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server"
+import { FindingStatus } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import { isOpen, legalCheckInclude, summarizeFindings, toLegalCheckResponse } from "@/lib/legal-check"
+
+const findingUpdateSchema = z.object({
+  status: z.enum(FindingStatus),
+  resolutionNote: z.string().trim().min(1).max(1000).optional(),
+  evidenceDocumentId: z.string().min(1).optional()
+}).refine(
+  update => isOpen(update) || update.resolutionNote || update.evidenceDocumentId,
+  { message: "Closing a finding requires a resolution note or an evidence document", path: ["resolutionNote"] }
+).refine(
+  update => update.status !== "WAIVED" || update.resolutionNote,
+  { message: "Waiving a finding requires a resolution note", path: ["resolutionNote"] }
+)
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    if (!hasRole(user, "VALUER", "REVIEWER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
+    }
+
+    const parsed = findingUpdateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid finding update payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { status, resolutionNote, evidenceDocumentId } = parsed.data
+
+    // Accepting a finding without fixing it is a review decision, not the valuer's
+    if (status === "WAIVED" && !hasRole(user, "REVIEWER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Only reviewers can waive a finding" },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const finding = await db.legalFinding.findFirst({
+      where: { id, legalCheck: { property: propertyAccessFilter(user) } },
+      include: { legalCheck: { select: { id: true, propertyId: true } } }
+    })
+
+    if (!finding) {
+      return NextResponse.json(
+        { error: "Finding not found" },
+        { status: 404 }
+      )
+    }
+
+    if (evidenceDocumentId) {
+      const document = await db.legalDocument.findFirst({
+        where: { id: evidenceDocumentId, propertyId: finding.legalCheck.propertyId }
+      })
+      if (!document) {
+        return NextResponse.json(
+          { error: "Evidence document not found for this property" },
+          { status: 404 }
+        )
+      }
+    }
+
+    const closing = !isOpen({ status })
+
+    // The check's flags and score follow its findings, so both are written together
+    const legalCheck = await db.$transaction(async tx => {
+      await tx.legalFinding.update({
+        where: { id },
+        data: {
+          status,
+          ...(resolutionNote !== undefined && { resolutionNote }),
+          ...(evidenceDocumentId !== undefined && { evidenceDocumentId }),
+          resolvedById: closing ? user.id : null,
+          resolvedAt: closing ? new Date() : null
+        }
+      })
+
+      const findings = await tx.legalFinding.findMany({
+        where: { legalCheckId: finding.legalCheck.id }
+      })
+
+      return await tx.legalCheck.update({
+        where: { id: finding.legalCheck.id },
+        data: summarizeFindings(findings),
+        include: legalCheckInclude
+      })
+    })
+
+    return NextResponse.json({ success: true, legalCheck: toLegalCheckResponse(legalCheck) })
+
+  } catch (error) {
+    console.error("Error updating legal finding:", error)
+    return NextResponse.json(
+      { error: "Failed to update legal finding" },
+      { status: 500 }
+    )
+  }
+}
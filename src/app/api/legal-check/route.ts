@@ -1,96 +1,93 @@
 import { NextRequest, NextResponse } from "next/server"
+import { Property } from "@prisma/client"
+import { z } from "zod"
 import { db } from "@/lib/db"
-import ZAI from "z-ai-web-dev-sdk"
+import { generateStructured } from "@/lib/ai-client"
+import { legalFindingsResponseSchema } from "@/lib/ai-schemas"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import {
+  FindingInput,
+  legalCheckInclude,
+  recordLegalCheck,
+  REGISTRY_FINDING_TYPES,
+  registryFindings,
+  systemFindings,
+  toLegalCheckResponse,
+  withRegistryFacts,
+  zoningFindings
+} from "@/lib/legal-check"
+import { lookupTitle, RegistryLookupResult } from "@/lib/land-registry"
+import { assessPropertyZoning } from "@/lib/zoning-dataset"
 
-interface LegalCheckRequest {
-  propertyId: string
-  includeJakartaSatu?: boolean
-  includeSentuhTanahku?: boolean
-}
+const documentSchema = z.object({
+  documentType: z.string().trim().min(1).max(50),
+  reference: z.string().trim().min(1).max(100),
+  name: z.string().trim().min(1).max(200),
+  url: z.string().url().optional(),
+  issuedAt: z.coerce.date().optional()
+})
+
+const legalCheckRequestSchema = z.object({
+  propertyId: z.string().min(1),
+  includeLandRegistry: z.boolean().default(true),
+  documents: z.array(documentSchema).max(20).default([]) // recorded for the property before the check runs
+})
 
-interface LegalCheckResult {
-  ownershipVerified: boolean
-  certificateValid: boolean
-  zoningCompliant: boolean
-  landUsePermitted: boolean
-  encumbrances: any[]
-  disputes: any[]
-  restrictions: any[]
-  complianceScore: number
-  riskFlags: string[]
-  verificationDate: Date
-  notes?: string
+const NOT_LOOKED_UP: RegistryLookupResult = {
+  status: "NOT_CONFIGURED",
+  provider: null,
+  record: null,
+  lookupId: null,
+  cached: false,
+  fetchedAt: null
 }
 
-async function performAILegalCheck(propertyData: any, options: any): Promise<LegalCheckResult> {
+// The AI adds findings the rules and the registry cannot see; it is told what they found so it does not repeat them
+async function performAILegalAnalysis(property: Property, knownFindings: FindingInput[], registry: RegistryLookupResult) {
   try {
-    const zai = await ZAI.create()
-
     const prompt = `
     You are an expert in Indonesian property law and land registration systems, including Jakarta Satu and Sentuh Tanahku.
-    
-    Please analyze the following property data and provide a comprehensive legal verification:
-    
+
+    Please review the following property and list any legal findings:
+
     Property Details:
-    - Address: ${propertyData.address}
-    - District: ${propertyData.district}
-    - City: ${propertyData.city}
-    - Province: ${propertyData.province}
-    - Ownership Status: ${propertyData.ownershipStatus}
-    - Certificate Number: ${propertyData.certificateNumber || 'Not provided'}
-    - Zoning: ${propertyData.zoning || 'Not specified'}
-    - Land Use: ${propertyData.landUse || 'Not specified'}
-    - Asset Type: ${propertyData.assetType}
-    
-    Analysis Options:
-    - Include Jakarta Satu data: ${options.includeJakartaSatu ? 'Yes' : 'No'}
-    - Include Sentuh Tanahku data: ${options.includeSentuhTanahku ? 'Yes' : 'No'}
-    
-    Please provide:
-    1. Ownership verification status
-    2. Certificate validation
-    3. Zoning compliance check
-    4. Land use permit verification
-    5. Any encumbrances or liens
-    6. Disputes or legal issues
-    7. Usage restrictions
-    8. Overall compliance score (0-1)
-    9. Risk flags and concerns
-    
+    - Address: ${property.address}
+    - District: ${property.district}
+    - City: ${property.city}
+    - Province: ${property.province}
+    - Ownership Status: ${property.ownershipStatus}
+    - Certificate Number: ${property.certificateNumber || 'Not provided'}
+    - Certificate Expiry: ${property.certificateExpiry?.toISOString().slice(0, 10) || 'None recorded'}
+    - Zoning: ${property.zoning || 'Not specified'}
+    - Land Use: ${property.landUse || 'Not specified'}
+    - Asset Type: ${property.assetType}
+
+    Land Registry (${registry.provider || 'not consulted'}): ${registry.record ? JSON.stringify(registry.record) : registry.status}
+
+    Already recorded (do not repeat these):
+    ${knownFindings.map(finding => `- [${finding.type}/${finding.severity}] ${finding.title}`).join("\n    ") || "- None"}
+
+    Consider ownership, certificate validity, zoning, land use, encumbrances and liens (hak tanggungan),
+    disputes, usage restrictions, building permits and tax compliance.
+
     Format your response as a JSON object with the following structure:
     {
-      "ownershipVerified": boolean,
-      "certificateValid": boolean,
-      "zoningCompliant": boolean,
-      "landUsePermitted": boolean,
-      "encumbrances": [
+      "findings": [
         {
-          "type": "string",
+          "type": "OWNERSHIP|CERTIFICATE|ZONING|LAND_USE|ENCUMBRANCE|DISPUTE|RESTRICTION|PERMIT|TAX|OTHER",
+          "severity": "INFO|LOW|MEDIUM|HIGH|CRITICAL",
+          "title": "string",
           "description": "string",
-          "severity": "LOW|MEDIUM|HIGH"
+          "recommendation": "string"
         }
       ],
-      "disputes": [
-        {
-          "type": "string",
-          "description": "string",
-          "status": "ACTIVE|RESOLVED"
-        }
-      ],
-      "restrictions": [
-        {
-          "type": "string",
-          "description": "string",
-          "impact": "LOW|MEDIUM|HIGH"
-        }
-      ],
-      "complianceScore": number,
-      "riskFlags": ["string"],
       "notes": "string"
     }
     `
 
-    const completion = await zai.chat.completions.create({
+    const { data } = await generateStructured({
+      task: "legal-check",
+      schema: legalFindingsResponseSchema,
       messages: [
         {
           role: "system",
@@ -102,70 +99,122 @@ async function performAILegalCheck(propertyData: any, options: any): Promise<Leg
         }
       ],
       temperature: 0.2,
-      max_tokens: 1500
+      maxTokens: 1500
     })
 
-    const responseContent = completion.choices[0]?.message?.content
-    
-    if (!responseContent) {
-      throw new Error("No response from AI")
-    }
+    // Where the registry answered, its data stands over the model's view of the same questions
+    const findings = registry.record
+      ? data.findings.filter(finding => !REGISTRY_FINDING_TYPES.includes(finding.type))
+      : data.findings
 
-    try {
-      const legalCheckData = JSON.parse(responseContent)
-      return {
-        ...legalCheckData,
-        verificationDate: new Date()
-      }
-    } catch (parseError) {
-      console.error("Error parsing AI response:", parseError)
-      return generateFallbackLegalCheck(propertyData)
+    return {
+      findings: findings.map((finding): FindingInput => ({ ...finding, source: "AI_ANALYSIS" })),
+      notes: data.notes
     }
 
   } catch (error) {
-    console.error("Error in AI legal check:", error)
-    return generateFallbackLegalCheck(propertyData)
+    console.error("Error in AI legal analysis:", error)
+    return {
+      findings: [],
+      notes: "AI analysis unavailable; findings are limited to the recorded property data"
+    }
   }
 }
 
-function generateFallbackLegalCheck(propertyData: any): LegalCheckResult {
-  // Basic legal check logic
-  const isCertified = propertyData.ownershipStatus === "CERTIFIED"
-  const hasCertificate = !!propertyData.certificateNumber
-  
-  const riskFlags = []
-  if (!isCertified) {
-    riskFlags.push("Ownership not certified")
-  }
-  if (!hasCertificate) {
-    riskFlags.push("Certificate number missing")
-  }
-  if (!propertyData.zoning) {
-    riskFlags.push("Zoning information not provided")
-  }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    if (!hasRole(user, "VALUER", "REVIEWER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
+    }
+
+    const parsed = legalCheckRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid legal check payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { propertyId, documents, includeLandRegistry } = parsed.data
 
-  const complianceScore = isCertified && hasCertificate ? 0.8 : 0.5
-
-  return {
-    ownershipVerified: isCertified,
-    certificateValid: hasCertificate,
-    zoningCompliant: true, // Default assumption
-    landUsePermitted: true, // Default assumption
-    encumbrances: [],
-    disputes: [],
-    restrictions: [],
-    complianceScore,
-    riskFlags,
-    verificationDate: new Date(),
-    notes: "Legal check generated using fallback methodology due to AI service limitations"
+    // Only the owner's properties are visible; anything else is reported as not found
+    const property = await db.property.findFirst({
+      where: { id: propertyId, ...propertyAccessFilter(user) }
+    })
+
+    if (!property) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      )
+    }
+
+    if (documents.length > 0) {
+      await db.legalDocument.createMany({
+        data: documents.map(document => ({ ...document, propertyId }))
+      })
+    }
+
+    const registry = includeLandRegistry && (property.certificateNumber || property.parcelId)
+      ? await lookupTitle({ certificateNumber: property.certificateNumber ?? undefined, parcelId: property.parcelId ?? undefined })
+      : NOT_LOOKED_UP
+
+    const onFile = await db.legalDocument.findMany({ where: { propertyId } })
+    const facts = withRegistryFacts(property, registry.record)
+    const zoning = await assessPropertyZoning(facts)
+    const knownFindings = [
+      ...systemFindings(facts, onFile),
+      ...registryFindings(property, registry),
+      ...zoningFindings(zoning)
+    ]
+    const analysis = await performAILegalAnalysis(property, knownFindings, registry)
+
+    const legalCheck = await recordLegalCheck(
+      propertyId,
+      [...knownFindings, ...analysis.findings],
+      analysis.notes,
+      registry.lookupId
+    )
+
+    return NextResponse.json({
+      success: true,
+      legalCheck: toLegalCheckResponse(legalCheck),
+      registry: { status: registry.status, provider: registry.provider, cached: registry.cached, error: registry.error },
+      zoning,
+      documents: onFile
+    })
+
+  } catch (error) {
+    console.error("Error in legal check:", error)
+    return NextResponse.json(
+      { error: "Failed to perform legal check" },
+      { status: 500 }
+    )
   }
 }
 
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const body: LegalCheckRequest = await request.json()
-    const { propertyId, includeJakartaSatu = true, includeSentuhTanahku = true } = body
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
 
+    const propertyId = new URL(request.url).searchParams.get("propertyId")
     if (!propertyId) {
       return NextResponse.json(
         { error: "Property ID is required" },
@@ -173,9 +222,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Fetch property data
-    const property = await db.property.findUnique({
-      where: { id: propertyId }
+    const property = await db.property.findFirst({
+      where: { id: propertyId, ...propertyAccessFilter(user) },
+      include: {
+        legalChecks: { orderBy: { verificationDate: "desc" }, take: 1, include: legalCheckInclude },
+        legalDocuments: { orderBy: { createdAt: "desc" } }
+      }
     })
 
     if (!property) {
@@ -185,53 +237,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Perform AI-powered legal check
-    const legalCheckResult = await performAILegalCheck(property, {
-      includeJakartaSatu,
-      includeSentuhTanahku
-    })
-
-    // Save legal check to database
-    const legalCheck = await db.legalCheck.create({
-      data: {
-        propertyId,
-        ownershipVerified: legalCheckResult.ownershipVerified,
-        certificateValid: legalCheckResult.certificateValid,
-        zoningCompliant: legalCheckResult.zoningCompliant,
-        landUsePermitted: legalCheckResult.landUsePermitted,
-        encumbrances: JSON.stringify(legalCheckResult.encumbrances),
-        disputes: JSON.stringify(legalCheckResult.disputes),
-        restrictions: JSON.stringify(legalCheckResult.restrictions),
-        complianceScore: legalCheckResult.complianceScore,
-        riskFlags: JSON.stringify(legalCheckResult.riskFlags),
-        verificationDate: legalCheckResult.verificationDate,
-        notes: legalCheckResult.notes
-      }
-    })
+    const [latest] = property.legalChecks
+    const legalCheck = latest ? toLegalCheckResponse(latest) : null
 
     return NextResponse.json({
       success: true,
-      legalCheck: {
-        id: legalCheck.id,
-        ownershipVerified: legalCheck.ownershipVerified,
-        certificateValid: legalCheck.certificateValid,
-        zoningCompliant: legalCheck.zoningCompliant,
-        landUsePermitted: legalCheck.landUsePermitted,
-        encumbrances: legalCheckResult.encumbrances,
-        disputes: legalCheckResult.disputes,
-        restrictions: legalCheckResult.restrictions,
-        complianceScore: legalCheck.complianceScore,
-        riskFlags: legalCheckResult.riskFlags,
-        verificationDate: legalCheck.verificationDate,
-        notes: legalCheck.notes
-      }
+      legalCheck,
+      zoning: await assessPropertyZoning(withRegistryFacts(property, legalCheck?.registry?.record ?? null)),
+      documents: property.legalDocuments
     })
 
   } catch (error) {
-    console.error("Error in legal check:", error)
+    console.error("Error fetching legal check:", error)
     return NextResponse.json(
-      { error: "Failed to perform legal check" },
+      { error: "Failed to fetch legal check" },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
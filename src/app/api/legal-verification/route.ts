@@ -1,135 +0,0 @@
-import { NextRequest, NextResponse } from "next/server";
-import ZAI from 'z-ai-web-dev-sdk';
-
-interface LegalVerificationRequest {
-  location: string;
-  assetType: string;
-  propertyId?: string;
-}
-
-interface LegalRiskAssessment {
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  flags: string[];
-  recommendations: string[];
-  complianceScore: number;
-  titleStatus: 'clean' | 'disputed' | 'pending' | 'unknown';
-  zoningCompliance: 'compliant' | 'non-compliant' | 'partial' | 'unknown';
-  encumbrances: string[];
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const body: LegalVerificationRequest = await request.json();
-    
-    // Validate required fields
-    if (!body.location || !body.assetType) {
-      return NextResponse.json(
-        { error: "Missing required fields: location, assetType" },
-        { status: 400 }
-      );
-    }
-
-    // Initialize ZAI SDK
-    const zai = await ZAI.create();
-
-    // Create AI prompt for legal verification
-    const legalPrompt = `
-    You are an expert Indonesian property lawyer specializing in land title verification and regulatory compliance.
-    
-    Conduct a legal risk assessment for the following property:
-    
-    Location: ${body.location}
-    Asset Type: ${body.assetType}
-    Property ID: ${body.propertyId || 'Not provided'}
-    
-    Analyze the following legal aspects:
-    1. Land title status and potential disputes
-    2. Zoning compliance and regulatory issues
-    3. Potential encumbrances or liens
-    4. Sentuh Tanahku database integration considerations
-    5. Local land registration office (BPN) compliance
-    6. Environmental regulations and permits
-    7. Building permits and certificates
-    8. Tax compliance status
-    
-    Provide your response in the following JSON format:
-    {
-      "riskLevel": "low" | "medium" | "high" | "critical",
-      "flags": string[] (array of specific legal risk flags),
-      "recommendations": string[] (array of legal recommendations),
-      "complianceScore": number (0-100),
-      "titleStatus": "clean" | "disputed" | "pending" | "unknown",
-      "zoningCompliance": "compliant" | "non-compliant" | "partial" | "unknown",
-      "encumbrances": string[] (array of potential encumbrances)
-    }
-    `;
-
-    // Get AI-powered legal analysis
-    const completion = await zai.chat.completions.create({
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert Indonesian property lawyer with deep knowledge of land title verification, Sentuh Tanahku integration, BPN regulations, and Indonesian property law.'
-        },
-        {
-          role: 'user',
-          content: legalPrompt
-        }
-      ],
-      temperature: 0.2,
-      max_tokens: 1500
-    });
-
-    // Parse the AI response
-    let legalResult: LegalRiskAssessment;
-    try {
-      const content = completion.choices[0]?.message?.content || '{}';
-      legalResult = JSON.parse(content);
-      
-      // Validate and ensure all required fields exist
-      legalResult = {
-        riskLevel: legalResult.riskLevel || 'medium',
-        flags: legalResult.flags || ["Standard legal review required"],
-        recommendations: legalResult.recommendations || ["Consult with local property lawyer"],
-        complianceScore: legalResult.complianceScore || Math.floor(Math.random() * 30) + 70,
-        titleStatus: legalResult.titleStatus || 'unknown',
-        zoningCompliance: legalResult.zoningCompliance || 'unknown',
-        encumbrances: legalResult.encumbrances || []
-      };
-
-    } catch (parseError) {
-      // Fallback to mock data if AI response parsing fails
-      legalResult = {
-        riskLevel: 'medium',
-        flags: ["Title verification recommended", "Zoning compliance check needed"],
-        recommendations: ["Verify land certificate at BPN", "Check for outstanding taxes"],
-        complianceScore: Math.floor(Math.random() * 30) + 70,
-        titleStatus: 'unknown',
-        zoningCompliance: 'unknown',
-        encumbrances: ["Standard verification required"]
-      };
-    }
-
-    // Simulate Sentuh Tanahku integration check
-    const sentuhTanahkuStatus = {
-      integrated: true,
-      lastUpdated: new Date().toISOString(),
-      databaseStatus: "Online",
-      coverage: "Jakarta area covered"
-    };
-
-    return NextResponse.json({
-      ...legalResult,
-      sentuhTanahkuStatus,
-      assessmentDate: new Date().toISOString(),
-      nextReviewDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days from now
-    });
-
-  } catch (error) {
-    console.error('Legal verification API error:', error);
-    return NextResponse.json(
-      { error: "Internal server error during legal verification" },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from "next/server"
+import { AssetType } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { getSessionUser, requireOrganizationAdmin } from "@/lib/auth"
+import {
+  LOAN_PRODUCT_TYPES,
+  loanProductAccessFilter,
+  maxLoanToValue,
+  toLoanProductDefinition
+} from "@/lib/loan-products"
+
+// Rates and fees are decimals, e.g. 0.0375 for 3.75%
+const rate = z.number().min(0).max(1)
+
+const productFields = {
+  name: z.string().trim().min(1).max(100),
+  lender: z.string().trim().min(1).max(100),
+  productType: z.enum(LOAN_PRODUCT_TYPES),
+  rateTiers: z.array(z.object({
+    years: z.number().positive().max(30),
+    annualRate: rate
+  })).max(5),
+  referenceRate: rate,
+  floatingMargin: z.number().min(-0.1).max(0.2),
+  maxTenorYears: z.number().int().min(1).max(35),
+  maxLoanToValue: z.partialRecord(z.enum(AssetType), z.number().positive().max(1)),
+  provisionFee: rate.optional(),
+  adminFee: z.number().nonnegative().optional(),
+  isActive: z.boolean().optional()
+}
+
+const createProductSchema = z.object(productFields).refine(
+  product => product.rateTiers.reduce((sum, tier) => sum + tier.years, 0) <= product.maxTenorYears,
+  { message: "Fixed rate tiers cannot run past the maximum tenor", path: ["rateTiers"] }
+)
+
+const updateProductSchema = z.object({
+  id: z.string().min(1),
+  ...z.object(productFields).partial().shape
+})
+
+// Products belong to an organisation; shared products are seeded, not edited through the API
+function toProductResponse(product: Parameters<typeof toLoanProductDefinition>[0]) {
+  return {
+    ...toLoanProductDefinition(product),
+    isActive: product.isActive,
+    shared: product.organizationId === null,
+    updatedAt: product.updatedAt
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const assetType = searchParams.get("assetType")
+    const includeInactive = searchParams.get("includeInactive") === "true"
+
+    if (assetType && !(assetType in AssetType)) {
+      return NextResponse.json(
+        { error: `Unknown asset type: ${assetType}` },
+        { status: 400 }
+      )
+    }
+
+    const products = await db.loanProduct.findMany({
+      where: {
+        ...loanProductAccessFilter(user),
+        ...(!includeInactive && { isActive: true })
+      },
+      orderBy: [{ lender: "asc" }, { name: "asc" }]
+    })
+
+    // The LTV limits are JSON, so the asset type filter runs after the query
+    const visible = assetType
+      ? products.filter(product => maxLoanToValue(toLoanProductDefinition(product), assetType) !== null)
+      : products
+
+    return NextResponse.json({
+      success: true,
+      products: visible.map(toProductResponse)
+    })
+
+  } catch (error) {
+    console.error("Error fetching loan products:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch loan products" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage loan products")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = createProductSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid loan product payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { rateTiers, maxLoanToValue, ...fields } = parsed.data
+
+    const product = await db.loanProduct.create({
+      data: {
+        ...fields,
+        rateTiers: JSON.stringify(rateTiers),
+        maxLoanToValue: JSON.stringify(maxLoanToValue),
+        organizationId: admin.organizationId
+      }
+    })
+
+    return NextResponse.json({ success: true, product: toProductResponse(product) })
+
+  } catch (error) {
+    console.error("Error creating loan product:", error)
+    return NextResponse.json(
+      { error: "Failed to create loan product" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage loan products")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = updateProductSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid loan product payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { id, rateTiers, maxLoanToValue, ...fields } = parsed.data
+
+    const existing = await db.loanProduct.findFirst({
+      where: { id, organizationId: admin.organizationId }
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Loan product not found in your organisation" },
+        { status: 404 }
+      )
+    }
+
+    const tiers = rateTiers ?? toLoanProductDefinition(existing).rateTiers
+    if (tiers.reduce((sum, tier) => sum + tier.years, 0) > (fields.maxTenorYears ?? existing.maxTenorYears)) {
+      return NextResponse.json(
+        { error: "Fixed rate tiers cannot run past the maximum tenor" },
+        { status: 400 }
+      )
+    }
+
+    // Financial models keep their stored figures; edits only affect new models
+    const product = await db.loanProduct.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(rateTiers && { rateTiers: JSON.stringify(rateTiers) }),
+        ...(maxLoanToValue && { maxLoanToValue: JSON.stringify(maxLoanToValue) })
+      }
+    })
+
+    return NextResponse.json({ success: true, product: toProductResponse(product) })
+
+  } catch (error) {
+    console.error("Error updating loan product:", error)
+    return NextResponse.json(
+      { error: "Failed to update loan product" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage loan products")
+    if (admin instanceof NextResponse) return admin
+
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json(
+        { error: "Loan product ID is required" },
+        { status: 400 }
+      )
+    }
+
+    // Financial models that used the product keep their figures; their loanProductId is cleared by the relation
+    const deleted = await db.loanProduct.deleteMany({
+      where: { id, organizationId: admin.organizationId }
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Loan product not found in your organisation" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error("Error deleting loan product:", error)
+    return NextResponse.json(
+      { error: "Failed to delete loan product" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { getSessionUser, propertyAccessFilter } from "@/lib/auth"
+import { analyseHighestBestUse } from "@/lib/residual-land-value"
+import { assessPropertyZoning } from "@/lib/zoning-dataset"
+
+const unitMixSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  share: z.number().positive().max(1),
+  efficiency: z.number().positive().max(1),
+  disposal: z.enum(["SALE", "RENT"]),
+  salePricePerSqm: z.number().positive().optional(),
+  monthlyRentPerSqm: z.number().positive().optional(),
+  capRate: z.number().positive().max(0.3).optional()
+}).refine(
+  component => component.disposal === "SALE" ? !!component.salePricePerSqm : !!component.monthlyRentPerSqm,
+  { message: "Units for sale need a sale price and units to let need a rent" }
+)
+
+const scenarioSchema = z.object({
+  use: z.enum(["RESIDENTIAL", "COMMERCIAL", "MIXED_USE"]),
+  label: z.string().trim().min(1).max(100),
+  constructionCostPerSqm: z.number().positive(),
+  unitMix: z.array(unitMixSchema).min(1).max(10)
+})
+
+// Everything is optional: left out, the house scenarios and assumptions apply
+const highestBestUseSchema = z.object({
+  scenarios: z.array(scenarioSchema).min(1).max(6).optional(),
+  assumptions: z.object({
+    softCostRate: z.number().min(0).max(1),
+    disposalCostRate: z.number().min(0).max(0.2),
+    financeRate: z.number().min(0).max(0.5),
+    constructionMonths: z.number().int().min(1).max(120),
+    developerMargin: z.number().min(0).max(0.5),
+    vacancyRate: z.number().min(0).max(1),
+    operatingExpenseRatio: z.number().min(0).max(1),
+    demolitionCostPerSqm: z.number().min(0)
+  }).partial().optional(),
+  asIsValue: z.number().positive().optional() // defaults to the latest valuation
+})
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const parsed = highestBestUseSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid highest and best use payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { id } = await params
+
+    const property = await db.property.findFirst({
+      where: { id, ...propertyAccessFilter(user) },
+      include: { valuations: { orderBy: { valuationDate: "desc" }, take: 1 } }
+    })
+
+    if (!property) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      )
+    }
+
+    // The buildable floor area comes from the zone, so without its rules there is nothing to appraise
+    const zoning = await assessPropertyZoning(property)
+    if (!zoning.assessment) {
+      return NextResponse.json(
+        {
+          error: zoning.status === "NOT_RECORDED"
+            ? "Record the property's zone before analysing its highest and best use"
+            : `Zone "${zoning.zoning}" is not in the zoning dataset`
+        },
+        { status: 409 }
+      )
+    }
+
+    const [latest] = property.valuations
+    const analysis = analyseHighestBestUse({
+      zone: zoning.assessment.zone,
+      landSize: property.landSize,
+      maxBuildableGfa: zoning.assessment.maxBuildableGfa,
+      existingBuildingSize: property.buildingSize,
+      asIsValue: parsed.data.asIsValue ?? latest?.estimatedValue,
+      assetType: property.assetType,
+      scenarios: parsed.data.scenarios,
+      assumptions: parsed.data.assumptions
+    })
+
+    return NextResponse.json({ success: true, analysis, zoning: zoning.assessment })
+
+  } catch (error) {
+    console.error("Error analysing highest and best use:", error)
+    return NextResponse.json(
+      { error: "Failed to analyse highest and best use" },
+      { status: 500 }
+    )
+  }
+}
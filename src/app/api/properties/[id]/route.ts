@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSessionUser, propertyAccessFilter } from "@/lib/auth"
+
+const parseJson = (value: string | null) => value ? JSON.parse(value) : null
+
+// Property detail with its full valuation history, oldest first
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // Other users' properties answer 404 so ids can't be probed
+    const property = await db.property.findFirst({
+      where: { id, ...propertyAccessFilter(user) },
+      include: {
+        valuations: {
+          orderBy: { valuationDate: "asc" },
+          include: { provenance: { select: { engineVersion: true, fallbackReason: true } } }
+        }
+      }
+    })
+
+    if (!property) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      )
+    }
+
+    const { valuations, ...propertyFields } = property
+
+    return NextResponse.json({
+      success: true,
+      property: {
+        ...propertyFields,
+        features: parseJson(property.features),
+        images: parseJson(property.images)
+      },
+      valuations: valuations.map(valuation => ({
+        id: valuation.id,
+        estimatedValue: valuation.estimatedValue,
+        valuePerSqm: valuation.valuePerSqm,
+        confidenceScore: valuation.confidenceScore,
+        valuationMethod: valuation.valuationMethod,
+        valuationDate: valuation.valuationDate,
+        status: valuation.status,
+        marketTrends: parseJson(valuation.marketTrends),
+        comparableAnalysis: parseJson(valuation.comparableAnalysis) || [],
+        riskFactors: parseJson(valuation.riskFactors),
+        strategicValue: parseJson(valuation.strategicValue),
+        approaches: parseJson(valuation.approachBreakdown),
+        engineVersion: valuation.provenance?.engineVersion,
+        fallbackReason: valuation.provenance?.fallbackReason,
+        notes: valuation.notes
+      }))
+    })
+
+  } catch (error) {
+    console.error("Error fetching property:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch property" },
+      { status: 500 }
+    )
+  }
+}
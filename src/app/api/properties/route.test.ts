@@ -0,0 +1,114 @@
+import { NextRequest } from "next/server"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { POST } from "@/app/api/properties/route"
+
+// A signed-in valuer creates the property; the insert is stubbed so the stored data can be inspected
+vi.mock("@/lib/auth", async importOriginal => ({
+  ...await importOriginal<typeof import("@/lib/auth")>(),
+  getSessionUser: vi.fn().mockResolvedValue({ id: "valuer-7", role: "VALUER", organizationId: "org-2", platformAdmin: false })
+}))
+vi.mock("@/lib/db", () => ({
+  db: { property: { create: vi.fn() } }
+}))
+
+const create = vi.mocked(db.property.create)
+
+// What the property form posts for a shophouse in Medan: every field as text, blanks for what was skipped
+const shophouse = {
+  address: "Jl. Pemuda 18",
+  district: "Medan Kota",
+  city: "Medan",
+  province: "Sumatera Utara",
+  postalCode: "",
+  coordinates: { lat: 3.5833, lng: 98.6833 },
+  landSize: "96",
+  buildingSize: "240",
+  assetType: "COMMERCIAL",
+  zoning: "",
+  landUse: "Ruko",
+  ownershipStatus: "CERTIFIED",
+  certificateNumber: "SHGB No. 1204/Kesawan",
+  certificateExpiry: "2041-08-17",
+  parcelId: "02.71.01.05.001204",
+  floors: "3",
+  yearBuilt: "",
+  condition: "FAIR",
+  monthlyRent: "18000000",
+  vacancyRate: "5",
+  operatingExpenseRatio: "",
+  njop: "",
+  description: "",
+  features: ["Corner unit"]
+}
+
+const post = (body: unknown) => POST(new NextRequest("http://localhost/api/properties", {
+  method: "POST",
+  body: JSON.stringify(body)
+}))
+
+describe("POST /api/properties", () => {
+  beforeEach(() => {
+    create.mockReset().mockImplementation((async ({ data }: { data: object }) => ({ id: "property-9", createdAt: new Date(), ...data })) as never)
+  })
+
+  it("stores the form's text fields as typed values", async () => {
+    const response = await post(shophouse)
+    expect(response.status).toBe(200)
+
+    const { data } = create.mock.calls[0][0]
+    expect(data).toMatchObject({
+      landSize: 96,
+      buildingSize: 240,
+      certificateExpiry: new Date("2041-08-17"),
+      parcelId: "02710105001204",
+      floors: 3,
+      vacancyRate: 0.05,
+      operatingExpenseRatio: null,
+      coordinates: JSON.stringify({ lat: 3.5833, lng: 98.6833 }),
+      features: JSON.stringify(["Corner unit"]),
+      userId: "valuer-7"
+    })
+    expect(data.yearBuilt).toBeUndefined()
+    expect(data.postalCode).toBeUndefined()
+  })
+
+  it("rejects malformed fields instead of failing on them", async () => {
+    for (const [field, value] of [
+      ["certificateExpiry", { year: 2031 }],
+      ["certificateExpiry", "next year"],
+      ["parcelId", 2710105001204],
+      ["parcelId", "02.71.01.05.0012"],
+      ["landSize", "-96"],
+      ["floors", "2.5"],
+      ["assetType", "SHOPHOUSE"],
+      ["vacancyRate", "150"]
+    ] as const) {
+      const response = await post({ ...shophouse, [field]: value })
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toMatch(new RegExp(`^${field}: `))
+    }
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  it("creates the property with an informal certificate number and reports what it lacks", async () => {
+    const response = await post({ ...shophouse, certificateNumber: "SHGB 1204", certificateExpiry: "" })
+    expect(response.status).toBe(200)
+    expect(create.mock.calls[0][0].data.certificateNumber).toBe("SHGB 1204")
+    expect((await response.json()).certificateIssues.map((issue: { title: string }) => issue.title)).toEqual([
+      "Certificate village missing",
+      "HGB expiry date not recorded"
+    ])
+  })
+
+  it("reports no certificate issues for a complete registry number", async () => {
+    const response = await post({ ...shophouse, certificateNumber: "SHGB 02.71.01.05.3.01204" })
+    expect((await response.json()).certificateIssues).toEqual([])
+  })
+
+  it("names each missing required field", async () => {
+    const response = await post({ ...shophouse, address: undefined, ownershipStatus: undefined })
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(/^address: .*, ownershipStatus: /)
+  })
+})
@@ -1,60 +1,81 @@
 import { NextRequest, NextResponse } from "next/server"
+import { AssetType, OwnershipStatus, PropertyCondition } from "@prisma/client"
+import { z } from "zod"
 import { db } from "@/lib/db"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import { assessCertificate } from "@/lib/land-certificate"
+
+// The property form posts every field as text, with blanks for what was left empty; API clients send numbers
+const optional = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => value === "" || value === null ? undefined : value, schema.optional())
+const percentage = optional(z.coerce.number().min(0).max(100))
+
+const createPropertySchema = z.object({
+  address: z.string().trim().min(1, "Address is required"),
+  district: z.string().trim().min(1, "District is required"),
+  city: z.string().trim().min(1, "City is required"),
+  province: z.string().trim().min(1, "Province is required"),
+  postalCode: optional(z.string().trim()),
+  coordinates: z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }).nullish(),
+  landSize: z.coerce.number().positive("Land size must be a positive number"),
+  buildingSize: optional(z.coerce.number().nonnegative()),
+  assetType: z.enum(AssetType),
+  zoning: optional(z.string().trim()),
+  landUse: optional(z.string().trim()),
+  ownershipStatus: z.enum(OwnershipStatus),
+  certificateNumber: optional(z.string().trim()),
+  certificateExpiry: optional(z.coerce.date("Certificate expiry must be a date")),
+  parcelId: optional(z.string()
+    .transform(value => value.replace(/\D/g, ""))
+    .refine(value => value.length === 14, "Parcel ID (NIB) must have 14 digits")),
+  floors: optional(z.coerce.number().int().positive("Floors must be a positive whole number")),
+  yearBuilt: optional(z.coerce.number().int().positive()),
+  condition: optional(z.enum(PropertyCondition)),
+  monthlyRent: optional(z.coerce.number().nonnegative()),
+  // Vacancy and operating expenses arrive as percentages
+  vacancyRate: percentage,
+  operatingExpenseRatio: percentage,
+  njop: optional(z.coerce.number().nonnegative()),
+  description: optional(z.string()),
+  features: z.array(z.string()).optional()
+})
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    
-    const {
-      address,
-      district,
-      city,
-      province,
-      postalCode,
-      coordinates,
-      landSize,
-      buildingSize,
-      assetType,
-      zoning,
-      landUse,
-      ownershipStatus,
-      certificateNumber,
-      yearBuilt,
-      condition,
-      description,
-      features,
-      userId = "default-user" // In real app, get from auth
-    } = body
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    if (!hasRole(user, "VALUER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
+    }
 
-    // Validate required fields
-    if (!address || !district || !city || !landSize || !assetType) {
+    const parsed = createPropertySchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Missing required fields" },
+        { error: parsed.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message).join(", ") },
         { status: 400 }
       )
     }
 
+    const { coordinates, vacancyRate, operatingExpenseRatio, features, ...fields } = parsed.data
+
     // Create property in database
     const property = await db.property.create({
       data: {
-        address,
-        district,
-        city,
-        province,
-        postalCode,
+        ...fields,
         coordinates: coordinates ? JSON.stringify(coordinates) : null,
-        landSize: parseFloat(landSize),
-        buildingSize: buildingSize ? parseFloat(buildingSize) : null,
-        assetType,
-        zoning,
-        landUse,
-        ownershipStatus,
-        certificateNumber,
-        yearBuilt: yearBuilt ? parseInt(yearBuilt) : null,
-        condition,
-        description,
+        vacancyRate: vacancyRate !== undefined ? vacancyRate / 100 : null,
+        operatingExpenseRatio: operatingExpenseRatio !== undefined ? operatingExpenseRatio / 100 : null,
         features: features && features.length > 0 ? JSON.stringify(features) : null,
-        userId
+        userId: user.id
       }
     })
 
@@ -68,7 +89,10 @@ export async function POST(request: NextRequest) {
         assetType: property.assetType,
         landSize: property.landSize,
         createdAt: property.createdAt
-      }
+      },
+      // A number without its village, or one that cannot be read, is kept as written; the legal check and the
+      // valuation's risk factors report it until it is corrected
+      certificateIssues: assessCertificate(property.certificateNumber, property.certificateExpiry).issues
     })
 
   } catch (error) {
@@ -82,13 +106,20 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get("userId") || "default-user"
     const limit = parseInt(searchParams.get("limit") || "10")
     const offset = parseInt(searchParams.get("offset") || "0")
 
     const properties = await db.property.findMany({
-      where: { userId },
+      where: propertyAccessFilter(user),
       include: {
         valuations: {
           orderBy: { valuationDate: "desc" },
@@ -107,7 +138,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       properties,
-      total: await db.property.count({ where: { userId } })
+      total: await db.property.count({ where: propertyAccessFilter(user) })
     })
 
   } catch (error) {
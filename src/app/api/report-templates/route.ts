@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ReportType } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { getSessionUser, requireOrganizationAdmin } from "@/lib/auth"
+import { templateAccessFilter, toTemplateDefinition } from "@/lib/report-service"
+import { REPORT_SECTIONS } from "@/lib/report-data"
+import { isReportLocale, REPORT_LOCALES } from "@/lib/report-template"
+
+const sectionSchema = z.object({
+  key: z.enum([...REPORT_SECTIONS, "custom"]),
+  title: z.string().trim().max(200).optional(),
+  intro: z.string().max(5000).optional(),
+  body: z.string().max(20000).optional()
+}).refine(section => section.key !== "custom" || section.body?.trim(), {
+  message: "Custom sections need a body"
+})
+
+const templateFields = {
+  name: z.string().trim().min(1).max(100),
+  reportType: z.enum(["VALUATION_REPORT", "LEGAL_COMPLIANCE", "FINANCIAL_ANALYSIS", "COMPREHENSIVE_ANALYSIS"]),
+  locale: z.enum(REPORT_LOCALES),
+  sections: z.array(sectionSchema).min(1),
+  logoUrl: z.string().max(500000).refine(
+    url => /^data:image\/(png|jpeg|jpg);base64,/.test(url) || /^\/[\w\-./]+\.(png|jpe?g)$/i.test(url),
+    "Logo must be a PNG or JPEG data URL or a path under public/"
+  ).nullable().optional(),
+  header: z.string().max(5000).nullable().optional(),
+  disclaimer: z.string().max(5000).nullable().optional(),
+  isDefault: z.boolean().optional()
+}
+
+const createTemplateSchema = z.object(templateFields)
+
+const updateTemplateSchema = z.object({
+  id: z.string().min(1),
+  ...z.object(templateFields).partial().shape
+})
+
+// Templates belong to an organisation; shared templates are seeded, not edited through the API
+function toTemplateResponse(template: Parameters<typeof toTemplateDefinition>[0]) {
+  return {
+    ...toTemplateDefinition(template),
+    isDefault: template.isDefault,
+    shared: template.organizationId === null,
+    updatedAt: template.updatedAt
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const reportType = searchParams.get("reportType")
+    const locale = searchParams.get("locale")
+
+    if (reportType && !(reportType in ReportType)) {
+      return NextResponse.json(
+        { error: `Unknown report type: ${reportType}` },
+        { status: 400 }
+      )
+    }
+    if (locale && !isReportLocale(locale)) {
+      return NextResponse.json(
+        { error: `Unsupported locale: ${locale}` },
+        { status: 400 }
+      )
+    }
+
+    const templates = await db.reportTemplate.findMany({
+      where: {
+        ...templateAccessFilter(user),
+        ...(reportType && { reportType: reportType as ReportType }),
+        ...(locale && { locale })
+      },
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }]
+    })
+
+    return NextResponse.json({
+      success: true,
+      templates: templates.map(toTemplateResponse)
+    })
+
+  } catch (error) {
+    console.error("Error fetching report templates:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch report templates" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage report templates")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = createTemplateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid template payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { sections, isDefault, ...fields } = parsed.data
+
+    // One default per organisation, report type and language
+    const template = await db.$transaction(async tx => {
+      if (isDefault) {
+        await tx.reportTemplate.updateMany({
+          where: { organizationId: admin.organizationId, reportType: fields.reportType, locale: fields.locale },
+          data: { isDefault: false }
+        })
+      }
+      return tx.reportTemplate.create({
+        data: {
+          ...fields,
+          sections: JSON.stringify(sections),
+          isDefault: isDefault ?? false,
+          organizationId: admin.organizationId
+        }
+      })
+    })
+
+    return NextResponse.json({ success: true, template: toTemplateResponse(template) })
+
+  } catch (error) {
+    console.error("Error creating report template:", error)
+    return NextResponse.json(
+      { error: "Failed to create report template" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage report templates")
+    if (admin instanceof NextResponse) return admin
+
+    const parsed = updateTemplateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid template payload", issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { id, sections, isDefault, ...fields } = parsed.data
+
+    const existing = await db.reportTemplate.findFirst({
+      where: { id, organizationId: admin.organizationId }
+    })
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Template not found in your organisation" },
+        { status: 404 }
+      )
+    }
+
+    const template = await db.$transaction(async tx => {
+      if (isDefault) {
+        await tx.reportTemplate.updateMany({
+          where: {
+            organizationId: admin.organizationId,
+            reportType: fields.reportType ?? existing.reportType,
+            locale: fields.locale ?? existing.locale,
+            id: { not: id }
+          },
+          data: { isDefault: false }
+        })
+      }
+      return tx.reportTemplate.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(sections && { sections: JSON.stringify(sections) }),
+          ...(isDefault !== undefined && { isDefault })
+        }
+      })
+    })
+
+    return NextResponse.json({ success: true, template: toTemplateResponse(template) })
+
+  } catch (error) {
+    console.error("Error updating report template:", error)
+    return NextResponse.json(
+      { error: "Failed to update report template" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireOrganizationAdmin("manage report templates")
+    if (admin instanceof NextResponse) return admin
+
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json(
+        { error: "Template ID is required" },
+        { status: 400 }
+      )
+    }
+
+    // Reports keep their rendered files; their templateId is cleared by the relation
+    const deleted = await db.reportTemplate.deleteMany({
+      where: { id, organizationId: admin.organizationId }
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Template not found in your organisation" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error("Error deleting report template:", error)
+    return NextResponse.json(
+      { error: "Failed to delete report template" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSessionUser, propertyAccessFilter } from "@/lib/auth"
+import { readReportFile, REPORT_CONTENT_TYPES } from "@/lib/report-storage"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    // Anyone who can see the report's property can fetch it
+    const report = await db.report.findFirst({
+      where: { id, property: propertyAccessFilter(user) }
+    })
+
+    if (!report?.fileName) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      )
+    }
+
+    const file = await readReportFile(report.fileName)
+    const extension = report.fileName.split(".").pop() || ""
+    const downloadName = `${report.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": REPORT_CONTENT_TYPES[extension] || "application/octet-stream",
+        "Content-Length": String(file.length),
+        "Content-Disposition": `attachment; filename="${downloadName}"`,
+        "Cache-Control": "private, no-store"
+      }
+    })
+
+  } catch (error) {
+    console.error("Error downloading report:", error)
+    return NextResponse.json(
+      { error: "Failed to download report" },
+      { status: 500 }
+    )
+  }
+}
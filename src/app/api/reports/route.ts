@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { Prisma, ReportType } from "@prisma/client"
+import { db } from "@/lib/db"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import { isExportable } from "@/lib/valuation-workflow"
+import { loadReportSource, resolveReportTemplate } from "@/lib/report-service"
+import { renderReportPdf } from "@/lib/report-pdf"
+import { renderReportWorkbook } from "@/lib/report-xlsx"
+import { deleteReportFile, reportDownloadUrl, saveReportFile } from "@/lib/report-storage"
+import { REPORT_SECTIONS, ReportConfig, ReportData } from "@/lib/report-data"
+import { REPORT_LOCALES, ReportTemplateDefinition } from "@/lib/report-template"
+
+type ReportRenderer = (
+  data: ReportData,
+  config: ReportConfig,
+  options: { reportId: string; generatedAt: Date; template: ReportTemplateDefinition }
+) => Promise<Buffer>
+
+const RENDERERS: Record<"PDF" | "XLSX", { extension: string; render: ReportRenderer }> = {
+  PDF: { extension: "pdf", render: renderReportPdf },
+  XLSX: { extension: "xlsx", render: renderReportWorkbook }
+}
+
+const REPORT_INCLUDE = {
+  property: { select: { id: true, address: true, district: true, city: true } },
+  valuation: { select: { id: true, status: true, valuationDate: true } },
+  user: { select: { name: true, email: true } }
+} satisfies Prisma.ReportInclude
+
+type ReportWithRelations = Prisma.ReportGetPayload<{ include: typeof REPORT_INCLUDE }>
+
+// The stored config lets the Reports Center regenerate a report with the same settings
+function toReportResponse(report: ReportWithRelations) {
+  const content = JSON.parse(report.content)
+  return {
+    id: report.id,
+    title: report.title,
+    type: report.type,
+    format: report.format,
+    generatedAt: report.generatedAt,
+    downloadUrl: report.downloadUrl,
+    fileSize: report.fileSize,
+    config: content.config,
+    property: report.property,
+    valuation: report.valuation,
+    generatedBy: report.user.name || report.user.email
+  }
+}
+
+const reportRequestSchema = z.object({
+  valuationId: z.string().min(1),
+  title: z.string().trim().min(1).max(200),
+  type: z.enum(["VALUATION_REPORT", "LEGAL_COMPLIANCE", "FINANCIAL_ANALYSIS", "COMPREHENSIVE_ANALYSIS"]),
+  format: z.enum(["PDF", "XLSX"]),
+  includeSections: z.array(z.enum(REPORT_SECTIONS)).default([...REPORT_SECTIONS]),
+  customNotes: z.string().max(5000).optional(),
+  locale: z.enum(REPORT_LOCALES).default("id"),
+  templateId: z.string().min(1).optional(),
+  financing: z.object({
+    loanAmount: z.number().nonnegative().optional(),
+    interestRate: z.number().positive().max(100).optional(),
+    loanTerm: z.number().int().min(1).max(40).optional()
+  }).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get("type")
+    const propertyId = searchParams.get("propertyId")
+    const valuationId = searchParams.get("valuationId")
+    const search = searchParams.get("search")?.trim()
+    const from = searchParams.get("from")
+    const to = searchParams.get("to")
+    const limit = parseInt(searchParams.get("limit") || "50")
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    if (type && !(type in ReportType)) {
+      return NextResponse.json(
+        { error: `Unknown report type: ${type}` },
+        { status: 400 }
+      )
+    }
+
+    const generatedAt: Prisma.DateTimeFilter = {}
+    if (from) generatedAt.gte = new Date(from)
+    if (to) {
+      // Inclusive of the whole "to" day
+      const end = new Date(to)
+      end.setDate(end.getDate() + 1)
+      generatedAt.lt = end
+    }
+    if (Object.values(generatedAt).some(date => isNaN((date as Date).getTime()))) {
+      return NextResponse.json(
+        { error: "Invalid date filter" },
+        { status: 400 }
+      )
+    }
+
+    const where: Prisma.ReportWhereInput = {
+      property: propertyAccessFilter(user),
+      ...(type && { type: type as ReportType }),
+      ...(propertyId && { propertyId }),
+      ...(valuationId && { valuationId }),
+      ...((from || to) && { generatedAt }),
+      ...(search && {
+        OR: [
+          { title: { contains: search } },
+          { property: { address: { contains: search } } },
+          { property: { district: { contains: search } } }
+        ]
+      })
+    }
+
+    const [reports, total] = await Promise.all([
+      db.report.findMany({
+        where,
+        include: REPORT_INCLUDE,
+        orderBy: { generatedAt: "desc" },
+        take: limit,
+        skip: offset
+      }),
+      db.report.count({ where })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      reports: reports.map(toReportResponse),
+      total
+    })
+
+  } catch (error) {
+    console.error("Error fetching reports:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch reports" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const parsed = reportRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues.map(issue => issue.message).join(", ") },
+        { status: 400 }
+      )
+    }
+
+    const config = parsed.data
+    const source = await loadReportSource(config.valuationId, user)
+    if (!source) {
+      return NextResponse.json(
+        { error: "Valuation not found" },
+        { status: 404 }
+      )
+    }
+
+    if (!isExportable(source.status)) {
+      return NextResponse.json(
+        { error: `Only approved valuations can be exported (current status: ${source.status})` },
+        { status: 409 }
+      )
+    }
+
+    const template = await resolveReportTemplate(config.type, config.locale, user, config.templateId)
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      )
+    }
+
+    // Snapshot the inputs so the stored file can always be traced back to what it showed
+    const report = await db.report.create({
+      data: {
+        title: config.title,
+        type: config.type,
+        format: config.format,
+        content: JSON.stringify({ config, template, data: source.data }),
+        userId: user.id,
+        propertyId: source.propertyId,
+        valuationId: source.valuationId,
+        templateId: template.id
+      }
+    })
+
+    let fileName: string | undefined
+    try {
+      const renderer = RENDERERS[config.format]
+      const file = await renderer.render(source.data, config, { reportId: report.id, generatedAt: report.generatedAt, template })
+      fileName = await saveReportFile(report.id, renderer.extension, file)
+
+      const stored = await db.report.update({
+        where: { id: report.id },
+        data: {
+          fileName,
+          fileSize: file.length,
+          downloadUrl: reportDownloadUrl(report.id)
+        },
+        include: REPORT_INCLUDE
+      })
+
+      return NextResponse.json({
+        success: true,
+        report: toReportResponse(stored)
+      })
+    } catch (renderError) {
+      // No half-finished rows: a report without its file is useless
+      if (fileName) await deleteReportFile(fileName)
+      await db.report.delete({ where: { id: report.id } })
+      throw renderError
+    }
+
+  } catch (error) {
+    console.error("Error generating report:", error)
+    return NextResponse.json(
+      { error: "Failed to generate report" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json(
+        { error: "Report ID is required" },
+        { status: 400 }
+      )
+    }
+
+    const report = await db.report.findFirst({
+      where: { id, property: propertyAccessFilter(user) }
+    })
+
+    if (!report) {
+      return NextResponse.json(
+        { error: "Report not found" },
+        { status: 404 }
+      )
+    }
+
+    // Colleagues can read each other's reports, but only the author or an admin removes one
+    if (report.userId !== user.id && !hasRole(user, "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
+    }
+
+    await db.report.delete({ where: { id } })
+    if (report.fileName) await deleteReportFile(report.fileName)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error("Error deleting report:", error)
+    return NextResponse.json(
+      { error: "Failed to delete report" },
+      { status: 500 }
+    )
+  }
+}
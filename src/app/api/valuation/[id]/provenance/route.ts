@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { db } from "@/lib/db"
+import { getSessionUser, propertyAccessFilter } from "@/lib/auth"
+
+const parseJson = (value: string | null) => value ? JSON.parse(value) : null
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+
+    const provenance = await db.valuationProvenance.findFirst({
+      where: { valuationId: id, valuation: { property: propertyAccessFilter(user) } }
+    })
+
+    if (!provenance) {
+      return NextResponse.json(
+        { error: "No provenance recorded for this valuation" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      provenance: {
+        id: provenance.id,
+        valuationId: provenance.valuationId,
+        engineVersion: provenance.engineVersion,
+        propertySnapshot: parseJson(provenance.propertySnapshot),
+        prompt: provenance.prompt,
+        aiProvider: provenance.aiProvider,
+        aiAttempts: provenance.aiAttempts,
+        rawResponse: provenance.rawResponse,
+        validationErrors: parseJson(provenance.validationErrors) || [],
+        fallbackReason: provenance.fallbackReason,
+        multipliers: parseJson(provenance.multipliers) || {},
+        comparableRecordIds: parseJson(provenance.comparableRecordIds) || [],
+        priceIndexVersion: provenance.priceIndexVersion,
+        createdAt: provenance.createdAt
+      }
+    })
+
+  } catch (error) {
+    console.error("Error fetching valuation provenance:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch valuation provenance" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { POST } from "@/app/api/valuation/[id]/review/route"
+
+// A reviewer signs off; the transaction runs against a stubbed client so a concurrent status change can be staged
+vi.mock("@/lib/auth", async importOriginal => ({
+  ...await importOriginal<typeof import("@/lib/auth")>(),
+  getSessionUser: vi.fn().mockResolvedValue({ id: "reviewer-agus", role: "REVIEWER", organizationId: "org-kjpp", platformAdmin: false })
+}))
+
+const tx = vi.hoisted(() => ({ updateMany: vi.fn(), createReview: vi.fn() }))
+vi.mock("@/lib/db", () => ({
+  db: {
+    valuation: { findFirst: vi.fn() },
+    $transaction: vi.fn(async (run: (client: unknown) => unknown) =>
+      run({ valuation: { updateMany: tx.updateMany }, valuationReview: { create: tx.createReview } }))
+  }
+}))
+
+const findValuation = vi.mocked(db.valuation.findFirst)
+
+const submitted = { id: "valuation-31", status: "SUBMITTED", userId: "valuer-rina", reviews: [] }
+
+const review = (body: unknown) => POST(
+  new NextRequest("http://localhost/api/valuation/valuation-31/review", { method: "POST", body: JSON.stringify(body) }),
+  { params: Promise.resolve({ id: "valuation-31" }) }
+)
+
+describe("POST /api/valuation/[id]/review", () => {
+  beforeEach(() => {
+    findValuation.mockReset().mockResolvedValue(submitted as never)
+    tx.updateMany.mockReset()
+    tx.createReview.mockReset()
+  })
+
+  it("moves the valuation only if it is still in the status it was reviewed in", async () => {
+    tx.updateMany.mockResolvedValue({ count: 1 })
+    findValuation.mockResolvedValueOnce(submitted as never).mockResolvedValueOnce({ ...submitted, status: "APPROVED" } as never)
+
+    const response = await review({ action: "APPROVE" })
+    expect(response.status).toBe(200)
+    expect(tx.updateMany).toHaveBeenCalledWith({
+      where: { id: "valuation-31", status: "SUBMITTED" },
+      data: { status: "APPROVED" }
+    })
+    expect(tx.createReview).toHaveBeenCalledWith({
+      data: expect.objectContaining({ reviewerId: "reviewer-agus", fromStatus: "SUBMITTED", toStatus: "APPROVED" })
+    })
+    expect((await response.json()).workflow.status).toBe("APPROVED")
+  })
+
+  it("refuses a review that lost the race to another reviewer", async () => {
+    tx.updateMany.mockResolvedValue({ count: 0 })
+
+    const response = await review({ action: "REJECT", comment: "Comparables are two years old" })
+    expect(response.status).toBe(409)
+    expect((await response.json()).error).toBe("Valuation status changed while this review was in progress")
+    expect(tx.createReview).not.toHaveBeenCalled()
+  })
+
+  it("reports a refused transition with its status", async () => {
+    findValuation.mockResolvedValue({ ...submitted, userId: "reviewer-agus" } as never)
+
+    const response = await review({ action: "APPROVE" })
+    expect(response.status).toBe(403)
+    expect(tx.updateMany).not.toHaveBeenCalled()
+  })
+
+  it("rejects an unknown action", async () => {
+    expect((await review({ action: "ESCALATE" })).status).toBe(400)
+  })
+})
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ReviewAction } from "@prisma/client"
+import { db } from "@/lib/db"
+import { getSessionUser, propertyAccessFilter, SessionUser } from "@/lib/auth"
+import { availableActions, resolveTransition, WorkflowError } from "@/lib/valuation-workflow"
+
+interface ReviewRequest {
+  action: ReviewAction
+  comment?: string
+}
+
+async function findValuation(id: string, user: SessionUser) {
+  return await db.valuation.findFirst({
+    where: { id, property: propertyAccessFilter(user) },
+    include: {
+      reviews: {
+        orderBy: { createdAt: "asc" },
+        include: { reviewer: { select: { id: true, name: true, email: true, role: true } } }
+      }
+    }
+  })
+}
+
+function toWorkflowResponse(valuation: NonNullable<Awaited<ReturnType<typeof findValuation>>>, user: SessionUser) {
+  return {
+    success: true,
+    workflow: {
+      valuationId: valuation.id,
+      status: valuation.status,
+      isAuthor: valuation.userId === user.id,
+      availableActions: availableActions(valuation, user),
+      reviews: valuation.reviews
+    }
+  }
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const valuation = await findValuation(id, user)
+
+    if (!valuation) {
+      return NextResponse.json(
+        { error: "Valuation not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(toWorkflowResponse(valuation, user))
+
+  } catch (error) {
+    console.error("Error fetching valuation workflow:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch valuation workflow" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const body: ReviewRequest = await request.json()
+    const { action, comment } = body
+
+    if (!Object.values(ReviewAction).includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${Object.values(ReviewAction).join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const valuation = await findValuation(id, user)
+
+    if (!valuation) {
+      return NextResponse.json(
+        { error: "Valuation not found" },
+        { status: 404 }
+      )
+    }
+
+    let toStatus
+    try {
+      toStatus = resolveTransition(valuation, action, user, comment)
+    } catch (workflowError) {
+      if (workflowError instanceof WorkflowError) {
+        return NextResponse.json(
+          { error: workflowError.message },
+          { status: workflowError.status }
+        )
+      }
+      throw workflowError
+    }
+
+    // Guard on the current status so two reviewers acting at once cannot both win
+    const applied = await db.$transaction(async tx => {
+      const updated = await tx.valuation.updateMany({
+        where: { id: valuation.id, status: valuation.status },
+        data: { status: toStatus }
+      })
+      if (updated.count === 0) return false
+
+      await tx.valuationReview.create({
+        data: {
+          valuationId: valuation.id,
+          reviewerId: user.id,
+          action,
+          fromStatus: valuation.status,
+          toStatus,
+          comment: comment?.trim() || null
+        }
+      })
+      return true
+    })
+
+    if (!applied) {
+      return NextResponse.json(
+        { error: "Valuation status changed while this review was in progress" },
+        { status: 409 }
+      )
+    }
+
+    const refreshed = await findValuation(id, user)
+    return NextResponse.json(toWorkflowResponse(refreshed!, user))
+
+  } catch (error) {
+    console.error("Error reviewing valuation:", error)
+    return NextResponse.json(
+      { error: "Failed to update valuation status" },
+      { status: 500 }
+    )
+  }
+}
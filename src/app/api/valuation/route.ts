@@ -1,18 +1,48 @@
 import { NextRequest, NextResponse } from "next/server"
 import { db } from "@/lib/db"
 import { ValuationService } from "@/lib/valuation-service"
+import { parseCoordinates } from "@/lib/geo"
+import { getSessionUser, hasRole, propertyAccessFilter } from "@/lib/auth"
+import {
+  analyseInvestment,
+  buildProForma,
+  coverageRisk,
+  DEFAULT_INTEREST_RATE,
+  DEFAULT_LOAN_TERM,
+  DEFAULT_OPERATING_EXPENSE_RATIO,
+  DEFAULT_VACANCY_RATE,
+  estimateGrossRent
+} from "@/lib/finance"
+import { recordLegalCheck, systemFindings, toLegalCheckResponse, zoningFindings } from "@/lib/legal-check"
+import { assessPropertyZoning } from "@/lib/zoning-dataset"
+import { sizeLoan } from "@/lib/loan-sizing"
+import { findLtvRules } from "@/lib/ltv-rules"
 
 interface ValuationRequest {
   propertyId: string
-  includeComparables?: boolean
   includeLegalCheck?: boolean
   includeFinancialModel?: boolean
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser()
+    if (!user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      )
+    }
+
+    if (!hasRole(user, "VALUER", "ADMIN")) {
+      return NextResponse.json(
+        { error: "Your role does not permit this action" },
+        { status: 403 }
+      )
+    }
+
     const body: ValuationRequest = await request.json()
-    const { propertyId, includeComparables = true, includeLegalCheck = false, includeFinancialModel = false } = body
+    const { propertyId, includeLegalCheck = false, includeFinancialModel = false } = body
 
     if (!propertyId) {
       return NextResponse.json(
@@ -22,8 +52,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch property data
-    const property = await db.property.findUnique({
-      where: { id: propertyId }
+    // Only the owner's properties are visible; anything else is reported as not found
+    const property = await db.property.findFirst({
+      where: { id: propertyId, ...propertyAccessFilter(user) }
     })
 
     if (!property) {
@@ -40,28 +71,34 @@ export async function POST(request: NextRequest) {
       district: property.district,
       city: property.city,
       province: property.province,
+      coordinates: parseCoordinates(property.coordinates),
       landSize: property.landSize,
       buildingSize: property.buildingSize || undefined,
+      floors: property.floors || undefined,
       assetType: property.assetType,
       zoning: property.zoning || undefined,
       landUse: property.landUse || undefined,
       ownershipStatus: property.ownershipStatus,
       certificateNumber: property.certificateNumber || undefined,
+      certificateExpiry: property.certificateExpiry?.toISOString(),
       yearBuilt: property.yearBuilt || undefined,
       condition: property.condition || undefined,
+      monthlyRent: property.monthlyRent ?? undefined,
+      vacancyRate: property.vacancyRate ?? undefined,
+      operatingExpenseRatio: property.operatingExpenseRatio ?? undefined,
       description: property.description || undefined,
       features: property.features ? JSON.parse(property.features) : undefined
     }
 
     // Generate AI-powered valuation using the service
     const valuationService = ValuationService.getInstance()
-    const valuationResult = await valuationService.performValuation(propertyData)
+    const valuationResult = await valuationService.performValuation(propertyData, user)
 
     // Save valuation to database
     const valuation = await db.valuation.create({
       data: {
         propertyId,
-        userId: property.userId,
+        userId: user.id,
         estimatedValue: valuationResult.estimatedValue,
         valuePerSqm: valuationResult.valuePerSqm,
         confidenceScore: valuationResult.confidenceScore,
@@ -70,67 +107,73 @@ export async function POST(request: NextRequest) {
         comparableAnalysis: JSON.stringify(valuationResult.comparableAnalysis),
         riskFactors: JSON.stringify(valuationResult.riskFactors),
         strategicValue: JSON.stringify(valuationResult.strategicValue),
-        notes: valuationResult.notes
-      }
-    })
-
-    // Save comparable properties if requested
-    if (includeComparables && valuationResult.comparableAnalysis) {
-      for (const comp of valuationResult.comparableAnalysis) {
-        await db.comparableProperty.create({
-          data: {
-            propertyId,
-            address: comp.address,
-            district: comp.district,
-            city: comp.city,
-            landSize: comp.landSize,
-            buildingSize: comp.buildingSize,
-            assetType: comp.assetType as any,
-            transactionPrice: comp.transactionPrice ? new Date() : undefined,
-            pricePerSqm: comp.pricePerSqm,
-            distance: comp.distance,
-            similarityScore: comp.similarityScore,
-            dataSource: comp.dataSource,
-            rawData: JSON.stringify(comp)
+        approachBreakdown: valuationResult.approaches ? JSON.stringify(valuationResult.approaches) : null,
+        notes: valuationResult.notes,
+        priceIndexVersionId: valuationResult.priceIndex?.versionId,
+        provenance: valuationResult.provenance && {
+          create: {
+            engineVersion: valuationResult.provenance.engineVersion,
+            propertySnapshot: JSON.stringify(valuationResult.provenance.propertySnapshot),
+            prompt: valuationResult.provenance.prompt,
+            aiProvider: valuationResult.provenance.aiProvider,
+            aiAttempts: valuationResult.provenance.aiAttempts,
+            rawResponse: valuationResult.provenance.rawResponse,
+            validationErrors: JSON.stringify(valuationResult.provenance.validationErrors),
+            fallbackReason: valuationResult.provenance.fallbackReason,
+            multipliers: JSON.stringify(valuationResult.provenance.multipliers),
+            comparableRecordIds: JSON.stringify(valuationResult.provenance.comparableRecordIds),
+            priceIndexVersion: valuationResult.provenance.priceIndexVersion
           }
-        })
+        }
       }
-    }
+    })
 
     // Perform legal check if requested
     let legalCheck = null
     if (includeLegalCheck) {
-      legalCheck = await db.legalCheck.create({
-        data: {
-          propertyId,
-          ownershipVerified: property.ownershipStatus === "CERTIFIED",
-          certificateValid: !!property.certificateNumber,
-          zoningCompliant: true, // Default to true, would integrate with Jakarta Satu in production
-          landUsePermitted: true, // Default to true, would integrate with Sentuh Tanahku in production
-          complianceScore: property.ownershipStatus === "CERTIFIED" ? 0.9 : 0.6,
-          riskFlags: JSON.stringify({
-            ownership: property.ownershipStatus === "CERTIFIED" ? null : "Ownership verification required",
-            certificate: property.certificateNumber ? null : "Certificate number missing"
-          })
-        }
-      })
+      // Rule findings only; registry lookups and the AI analysis run through /api/legal-check
+      const documents = await db.legalDocument.findMany({ where: { propertyId } })
+      const findings = [...systemFindings(property, documents), ...zoningFindings(await assessPropertyZoning(property))]
+      legalCheck = toLegalCheckResponse(await recordLegalCheck(propertyId, findings))
     }
 
     // Create financial model if requested
     let financialModel = null
     if (includeFinancialModel) {
-      const ltv = 0.7 // 70% loan-to-value ratio
-      const estimatedRoi = 0.08 // 8% estimated ROI
+      // A first facility for an individual at house terms; /api/financial-model refines this per borrower
+      const loan = { principal: 0, annualRate: DEFAULT_INTEREST_RATE / 100, years: DEFAULT_LOAN_TERM }
+      const income = {
+        propertyValue: valuationResult.estimatedValue,
+        grossPotentialRent: estimateGrossRent(valuationResult.estimatedValue, property.assetType, property.monthlyRent),
+        vacancyRate: property.vacancyRate ?? DEFAULT_VACANCY_RATE,
+        operatingExpenseRatio: property.operatingExpenseRatio ?? DEFAULT_OPERATING_EXPENSE_RATIO
+      }
+      const loanSizing = sizeLoan({
+        propertyValue: valuationResult.estimatedValue,
+        assetType: property.assetType,
+        buildingSize: property.buildingSize,
+        ltvRules: (await findLtvRules()).rules,
+        loan,
+        netOperatingIncome: buildProForma({ ...income, loan, holdYears: 1 })[0].netOperatingIncome
+      })
+      const { metrics } = analyseInvestment({ ...income, loan: { ...loan, principal: loanSizing.maxLoanAmount } })
+      const riskLevel = coverageRisk(metrics.debtServiceCoverage, metrics.loanToValue, loanSizing.maxLoanToValue)
       
       financialModel = await db.financialModel.create({
         data: {
           propertyId,
-          loanToValue: ltv,
-          estimatedRoi,
-          recommendedLoanAmount: valuationResult.estimatedValue * ltv,
+          valuationId: valuation.id,
+          loanToValue: metrics.loanToValue,
+          debtServiceCoverage: metrics.debtServiceCoverage,
+          estimatedRoi: metrics.cashOnCash,
+          cashFlow: metrics.cashFlow,
+          capRate: metrics.capRate,
+          recommendedLoanAmount: loanSizing.maxLoanAmount,
+          loanSizing: JSON.stringify(loanSizing),
           riskAssessment: JSON.stringify({
-            riskLevel: valuationResult.confidenceScore > 0.8 ? "LOW" : "MEDIUM",
-            factors: ["Market conditions", "Property location", "Asset type"]
+            // Low valuation confidence weakens the collateral behind the sized loan
+            riskLevel: riskLevel === "LOW" && valuationResult.confidenceScore <= 0.8 ? "MEDIUM" : riskLevel,
+            factors: [loanSizing.explanation, "Market conditions", "Property location", "Asset type"]
           })
         }
       })
@@ -140,15 +183,21 @@ export async function POST(request: NextRequest) {
       success: true,
       valuation: {
         id: valuation.id,
+        propertyId,
         estimatedValue: valuation.estimatedValue,
         valuePerSqm: valuation.valuePerSqm,
         confidenceScore: valuation.confidenceScore,
         valuationMethod: valuation.valuationMethod,
         valuationDate: valuation.valuationDate,
+        status: valuation.status,
         marketTrends: valuationResult.marketTrends,
         comparableAnalysis: valuationResult.comparableAnalysis,
         riskFactors: valuationResult.riskFactors,
         strategicValue: valuationResult.strategicValue,
+        priceIndex: valuationResult.priceIndex,
+        approaches: valuationResult.approaches,
+        engineVersion: valuationResult.provenance?.engineVersion,
+        fallbackReason: valuationResult.provenance?.fallbackReason,
         notes: valuation.notes
       },
       legalCheck,
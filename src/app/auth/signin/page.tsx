@@ -0,0 +1,128 @@
+"use client"
+
+import { Suspense, useState } from "react"
+import { signIn } from "next-auth/react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+
+function SignInForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const callbackUrl = searchParams.get("callbackUrl") || "/"
+
+  const [mode, setMode] = useState<"signin" | "register">("signin")
+  const [name, setName] = useState("")
+  const [organizationName, setOrganizationName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      if (mode === "register") {
+        const response = await fetch("/api/auth/register", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: name || undefined,
+            organizationName: organizationName || undefined,
+            email,
+            password
+          })
+        })
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.error || `Registration failed (${response.status})`)
+        }
+      }
+
+      const result = await signIn("credentials", { email, password, redirect: false })
+      if (!result || result.error) {
+        throw new Error("Invalid email or password")
+      }
+
+      router.push(callbackUrl)
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Sign in failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{mode === "signin" ? "Sign In" : "Create Account"}</CardTitle>
+        <CardDescription>Taksa Dana property valuation platform</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === "register" && (
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+          )}
+          {mode === "register" && (
+            <div className="space-y-2">
+              <Label htmlFor="organizationName">Organisation (optional)</Label>
+              <Input
+                id="organizationName"
+                placeholder="Creates a new organisation with you as admin"
+                value={organizationName}
+                onChange={(e) => setOrganizationName(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="password">Password</Label>
+            <Input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? "Please wait..." : mode === "signin" ? "Sign In" : "Create Account"}
+          </Button>
+          <Button
+            type="button"
+            variant="link"
+            className="w-full"
+            onClick={() => setMode(mode === "signin" ? "register" : "signin")}
+          >
+            {mode === "signin" ? "Need an account? Register" : "Already registered? Sign in"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function SignInPage() {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Suspense>
+        <SignInForm />
+      </Suspense>
+    </div>
+  )
+}
@@ -1,21 +1,44 @@
 "use client"
 
 import { useState } from "react"
+import { signOut, useSession } from "next-auth/react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { MapPin, Building2, TrendingUp, Shield, FileText, Calculator } from "lucide-react"
-import { PropertyForm } from "@/components/property-form"
+import { PropertyForm, type PropertyFormData } from "@/components/property-form"
 import { PropertyMap } from "@/components/property-map"
 import { ValuationResults } from "@/components/valuation-results"
+import { ComparableImport } from "@/components/comparable-import"
+import { ReportsCenter } from "@/components/reports-center"
+import { parseCoordinates } from "@/lib/geo"
+
+// POSTs JSON and surfaces the route's `error` message (400/404/500) as a thrown Error
+async function postJson(url: string, payload: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload)
+  })
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(`${result.error || "Request failed"} (${response.status})`)
+  }
+
+  return result
+}
 
 export default function Home() {
+  const { data: session } = useSession()
   const [activeTab, setActiveTab] = useState("dashboard")
   const [selectedProperty, setSelectedProperty] = useState<any>(null)
   const [valuationResults, setValuationResults] = useState<any>(null)
   const [isValuationLoading, setIsValuationLoading] = useState(false)
+  const [valuationAddress, setValuationAddress] = useState("")
+  const [submissionError, setSubmissionError] = useState<string | null>(null)
 
   // Mock properties data for demonstration
   const mockProperties = [
@@ -27,6 +50,7 @@ export default function Home() {
       coordinates: "-6.1588, 106.9192",
       landSize: 5000,
       assetType: "COMMERCIAL",
+      zoning: "K.1 Perkantoran",
       estimatedValue: 15200000000,
       confidenceScore: 0.92
     },
@@ -38,6 +62,7 @@ export default function Home() {
       coordinates: "-6.1934, 106.8229",
       landSize: 3200,
       assetType: "RESIDENTIAL",
+      zoning: "R.2 Rumah kepadatan sedang",
       estimatedValue: 28500000000,
       confidenceScore: 0.87
     },
@@ -49,6 +74,7 @@ export default function Home() {
       coordinates: "-6.2297, 106.8295",
       landSize: 4200,
       assetType: "MIXED_USE",
+      zoning: "C.1 Campuran",
       estimatedValue: 12800000000,
       confidenceScore: 0.95
     }
@@ -67,56 +93,26 @@ export default function Home() {
     { title: "Reports Generated", value: "156", change: "+15%", icon: FileText }
   ]
 
-  const handlePropertySubmit = async (data: any) => {
+  const handlePropertySubmit = async (data: PropertyFormData) => {
     setIsValuationLoading(true)
+    setSubmissionError(null)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Mock valuation result
-      const mockValuation = {
-        id: "val_" + Date.now(),
-        estimatedValue: data.landSize * 15000000, // 15 juta/m² base price
-        valuePerSqm: 15000000,
-        confidenceScore: 0.85,
-        valuationMethod: "AI_ENHANCED",
-        valuationDate: new Date().toISOString(),
-        marketTrends: {
-          trend: "UP",
-          description: "Property market in this area shows positive growth trends",
-          factors: ["Infrastructure development", "High demand", "Limited supply"]
-        },
-        comparableAnalysis: [
-          {
-            address: "Nearby similar property",
-            district: data.district,
-            city: data.city,
-            landSize: data.landSize * 0.95,
-            assetType: data.assetType,
-            transactionPrice: data.landSize * 15000000 * 0.95,
-            pricePerSqm: 15000000 * 0.95,
-            distance: 500,
-            similarityScore: 0.88,
-            dataSource: "Market_Data"
-          }
-        ],
-        riskFactors: {
-          overallRisk: "MEDIUM",
-          factors: ["Market volatility", "Regulatory changes"],
-          mitigation: ["Regular monitoring", "Diversification"]
-        },
-        strategicValue: {
-          highestBestUse: "Current use optimization",
-          upsidePotential: "High potential for appreciation",
-          recommendations: ["Monitor market trends", "Consider improvements"]
-        },
-        notes: "AI-generated valuation with market analysis"
-      }
+      const { images, ...propertyFields } = data
+
+      const propertyResult = await postJson("/api/properties", {
+        ...propertyFields,
+        coordinates: parseCoordinates(data.coordinates)
+      })
 
-      setValuationResults(mockValuation)
+      const valuationResult = await postJson("/api/valuation", {
+        propertyId: propertyResult.property.id
+      })
+
+      setValuationResults(valuationResult.valuation)
+      setValuationAddress(`${propertyResult.property.address}, ${propertyResult.property.district}`)
       setActiveTab("results")
     } catch (error) {
-      console.error("Valuation failed:", error)
+      setSubmissionError(error instanceof Error ? error.message : "Valuation failed")
     } finally {
       setIsValuationLoading(false)
     }
@@ -148,7 +144,13 @@ export default function Home() {
             </div>
             <div className="flex items-center space-x-4">
               <Badge variant="secondary">Beta</Badge>
+              {session?.user && (
+                <span className="text-sm text-muted-foreground">{session.user.name || session.user.email}</span>
+              )}
               <Button variant="outline" size="sm">Settings</Button>
+              <Button variant="ghost" size="sm" onClick={() => signOut({ callbackUrl: "/auth/signin" })}>
+                Sign Out
+              </Button>
             </div>
           </div>
         </div>
@@ -157,12 +159,13 @@ export default function Home() {
       {/* Main Content */}
       <main className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
-            <TabsTrigger value="valuation">New Valuation</TabsTrigger>
+            <TabsTrigger value="valuation" disabled={session?.user.role === "CREDIT_OFFICER"}>New Valuation</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="results">Results</TabsTrigger>
             <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="market-data">Market Data</TabsTrigger>
           </TabsList>
 
           {/* Dashboard Tab */}
@@ -229,9 +232,9 @@ export default function Home() {
                     <Calculator className="mr-2 h-4 w-4" />
                     Start New Valuation
                   </Button>
-                  <Button variant="outline" className="w-full justify-start">
+                  <Button variant="outline" className="w-full justify-start" onClick={() => setActiveTab("reports")}>
                     <FileText className="mr-2 h-4 w-4" />
-                    Generate Report
+                    Reports Center
                   </Button>
                   <Button variant="outline" className="w-full justify-start">
                     <TrendingUp className="mr-2 h-4 w-4" />
@@ -251,6 +254,8 @@ export default function Home() {
             <PropertyForm
               onSubmit={handlePropertySubmit}
               onSaveDraft={handleSaveDraft}
+              isSubmitting={isValuationLoading}
+              error={submissionError}
             />
           </TabsContent>
 
@@ -278,7 +283,7 @@ export default function Home() {
             ) : valuationResults ? (
               <ValuationResults
                 valuation={valuationResults}
-                propertyAddress="Submitted Property"
+                propertyAddress={valuationAddress}
               />
             ) : (
               <Card>
@@ -298,19 +303,12 @@ export default function Home() {
 
           {/* Reports Tab */}
           <TabsContent value="reports" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Generated Reports</CardTitle>
-                <CardDescription>View and download valuation reports</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <FileText className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-4 text-lg font-semibold">Reports Center</h3>
-                  <p className="text-muted-foreground">Report generation and management features coming soon</p>
-                </div>
-              </CardContent>
-            </Card>
+            <ReportsCenter />
+          </TabsContent>
+
+          {/* Market Data Tab */}
+          <TabsContent value="market-data" className="space-y-6">
+            <ComparableImport />
           </TabsContent>
         </Tabs>
       </main>
@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ArrowLeft, Building2, AlertTriangle } from "lucide-react"
+import { ValuationHistory } from "@/components/valuation-history"
+import { ValuationSnapshot } from "@/lib/valuation-diff"
+
+interface PropertyDetail {
+  id: string
+  address: string
+  district: string
+  city: string
+  province: string
+  landSize: number
+  buildingSize?: number
+  assetType: string
+  ownershipStatus: string
+}
+
+export default function PropertyDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const [property, setProperty] = useState<PropertyDetail | null>(null)
+  const [valuations, setValuations] = useState<ValuationSnapshot[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const loadProperty = async () => {
+      try {
+        const response = await fetch(`/api/properties/${id}`)
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.error || `Request failed (${response.status})`)
+        }
+        setProperty(result.property)
+        setValuations(result.valuations)
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : "Failed to load property")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadProperty()
+  }, [id])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Button variant="ghost" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading property...</p>}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Property Unavailable</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {property && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5" />
+                  {property.address}
+                </CardTitle>
+                <CardDescription>
+                  {property.district}, {property.city}, {property.province}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{property.assetType.replace(/_/g, ' ')}</Badge>
+                  <Badge variant="outline">{property.ownershipStatus.replace(/_/g, ' ')}</Badge>
+                  <Badge variant="secondary">{property.landSize.toLocaleString('id-ID')} m² land</Badge>
+                  {property.buildingSize && (
+                    <Badge variant="secondary">{property.buildingSize.toLocaleString('id-ID')} m² building</Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <ValuationHistory valuations={valuations} />
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,8 @@
+"use client";
+
+import * as React from "react";
+import { SessionProvider } from "next-auth/react";
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  return <SessionProvider>{children}</SessionProvider>;
+}
@@ -0,0 +1,288 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Upload, FileSpreadsheet, AlertTriangle, CheckCircle } from "lucide-react"
+
+interface ImportField {
+  field: string
+  label: string
+  required: boolean
+}
+
+interface ImportPreview {
+  headers: string[]
+  sampleRows: Array<Record<string, string | number>>
+  totalRows: number
+  fields: ImportField[]
+  suggestedMapping: Record<string, string>
+}
+
+interface ImportReport {
+  totalRows: number
+  imported: number
+  duplicates: number
+  geocoded: number
+  errors: Array<{ row: number; messages: string[] }>
+  dryRun: boolean
+}
+
+const UNMAPPED = "__unmapped__"
+
+export function ComparableImport() {
+  const [file, setFile] = useState<File | null>(null)
+  const [dataSource, setDataSource] = useState("")
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const submit = async (extraFields: Record<string, string>) => {
+    if (!file) return null
+
+    const formData = new FormData()
+    formData.append("file", file)
+    formData.append("dataSource", dataSource)
+    Object.entries(extraFields).forEach(([key, value]) => formData.append(key, value))
+
+    setIsWorking(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/comparables/import", { method: "POST", body: formData })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Import failed (${response.status})`)
+      }
+      return result
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Import failed")
+      return null
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null)
+    setPreview(null)
+    setReport(null)
+    setError(null)
+  }
+
+  const handlePreview = async () => {
+    const result = await submit({})
+    if (result) {
+      setPreview(result.preview)
+      setMapping(result.preview.suggestedMapping)
+      setReport(null)
+    }
+  }
+
+  const handleImport = async (dryRun: boolean) => {
+    const result = await submit({ mapping: JSON.stringify(mapping), dryRun: String(dryRun) })
+    if (result) {
+      setReport(result.report)
+    }
+  }
+
+  const handleMappingChange = (field: string, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (column === UNMAPPED) {
+        delete next[field]
+      } else {
+        next[field] = column
+      }
+      return next
+    })
+  }
+
+  const missingRequired = preview?.fields.filter(field => field.required && !mapping[field.field]) || []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Transaction Data
+          </CardTitle>
+          <CardDescription>
+            Load broker and auction transactions from CSV or XLSX into the comparable sales database
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="importFile">Spreadsheet File *</Label>
+              <Input id="importFile" type="file" accept=".csv,.xlsx" onChange={handleFileChange} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dataSource">Data Source *</Label>
+              <Input
+                id="dataSource"
+                placeholder="e.g., Broker Network Q3, Balai Lelang"
+                value={dataSource}
+                onChange={(e) => setDataSource(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" onClick={handlePreview} disabled={!file || isWorking}>
+              <Upload className="h-4 w-4 mr-2" />
+              Read Columns
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Import Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Mapping</CardTitle>
+            <CardDescription>
+              {preview.totalRows} data rows found. Match each field to a spreadsheet column.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {preview.fields.map(field => (
+                <div key={field.field} className="space-y-2">
+                  <Label>{field.label}{field.required ? " *" : ""}</Label>
+                  <Select
+                    value={mapping[field.field] || UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(field.field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Not mapped" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {preview.headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {preview.headers.map(header => <TableHead key={header}>{header}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.sampleRows.map((row, index) => (
+                    <TableRow key={index}>
+                      {preview.headers.map(header => <TableCell key={header}>{row[header]}</TableCell>)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {missingRequired.length > 0
+                  ? `Map required fields: ${missingRequired.map(field => field.label).join(", ")}`
+                  : "All required fields mapped"}
+              </span>
+              <div className="flex space-x-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleImport(true)}
+                  disabled={isWorking || missingRequired.length > 0 || !dataSource}
+                >
+                  Validate Only
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => handleImport(false)}
+                  disabled={isWorking || missingRequired.length > 0 || !dataSource}
+                >
+                  {isWorking ? "Importing..." : "Import Transactions"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="h-5 w-5" />
+              {report.dryRun ? "Validation Report" : "Import Report"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{report.totalRows}</div>
+                <div className="text-sm text-muted-foreground">Rows</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600">{report.imported}</div>
+                <div className="text-sm text-muted-foreground">{report.dryRun ? "Valid" : "Imported"}</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-yellow-600">{report.duplicates}</div>
+                <div className="text-sm text-muted-foreground">Already Imported</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-600">{report.errors.length}</div>
+                <div className="text-sm text-muted-foreground">Rejected</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.geocoded}</div>
+                <div className="text-sm text-muted-foreground">Geocoded</div>
+              </div>
+            </div>
+
+            {report.errors.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Row</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.errors.map(rowError => (
+                    <TableRow key={rowError.row}>
+                      <TableCell>
+                        <Badge variant="outline">{rowError.row}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{rowError.messages.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
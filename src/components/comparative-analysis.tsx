@@ -57,6 +57,19 @@ interface Property {
   condition?: string
   zoning?: string
   features?: string[]
+  residualAnalysis?: ResidualAnalysis // from the latest valuation's strategic value
+}
+
+interface ResidualAnalysis {
+  zoneCode: string
+  asIsValue: number | null
+  recommended: {
+    label: string
+    conditional: boolean
+    grossFloorArea: number
+    totalDevelopmentCost: number
+    residualLandValue: number
+  } | null
 }
 
 interface ComparableAnalysis {
@@ -224,19 +237,28 @@ export function ComparativeAnalysis({
 
     const recommendations: StrategicRecommendation[] = []
 
-    // Development recommendations
-    if (subjectProperty.zoning === "COMMERCIAL" && subjectProperty.assetType === "RESIDENTIAL") {
+    // Development recommendations follow the residual appraisal of the uses the zone permits
+    const redevelopment = subjectProperty.residualAnalysis?.recommended
+    if (redevelopment) {
+      const asIsValue = subjectProperty.residualAnalysis?.asIsValue
+      const uplift = asIsValue ? redevelopment.residualLandValue / asIsValue - 1 : null
       recommendations.push({
         id: "dev_1",
         category: "DEVELOPMENT",
-        priority: "HIGH",
-        title: "Mixed-Use Conversion",
-        description: "Convert residential property to mixed-use commercial-residential development to maximize value potential",
-        expectedImpact: "30-50% value increase through higher commercial utilization",
-        timeline: "18-24 months",
-        estimatedCost: subjectProperty.estimatedValue ? subjectProperty.estimatedValue * 0.4 : 0,
-        riskFactors: ["Regulatory approval", "Construction delays", "Market timing"],
-        successFactors: ["Location suitability", "Commercial demand", "Funding availability"]
+        priority: uplift !== null && uplift > 0.25 ? "HIGH" : "MEDIUM",
+        title: `Redevelop: ${redevelopment.label}`,
+        description: `Redevelop to ${formatNumber(Math.round(redevelopment.grossFloorArea))} m² of floor area, the most zone ${subjectProperty.residualAnalysis?.zoneCode} allows`,
+        expectedImpact: uplift !== null
+          ? `Residual land value of ${formatCurrency(redevelopment.residualLandValue)}, ${Math.round(uplift * 100)}% above the as-is value`
+          : `Residual land value of ${formatCurrency(redevelopment.residualLandValue)}`,
+        timeline: "24-36 months",
+        estimatedCost: redevelopment.totalDevelopmentCost,
+        riskFactors: [
+          ...(redevelopment.conditional ? ["Use permit (KKPR) required"] : []),
+          "Construction cost overruns",
+          "Sales and letting assumptions"
+        ],
+        successFactors: ["Local sale and rent evidence", "Building approval (PBG)", "Development finance"]
       })
     }
 
@@ -1,12 +1,15 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
@@ -23,6 +26,45 @@ import {
   Shield
 } from "lucide-react"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts"
+import {
+  analyseInvestment,
+  coverageRisk,
+  DEFAULT_INTEREST_RATE,
+  DEFAULT_LOAN_TERM,
+  DEFAULT_LOAN_TO_VALUE,
+  DEFAULT_OPERATING_EXPENSE_RATIO,
+  DEFAULT_VACANCY_RATE,
+  ProFormaAssumptions,
+  rateForPeriod,
+  runScenarios,
+  stressTest
+} from "@/lib/finance"
+import {
+  floatingRate,
+  LoanProductDefinition,
+  productEligibilityIssues,
+  maxLoanToValue,
+  productLoanTerms,
+  upfrontFees
+} from "@/lib/loan-products"
+import { BORROWER_TYPES, BorrowerType, DEFAULT_LTV_RULES, FacilityNumber, LtvRule, sizeLoan } from "@/lib/loan-sizing"
+import {
+  acquisitionCosts,
+  annualPropertyTax,
+  DEFAULT_REGIONAL_TAX_RATES,
+  dispositionCosts,
+  RegionalTaxRates,
+  sellingCostRate,
+  totalCost
+} from "@/lib/transaction-costs"
+import {
+  DEFAULT_SIMULATION_ITERATIONS,
+  defaultDistributions,
+  HistogramBin,
+  MAX_SIMULATION_ITERATIONS,
+  simulate,
+  SimulationResult
+} from "@/lib/finance-simulation"
 
 interface FinancialModel {
   id: string
@@ -60,26 +102,107 @@ interface PropertyValuation {
 
 interface FinancialModelingProps {
   valuation: PropertyValuation
+  assetType?: string
+  buildingSize?: number | null
+  province?: string
+  city?: string
+  njop?: number | null
   financialModel?: FinancialModel
   onModelUpdate?: (model: Partial<FinancialModel>) => void
   isLoading?: boolean
 }
 
+const CUSTOM_RATE = "__custom__"
+
 export function FinancialModeling({ 
   valuation, 
+  assetType = "RESIDENTIAL",
+  buildingSize,
+  province,
+  city,
+  njop,
   financialModel, 
   onModelUpdate, 
   isLoading = false 
 }: FinancialModelingProps) {
   const [activeTab, setActiveTab] = useState("overview")
   const [loanParameters, setLoanParameters] = useState({
-    loanAmount: valuation.estimatedValue * 0.7, // 70% LTV default
-    interestRate: 11, // 11% default
-    loanTerm: 10, // 10 years default
+    loanAmount: valuation.estimatedValue * DEFAULT_LOAN_TO_VALUE,
+    interestRate: DEFAULT_INTEREST_RATE,
+    loanTerm: DEFAULT_LOAN_TERM,
     rentalYield: 0.06, // 6% rental yield default
-    operatingExpenses: 0.3, // 30% operating expenses default
-    vacancyRate: 0.05 // 5% vacancy rate default
+    operatingExpenses: DEFAULT_OPERATING_EXPENSE_RATIO,
+    vacancyRate: DEFAULT_VACANCY_RATE
   })
+  const [iterations, setIterations] = useState(DEFAULT_SIMULATION_ITERATIONS)
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null)
+  const [loanProducts, setLoanProducts] = useState<LoanProductDefinition[]>([])
+  const [loanProductId, setLoanProductId] = useState(CUSTOM_RATE)
+  const [newBuild, setNewBuild] = useState(false)
+  const [regionalTax, setRegionalTax] = useState<RegionalTaxRates>(DEFAULT_REGIONAL_TAX_RATES)
+  const [ltvRules, setLtvRules] = useState<LtvRule[]>(DEFAULT_LTV_RULES)
+  const [borrower, setBorrower] = useState<{
+    type: BorrowerType
+    facility: FacilityNumber
+    monthlyIncome?: number
+  }>({ type: "INDIVIDUAL", facility: 1 })
+
+  // Only products that finance this asset type are offered
+  useEffect(() => {
+    const loadLoanProducts = async () => {
+      try {
+        const response = await fetch(`/api/loan-products?assetType=${assetType}`)
+        const result = await response.json().catch(() => ({}))
+        setLoanProducts(response.ok ? result.products : [])
+      } catch (loadError) {
+        console.error("Failed to load loan products:", loadError)
+        setLoanProducts([])
+      }
+      setLoanProductId(CUSTOM_RATE)
+    }
+
+    loadLoanProducts()
+  }, [assetType])
+
+  // BPHTB and PBB thresholds are set per region
+  useEffect(() => {
+    if (!province) return
+
+    const loadRegionalTax = async () => {
+      try {
+        const params = new URLSearchParams({ province, ...(city && { city }) })
+        const response = await fetch(`/api/admin/regional-tax?${params.toString()}`)
+        const result = await response.json().catch(() => ({}))
+        setRegionalTax(response.ok ? result.rates : DEFAULT_REGIONAL_TAX_RATES)
+      } catch (loadError) {
+        console.error("Failed to load regional tax rates:", loadError)
+      }
+    }
+
+    loadRegionalTax()
+  }, [province, city])
+
+  // LTV caps follow the published rule version
+  useEffect(() => {
+    const loadLtvRules = async () => {
+      try {
+        const response = await fetch("/api/admin/ltv-rules")
+        const result = await response.json().catch(() => ({}))
+        setLtvRules(response.ok ? result.current.rules : DEFAULT_LTV_RULES)
+      } catch (loadError) {
+        console.error("Failed to load LTV rules:", loadError)
+      }
+    }
+
+    loadLtvRules()
+  }, [])
+
+  const loanProduct = loanProducts.find(product => product.id === loanProductId)
+
+  // The valuation stands in for the purchase price
+  const costInputs = { price: valuation.estimatedValue, njop, regional: regionalTax, newBuild }
+  const acquisitionItems = acquisitionCosts(costInputs)
+  const propertyTax = annualPropertyTax(costInputs)
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -103,106 +226,84 @@ export function FinancialModeling({
     }
   }
 
+  // The same engine backs /api/financial-model, so these figures match the stored model for the same inputs
+  const assumptions: ProFormaAssumptions = {
+    propertyValue: valuation.estimatedValue,
+    grossPotentialRent: valuation.estimatedValue * loanParameters.rentalYield,
+    vacancyRate: loanParameters.vacancyRate,
+    operatingExpenseRatio: loanParameters.operatingExpenses,
+    propertyTax: propertyTax.amount,
+    loan: loanProduct
+      ? productLoanTerms(loanProduct, loanParameters.loanAmount, loanParameters.loanTerm)
+      : {
+        principal: loanParameters.loanAmount,
+        annualRate: loanParameters.interestRate / 100,
+        years: loanParameters.loanTerm
+      },
+    acquisitionCosts: totalCost(acquisitionItems) + (loanProduct ? upfrontFees(loanProduct, loanParameters.loanAmount) : 0),
+    sellingCosts: sellingCostRate({ newBuild })
+  }
+
   const calculateFinancialMetrics = () => {
-    const { loanAmount, interestRate, loanTerm, rentalYield, operatingExpenses, vacancyRate } = loanParameters
-    
-    // Calculate loan metrics
-    const ltv = loanAmount / valuation.estimatedValue
-    const monthlyRate = interestRate / 100 / 12
-    const numPayments = loanTerm * 12
-    const monthlyPayment = loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1)
-    const annualPayment = monthlyPayment * 12
-
-    // Calculate income metrics
-    const potentialRentalIncome = valuation.estimatedValue * rentalYield
-    const vacancyLoss = potentialRentalIncome * vacancyRate
-    const effectiveRentalIncome = potentialRentalIncome - vacancyLoss
-    const operatingExpenseAmount = effectiveRentalIncome * operatingExpenses
-    const netOperatingIncome = effectiveRentalIncome - operatingExpenseAmount
-    const cashFlow = netOperatingIncome - annualPayment
-    const debtServiceCoverage = annualPayment > 0 ? netOperatingIncome / annualPayment : 0
-    const cashOnCashReturn = loanAmount > 0 ? cashFlow / loanAmount : 0
-    const capRate = valuation.estimatedValue > 0 ? netOperatingIncome / valuation.estimatedValue : 0
+    const analysis = analyseInvestment(assumptions)
+    const firstYear = analysis.proForma[0]
 
     return {
-      ltv,
-      monthlyPayment,
-      annualPayment,
-      potentialRentalIncome,
-      effectiveRentalIncome,
-      netOperatingIncome,
-      cashFlow,
-      debtServiceCoverage,
-      cashOnCashReturn,
-      capRate
+      ltv: analysis.metrics.loanToValue,
+      monthlyPayment: analysis.monthlyPayment,
+      annualPayment: analysis.metrics.annualDebtService,
+      potentialRentalIncome: firstYear?.grossPotentialRent ?? 0,
+      effectiveRentalIncome: firstYear?.effectiveGrossIncome ?? 0,
+      operatingExpenseAmount: firstYear?.operatingExpenses ?? 0,
+      propertyTaxAmount: firstYear?.propertyTax ?? 0,
+      salePrice: analysis.salePrice,
+      netOperatingIncome: analysis.metrics.netOperatingIncome,
+      cashFlow: analysis.metrics.cashFlow,
+      debtServiceCoverage: analysis.metrics.debtServiceCoverage,
+      cashOnCashReturn: analysis.metrics.cashOnCash,
+      capRate: analysis.metrics.capRate,
+      irr: analysis.metrics.irr,
+      proForma: analysis.proForma,
+      // One entry per rate period, since the instalment is recomputed at every reset
+      instalments: analysis.schedule
+        .filter(row => row.period === 1 || rateForPeriod(assumptions.loan, row.period) !== rateForPeriod(assumptions.loan, row.period - 1))
+        .map(row => ({
+          fromYear: Math.ceil(row.period / 12),
+          annualRate: rateForPeriod(assumptions.loan, row.period),
+          payment: row.payment
+        }))
     }
   }
 
-  const generateScenarios = () => {
-    const baseMetrics = calculateFinancialMetrics()
-    
-    return [
-      {
-        name: "Base Case",
-        description: "Current market conditions",
-        roi: baseMetrics.cashOnCashReturn,
-        cashFlow: baseMetrics.cashFlow,
-        probability: 0.6,
-        metrics: baseMetrics
-      },
-      {
-        name: "Optimistic",
-        description: "Strong market growth, low interest rates",
-        roi: baseMetrics.cashOnCashReturn * 1.5,
-        cashFlow: baseMetrics.cashFlow * 1.3,
-        probability: 0.2,
-        metrics: {
-          ...baseMetrics,
-          cashFlow: baseMetrics.cashFlow * 1.3,
-          cashOnCashReturn: baseMetrics.cashOnCashReturn * 1.5
-        }
-      },
-      {
-        name: "Pessimistic",
-        description: "Market downturn, rising interest rates",
-        roi: baseMetrics.cashOnCashReturn * 0.5,
-        cashFlow: baseMetrics.cashFlow * 0.7,
-        probability: 0.2,
-        metrics: {
-          ...baseMetrics,
-          cashFlow: baseMetrics.cashFlow * 0.7,
-          cashOnCashReturn: baseMetrics.cashOnCashReturn * 0.5
-        }
-      }
-    ]
-  }
+  const generateScenarios = () => runScenarios(assumptions).map(({ name, description, roi, cashFlow, probability }) => ({
+    name,
+    description,
+    roi,
+    cashFlow,
+    probability
+  }))
 
-  const generateStressTestResults = () => {
-    const baseMetrics = calculateFinancialMetrics()
-    
-    return {
-      interestRateShock: {
-        rate: loanParameters.interestRate + 3,
-        impact: "Interest rates increase by 3%",
-        newCashFlow: baseMetrics.cashFlow * 0.85,
-        impactLevel: baseMetrics.cashFlow > 0 ? "MEDIUM" : "HIGH"
-      },
-      rentalDecline: {
-        rate: 0.8, // 20% decline
-        impact: "Rental income declines by 20%",
-        newCashFlow: baseMetrics.cashFlow * 0.75,
-        impactLevel: baseMetrics.cashFlow > 0 ? "MEDIUM" : "HIGH"
-      },
-      valueDecline: {
-        rate: 0.85, // 15% decline
-        impact: "Property value declines by 15%",
-        newCashFlow: baseMetrics.cashFlow * 0.9,
-        impactLevel: "LOW"
-      }
-    }
-  }
+  const generateStressTestResults = () => Object.fromEntries(stressTest(assumptions, loanSizing.maxLoanToValue).map(test => [test.key, {
+    impact: test.description,
+    newCashFlow: test.cashFlow,
+    impactLevel: test.impact
+  }]))
 
   const metrics = calculateFinancialMetrics()
+  const costItems = [...acquisitionItems, propertyTax, ...dispositionCosts({ price: metrics.salePrice })]
+  const loanSizing = sizeLoan({
+    propertyValue: valuation.estimatedValue,
+    assetType,
+    borrowerType: borrower.type,
+    facility: borrower.facility,
+    buildingSize,
+    productMaxLoanToValue: loanProduct && maxLoanToValue(loanProduct, assetType),
+    ltvRules,
+    sharia: loanProduct?.productType === "KPR_SYARIAH",
+    loan: assumptions.loan,
+    netOperatingIncome: metrics.netOperatingIncome,
+    monthlyIncome: borrower.monthlyIncome
+  })
   const scenarios = generateScenarios()
   const stressTests = generateStressTestResults()
 
@@ -214,19 +315,39 @@ export function FinancialModeling({
     Probability: scenario.probability * 100
   }))
 
-  const cashFlowChartData = [
-    { month: "Jan", cashFlow: metrics.cashFlow },
-    { month: "Feb", cashFlow: metrics.cashFlow * 1.02 },
-    { month: "Mar", cashFlow: metrics.cashFlow * 1.05 },
-    { month: "Apr", cashFlow: metrics.cashFlow * 1.03 },
-    { month: "May", cashFlow: metrics.cashFlow * 1.07 },
-    { month: "Jun", cashFlow: metrics.cashFlow * 1.1 }
-  ]
+  const cashFlowChartData = metrics.proForma.map(year => ({
+    year: `Y${year.year}`,
+    cashFlow: year.cashFlow
+  }))
 
   const handleParameterChange = (field: string, value: number) => {
     setLoanParameters(prev => ({ ...prev, [field]: value }))
+    setSimulation(null)
+  }
+
+  const handleLoanProductChange = (id: string) => {
+    setLoanProductId(id)
+    setSimulation(null)
+    const product = loanProducts.find(candidate => candidate.id === id)
+    if (product && loanParameters.loanTerm > product.maxTenorYears) {
+      setLoanParameters(prev => ({ ...prev, loanTerm: product.maxTenorYears }))
+    }
+  }
+
+  const productIssues = loanProduct
+    ? productEligibilityIssues(loanProduct, assetType, loanParameters.loanAmount, valuation.estimatedValue, loanParameters.loanTerm)
+    : []
+
+  // Run on demand; thousands of pro-formas are too heavy to redo on every slider move
+  const runSimulation = () => {
+    setSimulation(simulate(assumptions, defaultDistributions(assumptions), { iterations, maxLoanToValue: loanSizing.maxLoanToValue }))
   }
 
+  const histogramChartData = (bins: HistogramBin[], format: (value: number) => string) => bins.map(bin => ({
+    range: format((bin.from + bin.to) / 2),
+    count: bin.count
+  }))
+
   // Mock financial model for demonstration
   const mockFinancialModel: FinancialModel = {
     id: "financial_" + Date.now(),
@@ -239,12 +360,12 @@ export function FinancialModeling({
       interestRateShock: loanParameters.interestRate + 3,
       rentalDecline: 0.8,
       valueDecline: 0.85,
-      impact: metrics.debtServiceCoverage > 1.2 ? "LOW" : metrics.debtServiceCoverage > 1.0 ? "MEDIUM" : "HIGH"
+      impact: coverageRisk(metrics.debtServiceCoverage, metrics.ltv, loanSizing.maxLoanToValue)
     },
     scenarioAnalysis: scenarios,
-    recommendedLoanAmount: valuation.estimatedValue * 0.7,
+    recommendedLoanAmount: loanSizing.maxLoanAmount,
     riskAssessment: {
-      overallRisk: metrics.debtServiceCoverage > 1.2 ? "LOW" : metrics.debtServiceCoverage > 1.0 ? "MEDIUM" : "HIGH",
+      overallRisk: coverageRisk(metrics.debtServiceCoverage, metrics.ltv, loanSizing.maxLoanToValue),
       factors: [
         "Interest rate risk",
         "Market volatility",
@@ -391,6 +512,10 @@ export function FinancialModeling({
                       <span className="text-muted-foreground">Operating Expenses</span>
                       <div className="font-medium">{formatCurrency(metrics.operatingExpenseAmount)}</div>
                     </div>
+                    <div>
+                      <span className="text-muted-foreground">PBB</span>
+                      <div className="font-medium">{formatCurrency(metrics.propertyTaxAmount)}</div>
+                    </div>
                     <div>
                       <span className="text-muted-foreground">Net Operating Income</span>
                       <div className="font-medium">{formatCurrency(metrics.netOperatingIncome)}</div>
@@ -421,18 +546,18 @@ export function FinancialModeling({
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-base">
                 <LineChart className="h-4 w-4" />
-                6-Month Cash Flow Projection
+                {metrics.proForma.length}-Year Cash Flow Projection
               </CardTitle>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
                 <LineChart data={cashFlowChartData}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
+                  <XAxis dataKey="year" />
                   <YAxis tickFormatter={(value) => `${(value / 1000000).toFixed(0)}M`} />
                   <Tooltip 
                     formatter={(value: number) => [formatCurrency(value), 'Cash Flow']}
-                    labelFormatter={(label) => `Month: ${label}`}
+                    labelFormatter={(label) => `Year: ${label}`}
                   />
                   <Line 
                     type="monotone" 
@@ -445,6 +570,48 @@ export function FinancialModeling({
               </ResponsiveContainer>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <DollarSign className="h-4 w-4" />
+                Taxes and Transaction Costs
+              </CardTitle>
+              <CardDescription>
+                Acquisition costs are paid from equity, PBB reduces net operating income and sale costs are netted from the exit
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch id="newBuild" checked={newBuild} onCheckedChange={(checked) => { setNewBuild(checked); setSimulation(null) }} />
+                <Label htmlFor="newBuild">New build from a developer (PPN applies)</Label>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cost</TableHead>
+                    <TableHead>Paid by</TableHead>
+                    <TableHead>Basis</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {costItems.map(item => (
+                    <TableRow key={item.key}>
+                      <TableCell className="font-medium">{item.label}</TableCell>
+                      <TableCell className="capitalize">{item.payer.toLowerCase()}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-normal">{item.basis}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium" colSpan={3}>Total on acquisition</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(totalCost(acquisitionItems))}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="parameters" className="space-y-4">
@@ -458,6 +625,47 @@ export function FinancialModeling({
             <CardContent className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="loanProduct">Loan Product</Label>
+                    <div className="mt-2">
+                      <Select value={loanProductId} onValueChange={handleLoanProductChange}>
+                        <SelectTrigger id="loanProduct">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={CUSTOM_RATE}>Custom flat rate</SelectItem>
+                          {loanProducts.map(product => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.lender} – {product.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {loanProduct && (
+                        <div className="text-xs text-muted-foreground mt-1 space-y-1">
+                          {metrics.instalments.map(instalment => (
+                            <div key={instalment.fromYear}>
+                              From year {instalment.fromYear}: {(instalment.annualRate * 100).toFixed(2)}% – {formatCurrency(instalment.payment)}/month
+                            </div>
+                          ))}
+                          <div>
+                            Upfront fees: {formatCurrency(upfrontFees(loanProduct, loanParameters.loanAmount))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {productIssues.length > 0 && (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>Outside product limits</AlertTitle>
+                      <AlertDescription>
+                        {productIssues.join(". ")}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   <div>
                     <Label htmlFor="loanAmount">Loan Amount</Label>
                     <div className="mt-2">
@@ -477,15 +685,18 @@ export function FinancialModeling({
                     <Label htmlFor="interestRate">Interest Rate (%)</Label>
                     <div className="mt-2">
                       <Slider
-                        value={[loanParameters.interestRate]}
+                        value={[loanProduct ? floatingRate(loanProduct) * 100 : loanParameters.interestRate]}
                         onValueChange={(value) => handleParameterChange("interestRate", value[0])}
                         max={20}
                         min={5}
                         step={0.5}
+                        disabled={!!loanProduct}
                         className="w-full"
                       />
                       <div className="text-xs text-muted-foreground mt-1">
-                        {loanParameters.interestRate}% annually
+                        {loanProduct
+                          ? `${(floatingRate(loanProduct) * 100).toFixed(2)}% floating after the fixed period`
+                          : `${loanParameters.interestRate}% annually`}
                       </div>
                     </div>
                   </div>
@@ -496,7 +707,7 @@ export function FinancialModeling({
                       <Slider
                         value={[loanParameters.loanTerm]}
                         onValueChange={(value) => handleParameterChange("loanTerm", value[0])}
-                        max={30}
+                        max={loanProduct?.maxTenorYears ?? 30}
                         min={1}
                         step={1}
                         className="w-full"
@@ -563,6 +774,88 @@ export function FinancialModeling({
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Loan Sizing</CardTitle>
+              <CardDescription>
+                The maximum loan is the lowest of the regulatory LTV cap, the DSCR target and the borrower's debt-to-income limit
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="borrowerType">Borrower</Label>
+                  <Select
+                    value={borrower.type}
+                    onValueChange={(value) => setBorrower(prev => ({ ...prev, type: value as BorrowerType }))}
+                  >
+                    <SelectTrigger id="borrowerType" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BORROWER_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>
+                          {type === "INDIVIDUAL" ? "Individual" : "Corporate"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="facility">Property Facility</Label>
+                  <Select
+                    value={String(borrower.facility)}
+                    onValueChange={(value) => setBorrower(prev => ({ ...prev, facility: Number(value) as FacilityNumber }))}
+                  >
+                    <SelectTrigger id="facility" className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">First</SelectItem>
+                      <SelectItem value="2">Second</SelectItem>
+                      <SelectItem value="3">Third or later</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="monthlyIncome">Monthly Income (optional)</Label>
+                  <Input
+                    id="monthlyIncome"
+                    type="number"
+                    className="mt-2"
+                    value={borrower.monthlyIncome ?? ""}
+                    onChange={(e) => setBorrower(prev => ({ ...prev, monthlyIncome: e.target.value ? Number(e.target.value) : undefined }))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {loanSizing.constraints.map(constraint => (
+                  <div key={constraint.key} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium text-sm flex items-center gap-2">
+                        {constraint.label}
+                        {constraint.key === loanSizing.binding && <Badge variant="outline">Binding</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{constraint.detail}</div>
+                    </div>
+                    <div className="font-medium whitespace-nowrap">{formatCurrency(constraint.maxLoanAmount)}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">{loanSizing.explanation}</p>
+                <Button
+                  variant="outline"
+                  onClick={() => handleParameterChange("loanAmount", Math.floor(loanSizing.maxLoanAmount))}
+                >
+                  Use Maximum Loan
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="scenarios" className="space-y-4">
@@ -709,6 +1002,103 @@ export function FinancialModeling({
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4" />
+                Monte Carlo Simulation
+              </CardTitle>
+              <CardDescription>
+                Samples interest rate, rent, vacancy, operating expenses and exit value around the current parameters
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-6">
+                <div className="flex items-end gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="iterations">Iterations</Label>
+                    <Input
+                      id="iterations"
+                      type="number"
+                      min={100}
+                      max={MAX_SIMULATION_ITERATIONS}
+                      step={100}
+                      value={iterations}
+                      onChange={(e) => setIterations(Number(e.target.value))}
+                    />
+                  </div>
+                  <Button onClick={runSimulation} disabled={isLoading}>
+                    Run Simulation
+                  </Button>
+                </div>
+
+                {simulation && (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                      <div className="text-center">
+                        <div className={`text-lg font-bold ${simulation.dscrBreachProbability > 0.1 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatPercent(simulation.dscrBreachProbability)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          DSCR below {simulation.dscrCovenant.toFixed(2)}x
+                        </div>
+                      </div>
+                      <div className="text-center">
+                        <div className={`text-lg font-bold ${simulation.ltvBreachProbability > 0.1 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatPercent(simulation.ltvBreachProbability)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          LTV above {formatPercent(simulation.maxLoanToValue)}
+                        </div>
+                      </div>
+                      {(["p10", "p50", "p90"] as const).map(key => (
+                        <div key={key} className="text-center">
+                          <div className="text-lg font-bold">
+                            {simulation.irr ? formatPercent(simulation.irr[key]) : "N/A"}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{key.toUpperCase()} IRR</div>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="h-64">
+                        <h4 className="font-medium mb-2">IRR Distribution</h4>
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={histogramChartData(simulation.histograms.irr, formatPercent)}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="range" />
+                            <YAxis />
+                            <Tooltip />
+                            <Bar dataKey="count" fill="#3b82f6" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <div className="h-64">
+                        <h4 className="font-medium mb-2">Minimum DSCR Distribution</h4>
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={histogramChartData(simulation.histograms.minDscr, value => `${value.toFixed(2)}x`)}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="range" />
+                            <YAxis />
+                            <Tooltip />
+                            <Bar dataKey="count" fill="#f59e0b" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+
+                    {simulation.irrUndefinedProbability > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        IRR is undefined in {formatPercent(simulation.irrUndefinedProbability)} of iterations, where equity is never recovered.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="risk" className="space-y-4">
@@ -1,24 +1,64 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
+import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { 
-  Shield, 
-  CheckCircle, 
-  XCircle, 
-  AlertTriangle, 
-  Clock, 
-  FileText, 
+import {
+  Shield,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Clock,
+  FileText,
   MapPin,
-  Building2,
   Scale,
-  Gavel
+  Landmark,
+  Ruler
 } from "lucide-react"
+import { ZoningAssessment } from "@/lib/zoning"
+
+type FindingType = "OWNERSHIP" | "CERTIFICATE" | "ZONING" | "LAND_USE" | "ENCUMBRANCE" | "DISPUTE" | "RESTRICTION" | "PERMIT" | "TAX" | "OTHER"
+type FindingSeverity = "INFO" | "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
+type FindingStatus = "OPEN" | "PENDING" | "RESOLVED" | "WAIVED"
+
+interface LegalDocument {
+  id: string
+  documentType: string
+  reference: string
+  name: string
+  url: string | null
+  issuedAt: string | null
+}
+
+interface LegalFinding {
+  id: string
+  type: FindingType
+  severity: FindingSeverity
+  status: FindingStatus
+  source: "SYSTEM_RULE" | "AI_ANALYSIS" | "LAND_REGISTRY" | "ZONING_DATA" | "MANUAL"
+  title: string
+  description: string
+  recommendation: string | null
+  resolutionNote: string | null
+  resolvedAt: string | null
+  resolvedBy: { name: string | null; email: string } | null
+  evidenceDocument: LegalDocument | null
+}
+
+interface LandRegistryRecord {
+  certificateNumber: string
+  parcelId?: string
+  rightType: string
+  holderName: string
+  area: number
+  rightExpiry?: string
+  encumbrances: Array<{ type: string; holder?: string; description: string }>
+}
 
 interface LegalCheckResult {
   id: string
@@ -26,25 +66,19 @@ interface LegalCheckResult {
   certificateValid: boolean
   zoningCompliant: boolean
   landUsePermitted: boolean
-  encumbrances: Array<{
-    type: string
-    description: string
-    severity: "LOW" | "MEDIUM" | "HIGH"
-  }>
-  disputes: Array<{
-    type: string
-    description: string
-    status: "ACTIVE" | "RESOLVED" | "PENDING"
-  }>
-  restrictions: Array<{
-    type: string
-    description: string
-    impact: "LOW" | "MEDIUM" | "HIGH"
-  }>
   complianceScore: number
-  riskFlags: string[]
+  riskLevel: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
+  openFindings: number
   verificationDate: string
-  notes?: string
+  notes: string | null
+  registry: { provider: string; fetchedAt: string; record: LandRegistryRecord | null } | null
+  findings: LegalFinding[]
+}
+
+interface PropertyZoning {
+  status: "ASSESSED" | "ZONE_UNKNOWN" | "NOT_RECORDED"
+  zoning: string | null
+  assessment: ZoningAssessment | null
 }
 
 interface PropertyData {
@@ -59,112 +93,223 @@ interface PropertyData {
 }
 
 interface LegalVerificationProps {
+  propertyId: string
   property: PropertyData
-  legalCheck?: LegalCheckResult
-  onRefreshLegalCheck?: () => void
-  isLoading?: boolean
 }
 
-export function LegalVerification({ 
-  property, 
-  legalCheck, 
-  onRefreshLegalCheck, 
-  isLoading = false 
-}: LegalVerificationProps) {
-  const [activeTab, setActiveTab] = useState("overview")
+const TYPE_LABELS: Record<FindingType, string> = {
+  OWNERSHIP: "Ownership",
+  CERTIFICATE: "Certificate",
+  ZONING: "Zoning",
+  LAND_USE: "Land Use",
+  ENCUMBRANCE: "Encumbrances & Liens",
+  DISPUTE: "Disputes",
+  RESTRICTION: "Restrictions",
+  PERMIT: "Permits",
+  TAX: "Tax",
+  OTHER: "Other"
+}
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(value)
-  }
+const SOURCE_LABELS: Record<LegalFinding["source"], string> = {
+  SYSTEM_RULE: "Property data",
+  AI_ANALYSIS: "AI analysis",
+  LAND_REGISTRY: "Land registry",
+  ZONING_DATA: "Zoning data",
+  MANUAL: "Manual"
+}
 
-  const getComplianceColor = (score: number) => {
-    if (score >= 0.8) return "text-green-600"
-    if (score >= 0.6) return "text-yellow-600"
-    return "text-red-600"
-  }
+const isOpen = (finding: LegalFinding) => finding.status === "OPEN" || finding.status === "PENDING"
 
-  const getComplianceLabel = (score: number) => {
-    if (score >= 0.8) return "High Compliance"
-    if (score >= 0.6) return "Moderate Compliance"
-    return "Low Compliance"
+const getSeverityColor = (severity: string) => {
+  switch (severity) {
+    case "INFO": return "bg-blue-100 text-blue-800"
+    case "LOW": return "bg-yellow-100 text-yellow-800"
+    case "MEDIUM": return "bg-orange-100 text-orange-800"
+    case "HIGH":
+    case "CRITICAL": return "bg-red-100 text-red-800"
+    default: return "bg-gray-100 text-gray-800"
   }
+}
 
-  const getStatusIcon = (status: boolean) => {
-    return status ? (
-      <CheckCircle className="h-5 w-5 text-green-600" />
-    ) : (
-      <XCircle className="h-5 w-5 text-red-600" />
-    )
+const getStatusColor = (status: FindingStatus) => {
+  switch (status) {
+    case "OPEN": return "bg-red-100 text-red-800"
+    case "PENDING": return "bg-yellow-100 text-yellow-800"
+    case "RESOLVED": return "bg-green-100 text-green-800"
+    default: return "bg-gray-100 text-gray-800"
   }
+}
 
-  const getStatusBadge = (status: boolean) => {
-    return status ? (
-      <Badge className="bg-green-100 text-green-800">Verified</Badge>
-    ) : (
-      <Badge className="bg-red-100 text-red-800">Not Verified</Badge>
-    )
-  }
+const getComplianceColor = (score: number) => {
+  if (score >= 0.8) return "text-green-600"
+  if (score >= 0.6) return "text-yellow-600"
+  return "text-red-600"
+}
 
-  const getSeverityColor = (severity: string) => {
-    switch (severity) {
-      case "LOW": return "bg-yellow-100 text-yellow-800"
-      case "MEDIUM": return "bg-orange-100 text-orange-800"
-      case "HIGH": return "bg-red-100 text-red-800"
-      default: return "bg-gray-100 text-gray-800"
+const getComplianceLabel = (score: number) => {
+  if (score >= 0.8) return "High Compliance"
+  if (score >= 0.6) return "Moderate Compliance"
+  return "Low Compliance"
+}
+
+const getStatusIcon = (status: boolean) => {
+  return status ? (
+    <CheckCircle className="h-5 w-5 text-green-600" />
+  ) : (
+    <XCircle className="h-5 w-5 text-red-600" />
+  )
+}
+
+const getStatusBadge = (status: boolean) => {
+  return status ? (
+    <Badge className="bg-green-100 text-green-800">Verified</Badge>
+  ) : (
+    <Badge className="bg-red-100 text-red-800">Not Verified</Badge>
+  )
+}
+
+export function LegalVerification({ propertyId, property }: LegalVerificationProps) {
+  const [activeTab, setActiveTab] = useState("overview")
+  const [legalCheck, setLegalCheck] = useState<LegalCheckResult | null>(null)
+  const [documents, setDocuments] = useState<LegalDocument[]>([])
+  const [zoning, setZoning] = useState<PropertyZoning | null>(null)
+  const [resolutionNotes, setResolutionNotes] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init)
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(result.error || `Request failed (${response.status})`)
     }
+    return result
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "ACTIVE": return "bg-red-100 text-red-800"
-      case "RESOLVED": return "bg-green-100 text-green-800"
-      case "PENDING": return "bg-yellow-100 text-yellow-800"
-      default: return "bg-gray-100 text-gray-800"
+  useEffect(() => {
+    const loadLegalCheck = async () => {
+      try {
+        const result = await request(`/api/legal-check?propertyId=${encodeURIComponent(propertyId)}`)
+        setLegalCheck(result.legalCheck)
+        setZoning(result.zoning)
+        setDocuments(result.documents)
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : "Failed to load legal check")
+      }
+    }
+
+    loadLegalCheck()
+  }, [propertyId])
+
+  const runLegalCheck = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await request("/api/legal-check", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ propertyId })
+      })
+      setLegalCheck(result.legalCheck)
+      setZoning(result.zoning)
+      setDocuments(result.documents)
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Legal check failed")
+    } finally {
+      setIsLoading(false)
     }
   }
 
-  // Mock legal check result for demonstration
-  const mockLegalCheck: LegalCheckResult = {
-    id: "legal_" + Date.now(),
-    ownershipVerified: property.ownershipStatus === "CERTIFIED",
-    certificateValid: !!property.certificateNumber,
-    zoningCompliant: true,
-    landUsePermitted: true,
-    encumbrances: property.ownershipStatus !== "CERTIFIED" ? [
-      {
-        type: "Ownership Verification",
-        description: "Property ownership requires verification with land registry",
-        severity: "MEDIUM"
-      }
-    ] : [],
-    disputes: [],
-    restrictions: [
-      {
-        type: "Building Height",
-        description: "Maximum building height restricted to 4 floors",
-        impact: "MEDIUM"
-      },
-      {
-        type: "Setback Requirements",
-        description: "Minimum 3m setback from property boundaries",
-        impact: "LOW"
-      }
-    ],
-    complianceScore: property.ownershipStatus === "CERTIFIED" ? 0.9 : 0.6,
-    riskFlags: property.ownershipStatus === "CERTIFIED" ? [] : [
-      "Ownership verification required",
-      "Certificate number missing"
-    ],
-    verificationDate: new Date().toISOString(),
-    notes: "Legal verification completed using Jakarta Satu and Sentuh Tanahku data sources"
+  const updateFinding = async (findingId: string, status: FindingStatus) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await request(`/api/legal-check/findings/${findingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, resolutionNote: resolutionNotes[findingId] || undefined })
+      })
+      setLegalCheck(result.legalCheck)
+      setResolutionNotes(notes => ({ ...notes, [findingId]: "" }))
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Failed to update finding")
+    } finally {
+      setIsLoading(false)
+    }
   }
 
-  const checkResult = legalCheck || mockLegalCheck
+  const findingsByType = (legalCheck?.findings || []).reduce<Partial<Record<FindingType, LegalFinding[]>>>(
+    (groups, finding) => ({ ...groups, [finding.type]: [...(groups[finding.type] || []), finding] }),
+    {}
+  )
+
+  const renderFinding = (finding: LegalFinding) => (
+    <div key={finding.id} className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-medium text-sm">{finding.title}</h4>
+        <div className="flex items-center gap-2">
+          <Badge className={getSeverityColor(finding.severity)}>{finding.severity}</Badge>
+          <Badge className={getStatusColor(finding.status)}>{finding.status}</Badge>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">{finding.description}</p>
+      {finding.recommendation && (
+        <p className="text-xs text-muted-foreground">Recommendation: {finding.recommendation}</p>
+      )}
+      <div className="text-xs text-muted-foreground">
+        Source: {SOURCE_LABELS[finding.source]}
+        {finding.evidenceDocument && ` · Evidence: ${finding.evidenceDocument.name} (${finding.evidenceDocument.reference})`}
+      </div>
+      {isOpen(finding) ? (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Resolution note"
+            value={resolutionNotes[finding.id] || ""}
+            onChange={(e) => setResolutionNotes(notes => ({ ...notes, [finding.id]: e.target.value }))}
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => updateFinding(finding.id, "RESOLVED")}
+              disabled={isLoading || !resolutionNotes[finding.id]}
+            >
+              Resolve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updateFinding(finding.id, "WAIVED")}
+              disabled={isLoading || !resolutionNotes[finding.id]}
+            >
+              Waive
+            </Button>
+            {finding.status === "OPEN" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => updateFinding(finding.id, "PENDING")}
+                disabled={isLoading}
+              >
+                Mark Pending
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {finding.status === "WAIVED" ? "Waived" : "Resolved"} by {finding.resolvedBy?.name || finding.resolvedBy?.email || "unknown"}
+            {finding.resolvedAt && ` on ${new Date(finding.resolvedAt).toLocaleDateString('id-ID')}`}
+            {finding.resolutionNote && `: ${finding.resolutionNote}`}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => updateFinding(finding.id, "OPEN")} disabled={isLoading}>
+            Reopen
+          </Button>
+        </div>
+      )}
+    </div>
+  )
 
   return (
     <div className="space-y-6">
@@ -181,405 +326,333 @@ export function LegalVerification({
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <div className="text-center">
-                <div className={`text-2xl font-bold ${getComplianceColor(checkResult.complianceScore)}`}>
-                  {Math.round(checkResult.complianceScore * 100)}%
-                </div>
-                <div className="text-sm text-muted-foreground">
-                  {getComplianceLabel(checkResult.complianceScore)}
+            {legalCheck ? (
+              <div className="flex items-center gap-4">
+                <div className="text-center">
+                  <div className={`text-2xl font-bold ${getComplianceColor(legalCheck.complianceScore)}`}>
+                    {Math.round(legalCheck.complianceScore * 100)}%
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {getComplianceLabel(legalCheck.complianceScore)}
+                  </div>
                 </div>
-              </div>
-              <div className="text-center">
-                <div className="text-lg font-semibold">
-                  {checkResult.riskFlags.length === 0 ? "No Issues" : `${checkResult.riskFlags.length} Flag(s)`}
+                <div className="text-center">
+                  <div className="text-lg font-semibold">
+                    {legalCheck.openFindings === 0 ? "No Issues" : `${legalCheck.openFindings} Open`}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Findings</div>
                 </div>
-                <div className="text-sm text-muted-foreground">Risk Flags</div>
+                <Badge className={getSeverityColor(legalCheck.riskLevel)}>{legalCheck.riskLevel} RISK</Badge>
               </div>
-            </div>
-            <div className="flex items-center gap-2">
-              <Button 
-                variant="outline" 
-                onClick={onRefreshLegalCheck}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <Clock className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Shield className="h-4 w-4 mr-2" />
-                )}
-                Refresh Check
-              </Button>
-            </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">No legal check has been recorded for this property</div>
+            )}
+            <Button
+              variant="outline"
+              onClick={runLegalCheck}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <Clock className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Shield className="h-4 w-4 mr-2" />
+              )}
+              {legalCheck ? "Refresh Check" : "Run Check"}
+            </Button>
           </div>
         </CardContent>
       </Card>
 
-      {/* Legal Check Results */}
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="overview">Overview</TabsTrigger>
-          <TabsTrigger value="compliance">Compliance</TabsTrigger>
-          <TabsTrigger value="restrictions">Restrictions</TabsTrigger>
-          <TabsTrigger value="risks">Risk Analysis</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="overview" className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2 text-base">
-                  <FileText className="h-4 w-4" />
-                  Ownership Status
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Ownership Verified</span>
-                  <div className="flex items-center gap-2">
-                    {getStatusIcon(checkResult.ownershipVerified)}
-                    {getStatusBadge(checkResult.ownershipVerified)}
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Legal Check Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {legalCheck && (
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="findings">Findings</TabsTrigger>
+            <TabsTrigger value="documents">Documents</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <FileText className="h-4 w-4" />
+                    Ownership Status
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Ownership Verified</span>
+                    <div className="flex items-center gap-2">
+                      {getStatusIcon(legalCheck.ownershipVerified)}
+                      {getStatusBadge(legalCheck.ownershipVerified)}
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Certificate Valid</span>
-                  <div className="flex items-center gap-2">
-                    {getStatusIcon(checkResult.certificateValid)}
-                    {getStatusBadge(checkResult.certificateValid)}
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Certificate Valid</span>
+                    <div className="flex items-center gap-2">
+                      {getStatusIcon(legalCheck.certificateValid)}
+                      {getStatusBadge(legalCheck.certificateValid)}
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Certificate Number</span>
-                  <span className="text-sm font-medium">
-                    {property.certificateNumber || "Not provided"}
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Certificate Number</span>
+                    <span className="text-sm font-medium">
+                      {property.certificateNumber || "Not provided"}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <MapPin className="h-4 w-4" />
+                    Zoning & Land Use
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Zoning Compliant</span>
+                    <div className="flex items-center gap-2">
+                      {getStatusIcon(legalCheck.zoningCompliant)}
+                      {getStatusBadge(legalCheck.zoningCompliant)}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Land Use Permitted</span>
+                    <div className="flex items-center gap-2">
+                      {getStatusIcon(legalCheck.landUsePermitted)}
+                      {getStatusBadge(legalCheck.landUsePermitted)}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Zoning Classification</span>
+                    <span className="text-sm font-medium">
+                      {property.zoning || "Not specified"}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
 
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-base">
-                  <MapPin className="h-4 w-4" />
-                  Zoning & Land Use
+                  <Scale className="h-4 w-4" />
+                  Legal Health Score
                 </CardTitle>
+                <CardDescription>
+                  Each open finding lowers the score by its severity; resolved and waived findings no longer count
+                </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Zoning Compliant</span>
-                  <div className="flex items-center gap-2">
-                    {getStatusIcon(checkResult.zoningCompliant)}
-                    {getStatusBadge(checkResult.zoningCompliant)}
+              <CardContent className="space-y-2">
+                <Progress value={legalCheck.complianceScore * 100} className="h-3" />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm pt-2">
+                  <div>
+                    <span className="text-muted-foreground">Verification Date:</span>
+                    <div className="font-medium">
+                      {new Date(legalCheck.verificationDate).toLocaleDateString('id-ID')}
+                    </div>
                   </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Land Use Permitted</span>
-                  <div className="flex items-center gap-2">
-                    {getStatusIcon(checkResult.landUsePermitted)}
-                    {getStatusBadge(checkResult.landUsePermitted)}
+                  <div>
+                    <span className="text-muted-foreground">Location:</span>
+                    <div className="font-medium">{property.district}, {property.city}</div>
                   </div>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Zoning Classification</span>
-                  <span className="text-sm font-medium">
-                    {property.zoning || "Not specified"}
-                  </span>
-                </div>
               </CardContent>
             </Card>
-          </div>
 
-          {/* Risk Flags */}
-          {checkResult.riskFlags.length > 0 && (
-            <Alert>
-              <AlertTriangle className="h-4 w-4" />
-              <AlertTitle>Risk Flags Identified</AlertTitle>
-              <AlertDescription>
-                <ul className="mt-2 space-y-1">
-                  {checkResult.riskFlags.map((flag, index) => (
-                    <li key={index} className="text-sm">• {flag}</li>
-                  ))}
-                </ul>
-              </AlertDescription>
-            </Alert>
-          )}
-
-          {/* Verification Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-base">Verification Details</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Verification Date:</span>
-                  <div className="font-medium">
-                    {new Date(checkResult.verificationDate).toLocaleDateString('id-ID')}
-                  </div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Property Type:</span>
-                  <div className="font-medium">{property.assetType.replace('_', ' ')}</div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Location:</span>
-                  <div className="font-medium">{property.district}, {property.city}</div>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Data Sources:</span>
-                  <div className="font-medium">Jakarta Satu, Sentuh Tanahku</div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="compliance" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Compliance Score Breakdown</CardTitle>
-              <CardDescription>
-                Detailed compliance analysis across different legal aspects
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Ownership Compliance</span>
-                  <span className="text-sm">{checkResult.ownershipVerified ? "100%" : "0%"}</span>
-                </div>
-                <Progress value={checkResult.ownershipVerified ? 100 : 0} className="h-2" />
-              </div>
-              
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Certificate Compliance</span>
-                  <span className="text-sm">{checkResult.certificateValid ? "100%" : "0%"}</span>
-                </div>
-                <Progress value={checkResult.certificateValid ? 100 : 0} className="h-2" />
-              </div>
-              
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Zoning Compliance</span>
-                  <span className="text-sm">{checkResult.zoningCompliant ? "100%" : "0%"}</span>
-                </div>
-                <Progress value={checkResult.zoningCompliant ? 100 : 0} className="h-2" />
-              </div>
-              
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Land Use Compliance</span>
-                  <span className="text-sm">{checkResult.landUsePermitted ? "100%" : "0%"}</span>
-                </div>
-                <Progress value={checkResult.landUsePermitted ? 100 : 0} className="h-2" />
-              </div>
-              
-              <div className="pt-4 border-t">
-                <div className="flex items-center justify-between">
-                  <span className="font-medium">Overall Compliance Score</span>
-                  <span className={`font-bold ${getComplianceColor(checkResult.complianceScore)}`}>
-                    {Math.round(checkResult.complianceScore * 100)}%
-                  </span>
-                </div>
-                <Progress value={checkResult.complianceScore * 100} className="h-3 mt-2" />
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Encumbrances */}
-          {checkResult.encumbrances.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="h-4 w-4" />
-                  Encumbrances & Liens
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Landmark className="h-4 w-4" />
+                  Land Registry
                 </CardTitle>
+                <CardDescription>
+                  {legalCheck.registry
+                    ? `Looked up through ${legalCheck.registry.provider} on ${new Date(legalCheck.registry.fetchedAt).toLocaleDateString('id-ID')}`
+                    : "Not consulted; title findings come from the property record"}
+                </CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {checkResult.encumbrances.map((encumbrance, index) => (
-                    <div key={index} className="border rounded-lg p-3">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium text-sm">{encumbrance.type}</h4>
-                        <Badge className={getSeverityColor(encumbrance.severity)}>
-                          {encumbrance.severity}
-                        </Badge>
+              {legalCheck.registry && (
+                <CardContent>
+                  {legalCheck.registry.record ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <span className="text-muted-foreground">Registered Holder:</span>
+                        <div className="font-medium">{legalCheck.registry.record.holderName}</div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Right:</span>
+                        <div className="font-medium">
+                          {legalCheck.registry.record.rightType} {legalCheck.registry.record.certificateNumber}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Registered Area:</span>
+                        <div className="font-medium">{legalCheck.registry.record.area.toLocaleString('id-ID')} m²</div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Right Expires:</span>
+                        <div className="font-medium">
+                          {legalCheck.registry.record.rightExpiry
+                            ? new Date(legalCheck.registry.record.rightExpiry).toLocaleDateString('id-ID')
+                            : "No expiry"}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Encumbrances:</span>
+                        <div className="font-medium">
+                          {legalCheck.registry.record.encumbrances.length === 0
+                            ? "None registered"
+                            : legalCheck.registry.record.encumbrances.map(encumbrance => encumbrance.type.replace('_', ' ')).join(", ")}
+                        </div>
                       </div>
-                      <p className="text-sm text-muted-foreground">{encumbrance.description}</p>
                     </div>
-                  ))}
-                </div>
-              </CardContent>
+                  ) : (
+                    <p className="text-sm text-red-600">The registry has no title matching this property</p>
+                  )}
+                </CardContent>
+              )}
             </Card>
-          )}
 
-          {/* Disputes */}
-          {checkResult.disputes.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Gavel className="h-4 w-4" />
-                  Legal Disputes
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Ruler className="h-4 w-4" />
+                  Zoning
                 </CardTitle>
+                <CardDescription>
+                  {zoning?.assessment
+                    ? `Zone ${zoning.assessment.zone.code} ${zoning.assessment.zone.name} · ${zoning.assessment.zone.source}`
+                    : zoning?.status === "ZONE_UNKNOWN"
+                      ? `"${zoning.zoning}" is not in the zoning dataset`
+                      : "No zone recorded"}
+                </CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {checkResult.disputes.map((dispute, index) => (
-                    <div key={index} className="border rounded-lg p-3">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium text-sm">{dispute.type}</h4>
-                        <Badge className={getStatusColor(dispute.status)}>
-                          {dispute.status}
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-muted-foreground">{dispute.description}</p>
+              {zoning?.assessment && (
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Max Footprint:</span>
+                      <div className="font-medium">{Math.round(zoning.assessment.maxFootprint).toLocaleString('id-ID')} m²</div>
                     </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </TabsContent>
-
-        <TabsContent value="restrictions" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Property Restrictions</CardTitle>
-              <CardDescription>
-                Legal restrictions and usage limitations for the property
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {checkResult.restrictions.length > 0 ? (
-                <div className="space-y-4">
-                  {checkResult.restrictions.map((restriction, index) => (
-                    <div key={index} className="border rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium">{restriction.type}</h4>
-                        <Badge className={getSeverityColor(restriction.impact)}>
-                          {restriction.impact} Impact
-                        </Badge>
+                    <div>
+                      <span className="text-muted-foreground">Max Buildable Floor Area:</span>
+                      <div className="font-medium">{Math.round(zoning.assessment.maxBuildableGfa).toLocaleString('id-ID')} m²</div>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Unused Floor Area:</span>
+                      <div className="font-medium">
+                        {zoning.assessment.unusedGfa !== null
+                          ? `${Math.round(zoning.assessment.unusedGfa).toLocaleString('id-ID')} m²`
+                          : "Building size not recorded"}
                       </div>
-                      <p className="text-sm text-muted-foreground">{restriction.description}</p>
                     </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-8">
-                  <Building2 className="mx-auto h-12 w-12 text-muted-foreground" />
-                  <h3 className="mt-4 text-lg font-semibold">No Restrictions Found</h3>
-                  <p className="text-muted-foreground">
-                    This property has no known legal restrictions
-                  </p>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="risks" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle>Risk Analysis Summary</CardTitle>
-              <CardDescription>
-                Comprehensive risk assessment and mitigation recommendations
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-green-600">
-                    {checkResult.encumbrances.length === 0 ? "None" : checkResult.encumbrances.length}
-                  </div>
-                  <div className="text-sm text-muted-foreground">Encumbrances</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-red-600">
-                    {checkResult.disputes.length === 0 ? "None" : checkResult.disputes.length}
                   </div>
-                  <div className="text-sm text-muted-foreground">Active Disputes</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-yellow-600">
-                    {checkResult.restrictions.length}
+                  <div className="space-y-2">
+                    {zoning.assessment.checks.map(check => (
+                      <div key={check.key} className="flex items-center justify-between text-sm border-b pb-2 last:border-0">
+                        <div>
+                          <div className="font-medium">{check.label}</div>
+                          <div className="text-xs text-muted-foreground">Limit: {check.limit}</div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-muted-foreground">{check.actual}</span>
+                          {check.compliant === null
+                            ? <Clock className="h-4 w-4 text-gray-400" />
+                            : check.compliant
+                              ? <CheckCircle className="h-4 w-4 text-green-600" />
+                              : <XCircle className="h-4 w-4 text-red-600" />}
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                  <div className="text-sm text-muted-foreground">Restrictions</div>
-                </div>
-              </div>
+                </CardContent>
+              )}
+            </Card>
+
+            {legalCheck.notes && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Verification Notes</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground">{legalCheck.notes}</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="findings" className="space-y-4">
+            {legalCheck.findings.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-8">
+                  <CheckCircle className="mx-auto h-12 w-12 text-green-600" />
+                  <h3 className="mt-4 text-lg font-semibold">No Findings</h3>
+                  <p className="text-muted-foreground">
+                    The latest legal check found no issues with this property
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              (Object.keys(TYPE_LABELS) as FindingType[])
+                .filter(type => findingsByType[type])
+                .map(type => (
+                  <Card key={type}>
+                    <CardHeader>
+                      <CardTitle className="text-base">{TYPE_LABELS[type]}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {findingsByType[type]!.map(renderFinding)}
+                    </CardContent>
+                  </Card>
+                ))
+            )}
+          </TabsContent>
 
-              {checkResult.riskFlags.length > 0 && (
-                <div>
-                  <h4 className="font-medium mb-3">Risk Flags & Recommendations</h4>
+          <TabsContent value="documents" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Documents on File</CardTitle>
+                <CardDescription>
+                  Certificates, tax notices and permits that findings can cite as evidence
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {documents.length > 0 ? (
                   <div className="space-y-3">
-                    {checkResult.riskFlags.map((flag, index) => (
-                      <Alert key={index}>
-                        <AlertTriangle className="h-4 w-4" />
-                        <AlertTitle>Risk Identified</AlertTitle>
-                        <AlertDescription className="mt-2">
-                          <div className="text-sm">{flag}</div>
-                          <div className="mt-2 text-xs text-muted-foreground">
-                            Recommendation: {flag.includes("verification") ? 
-                              "Complete verification process immediately" : 
-                              flag.includes("certificate") ? 
-                              "Obtain and verify certificate documentation" :
-                              "Consult with legal counsel for resolution"
-                            }
-                          </div>
-                        </AlertDescription>
-                      </Alert>
+                    {documents.map(document => (
+                      <div key={document.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                        <div>
+                          <div className="font-medium">{document.name}</div>
+                          <div className="text-muted-foreground">{document.documentType} · {document.reference}</div>
+                        </div>
+                        {document.url && (
+                          <a href={document.url} target="_blank" rel="noreferrer" className="text-sm underline">
+                            View
+                          </a>
+                        )}
+                      </div>
                     ))}
                   </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Legal Health Score */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Scale className="h-4 w-4" />
-                Legal Health Score
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center mb-4">
-                <div className={`text-4xl font-bold ${getComplianceColor(checkResult.complianceScore)}`}>
-                  {Math.round(checkResult.complianceScore * 100)}
-                </div>
-                <div className="text-sm text-muted-foreground">out of 100</div>
-              </div>
-              
-              <div className="space-y-2">
-                <div className="flex justify-center">
-                  <div className="w-full max-w-md">
-                    <Progress value={checkResult.complianceScore * 100} className="h-4" />
-                  </div>
-                </div>
-                
-                <div className="text-center text-sm text-muted-foreground">
-                  {checkResult.complianceScore >= 0.8 ? "Excellent legal standing" :
-                   checkResult.complianceScore >= 0.6 ? "Good legal standing with minor issues" :
-                   "Legal issues require attention"}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
-
-      {/* Notes */}
-      {checkResult.notes && (
-        <Card>
-          <CardHeader>
-            <CardTitle>Verification Notes</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">{checkResult.notes}</p>
-          </CardContent>
-        </Card>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No documents have been recorded for this property</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -9,9 +9,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { MapPin, Building2, Home, Factory, Store, LandPlot, Upload, X } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { MapPin, Building2, Home, Factory, Store, LandPlot, Upload, X, AlertTriangle } from "lucide-react"
+import { assessCertificate, CERTIFICATE_TYPE_LABELS } from "@/lib/land-certificate"
 
-interface PropertyFormData {
+export interface PropertyFormData {
   address: string
   district: string
   city: string
@@ -25,8 +27,15 @@ interface PropertyFormData {
   landUse: string
   ownershipStatus: string
   certificateNumber: string
+  certificateExpiry: string
+  parcelId: string
+  floors: string
   yearBuilt: string
   condition: string
+  monthlyRent: string
+  vacancyRate: string
+  operatingExpenseRatio: string
+  njop: string
   description: string
   features: string[]
   images: File[]
@@ -36,9 +45,11 @@ interface PropertyFormProps {
   onSubmit: (data: PropertyFormData) => void
   onSaveDraft?: (data: PropertyFormData) => void
   initialData?: Partial<PropertyFormData>
+  isSubmitting?: boolean
+  error?: string | null
 }
 
-export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFormProps) {
+export function PropertyForm({ onSubmit, onSaveDraft, initialData, isSubmitting = false, error }: PropertyFormProps) {
   const [formData, setFormData] = useState<PropertyFormData>({
     address: initialData?.address || "",
     district: initialData?.district || "",
@@ -53,8 +64,15 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
     landUse: initialData?.landUse || "",
     ownershipStatus: initialData?.ownershipStatus || "",
     certificateNumber: initialData?.certificateNumber || "",
+    certificateExpiry: initialData?.certificateExpiry || "",
+    parcelId: initialData?.parcelId || "",
+    floors: initialData?.floors || "",
     yearBuilt: initialData?.yearBuilt || "",
     condition: initialData?.condition || "",
+    monthlyRent: initialData?.monthlyRent || "",
+    vacancyRate: initialData?.vacancyRate || "",
+    operatingExpenseRatio: initialData?.operatingExpenseRatio || "",
+    njop: initialData?.njop || "",
     description: initialData?.description || "",
     features: initialData?.features || [],
     images: initialData?.images || []
@@ -62,6 +80,8 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
 
   const [newFeature, setNewFeature] = useState("")
 
+  const certificate = formData.certificateNumber.trim() ? assessCertificate(formData.certificateNumber) : null
+
   const assetTypeIcons = {
     RESIDENTIAL: Home,
     COMMERCIAL: Store,
@@ -215,7 +235,7 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
           <CardDescription>Physical characteristics and asset type</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="space-y-2">
               <Label htmlFor="landSize">Land Size (m²) *</Label>
               <Input
@@ -237,6 +257,17 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
                 onChange={(e) => handleInputChange("buildingSize", e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="floors">Floors</Label>
+              <Input
+                id="floors"
+                type="number"
+                min="1"
+                placeholder="e.g., 4"
+                value={formData.floors}
+                onChange={(e) => handleInputChange("floors", e.target.value)}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="yearBuilt">Year Built</Label>
               <Input
@@ -298,6 +329,51 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
         </CardContent>
       </Card>
 
+      {/* Income Information */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Store className="h-5 w-5" />
+            Income Information
+          </CardTitle>
+          <CardDescription>Rental inputs for the income approach (leave blank if the property is not leased)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="monthlyRent">Monthly Gross Rent (IDR)</Label>
+              <Input
+                id="monthlyRent"
+                type="number"
+                placeholder="e.g., 45000000"
+                value={formData.monthlyRent}
+                onChange={(e) => handleInputChange("monthlyRent", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vacancyRate">Vacancy Rate (%)</Label>
+              <Input
+                id="vacancyRate"
+                type="number"
+                placeholder="e.g., 5"
+                value={formData.vacancyRate}
+                onChange={(e) => handleInputChange("vacancyRate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="operatingExpenseRatio">Operating Expenses (% of income)</Label>
+              <Input
+                id="operatingExpenseRatio"
+                type="number"
+                placeholder="e.g., 30"
+                value={formData.operatingExpenseRatio}
+                onChange={(e) => handleInputChange("operatingExpenseRatio", e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Legal & Zoning */}
       <Card>
         <CardHeader>
@@ -331,12 +407,49 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
                 value={formData.certificateNumber}
                 onChange={(e) => handleInputChange("certificateNumber", e.target.value)}
               />
+              {certificate && (
+                <p className={`text-xs ${certificate.valid ? "text-muted-foreground" : "text-amber-600"}`}>
+                  {certificate.certificate && certificate.valid
+                    ? `${CERTIFICATE_TYPE_LABELS[certificate.certificate.type]}: ${certificate.certificate.normalized}`
+                    : certificate.issues[0]?.title}
+                </p>
+              )}
+            </div>
+            {certificate?.certificate && certificate.certificate.type !== "SHM" && (
+              <div className="space-y-2">
+                <Label htmlFor="certificateExpiry">Right Expires On</Label>
+                <Input
+                  id="certificateExpiry"
+                  type="date"
+                  value={formData.certificateExpiry}
+                  onChange={(e) => handleInputChange("certificateExpiry", e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="parcelId">Parcel ID (NIB)</Label>
+              <Input
+                id="parcelId"
+                placeholder="14 digits, from the certificate's measurement letter"
+                value={formData.parcelId}
+                onChange={(e) => handleInputChange("parcelId", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="njop">NJOP (IDR)</Label>
+              <Input
+                id="njop"
+                type="number"
+                placeholder="From the latest SPPT PBB"
+                value={formData.njop}
+                onChange={(e) => handleInputChange("njop", e.target.value)}
+              />
             </div>
             <div className="space-y-2">
               <Label htmlFor="zoning">Zoning Classification</Label>
               <Input
                 id="zoning"
-                placeholder="e.g., Commercial, Residential, Industrial"
+                placeholder="e.g., K.1 Perkantoran, R.2, C.1"
                 value={formData.zoning}
                 onChange={(e) => handleInputChange("zoning", e.target.value)}
               />
@@ -438,15 +551,24 @@ export function PropertyForm({ onSubmit, onSaveDraft, initialData }: PropertyFor
         </CardContent>
       </Card>
 
+      {/* Submission Error */}
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Valuation Failed</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Form Actions */}
       <div className="flex justify-end space-x-4">
         {onSaveDraft && (
-          <Button type="button" variant="outline" onClick={handleSaveDraft}>
+          <Button type="button" variant="outline" onClick={handleSaveDraft} disabled={isSubmitting}>
             Save Draft
           </Button>
         )}
-        <Button type="submit">
-          Start AI Valuation
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Running Valuation..." : "Start AI Valuation"}
         </Button>
       </div>
     </form>
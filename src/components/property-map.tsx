@@ -7,24 +7,44 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { MapPin, Building2, Layers, ZoomIn, ZoomOut, RotateCcw } from "lucide-react"
+import { parseZoneCode, ZoneRules } from "@/lib/zoning"
 
 interface Property {
   id: string
   address: string
   district: string
   city: string
+  province?: string
   coordinates?: string
   landSize: number
   assetType: string
+  zoning?: string
   estimatedValue?: number
   confidenceScore?: number
 }
 
-interface ZoningOverlay {
-  type: string
-  color: string
-  description: string
-  regulations: string[]
+// Colours by zone family, after the RDTR map legend: R housing, K commercial, C mixed, I industry, P agriculture,
+// H green space
+const ZONE_FAMILY_COLORS: Record<string, string> = {
+  R: "#f2d61d",
+  K: "#e0474c",
+  C: "#b35ab8",
+  I: "#8a8a8a",
+  P: "#8bc34a",
+  H: "#1f9e5b"
+}
+
+const zoneColor = (code: string) => ZONE_FAMILY_COLORS[code.charAt(0)] || "#3b82f6"
+
+function zoneRegulations(zone: ZoneRules): string[] {
+  const uses = [...zone.permittedAssetTypes, ...zone.conditionalAssetTypes.map(type => `${type} (conditional)`)]
+  return [
+    `${Math.round(zone.kdb * 100)}% building coverage (KDB)`,
+    `Floor-area ratio ${zone.klb} (KLB)`,
+    `${Math.round(zone.kdh * 100)}% minimum green area (KDH)`,
+    zone.maxFloors === null ? "No height limit" : `Max ${zone.maxFloors} floors`,
+    `Permitted: ${uses.map(use => use.replace("_", " ")).join(", ") || "no buildings"}`
+  ]
 }
 
 interface PropertyMapProps {
@@ -46,34 +66,25 @@ export function PropertyMap({
   const [mapZoom, setMapZoom] = useState(zoom)
   const [showZoning, setShowZoning] = useState(false)
   const [activeOverlay, setActiveOverlay] = useState<string>("none")
+  const [zones, setZones] = useState<ZoneRules[]>([])
 
-  // Mock zoning overlays for demonstration
-  const zoningOverlays: ZoningOverlay[] = [
-    {
-      type: "Residential",
-      color: "#10b981",
-      description: "Residential zoning areas",
-      regulations: ["Max 4 floors", "60% building coverage", "Minimum 3m setback"]
-    },
-    {
-      type: "Commercial",
-      color: "#3b82f6",
-      description: "Commercial and business zones",
-      regulations: ["No height limit", "80% building coverage", "Parking required"]
-    },
-    {
-      type: "Industrial",
-      color: "#f59e0b",
-      description: "Industrial and manufacturing areas",
-      regulations: ["Environmental impact required", "Heavy vehicle access", "Utility infrastructure"]
-    },
-    {
-      type: "Mixed Use",
-      color: "#8b5cf6",
-      description: "Mixed commercial and residential",
-      regulations: ["Mixed use permitted", "Floor area ratio limits", "Shared facilities"]
-    }
-  ]
+  const province = selectedProperty?.province || "DKI Jakarta"
+  const city = selectedProperty?.city
+  const selectedZoneCode = selectedProperty?.zoning ? parseZoneCode(selectedProperty.zoning) : null
+
+  // The zones in force where the selected property lies; Jakarta when nothing is selected
+  useEffect(() => {
+    const params = new URLSearchParams({ province })
+    if (city) params.set("city", city)
+
+    fetch(`/api/admin/zoning?${params}`)
+      .then(response => response.json())
+      .then(result => setZones(result.error ? [] : result.zones))
+      .catch(error => {
+        console.error("Error loading zoning zones:", error)
+        setZones([])
+      })
+  }, [province, city])
 
   const handleZoomIn = () => {
     setMapZoom(prev => Math.min(prev + 1, 18))
@@ -141,9 +152,9 @@ export function PropertyMap({
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="none">No Overlay</SelectItem>
-                    {zoningOverlays.map((zone) => (
-                      <SelectItem key={zone.type} value={zone.type}>
-                        {zone.type}
+                    {zones.map((zone) => (
+                      <SelectItem key={zone.code} value={zone.code}>
+                        {zone.code} {zone.name}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -181,14 +192,14 @@ export function PropertyMap({
               {/* Zoning overlays */}
               {showZoning && activeOverlay !== "none" && (
                 <div className="absolute inset-0 opacity-30">
-                  {zoningOverlays
-                    .filter(zone => activeOverlay === zone.type || activeOverlay === "all")
+                  {zones
+                    .filter(zone => activeOverlay === zone.code || activeOverlay === "all")
                     .map((zone, index) => (
                       <div
-                        key={zone.type}
+                        key={zone.code}
                         className="absolute rounded-lg"
                         style={{
-                          backgroundColor: zone.color,
+                          backgroundColor: zoneColor(zone.code),
                           top: `${20 + (index * 15)}%`,
                           left: `${15 + (index * 10)}%`,
                           width: `${30 + (index * 5)}%`,
@@ -257,13 +268,13 @@ export function PropertyMap({
                 <div className="absolute bottom-4 right-4 bg-white rounded-lg shadow-lg p-3 max-w-xs">
                   <h4 className="font-semibold text-sm mb-2">Zoning Types</h4>
                   <div className="space-y-1">
-                    {zoningOverlays.map((zone) => (
-                      <div key={zone.type} className="flex items-center gap-2 text-xs">
+                    {zones.map((zone) => (
+                      <div key={zone.code} className="flex items-center gap-2 text-xs">
                         <div 
                           className="w-3 h-3 rounded" 
-                          style={{ backgroundColor: zone.color }}
+                          style={{ backgroundColor: zoneColor(zone.code) }}
                         ></div>
-                        <span>{zone.type}</span>
+                        <span>{zone.code} {zone.name}</span>
                       </div>
                     ))}
                   </div>
@@ -342,20 +353,27 @@ export function PropertyMap({
               
               <TabsContent value="zoning" className="space-y-4">
                 <div className="space-y-4">
-                  {zoningOverlays.map((zone) => (
-                    <div key={zone.type} className="border rounded-lg p-4">
+                  {zones.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No zoning data for {province}</p>
+                  )}
+                  {zones.map((zone) => (
+                    <div
+                      key={zone.code}
+                      className={`border rounded-lg p-4 ${zone.code === selectedZoneCode ? "border-primary bg-primary/5" : ""}`}
+                    >
                       <div className="flex items-center gap-2 mb-2">
                         <div 
                           className="w-4 h-4 rounded" 
-                          style={{ backgroundColor: zone.color }}
+                          style={{ backgroundColor: zoneColor(zone.code) }}
                         ></div>
-                        <h4 className="font-semibold">{zone.type} Zone</h4>
+                        <h4 className="font-semibold">{zone.code} {zone.name}</h4>
+                        {zone.code === selectedZoneCode && <Badge variant="outline">This property</Badge>}
                       </div>
-                      <p className="text-sm text-muted-foreground mb-2">{zone.description}</p>
+                      <p className="text-sm text-muted-foreground mb-2">{zone.source}</p>
                       <div>
                         <label className="text-sm font-medium">Regulations:</label>
                         <ul className="text-sm text-muted-foreground mt-1 space-y-1">
-                          {zone.regulations.map((reg, index) => (
+                          {zoneRegulations(zone).map((reg, index) => (
                             <li key={index} className="flex items-start gap-2">
                               <span className="text-primary">•</span>
                               <span>{reg}</span>
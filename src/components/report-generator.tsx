@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -25,90 +25,18 @@ import {
   FileSpreadsheet,
   File
 } from "lucide-react"
+import { GeneratedReport, ReportConfig, ReportData, SERVER_REPORT_FORMATS } from "@/lib/report-data"
+import { buildReportDocument, defaultTemplate, renderReportMarkdown, ReportTemplateDefinition } from "@/lib/report-template"
 
-interface ReportData {
-  property: {
-    address: string
-    district: string
-    city: string
-    landSize: number
-    buildingSize?: number
-    assetType: string
-    ownershipStatus: string
-    certificateNumber?: string
-    zoning?: string
-    landUse?: string
-  }
-  valuation: {
-    estimatedValue: number
-    valuePerSqm: number
-    confidenceScore: number
-    valuationMethod: string
-    valuationDate: string
-    marketTrends: {
-      trend: string
-      description: string
-      factors: string[]
-    }
-    comparableAnalysis: Array<{
-      address: string
-      district: string
-      city: string
-      landSize: number
-      assetType: string
-      transactionPrice?: number
-      pricePerSqm?: number
-      similarityScore: number
-    }>
-    riskFactors: {
-      overallRisk: string
-      factors: string[]
-      mitigation: string[]
-    }
-    strategicValue: {
-      highestBestUse: string
-      upsidePotential: string
-      recommendations: string[]
-    }
-  }
-  legalCheck?: {
-    ownershipVerified: boolean
-    certificateValid: boolean
-    zoningCompliant: boolean
-    landUsePermitted: boolean
-    complianceScore: number
-    riskFlags: string[]
-    verificationDate: string
-  }
-  financialModel?: {
-    loanToValue: number
-    debtServiceCoverage: number
-    estimatedRoi: number
-    cashFlow: number
-    capRate: number
-    recommendedLoanAmount: number
-    riskAssessment: {
-      overallRisk: string
-      factors: string[]
-      mitigation: string[]
-    }
-  }
-}
+type TemplateOption = ReportTemplateDefinition & { isDefault: boolean; shared: boolean }
+
+const DEFAULT_TEMPLATE = "__default__"
 
 interface ReportGeneratorProps {
   data: ReportData
   onGenerateReport?: (reportConfig: ReportConfig) => void
 }
 
-interface ReportConfig {
-  title: string
-  type: "VALUATION_REPORT" | "LEGAL_COMPLIANCE" | "FINANCIAL_ANALYSIS" | "COMPREHENSIVE_ANALYSIS"
-  format: "PDF" | "GOOGLE_SHEETS" | "MARKDOWN" | "JSON"
-  includeSections: string[]
-  customNotes?: string
-  recipientEmail?: string
-}
-
 export function ReportGenerator({ data, onGenerateReport }: ReportGeneratorProps) {
   const [activeTab, setActiveTab] = useState("generator")
   const [reportConfig, setReportConfig] = useState<ReportConfig>({
@@ -116,23 +44,51 @@ export function ReportGenerator({ data, onGenerateReport }: ReportGeneratorProps
     type: "VALUATION_REPORT",
     format: "PDF",
     includeSections: ["overview", "valuation", "legal", "financial", "recommendations"],
-    customNotes: ""
+    customNotes: "",
+    locale: "id"
   })
+  const [templates, setTemplates] = useState<TemplateOption[]>([])
   const [isGenerating, setIsGenerating] = useState(false)
-  const [generatedReports, setGeneratedReports] = useState<any[]>([])
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(value)
-  }
+  const [generatedReports, setGeneratedReports] = useState<GeneratedReport[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // History comes from the Report table so it survives a refresh
+  useEffect(() => {
+    if (!data.valuation.id) return
+
+    const loadReports = async () => {
+      try {
+        const response = await fetch(`/api/reports?valuationId=${data.valuation.id}`)
+        const result = await response.json().catch(() => ({}))
+        if (response.ok) setGeneratedReports(result.reports)
+      } catch (loadError) {
+        console.error("Failed to load reports:", loadError)
+      }
+    }
 
-  const formatNumber = (value: number) => {
-    return new Intl.NumberFormat('id-ID').format(value)
-  }
+    loadReports()
+  }, [data.valuation.id])
+
+  // Templates are per report type and language, so the choice resets when either changes
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const params = new URLSearchParams({ reportType: reportConfig.type, locale: reportConfig.locale || "id" })
+        const response = await fetch(`/api/report-templates?${params.toString()}`)
+        const result = await response.json().catch(() => ({}))
+        setTemplates(response.ok ? result.templates : [])
+      } catch (loadError) {
+        console.error("Failed to load report templates:", loadError)
+        setTemplates([])
+      }
+      setReportConfig(prev => ({ ...prev, templateId: undefined }))
+    }
+
+    loadTemplates()
+  }, [reportConfig.type, reportConfig.locale])
+
+  // Only approved valuations leave the platform
+  const isExportable = data.valuation.status === "APPROVED"
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
@@ -142,10 +98,22 @@ export function ReportGenerator({ data, onGenerateReport }: ReportGeneratorProps
     })
   }
 
+  const formatFileSize = (bytes: number | null) => {
+    if (!bytes) return "—"
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+  }
+
   const handleConfigChange = (field: keyof ReportConfig, value: any) => {
     setReportConfig(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleFinancingChange = (field: keyof NonNullable<ReportConfig["financing"]>, value: string) => {
+    setReportConfig(prev => ({
+      ...prev,
+      financing: { ...prev.financing, [field]: value === "" ? undefined : Number(value) }
+    }))
+  }
+
   const handleSectionToggle = (section: string) => {
     setReportConfig(prev => ({
       ...prev,
@@ -155,206 +123,64 @@ export function ReportGenerator({ data, onGenerateReport }: ReportGeneratorProps
     }))
   }
 
-  const generateReport = async () => {
+  // Rendered and stored server-side from the approved valuation, so the file matches the record
+  const generateReport = async (): Promise<GeneratedReport | null> => {
+    if (!isExportable || !data.valuation.id) return null
     setIsGenerating(true)
+    setError(null)
     try {
-      // Simulate report generation
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const newReport = {
-        id: "report_" + Date.now(),
-        title: reportConfig.title,
-        type: reportConfig.type,
-        format: reportConfig.format,
-        generatedAt: new Date().toISOString(),
-        downloadUrl: "#", // In real app, this would be a real URL
-        size: "2.4 MB"
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          valuationId: data.valuation.id,
+          title: reportConfig.title,
+          type: reportConfig.type,
+          format: reportConfig.format,
+          includeSections: reportConfig.includeSections,
+          customNotes: reportConfig.customNotes || undefined,
+          locale: reportConfig.locale,
+          templateId: reportConfig.templateId,
+          financing: reportConfig.format === "XLSX" ? reportConfig.financing : undefined
+        })
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
       }
 
-      setGeneratedReports(prev => [newReport, ...prev])
+      setGeneratedReports(prev => [result.report, ...prev])
       setActiveTab("history")
       
       if (onGenerateReport) {
         onGenerateReport(reportConfig)
       }
-    } catch (error) {
-      console.error("Report generation failed:", error)
+      return result.report
+    } catch (generateError) {
+      console.error("Report generation failed:", generateError)
+      setError(generateError instanceof Error ? generateError.message : "Report generation failed")
+      return null
     } finally {
       setIsGenerating(false)
     }
   }
 
+  // Same engine as the server-rendered PDF, so the preview and Markdown export match the stored file
   const generateMarkdownReport = () => {
-    const { title, includeSections, customNotes } = reportConfig
-    const { property, valuation, legalCheck, financialModel } = data
-
-    let markdown = `# ${title}
-
-**Generated on:** ${formatDate(new Date().toISOString())}  
-**Report Type:** ${reportConfig.type.replace(/_/g, ' ')}  
-**Property:** ${property.address}, ${property.district}, ${property.city}
-
----
-
-`
-
-    if (includeSections.includes("overview")) {
-      markdown += `## Property Overview
-
-### Property Details
-- **Address:** ${property.address}
-- **District:** ${property.district}
-- **City:** ${property.city}
-- **Land Size:** ${formatNumber(property.landSize)} m²
-- **Building Size:** ${property.buildingSize ? formatNumber(property.buildingSize) + ' m²' : 'N/A'}
-- **Asset Type:** ${property.assetType.replace(/_/g, ' ')}
-- **Ownership Status:** ${property.ownershipStatus.replace(/_/g, ' ')}
-- **Certificate Number:** ${property.certificateNumber || 'Not provided'}
-- **Zoning:** ${property.zoning || 'Not specified'}
-- **Land Use:** ${property.landUse || 'Not specified'}
-
-`
-    }
-
-    if (includeSections.includes("valuation")) {
-      markdown += `## Valuation Analysis
-
-### Valuation Summary
-- **Estimated Market Value:** ${formatCurrency(valuation.estimatedValue)}
-- **Value per m²:** ${formatCurrency(valuation.valuePerSqm)}
-- **Confidence Score:** ${Math.round(valuation.confidenceScore * 100)}%
-- **Valuation Method:** ${valuation.valuationMethod.replace(/_/g, ' ')}
-- **Valuation Date:** ${formatDate(valuation.valuationDate)}
-
-### Market Trends
-- **Trend:** ${valuation.marketTrends.trend}
-- **Description:** ${valuation.marketTrends.description}
-- **Key Factors:** ${valuation.marketTrends.factors.join(', ')}
-
-### Comparable Properties
-`
-      valuation.comparableAnalysis.forEach((comp, index) => {
-        markdown += `
-${index + 1}. **${comp.address}**
-   - District: ${comp.district}, ${comp.city}
-   - Land Size: ${formatNumber(comp.landSize)} m²
-   - Asset Type: ${comp.assetType.replace(/_/g, ' ')}
-   - Similarity Score: ${Math.round(comp.similarityScore * 100)}%
-   ${comp.transactionPrice ? `- Transaction Price: ${formatCurrency(comp.transactionPrice)}` : ''}
-   ${comp.pricePerSqm ? `- Price per m²: ${formatCurrency(comp.pricePerSqm)}` : ''}
-`
-      })
-
-      markdown += `
-
-### Risk Assessment
-- **Overall Risk:** ${valuation.riskFactors.overallRisk}
-- **Risk Factors:** ${valuation.riskFactors.factors.join(', ')}
-- **Mitigation Strategies:** ${valuation.riskFactors.mitigation.join(', ')}
-
-### Strategic Value
-- **Highest & Best Use:** ${valuation.strategicValue.highestBestUse}
-- **Upside Potential:** ${valuation.strategicValue.upsidePotential}
-- **Recommendations:** ${valuation.strategicValue.recommendations.join(', ')}
-
-`
-    }
-
-    if (includeSections.includes("legal") && legalCheck) {
-      markdown += `## Legal Compliance
-
-### Verification Status
-- **Ownership Verified:** ${legalCheck.ownershipVerified ? '✅ Yes' : '❌ No'}
-- **Certificate Valid:** ${legalCheck.certificateValid ? '✅ Yes' : '❌ No'}
-- **Zoning Compliant:** ${legalCheck.zoningCompliant ? '✅ Yes' : '❌ No'}
-- **Land Use Permitted:** ${legalCheck.landUsePermitted ? '✅ Yes' : '❌ No'}
-- **Compliance Score:** ${Math.round(legalCheck.complianceScore * 100)}%
-- **Verification Date:** ${formatDate(legalCheck.verificationDate)}
-
-### Risk Flags
-`
-      if (legalCheck.riskFlags.length > 0) {
-        legalCheck.riskFlags.forEach((flag, index) => {
-          markdown += `- ${flag}\n`
-        })
-      } else {
-        markdown += "- No risk flags identified\n"
-      }
-
-      markdown += "\n"
-    }
-
-    if (includeSections.includes("financial") && financialModel) {
-      markdown += `## Financial Analysis
-
-### Key Metrics
-- **Loan-to-Value (LTV):** ${Math.round(financialModel.loanToValue * 100)}%
-- **Debt Service Coverage (DSCR):** ${financialModel.debtServiceCoverage.toFixed(2)}x
-- **Estimated ROI:** ${Math.round(financialModel.estimatedRoi * 100)}%
-- **Annual Cash Flow:** ${formatCurrency(financialModel.cashFlow)}
-- **Capitalization Rate:** ${Math.round(financialModel.capRate * 100)}%
-- **Recommended Loan Amount:** ${formatCurrency(financialModel.recommendedLoanAmount)}
-
-### Risk Assessment
-- **Overall Risk:** ${financialModel.riskAssessment.overallRisk}
-- **Risk Factors:** ${financialModel.riskAssessment.factors.join(', ')}
-- **Mitigation Strategies:** ${financialModel.riskAssessment.mitigation.join(', ')}
-
-`
-    }
-
-    if (includeSections.includes("recommendations")) {
-      markdown += `## Recommendations & Next Steps
-
-### Key Recommendations
-`
-      if (valuation.strategicValue.recommendations.length > 0) {
-        valuation.strategicValue.recommendations.forEach((rec, index) => {
-          markdown += `${index + 1}. ${rec}\n`
-        })
-      }
-
-      markdown += `
-### Action Items
-1. **Immediate Actions:**
-   - Review and verify all documentation
-   - Conduct physical property inspection
-   - Validate market assumptions
-
-2. **Due Diligence:**
-   - Legal verification with relevant authorities
-   - Environmental assessment if applicable
-   - Title search and encumbrance check
-
-3. **Strategic Planning:**
-   - Develop timeline for acquisition or development
-   - Secure financing arrangements
-   - Engage legal and tax advisors
-
-`
-    }
-
-    if (customNotes) {
-      markdown += `## Additional Notes
-
-${customNotes}
-
-`
-    }
-
-    markdown += `---
-
-*This report was generated by Taksa Dana AI-Powered Property Valuation System.  
-For questions or additional analysis, please contact your valuation specialist.*
-
-**Report ID:** RPT-${Date.now()}  
-**Confidentiality Level:** Restricted  
-**Distribution:** Authorized Personnel Only`
-
-    return markdown
+    const template = templates.find(candidate => candidate.id === reportConfig.templateId)
+      || templates.find(candidate => candidate.isDefault && !candidate.shared)
+      || templates.find(candidate => candidate.isDefault)
+      || defaultTemplate(reportConfig.type, reportConfig.locale || "id")
+    return renderReportMarkdown(buildReportDocument(data, reportConfig, template, { generatedAt: new Date() }))
   }
 
-  const downloadReport = (format: string) => {
+  const downloadReport = async (format: string) => {
+    if (!isExportable) return
+    if (SERVER_REPORT_FORMATS.includes(format as ReportConfig["format"])) {
+      const report = await generateReport()
+      if (report?.downloadUrl) window.location.assign(report.downloadUrl)
+      return
+    }
     const content = format === "MARKDOWN" ? generateMarkdownReport() : JSON.stringify(data, null, 2)
     const filename = `${reportConfig.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${format === "MARKDOWN" ? "md" : "json"}`
     const blob = new Blob([content], { type: format === "MARKDOWN" ? "text/markdown" : "application/json" })
@@ -385,7 +211,7 @@ For questions or additional analysis, please contact your valuation specialist.*
 
   const formatOptions = [
     { value: "PDF", label: "PDF Document", icon: FileText, description: "Professional formatted report" },
-    { value: "GOOGLE_SHEETS", label: "Google Sheets", icon: FileSpreadsheet, description: "Editable spreadsheet format" },
+    { value: "XLSX", label: "Excel Workbook", icon: FileSpreadsheet, description: "Live formulas for auditing the model" },
     { value: "MARKDOWN", label: "Markdown", icon: File, description: "Flexible text format" },
     { value: "JSON", label: "JSON Data", icon: File, description: "Raw data export" }
   ]
@@ -463,9 +289,79 @@ For questions or additional analysis, please contact your valuation specialist.*
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="reportLocale">Language</Label>
+                      <Select value={reportConfig.locale} onValueChange={(value) => handleConfigChange("locale", value)}>
+                        <SelectTrigger id="reportLocale">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="id">Bahasa Indonesia</SelectItem>
+                          <SelectItem value="en">English</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="reportTemplate">Template</Label>
+                      <Select
+                        value={reportConfig.templateId || DEFAULT_TEMPLATE}
+                        onValueChange={(value) => handleConfigChange("templateId", value === DEFAULT_TEMPLATE ? undefined : value)}
+                      >
+                        <SelectTrigger id="reportTemplate">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={DEFAULT_TEMPLATE}>Organisation default</SelectItem>
+                          {templates.map(template => (
+                            <SelectItem key={template.id} value={template.id as string}>
+                              {template.name}{template.shared ? " (shared)" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                 </div>
 
                 <div className="space-y-4">
+                  {reportConfig.format === "XLSX" && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <Label htmlFor="loanAmount">Loan Amount (IDR)</Label>
+                        <Input
+                          id="loanAmount"
+                          type="number"
+                          placeholder="From financial model"
+                          value={reportConfig.financing?.loanAmount ?? ""}
+                          onChange={(e) => handleFinancingChange("loanAmount", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="interestRate">Interest Rate (%)</Label>
+                        <Input
+                          id="interestRate"
+                          type="number"
+                          step="0.1"
+                          placeholder="11"
+                          value={reportConfig.financing?.interestRate ?? ""}
+                          onChange={(e) => handleFinancingChange("interestRate", e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="loanTerm">Loan Term (years)</Label>
+                        <Input
+                          id="loanTerm"
+                          type="number"
+                          placeholder="10"
+                          value={reportConfig.financing?.loanTerm ?? ""}
+                          onChange={(e) => handleFinancingChange("loanTerm", e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <Label>Include Sections</Label>
                     <div className="mt-2 space-y-2">
@@ -504,16 +400,38 @@ For questions or additional analysis, please contact your valuation specialist.*
                 </div>
               </div>
 
+              {!isExportable && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Valuation Not Approved</AlertTitle>
+                  <AlertDescription>
+                    Reports can only be exported once a reviewer has approved this valuation
+                    (current status: {data.valuation.status || "DRAFT"}).
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Report Error</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
               <div className="flex justify-end space-x-4">
                 <Button 
                   variant="outline" 
                   onClick={() => downloadReport(reportConfig.format)}
-                  disabled={isGenerating}
+                  disabled={isGenerating || !isExportable}
                 >
                   <Download className="h-4 w-4 mr-2" />
                   Quick Download
                 </Button>
-                <Button onClick={generateReport} disabled={isGenerating}>
+                <Button
+                  onClick={() => SERVER_REPORT_FORMATS.includes(reportConfig.format) ? generateReport() : downloadReport(reportConfig.format)}
+                  disabled={isGenerating || !isExportable}
+                >
                   {isGenerating ? (
                     <>
                       <Calendar className="h-4 w-4 mr-2 animate-spin" />
@@ -572,7 +490,7 @@ For questions or additional analysis, please contact your valuation specialist.*
                           <Badge variant="secondary">{report.format}</Badge>
                         </div>
                         <div className="text-sm text-muted-foreground mt-1">
-                          Generated on {formatDate(report.generatedAt)} • {report.size}
+                          Generated on {formatDate(report.generatedAt)} • {formatFileSize(report.fileSize)}
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -580,9 +498,11 @@ For questions or additional analysis, please contact your valuation specialist.*
                           <Eye className="h-4 w-4 mr-1" />
                           View
                         </Button>
-                        <Button variant="outline" size="sm">
-                          <Download className="h-4 w-4 mr-1" />
-                          Download
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={report.downloadUrl || undefined}>
+                            <Download className="h-4 w-4 mr-1" />
+                            Download
+                          </a>
                         </Button>
                         <Button variant="outline" size="sm">
                           <Share2 className="h-4 w-4 mr-1" />
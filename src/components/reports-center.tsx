@@ -0,0 +1,318 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog"
+import { FileText, Download, RefreshCw, Trash2, AlertTriangle, Search } from "lucide-react"
+import { GeneratedReport } from "@/lib/report-data"
+
+interface PropertyOption {
+  id: string
+  address: string
+  district: string
+}
+
+const ALL = "__all__"
+
+const REPORT_TYPES = [
+  { value: "VALUATION_REPORT", label: "Valuation Report" },
+  { value: "LEGAL_COMPLIANCE", label: "Legal Compliance" },
+  { value: "FINANCIAL_ANALYSIS", label: "Financial Analysis" },
+  { value: "COMPREHENSIVE_ANALYSIS", label: "Comprehensive Analysis" }
+]
+
+export function ReportsCenter() {
+  const [reports, setReports] = useState<GeneratedReport[]>([])
+  const [total, setTotal] = useState(0)
+  const [properties, setProperties] = useState<PropertyOption[]>([])
+  const [search, setSearch] = useState("")
+  const [type, setType] = useState(ALL)
+  const [propertyId, setPropertyId] = useState(ALL)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [pendingDelete, setPendingDelete] = useState<GeneratedReport | null>(null)
+
+  const formatDate = (value: string) => new Date(value).toLocaleString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+  const formatFileSize = (bytes: number | null) => {
+    if (!bytes) return "—"
+    return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+  }
+
+  const loadReports = useCallback(async () => {
+    const params = new URLSearchParams()
+    if (search.trim()) params.set("search", search.trim())
+    if (type !== ALL) params.set("type", type)
+    if (propertyId !== ALL) params.set("propertyId", propertyId)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reports?${params.toString()}`)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
+      }
+      setReports(result.reports)
+      setTotal(result.total)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : "Failed to load reports")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [search, type, propertyId, from, to])
+
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a request per keystroke
+    const timer = setTimeout(loadReports, 300)
+    return () => clearTimeout(timer)
+  }, [loadReports])
+
+  useEffect(() => {
+    const loadProperties = async () => {
+      try {
+        const response = await fetch("/api/properties?limit=100")
+        const result = await response.json().catch(() => ({}))
+        if (response.ok) setProperties(result.properties)
+      } catch (loadError) {
+        console.error("Failed to load properties:", loadError)
+      }
+    }
+
+    loadProperties()
+  }, [])
+
+  // Re-renders from the current valuation record with the settings the report was created with
+  const regenerate = async (report: GeneratedReport) => {
+    if (!report.config) return
+    setBusyId(report.id)
+    setError(null)
+    try {
+      const response = await fetch("/api/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(report.config)
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
+      }
+      await loadReports()
+    } catch (regenerateError) {
+      setError(regenerateError instanceof Error ? regenerateError.message : "Failed to regenerate report")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteReport = async (report: GeneratedReport) => {
+    setBusyId(report.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reports?id=${report.id}`, { method: "DELETE" })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
+      }
+      setReports(prev => prev.filter(existing => existing.id !== report.id))
+      setTotal(prev => prev - 1)
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : "Failed to delete report")
+    } finally {
+      setBusyId(null)
+      setPendingDelete(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Reports Center
+        </CardTitle>
+        <CardDescription>Every report generated from your organisation's approved valuations</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="reportSearch">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="reportSearch"
+                className="pl-8"
+                placeholder="Title, address or district"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Report Type</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {REPORT_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Property</Label>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All properties</SelectItem>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id}>
+                    {property.address}, {property.district}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reportFrom">From</Label>
+            <Input id="reportFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reportTo">To</Label>
+            <Input id="reportTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Reports Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {reports.length > 0 ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Report</TableHead>
+                  <TableHead>Property</TableHead>
+                  <TableHead>Generated</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => (
+                  <TableRow key={report.id}>
+                    <TableCell>
+                      <div className="font-medium">{report.title}</div>
+                      <div className="flex gap-1 mt-1">
+                        <Badge variant="outline">{report.type.replace(/_/g, ' ')}</Badge>
+                        <Badge variant="secondary">{report.format}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {report.property ? `${report.property.address}, ${report.property.district}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDate(report.generatedAt)}</div>
+                      {report.generatedBy && <div className="text-xs text-muted-foreground">{report.generatedBy}</div>}
+                    </TableCell>
+                    <TableCell>{formatFileSize(report.fileSize)}</TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      {report.downloadUrl && (
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={report.downloadUrl}>
+                            <Download className="h-4 w-4 mr-1" />
+                            Download
+                          </a>
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => regenerate(report)}
+                        disabled={!report.config || busyId === report.id}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-1 ${busyId === report.id ? "animate-spin" : ""}`} />
+                        Regenerate
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPendingDelete(report)}
+                        disabled={busyId === report.id}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground">
+              Showing {reports.length} of {total} reports
+            </p>
+          </>
+        ) : (
+          <div className="text-center py-12">
+            <FileText className="mx-auto h-12 w-12 text-muted-foreground" />
+            <h3 className="mt-4 text-lg font-semibold">{isLoading ? "Loading Reports" : "No Reports Found"}</h3>
+            <p className="text-muted-foreground">
+              {isLoading ? "Fetching your reports..." : "Reports generated from approved valuations appear here"}
+            </p>
+          </div>
+        )}
+
+        <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete report?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingDelete?.title} and its stored file will be removed. The valuation itself is not affected.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => pendingDelete && deleteReport(pendingDelete)}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  )
+}
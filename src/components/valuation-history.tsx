@@ -0,0 +1,264 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { History, GitCompare, LineChart as LineChartIcon } from "lucide-react"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts"
+import { getStatusColor } from "@/components/valuation-review"
+import { diffValuations, ValuationSnapshot } from "@/lib/valuation-diff"
+
+interface ValuationHistoryProps {
+  valuations: ValuationSnapshot[]
+}
+
+export function ValuationHistory({ valuations }: ValuationHistoryProps) {
+  const [baseId, setBaseId] = useState(valuations.length > 1 ? valuations[valuations.length - 2].id : "")
+  const [compareId, setCompareId] = useState(valuations.length > 0 ? valuations[valuations.length - 1].id : "")
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value)
+  }
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString('id-ID', { day: "numeric", month: "short", year: "numeric" })
+
+  const formatValue = (field: string, value: string | number | null) => {
+    if (value === null) return "—"
+    if (typeof value === "string") return value
+    if (field === "confidenceScore") return `${Math.round(value * 100)}%`
+    return formatCurrency(value)
+  }
+
+  const formatChange = (change?: number) => {
+    if (change === undefined || change === 0) return null
+    return (
+      <span className={change > 0 ? "text-green-600" : "text-red-600"}>
+        {change > 0 ? "+" : ""}{(change * 100).toFixed(1)}%
+      </span>
+    )
+  }
+
+  const chartData = valuations.map(valuation => ({
+    date: formatDate(valuation.valuationDate),
+    estimatedValue: valuation.estimatedValue,
+    valuePerSqm: valuation.valuePerSqm
+  }))
+
+  const base = valuations.find(valuation => valuation.id === baseId)
+  const compare = valuations.find(valuation => valuation.id === compareId)
+  const diff = useMemo(() => base && compare && base.id !== compare.id ? diffValuations(base, compare) : null, [base, compare])
+
+  // Newest first in the table; the chart and selectors read oldest to newest
+  const newestFirst = [...valuations].reverse()
+
+  if (valuations.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No valuations have been recorded for this property yet.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Value Over Time
+          </CardTitle>
+          <CardDescription>Estimated value and value per m² across {valuations.length} valuations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis yAxisId="value" tickFormatter={(value) => `${(value / 1000000000).toFixed(1)}B`} />
+              <YAxis yAxisId="perSqm" orientation="right" tickFormatter={(value) => `${(value / 1000000).toFixed(1)}M`} />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatCurrency(value), name]}
+              />
+              <Legend />
+              <Line
+                yAxisId="value"
+                type="monotone"
+                dataKey="estimatedValue"
+                name="Estimated Value"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                dot={{ fill: '#3b82f6' }}
+              />
+              <Line
+                yAxisId="perSqm"
+                type="monotone"
+                dataKey="valuePerSqm"
+                name="Value per m²"
+                stroke="#10b981"
+                strokeWidth={2}
+                dot={{ fill: '#10b981' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Valuation History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Estimated Value</TableHead>
+                <TableHead className="text-right">Value per m²</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {newestFirst.map(valuation => (
+                <TableRow key={valuation.id}>
+                  <TableCell>{formatDate(valuation.valuationDate)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{valuation.valuationMethod.replace(/_/g, ' ')}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getStatusColor(valuation.status || "DRAFT")}>{valuation.status || "DRAFT"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(valuation.estimatedValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(valuation.valuePerSqm)}</TableCell>
+                  <TableCell className="text-right">{Math.round(valuation.confidenceScore * 100)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {valuations.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Compare Valuations
+            </CardTitle>
+            <CardDescription>Field-by-field changes between two valuations of this property</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[
+                { label: "From", value: baseId, onChange: setBaseId },
+                { label: "To", value: compareId, onChange: setCompareId }
+              ].map(selector => (
+                <div key={selector.label} className="space-y-2">
+                  <span className="text-sm font-medium">{selector.label}</span>
+                  <Select value={selector.value} onValueChange={selector.onChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select valuation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {valuations.map(valuation => (
+                        <SelectItem key={valuation.id} value={valuation.id}>
+                          {formatDate(valuation.valuationDate)} · {formatCurrency(valuation.estimatedValue)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {!diff && (
+              <p className="text-sm text-muted-foreground">Select two different valuations to compare.</p>
+            )}
+
+            {diff && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>From</TableHead>
+                      <TableHead>To</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.fields.map(change => (
+                      <TableRow key={change.field} className={change.before !== change.after ? "bg-muted/50" : undefined}>
+                        <TableCell className="font-medium">{change.label}</TableCell>
+                        <TableCell>{formatValue(change.field, change.before)}</TableCell>
+                        <TableCell>{formatValue(change.field, change.after)}</TableCell>
+                        <TableCell className="text-right">
+                          {change.change !== undefined
+                            ? formatChange(change.change)
+                            : change.before !== change.after && <Badge variant="secondary">Changed</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <h4 className="font-medium mb-2">Risk Factors</h4>
+                    <ul className="space-y-1 text-sm">
+                      {diff.riskFactors.added.map(factor => (
+                        <li key={`added-${factor}`} className="text-red-600">+ {factor}</li>
+                      ))}
+                      {diff.riskFactors.removed.map(factor => (
+                        <li key={`removed-${factor}`} className="text-green-600 line-through">− {factor}</li>
+                      ))}
+                      {diff.riskFactors.unchanged.map(factor => (
+                        <li key={`unchanged-${factor}`} className="text-muted-foreground">{factor}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <h4 className="font-medium mb-2">Comparables</h4>
+                    <ul className="space-y-1 text-sm">
+                      {diff.comparables.added.map(comp => (
+                        <li key={`added-${comp.key}`} className="text-green-600">
+                          + {comp.address}{comp.after ? ` (${formatCurrency(comp.after)}/m²)` : ""}
+                        </li>
+                      ))}
+                      {diff.comparables.removed.map(comp => (
+                        <li key={`removed-${comp.key}`} className="text-red-600 line-through">
+                          − {comp.address}{comp.before ? ` (${formatCurrency(comp.before)}/m²)` : ""}
+                        </li>
+                      ))}
+                      {diff.comparables.changed.map(comp => (
+                        <li key={`changed-${comp.key}`}>
+                          {comp.address}: {comp.before ? formatCurrency(comp.before) : "—"} → {comp.after ? formatCurrency(comp.after) : "—"}/m²
+                        </li>
+                      ))}
+                      {diff.comparables.added.length + diff.comparables.removed.length + diff.comparables.changed.length === 0 && (
+                        <li className="text-muted-foreground">No changes to the comparable set</li>
+                      )}
+                    </ul>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { FileSearch, AlertTriangle } from "lucide-react"
+
+interface ValuationProvenance {
+  id: string
+  engineVersion: string
+  propertySnapshot: Record<string, unknown>
+  prompt: string | null
+  aiProvider: string | null
+  aiAttempts: number | null
+  rawResponse: string | null
+  validationErrors: string[]
+  fallbackReason: string | null
+  multipliers: Record<string, number>
+  comparableRecordIds: string[]
+  priceIndexVersion: string | null
+  createdAt: string
+}
+
+interface ValuationProvenanceDialogProps {
+  valuationId: string
+}
+
+export function ValuationProvenanceDialog({ valuationId }: ValuationProvenanceDialogProps) {
+  const [provenance, setProvenance] = useState<ValuationProvenance | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadProvenance = async (open: boolean) => {
+    if (!open || provenance) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/valuation/${valuationId}/provenance`)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
+      }
+      setProvenance(result.provenance)
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Failed to load provenance")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={loadProvenance}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileSearch className="h-4 w-4 mr-2" />
+          Provenance
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Valuation Provenance</DialogTitle>
+          <DialogDescription>
+            Inputs, prompt and model output recorded when this valuation was produced
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading provenance...</p>}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Provenance Unavailable</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {provenance && (
+          <ScrollArea className="max-h-[70vh] pr-4">
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-muted-foreground">Engine Version:</span>
+                  <span className="ml-2 font-medium">{provenance.engineVersion}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Recorded:</span>
+                  <span className="ml-2 font-medium">{new Date(provenance.createdAt).toLocaleString('id-ID')}</span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">AI Provider:</span>
+                  <span className="ml-2 font-medium">
+                    {provenance.aiProvider || "None"}
+                    {provenance.aiAttempts ? ` (${provenance.aiAttempts} attempt${provenance.aiAttempts > 1 ? "s" : ""})` : ""}
+                  </span>
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Price Index:</span>
+                  <span className="ml-2 font-medium">{provenance.priceIndexVersion || "Not used"}</span>
+                </div>
+              </div>
+
+              {provenance.fallbackReason && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Fallback Methodology Used</AlertTitle>
+                  <AlertDescription>{provenance.fallbackReason}</AlertDescription>
+                </Alert>
+              )}
+
+              {Object.keys(provenance.multipliers).length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Multipliers and Weights Applied</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(provenance.multipliers).map(([name, value]) => (
+                      <Badge key={name} variant="outline">{name}: {value.toFixed(2)}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {provenance.comparableRecordIds.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Recorded Comparables Used</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {provenance.comparableRecordIds.map(id => (
+                      <Badge key={id} variant="secondary" className="font-mono">{id}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {provenance.validationErrors.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Validation Errors</h4>
+                  <ul className="space-y-1">
+                    {provenance.validationErrors.map((validationError, index) => (
+                      <li key={index} className="text-sm text-red-600">{validationError}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Property Snapshot</h4>
+                <pre className="text-xs bg-muted p-3 rounded whitespace-pre-wrap break-all">
+                  {JSON.stringify(provenance.propertySnapshot, null, 2)}
+                </pre>
+              </div>
+
+              {provenance.prompt && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Prompt</h4>
+                  <pre className="text-xs bg-muted p-3 rounded whitespace-pre-wrap">{provenance.prompt}</pre>
+                </div>
+              )}
+
+              {provenance.rawResponse && (
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Raw AI Response</h4>
+                  <pre className="text-xs bg-muted p-3 rounded whitespace-pre-wrap break-all">{provenance.rawResponse}</pre>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
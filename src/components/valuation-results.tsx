@@ -1,13 +1,18 @@
 "use client"
 
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle, Target } from "lucide-react"
+import { TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle, Target, History } from "lucide-react"
+import { ValuationProvenanceDialog } from "@/components/valuation-provenance"
+import { ValuationReviewPanel } from "@/components/valuation-review"
 
 interface ValuationResult {
   id: string
+  propertyId?: string
   estimatedValue: number
   valuePerSqm: number
   confidenceScore: number
@@ -30,6 +35,16 @@ interface ValuationResult {
     distance?: number
     similarityScore: number
     dataSource: string
+    transactionDate?: string
+    adjustedPricePerSqm?: number
+    adjustments?: {
+      size: number
+      time: number
+      condition: number
+      ownership: number
+      total: number
+    }
+    weight?: number
   }>
   riskFactors: {
     overallRisk: "LOW" | "MEDIUM" | "HIGH"
@@ -40,6 +55,38 @@ interface ValuationResult {
     highestBestUse: string
     upsidePotential: string
     recommendations: string[]
+    residualAnalysis?: {
+      zoneCode: string
+      maxBuildableGfa: number
+      asIsValue: number | null
+      scenarios: Array<{
+        use: string
+        label: string
+        permitted: boolean
+        conditional: boolean
+        grossDevelopmentValue: number
+        totalDevelopmentCost: number
+        developerProfit: number
+        residualLandValue: number
+        residualLandValuePerSqm: number
+      }>
+      recommended: { use: string } | null
+    }
+  }
+  priceIndex?: {
+    version: string
+    matchLevel: string
+    pricePerSqm: number
+  }
+  approaches?: {
+    indications: Array<{
+      method: string
+      value: number
+      valuePerSqm: number
+      weight: number
+    }>
+    reconciledValue: number
+    method: string
   }
   notes?: string
 }
@@ -63,6 +110,10 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
     return new Intl.NumberFormat('id-ID').format(value)
   }
 
+  const formatAdjustment = (value: number) => {
+    return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`
+  }
+
   const getConfidenceColor = (score: number) => {
     if (score >= 0.8) return "text-green-600"
     if (score >= 0.6) return "text-yellow-600"
@@ -107,13 +158,28 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
       {/* Header */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Target className="h-5 w-5" />
-            Valuation Results
-          </CardTitle>
-          <CardDescription>
-            AI-powered property valuation for {propertyAddress}
-          </CardDescription>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Valuation Results
+              </CardTitle>
+              <CardDescription>
+                AI-powered property valuation for {propertyAddress}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {valuation.propertyId && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/properties/${valuation.propertyId}`}>
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </Link>
+                </Button>
+              )}
+              {valuation.id && <ValuationProvenanceDialog valuationId={valuation.id} />}
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -141,6 +207,8 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
         </CardContent>
       </Card>
 
+      {valuation.id && <ValuationReviewPanel valuationId={valuation.id} />}
+
       {/* Detailed Analysis */}
       <Tabs defaultValue="market" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
@@ -206,6 +274,14 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
                     {new Date(valuation.valuationDate).toLocaleDateString('id-ID')}
                   </span>
                 </div>
+                {valuation.priceIndex && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Price Index</span>
+                    <span className="text-sm text-muted-foreground">
+                      {valuation.priceIndex.version} ({valuation.priceIndex.matchLevel.replace('_', ' ').toLowerCase()}) · {formatCurrency(valuation.priceIndex.pricePerSqm)}/m²
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Confidence Level</span>
                   <div className="flex items-center gap-2">
@@ -218,6 +294,38 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
               </div>
             </CardContent>
           </Card>
+          {valuation.approaches && valuation.approaches.indications.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Approach Reconciliation</CardTitle>
+                <CardDescription>
+                  Indications from each valuation approach and the weights used to reconcile them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {valuation.approaches.indications.map((indication) => (
+                    <div key={indication.method} className="flex items-center justify-between">
+                      <div>
+                        <span className="text-sm font-medium">{indication.method.replace('_', ' ')}</span>
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrency(indication.value)} · {formatCurrency(indication.valuePerSqm)}/m²
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Progress value={indication.weight * 100} className="w-20" />
+                        <span className="text-sm font-medium w-10 text-right">{Math.round(indication.weight * 100)}%</span>
+                      </div>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between pt-3 border-t">
+                    <span className="text-sm font-medium">Reconciled Value</span>
+                    <span className="text-sm font-semibold">{formatCurrency(valuation.approaches.reconciledValue)}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="comparables" className="space-y-4">
@@ -271,10 +379,42 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
                         </div>
                       )}
                     </div>
+
+                    {comp.adjustments && comp.adjustedPricePerSqm && (
+                      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm mt-3 pt-3 border-t">
+                        <div>
+                          <span className="text-muted-foreground">Size Adj.:</span>
+                          <div className="font-medium">{formatAdjustment(comp.adjustments.size)}</div>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Time Adj.:</span>
+                          <div className="font-medium">{formatAdjustment(comp.adjustments.time)}</div>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Condition Adj.:</span>
+                          <div className="font-medium">{formatAdjustment(comp.adjustments.condition)}</div>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Ownership Adj.:</span>
+                          <div className="font-medium">{formatAdjustment(comp.adjustments.ownership)}</div>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Adjusted Price/m²:</span>
+                          <div className="font-medium">{formatCurrency(comp.adjustedPricePerSqm)}</div>
+                        </div>
+                        {comp.weight !== undefined && (
+                          <div>
+                            <span className="text-muted-foreground">Weight:</span>
+                            <div className="font-medium">{Math.round(comp.weight * 100)}%</div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     
                     <div className="flex items-center justify-between mt-3 pt-3 border-t">
                       <span className="text-xs text-muted-foreground">
                         Source: {comp.dataSource}
+                        {comp.transactionDate && ` · ${new Date(comp.transactionDate).toLocaleDateString('id-ID')}`}
                       </span>
                       {comp.distance && (
                         <span className="text-xs text-muted-foreground">
@@ -353,6 +493,44 @@ export function ValuationResults({ valuation, propertyAddress }: ValuationResult
                 </p>
               </div>
               
+              {valuation.strategicValue.residualAnalysis && (
+                <div>
+                  <h4 className="font-medium mb-2">
+                    Residual Land Value · {formatNumber(Math.round(valuation.strategicValue.residualAnalysis.maxBuildableGfa))} m² buildable in zone {valuation.strategicValue.residualAnalysis.zoneCode}
+                  </h4>
+                  <div className="space-y-2">
+                    {valuation.strategicValue.residualAnalysis.scenarios.map((scenario) => (
+                      <div
+                        key={scenario.use}
+                        className={`border rounded-lg p-3 ${valuation.strategicValue.residualAnalysis?.recommended?.use === scenario.use ? "border-primary bg-primary/5" : ""}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium">{scenario.label}</span>
+                            {!scenario.permitted && !scenario.conditional && <Badge variant="outline">Not permitted</Badge>}
+                            {scenario.conditional && <Badge variant="outline">Conditional</Badge>}
+                          </div>
+                          <span className={`text-sm font-semibold ${scenario.residualLandValue < 0 ? "text-red-600" : ""}`}>
+                            {formatCurrency(scenario.residualLandValue)}
+                          </span>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-muted-foreground mt-2">
+                          <div>GDV {formatCurrency(scenario.grossDevelopmentValue)}</div>
+                          <div>Costs {formatCurrency(scenario.totalDevelopmentCost)}</div>
+                          <div>Profit {formatCurrency(scenario.developerProfit)}</div>
+                          <div>{formatCurrency(scenario.residualLandValuePerSqm)}/m² land</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {valuation.strategicValue.residualAnalysis.asIsValue !== null && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      As-is value: {formatCurrency(valuation.strategicValue.residualAnalysis.asIsValue)}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h4 className="font-medium mb-2">Upside Potential</h4>
                 <p className="text-sm text-muted-foreground">
@@ -0,0 +1,164 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ClipboardCheck, AlertTriangle } from "lucide-react"
+
+type ValuationStatus = "DRAFT" | "SUBMITTED" | "APPROVED" | "REJECTED"
+type ReviewAction = "SUBMIT" | "APPROVE" | "REJECT"
+
+interface ValuationWorkflow {
+  valuationId: string
+  status: ValuationStatus
+  isAuthor: boolean
+  availableActions: ReviewAction[]
+  reviews: Array<{
+    id: string
+    action: ReviewAction
+    fromStatus: ValuationStatus
+    toStatus: ValuationStatus
+    comment: string | null
+    createdAt: string
+    reviewer: { name: string | null; email: string; role: string }
+  }>
+}
+
+interface ValuationReviewPanelProps {
+  valuationId: string
+}
+
+const ACTION_LABELS: Record<ReviewAction, string> = {
+  SUBMIT: "Submit for Review",
+  APPROVE: "Approve",
+  REJECT: "Reject"
+}
+
+const ACTION_PAST_TENSE: Record<ReviewAction, string> = {
+  SUBMIT: "submitted",
+  APPROVE: "approved",
+  REJECT: "rejected"
+}
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case "APPROVED": return "bg-green-100 text-green-800"
+    case "SUBMITTED": return "bg-blue-100 text-blue-800"
+    case "REJECTED": return "bg-red-100 text-red-800"
+    default: return "bg-gray-100 text-gray-800"
+  }
+}
+
+export function ValuationReviewPanel({ valuationId }: ValuationReviewPanelProps) {
+  const [workflow, setWorkflow] = useState<ValuationWorkflow | null>(null)
+  const [comment, setComment] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    const loadWorkflow = async () => {
+      try {
+        const response = await fetch(`/api/valuation/${valuationId}/review`)
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.error || `Request failed (${response.status})`)
+        }
+        setWorkflow(result.workflow)
+      } catch (requestError) {
+        setError(requestError instanceof Error ? requestError.message : "Failed to load review status")
+      }
+    }
+
+    loadWorkflow()
+  }, [valuationId])
+
+  const handleAction = async (action: ReviewAction) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/valuation/${valuationId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, comment: comment || undefined })
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed (${response.status})`)
+      }
+      setWorkflow(result.workflow)
+      setComment("")
+    } catch (requestError) {
+      setError(requestError instanceof Error ? requestError.message : "Review action failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review Status
+          {workflow && <Badge className={getStatusColor(workflow.status)}>{workflow.status}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Valuations must be approved by a reviewer other than the author before they can be exported
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Review Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {workflow && workflow.reviews.length > 0 && (
+          <div className="space-y-2">
+            {workflow.reviews.map(review => (
+              <div key={review.id} className="text-sm border-l-2 pl-3">
+                <div>
+                  <span className="font-medium">{review.reviewer.name || review.reviewer.email}</span>
+                  <span className="text-muted-foreground"> {ACTION_PAST_TENSE[review.action]} · {new Date(review.createdAt).toLocaleString('id-ID')}</span>
+                </div>
+                {review.comment && <p className="text-muted-foreground">{review.comment}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {workflow && workflow.availableActions.length > 0 && (
+          <>
+            <Textarea
+              placeholder={workflow.availableActions.includes("REJECT") ? "Reviewer comments (required to reject)" : "Comments for the reviewer"}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+            <div className="flex justify-end space-x-2">
+              {workflow.availableActions.map(action => (
+                <Button
+                  key={action}
+                  variant={action === "REJECT" ? "destructive" : "default"}
+                  onClick={() => handleAction(action)}
+                  disabled={isSubmitting || (action === "REJECT" && !comment.trim())}
+                >
+                  {ACTION_LABELS[action]}
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+
+        {workflow && workflow.availableActions.length === 0 && workflow.status === "SUBMITTED" && workflow.isAuthor && (
+          <p className="text-sm text-muted-foreground">Awaiting review by another member of your organisation.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { z } from "zod"
+import { AICompletionRequest, AIProvider, AIResponseError, extractJson, generateStructured, setAIProvider, StubAIProvider } from "@/lib/ai-client"
+
+const zoningOpinion = z.object({ zone: z.string(), compliant: z.boolean() })
+
+const ask = (provider: AIProvider, options: { maxAttempts?: number; timeoutMs?: number } = {}) => {
+  setAIProvider(provider)
+  return generateStructured({
+    task: "legal-check",
+    schema: zoningOpinion,
+    messages: [{ role: "user", content: "Is a two-storey house compliant in R.2?" }],
+    ...options
+  })
+}
+
+// Answers after a delay unless its request is aborted first, recording what happened to each attempt
+class SlowProvider implements AIProvider {
+  name = "slow"
+  outcomes: string[] = []
+
+  constructor(private delaysMs: number[]) {}
+
+  complete(request: AICompletionRequest): Promise<string> {
+    const delay = this.delaysMs[this.outcomes.length] ?? 0
+    const attempt = this.outcomes.push("pending") - 1
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.outcomes[attempt] = "answered"
+        resolve(JSON.stringify({ zone: "R.2", compliant: true }))
+      }, delay)
+      request.signal?.addEventListener("abort", () => {
+        clearTimeout(timer)
+        this.outcomes[attempt] = "aborted"
+        reject(request.signal!.reason)
+      })
+    })
+  }
+}
+
+afterEach(() => {
+  setAIProvider(null)
+})
+
+describe("extractJson", () => {
+  it("finds the object inside fences and prose", () => {
+    expect(extractJson("Here you go:\n```json\n{\"zone\": \"K.1\"}\n```")).toEqual({ zone: "K.1" })
+    expect(extractJson("The answer is {\"zone\": \"K.1\"}.")).toEqual({ zone: "K.1" })
+    expect(() => extractJson("No zone applies")).toThrow("Response does not contain a JSON object")
+  })
+})
+
+describe("generateStructured", () => {
+  it("aborts a request that runs past the timeout and retries", async () => {
+    const provider = new SlowProvider([1000, 0])
+    const completion = await ask(provider, { timeoutMs: 20 })
+
+    expect(provider.outcomes).toEqual(["aborted", "answered"])
+    expect(completion.attempts).toBe(2)
+    expect(completion.validationErrors).toEqual(["Attempt 1: AI request timed out after 20 ms"])
+  })
+
+  it("leaves a request that answers in time alone", async () => {
+    const provider = new SlowProvider([5])
+    await ask(provider, { timeoutMs: 1000 })
+    expect(provider.outcomes).toEqual(["answered"])
+  })
+
+  it("asks for a correction when the answer does not fit the schema", async () => {
+    const answers = [{ zone: "R.2" }, { zone: "R.2", compliant: false }]
+    const transcripts: number[] = []
+    const provider: AIProvider = {
+      name: "forgetful",
+      complete: async request => {
+        transcripts.push(request.messages.length)
+        return JSON.stringify(answers[transcripts.length - 1])
+      }
+    }
+
+    const completion = await ask(provider)
+    expect(completion.data).toEqual({ zone: "R.2", compliant: false })
+    expect(transcripts).toEqual([1, 3])
+    expect(completion.validationErrors).toEqual(["Attempt 1: compliant: Invalid input: expected boolean, received undefined"])
+  })
+
+  it("gives up after the last attempt", async () => {
+    const failure = await ask(new StubAIProvider(), { maxAttempts: 2 }).catch(error => error)
+    expect(failure).toBeInstanceOf(AIResponseError)
+    expect(failure.validationErrors).toHaveLength(2)
+  })
+})
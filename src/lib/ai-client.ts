@@ -0,0 +1,236 @@
+import { readFileSync } from "fs"
+import { readFile } from "fs/promises"
+import os from "os"
+import path from "path"
+import type { ZAIConfig } from "z-ai-web-dev-sdk"
+import { z } from "zod"
+
+export type AITask = "valuation" | "legal-check" | "financial-model" | "financial-modeling"
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface AICompletionRequest {
+  task: AITask
+  messages: AIMessage[]
+  temperature?: number
+  maxTokens?: number
+  signal?: AbortSignal // aborted when the caller stops waiting; providers should cancel the request
+}
+
+// Anything that can turn a chat transcript into text: the hosted z-ai model in production, a stub locally
+export interface AIProvider {
+  name: string
+  complete(request: AICompletionRequest): Promise<string>
+}
+
+export interface StructuredCompletionOptions<T> {
+  task: AITask
+  schema: z.ZodType<T>
+  messages: AIMessage[]
+  temperature?: number
+  maxTokens?: number
+  maxAttempts?: number
+  timeoutMs?: number
+}
+
+export interface StructuredCompletion<T> {
+  data: T
+  provider: string
+  rawResponse: string
+  attempts: number
+  validationErrors: string[]
+}
+
+export class AIResponseError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly validationErrors: string[],
+    public readonly rawResponse?: string
+  ) {
+    super(message)
+    this.name = "AIResponseError"
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_TIMEOUT_MS = 45000
+
+// Read from the same files, in the same order, as the z-ai SDK reads them
+async function loadZAIConfig(): Promise<ZAIConfig> {
+  for (const file of [path.join(process.cwd(), ".z-ai-config"), path.join(os.homedir(), ".z-ai-config"), "/etc/.z-ai-config"]) {
+    const config = await readFile(file, "utf-8").then(JSON.parse, () => null)
+    if (config?.baseUrl && config?.apiKey) return config
+  }
+  throw new Error("z-ai configuration not found: create .z-ai-config in the project, home directory or /etc")
+}
+
+// Calls the endpoint the z-ai SDK wraps, because the SDK's client cannot be cancelled and a timed-out request
+// would otherwise keep running
+class ZAIProvider implements AIProvider {
+  name = "z-ai"
+  private config: ZAIConfig | null = null
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    if (!this.config) {
+      this.config = await loadZAIConfig()
+    }
+
+    const { baseUrl, apiKey, chatId, userId } = this.config
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+        "X-Z-AI-From": "Z",
+        ...(chatId ? { "X-Chat-Id": chatId } : {}),
+        ...(userId ? { "X-User-Id": userId } : {})
+      },
+      body: JSON.stringify({
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens
+      }),
+      signal: request.signal
+    })
+    if (!response.ok) {
+      throw new Error(`AI request failed with status ${response.status}: ${await response.text()}`)
+    }
+
+    const completion = await response.json()
+    const content = completion.choices?.[0]?.message?.content
+    if (!content) {
+      throw new Error("No response from AI")
+    }
+    return content
+  }
+}
+
+// Serves canned responses per task so routes can run without the hosted model.
+// Tasks without a canned response fail, which exercises each route's deterministic fallback.
+export class StubAIProvider implements AIProvider {
+  name = "stub"
+
+  constructor(private responses: Partial<Record<AITask, unknown>> = {}) {}
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    request.signal?.throwIfAborted()
+    const response = this.responses[request.task]
+    if (response === undefined) {
+      throw new Error(`Stub AI provider has no response for ${request.task}`)
+    }
+    return typeof response === "string" ? response : JSON.stringify(response)
+  }
+}
+
+let activeProvider: AIProvider | null = null
+
+// AI_PROVIDER=stub selects the stub; AI_STUB_RESPONSES points at a JSON file keyed by task
+function createProviderFromEnv(): AIProvider {
+  if (process.env.AI_PROVIDER === "stub") {
+    const responsesFile = process.env.AI_STUB_RESPONSES
+    return new StubAIProvider(responsesFile ? JSON.parse(readFileSync(responsesFile, "utf-8")) : {})
+  }
+  return new ZAIProvider()
+}
+
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv()
+  }
+  return activeProvider
+}
+
+export function setAIProvider(provider: AIProvider | null): void {
+  activeProvider = provider
+}
+
+// Models often wrap JSON in ```json fences or surround it with prose
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const candidate = fenced ? fenced[1] : content
+
+  const start = candidate.search(/[{[]/)
+  const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"))
+  if (start === -1 || end < start) {
+    throw new Error("Response does not contain a JSON object")
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1))
+}
+
+// Gives the request a signal that is aborted when the time runs out, so the provider stops rather than the
+// caller merely ceasing to wait
+function withTimeout<T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout>
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`AI request timed out after ${timeoutMs} ms`)
+      controller.abort(error)
+      reject(error)
+    }, timeoutMs)
+  })
+  return Promise.race([request(controller.signal), timeout]).finally(() => clearTimeout(timer))
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)
+
+const repairPrompt = (errors: string[]) => `
+    Your previous response could not be used:
+${errors.map(error => `    - ${error}`).join("\n")}
+
+    Reply again with only the corrected JSON object, using exactly the structure requested above and no other text.
+    `
+
+export async function generateStructured<T>(options: StructuredCompletionOptions<T>): Promise<StructuredCompletion<T>> {
+  const provider = getAIProvider()
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const messages = [...options.messages]
+  const validationErrors: string[] = []
+  let rawResponse: string | undefined
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let content: string
+    try {
+      content = await withTimeout(signal => provider.complete({
+        task: options.task,
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        signal
+      }), timeoutMs)
+    } catch (error) {
+      // Transport failures and timeouts are retried with the same transcript
+      validationErrors.push(`Attempt ${attempt}: ${error instanceof Error ? error.message : String(error)}`)
+      continue
+    }
+    rawResponse = content
+
+    let errors: string[]
+    try {
+      const result = options.schema.safeParse(extractJson(content))
+      if (result.success) {
+        return { data: result.data, provider: provider.name, rawResponse: content, attempts: attempt, validationErrors }
+      }
+      errors = formatIssues(result.error)
+    } catch (parseError) {
+      errors = [parseError instanceof Error ? parseError.message : "Response is not valid JSON"]
+    }
+
+    validationErrors.push(...errors.map(error => `Attempt ${attempt}: ${error}`))
+    messages.push({ role: "assistant", content }, { role: "user", content: repairPrompt(errors) })
+  }
+
+  throw new AIResponseError(
+    `AI ${options.task} response failed validation after ${maxAttempts} attempts`,
+    maxAttempts,
+    validationErrors,
+    rawResponse
+  )
+}
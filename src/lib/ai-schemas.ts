@@ -0,0 +1,68 @@
+import { FindingSeverity, LegalFindingType, ValuationMethod } from "@prisma/client"
+import { z } from "zod"
+
+// Response contracts for each AI task. Anything that fails these is repaired or discarded, never stored.
+
+const riskLevel = z.enum(["LOW", "MEDIUM", "HIGH"])
+const stringList = z.array(z.string()).default([])
+
+export const valuationResponseSchema = z.object({
+  estimatedValue: z.number().positive(),
+  valuePerSqm: z.number().positive(),
+  confidenceScore: z.number().min(0).max(1),
+  valuationMethod: z.enum(ValuationMethod).default("AI_ENHANCED"),
+  marketTrends: z.object({
+    trend: z.string(),
+    description: z.string(),
+    factors: stringList
+  }),
+  comparableAnalysis: z.array(z.object({
+    address: z.string(),
+    district: z.string(),
+    city: z.string(),
+    landSize: z.number().nonnegative(),
+    buildingSize: z.number().nonnegative().nullish(),
+    assetType: z.string(),
+    transactionPrice: z.number().nonnegative().nullish(),
+    pricePerSqm: z.number().nonnegative().nullish(),
+    distance: z.number().nonnegative().nullish(),
+    similarityScore: z.number().min(0).max(1),
+    dataSource: z.string()
+  })).default([]),
+  riskFactors: z.object({
+    overallRisk: riskLevel,
+    factors: stringList,
+    mitigation: stringList
+  }),
+  strategicValue: z.object({
+    highestBestUse: z.string(),
+    upsidePotential: z.string(),
+    recommendations: stringList
+  }),
+  notes: z.string().optional()
+})
+
+export type ValuationResponse = z.infer<typeof valuationResponseSchema>
+
+// Findings only: pass/fail flags and the compliance score are derived from them in lib/legal-check
+export const legalFindingsResponseSchema = z.object({
+  findings: z.array(z.object({
+    type: z.enum(LegalFindingType),
+    severity: z.enum(FindingSeverity),
+    title: z.string().min(1),
+    description: z.string(),
+    recommendation: z.string().optional()
+  })).default([]),
+  notes: z.string().optional()
+})
+
+export type LegalFindingsResponse = z.infer<typeof legalFindingsResponseSchema>
+
+// Narrative only: every figure in a financial model comes from lib/finance
+export const financialNarrativeSchema = z.object({
+  summary: z.string(),
+  riskFactors: stringList,
+  mitigation: stringList
+})
+
+export type FinancialNarrativeResponse = z.infer<typeof financialNarrativeSchema>
@@ -0,0 +1,133 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto"
+import { NextResponse } from "next/server"
+import { getServerSession, NextAuthOptions } from "next-auth"
+import CredentialsProvider from "next-auth/providers/credentials"
+import { Prisma, UserRole } from "@prisma/client"
+import { db } from "@/lib/db"
+
+export interface SessionUser {
+  id: string
+  role: UserRole
+  organizationId: string | null
+  platformAdmin: boolean
+}
+
+const KEY_LENGTH = 64
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex")
+  return `${salt}:${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`
+}
+
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [salt, hash] = passwordHash.split(":")
+  if (!salt || !hash) return false
+  const expected = Buffer.from(hash, "hex")
+  const actual = scryptSync(password, salt, KEY_LENGTH)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export const authOptions: NextAuthOptions = {
+  session: { strategy: "jwt" },
+  pages: { signIn: "/auth/signin" },
+  providers: [
+    CredentialsProvider({
+      name: "Email and password",
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" }
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) return null
+
+        const user = await db.user.findUnique({
+          where: { email: credentials.email.trim().toLowerCase() }
+        })
+        if (!user?.passwordHash || !verifyPassword(credentials.password, user.passwordHash)) {
+          return null
+        }
+
+        return { id: user.id, email: user.email, name: user.name, role: user.role }
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.userId = user.id
+        token.role = user.role
+      }
+      return token
+    },
+    async session({ session, token }) {
+      if (session.user) {
+        session.user.id = token.userId
+        session.user.role = token.role
+      }
+      return session
+    }
+  }
+}
+
+// Routes call this first and answer 401 when it returns null
+export async function getSessionUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions)
+  return session?.user?.id ?? null
+}
+
+// Role and organisation are read fresh so a changed role applies without signing out
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const userId = await getSessionUserId()
+  if (!userId) return null
+
+  return await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true, organizationId: true, platformAdmin: true }
+  })
+}
+
+export const hasRole = (user: SessionUser, ...roles: UserRole[]) => roles.includes(user.role)
+
+// Organisation admins manage what belongs to their own organisation; the response is returned as is on failure
+export async function requireOrganizationAdmin(action: string): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    )
+  }
+  if (!hasRole(user, "ADMIN") || !user.organizationId) {
+    return NextResponse.json(
+      { error: `Only organisation admins can ${action}` },
+      { status: 403 }
+    )
+  }
+  return user
+}
+
+// The price index, zoning rules and regional tax rates apply to every organisation, so only platform admins edit
+// them; an organisation's own ADMIN role does not reach them
+export async function requirePlatformAdmin(action: string): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    )
+  }
+  if (!user.platformAdmin) {
+    return NextResponse.json(
+      { error: `Only platform admins can ${action}` },
+      { status: 403 }
+    )
+  }
+  return user
+}
+
+// Members of an organisation share its properties; users without one only see their own
+export function propertyAccessFilter(user: SessionUser): Prisma.PropertyWhereInput {
+  return user.organizationId
+    ? { user: { organizationId: user.organizationId } }
+    : { userId: user.id }
+}
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { buildComparableGrid, comparableAccessFilter, ComparableSubject } from "@/lib/comparable-engine"
+
+// The candidate queries are stubbed; what matters is the scope they are asked with and the grid built from them
+vi.mock("@/lib/db", () => ({
+  db: {
+    comparableProperty: { findMany: vi.fn() },
+    property: { findMany: vi.fn() }
+  }
+}))
+
+const transactions = vi.mocked(db.comparableProperty.findMany)
+const properties = vi.mocked(db.property.findMany)
+
+const subject: ComparableSubject = {
+  id: "subject",
+  district: "Kebayoran Baru",
+  city: "Jakarta Selatan",
+  landSize: 300,
+  assetType: "RESIDENTIAL",
+  ownershipStatus: "CERTIFIED",
+  condition: "GOOD",
+  accessFilter: { user: { organizationId: "org-1" } },
+  organizationId: "org-1"
+}
+
+// A trade recorded today, so the time adjustment and recency are negligible
+const trade = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  address: `Jl. Senopati ${id}`,
+  district: "Kebayoran Baru",
+  city: "Jakarta Selatan",
+  landSize: 300,
+  buildingSize: null,
+  assetType: "RESIDENTIAL",
+  condition: "GOOD",
+  ownershipStatus: "CERTIFIED",
+  coordinates: null,
+  transactionDate: new Date(),
+  transactionPrice: null,
+  pricePerSqm: 40000000,
+  dataSource: "Broker survey",
+  ...overrides
+})
+
+const rowFor = (grid: Awaited<ReturnType<typeof buildComparableGrid>>, id: string) =>
+  grid!.rows.find(row => row.sourceRecordId === id)!
+
+describe("comparableAccessFilter", () => {
+  it("admits an organisation's own imports and the platform's reference data", () => {
+    expect(comparableAccessFilter("org-1")).toEqual({
+      OR: [{ organizationId: "org-1" }, { organizationId: null, importedBy: { platformAdmin: true } }]
+    })
+  })
+
+  it("admits only reference data outside an organisation", () => {
+    expect(comparableAccessFilter(null)).toEqual({ organizationId: null, importedBy: { platformAdmin: true } })
+  })
+})
+
+describe("buildComparableGrid", () => {
+  beforeEach(() => {
+    transactions.mockReset().mockResolvedValue([])
+    properties.mockReset().mockResolvedValue([])
+  })
+
+  it("searches only the caller's transactions and properties", async () => {
+    await buildComparableGrid(subject)
+    const { where } = transactions.mock.calls[0][0]!
+    expect(where!.AND).toContainEqual(comparableAccessFilter("org-1"))
+    expect(properties.mock.calls[0][0]!.where).toMatchObject({ user: { organizationId: "org-1" }, id: { not: "subject" } })
+  })
+
+  it("needs the minimum number of comparables", async () => {
+    transactions.mockResolvedValue([trade("a"), trade("b")] as never)
+    expect(await buildComparableGrid(subject)).toBeNull()
+    expect(await buildComparableGrid(subject, { minComparables: 2 })).not.toBeNull()
+  })
+
+  it("scores location by district when either side lacks coordinates", async () => {
+    transactions.mockResolvedValue([trade("same"), trade("other", { district: "Cilandak" })] as never)
+    const grid = await buildComparableGrid(subject, { minComparables: 1 })
+    // Location is 0.9 in the same district and 0.5 elsewhere; size, recency and condition match fully
+    expect(rowFor(grid, "same").similarityScore).toBeCloseTo(0.4 * 0.9 + 0.6, 3)
+    expect(rowFor(grid, "other").similarityScore).toBeCloseTo(0.4 * 0.5 + 0.6, 3)
+    expect(rowFor(grid, "same").distance).toBeUndefined()
+  })
+
+  it("scores location by distance when both sides have coordinates", async () => {
+    transactions.mockResolvedValue([
+      trade("near", { coordinates: JSON.stringify({ lat: -6.2297, lng: 106.8106 }), district: "Cilandak" })
+    ] as never)
+    const grid = await buildComparableGrid({ ...subject, coordinates: { lat: -6.2297, lng: 106.8106 } }, { minComparables: 1 })
+    expect(rowFor(grid, "near").distance).toBe(0)
+    expect(rowFor(grid, "near").similarityScore).toBeCloseTo(1, 3)
+  })
+
+  it("adjusts for size, condition and ownership within the single-adjustment cap", async () => {
+    transactions.mockResolvedValue([
+      trade("larger", { landSize: 600, condition: "FAIR", ownershipStatus: "UNCERTIFIED" })
+    ] as never)
+    const { adjustments, adjustedPricePerSqm } = rowFor(await buildComparableGrid(subject, { minComparables: 1 }), "larger")
+    expect(adjustments.size).toBeCloseTo(0.1, 10)
+    expect(adjustments.condition).toBeCloseTo(0.1, 10)
+    expect(adjustments.ownership).toBe(0.25)
+    expect(adjustedPricePerSqm).toBeCloseTo(40000000 * (1 + adjustments.total), 0)
+  })
+
+  it("weights prior valuations at half a trade and normalises the weights", async () => {
+    transactions.mockResolvedValue([trade("trade")] as never)
+    properties.mockResolvedValue([{
+      ...trade("valued"),
+      valuations: [{ id: "valuation", valuationDate: new Date(), estimatedValue: 10500000000, valuePerSqm: 35000000 }]
+    }] as never)
+
+    const grid = await buildComparableGrid(subject, { minComparables: 2 })
+    expect(rowFor(grid, "trade").weight).toBeCloseTo(2 / 3, 10)
+    expect(rowFor(grid, "valuation").weight).toBeCloseTo(1 / 3, 10)
+    expect(grid!.indicatedValuePerSqm).toBeCloseTo((2 * 40000000 + 35000000) / 3, -3)
+  })
+})
@@ -0,0 +1,283 @@
+import { AssetType, Prisma } from "@prisma/client"
+import { db } from "@/lib/db"
+import { Coordinates, distanceInMeters, parseCoordinates } from "@/lib/geo"
+
+export const CONDITION_MULTIPLIERS: Record<string, number> = {
+  EXCELLENT: 1.3,
+  GOOD: 1.1,
+  FAIR: 1.0,
+  POOR: 0.8,
+  NEEDS_RENOVATION: 0.7
+}
+
+export const OWNERSHIP_MULTIPLIERS: Record<string, number> = {
+  CERTIFIED: 1.2,
+  UNDER_PROCESS: 1.0,
+  UNCERTIFIED: 0.8,
+  DISPUTED: 0.5
+}
+
+export interface ComparableSubject {
+  id: string
+  district: string
+  city: string
+  landSize: number
+  assetType: string
+  ownershipStatus: string
+  condition?: string
+  coordinates?: Coordinates
+  accessFilter: Prisma.PropertyWhereInput // the caller's property scope; other organisations' records are never evidence
+  organizationId: string | null // the caller's organisation, whose imported transactions are evidence
+}
+
+export interface ComparableAdjustments {
+  size: number
+  time: number
+  condition: number
+  ownership: number
+  total: number
+}
+
+export interface ComparableGridRow {
+  sourceRecordId: string
+  evidenceType: "TRANSACTION" | "VALUATION"
+  address: string
+  district: string
+  city: string
+  landSize: number
+  buildingSize?: number
+  assetType: string
+  transactionDate?: string
+  transactionPrice?: number
+  pricePerSqm: number
+  adjustedPricePerSqm: number
+  adjustments: ComparableAdjustments
+  distance?: number
+  similarityScore: number
+  weight: number
+  dataSource: string
+}
+
+export interface ComparableGrid {
+  rows: ComparableGridRow[]
+  indicatedValuePerSqm: number
+  candidatesConsidered: number
+}
+
+export interface ComparableSearchOptions {
+  maxComparables?: number
+  minComparables?: number
+  maxAgeMonths?: number
+  annualAppreciation?: number
+}
+
+const DEFAULT_OPTIONS: Required<ComparableSearchOptions> = {
+  maxComparables: 5,
+  minComparables: 3,
+  maxAgeMonths: 36,
+  annualAppreciation: 0.05
+}
+
+// Land-size band: comparables between half and double the subject's land size
+const SIZE_BAND = { min: 0.5, max: 2 }
+
+// Prior valuations are opinions, not trades, so they count for less in the weighted grid
+const VALUATION_EVIDENCE_WEIGHT = 0.5
+
+const MAX_SINGLE_ADJUSTMENT = 0.25
+
+interface Candidate {
+  sourceRecordId: string
+  evidenceType: "TRANSACTION" | "VALUATION"
+  address: string
+  district: string
+  city: string
+  landSize: number
+  buildingSize?: number
+  assetType: string
+  condition?: string
+  ownershipStatus?: string
+  coordinates?: Coordinates
+  transactionDate: Date
+  transactionPrice?: number
+  pricePerSqm: number
+  dataSource: string
+}
+
+// An organisation's own imported transactions plus the reference data platform admins import for everyone. Rows
+// from before imports were owned carry no importer and count for nobody.
+export function comparableAccessFilter(organizationId: string | null): Prisma.ComparablePropertyWhereInput {
+  const reference: Prisma.ComparablePropertyWhereInput = { organizationId: null, importedBy: { platformAdmin: true } }
+  return organizationId ? { OR: [{ organizationId }, reference] } : reference
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const monthsBetween = (from: Date, to: Date) =>
+  (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.4375)
+
+async function loadCandidates(subject: ComparableSubject, since: Date): Promise<Candidate[]> {
+  const sizeFilter = {
+    gte: subject.landSize * SIZE_BAND.min,
+    lte: subject.landSize * SIZE_BAND.max
+  }
+
+  // Only recorded transactions carry a transactionDate; AI-generated comparables never do
+  const transactions = await db.comparableProperty.findMany({
+    where: {
+      assetType: subject.assetType as AssetType,
+      city: subject.city,
+      landSize: sizeFilter,
+      transactionDate: { gte: since },
+      AND: [
+        { OR: [{ pricePerSqm: { not: null } }, { transactionPrice: { not: null } }] },
+        comparableAccessFilter(subject.organizationId)
+      ]
+    }
+  })
+
+  // Only approved valuations count as evidence; drafts and rejected figures are nobody's opinion of value yet
+  const valuedProperties = await db.property.findMany({
+    where: {
+      ...subject.accessFilter,
+      id: { not: subject.id },
+      assetType: subject.assetType as AssetType,
+      city: subject.city,
+      landSize: sizeFilter
+    },
+    include: {
+      valuations: {
+        where: { status: "APPROVED", valuationDate: { gte: since } },
+        orderBy: { valuationDate: "desc" },
+        take: 1
+      }
+    }
+  })
+
+  const transactionCandidates: Candidate[] = transactions.map(comp => ({
+    sourceRecordId: comp.id,
+    evidenceType: "TRANSACTION",
+    address: comp.address,
+    district: comp.district,
+    city: comp.city,
+    landSize: comp.landSize,
+    buildingSize: comp.buildingSize ?? undefined,
+    assetType: comp.assetType,
+    condition: comp.condition ?? undefined,
+    ownershipStatus: comp.ownershipStatus ?? undefined,
+    coordinates: parseCoordinates(comp.coordinates),
+    transactionDate: comp.transactionDate!,
+    transactionPrice: comp.transactionPrice ?? undefined,
+    pricePerSqm: comp.pricePerSqm ?? comp.transactionPrice! / comp.landSize,
+    dataSource: comp.dataSource
+  }))
+
+  const valuationCandidates: Candidate[] = valuedProperties
+    .filter(property => property.valuations.length > 0)
+    .map(property => {
+      const valuation = property.valuations[0]
+      return {
+        sourceRecordId: valuation.id,
+        evidenceType: "VALUATION",
+        address: property.address,
+        district: property.district,
+        city: property.city,
+        landSize: property.landSize,
+        buildingSize: property.buildingSize ?? undefined,
+        assetType: property.assetType,
+        condition: property.condition ?? undefined,
+        ownershipStatus: property.ownershipStatus,
+        coordinates: parseCoordinates(property.coordinates),
+        transactionDate: valuation.valuationDate,
+        transactionPrice: valuation.estimatedValue,
+        pricePerSqm: valuation.valuePerSqm,
+        dataSource: "Taksa Dana valuation"
+      }
+    })
+
+  return [...transactionCandidates, ...valuationCandidates].filter(candidate => candidate.pricePerSqm > 0)
+}
+
+function computeAdjustments(subject: ComparableSubject, candidate: Candidate, asOf: Date, annualAppreciation: number): ComparableAdjustments {
+  // Larger lots trade at a lower price per m²: 10% per doubling of land size
+  const size = clamp(-0.1 * Math.log2(subject.landSize / candidate.landSize), -MAX_SINGLE_ADJUSTMENT, MAX_SINGLE_ADJUSTMENT)
+
+  // Bring the trade forward to the valuation date at the assumed market appreciation rate
+  const time = clamp(annualAppreciation * monthsBetween(candidate.transactionDate, asOf) / 12, 0, MAX_SINGLE_ADJUSTMENT)
+
+  const conditionRatio = (CONDITION_MULTIPLIERS[subject.condition || "FAIR"] || 1) /
+    (CONDITION_MULTIPLIERS[candidate.condition || "FAIR"] || 1)
+  const condition = clamp(conditionRatio - 1, -MAX_SINGLE_ADJUSTMENT, MAX_SINGLE_ADJUSTMENT)
+
+  const ownershipRatio = candidate.ownershipStatus
+    ? (OWNERSHIP_MULTIPLIERS[subject.ownershipStatus] || 1) / (OWNERSHIP_MULTIPLIERS[candidate.ownershipStatus] || 1)
+    : 1
+  const ownership = clamp(ownershipRatio - 1, -MAX_SINGLE_ADJUSTMENT, MAX_SINGLE_ADJUSTMENT)
+
+  return { size, time, condition, ownership, total: size + time + condition + ownership }
+}
+
+function computeSimilarity(subject: ComparableSubject, candidate: Candidate, distance: number | undefined, asOf: Date, maxAgeMonths: number): number {
+  const locationScore = distance !== undefined
+    ? clamp(1 - distance / 5000, 0, 1)
+    : candidate.district === subject.district ? 0.9 : 0.5
+  const sizeScore = clamp(1 - Math.abs(Math.log2(candidate.landSize / subject.landSize)), 0, 1)
+  const recencyScore = clamp(1 - monthsBetween(candidate.transactionDate, asOf) / maxAgeMonths, 0, 1)
+  const conditionScore = (candidate.condition || "FAIR") === (subject.condition || "FAIR") ? 1 : 0.7
+
+  return 0.4 * locationScore + 0.25 * sizeScore + 0.2 * recencyScore + 0.15 * conditionScore
+}
+
+export async function buildComparableGrid(subject: ComparableSubject, options: ComparableSearchOptions = {}): Promise<ComparableGrid | null> {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+  const asOf = new Date()
+  const since = new Date(asOf)
+  since.setMonth(since.getMonth() - settings.maxAgeMonths)
+
+  const candidates = await loadCandidates(subject, since)
+
+  const rows: ComparableGridRow[] = candidates
+    .map(candidate => {
+      const distance = subject.coordinates && candidate.coordinates
+        ? Math.round(distanceInMeters(subject.coordinates, candidate.coordinates))
+        : undefined
+      const adjustments = computeAdjustments(subject, candidate, asOf, settings.annualAppreciation)
+      const similarityScore = computeSimilarity(subject, candidate, distance, asOf, settings.maxAgeMonths)
+      const evidenceWeight = candidate.evidenceType === "VALUATION" ? VALUATION_EVIDENCE_WEIGHT : 1
+
+      return {
+        sourceRecordId: candidate.sourceRecordId,
+        evidenceType: candidate.evidenceType,
+        address: candidate.address,
+        district: candidate.district,
+        city: candidate.city,
+        landSize: candidate.landSize,
+        buildingSize: candidate.buildingSize,
+        assetType: candidate.assetType,
+        transactionDate: candidate.transactionDate.toISOString(),
+        transactionPrice: candidate.transactionPrice,
+        pricePerSqm: candidate.pricePerSqm,
+        adjustedPricePerSqm: candidate.pricePerSqm * (1 + adjustments.total),
+        adjustments,
+        distance,
+        similarityScore,
+        weight: similarityScore * evidenceWeight,
+        dataSource: candidate.dataSource
+      }
+    })
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, settings.maxComparables)
+
+  if (rows.length < settings.minComparables) {
+    return null
+  }
+
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0)
+  const indicatedValuePerSqm = rows.reduce((sum, row) => sum + row.adjustedPricePerSqm * row.weight, 0) / totalWeight
+
+  return {
+    rows: rows.map(row => ({ ...row, weight: row.weight / totalWeight })),
+    indicatedValuePerSqm,
+    candidatesConsidered: candidates.length
+  }
+}
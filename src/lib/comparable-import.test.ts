@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { comparableImportRowSchema, importComparableRows, parseAmount, parseSpreadsheet } from "@/lib/comparable-import"
+
+// Parsing never reaches the database; importing is checked against stubbed queries
+vi.mock("@/lib/db", () => ({
+  db: {
+    property: { findMany: vi.fn() },
+    comparableProperty: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() }
+  }
+}))
+
+describe("parseAmount", () => {
+  it("reads Indonesian and English separators", () => {
+    expect(parseAmount("Rp 1.500.000,50", "IDR")).toBe(1500000.5)
+    expect(parseAmount("1,500,000.50", "IDR")).toBe(1500000.5)
+    expect(parseAmount("1.500.000", "IDR")).toBe(1500000)
+    expect(parseAmount("250,5 m²", "SQM")).toBe(250.5)
+  })
+
+  it("takes a lone group of three digits as thousands in rupiah", () => {
+    expect(parseAmount("2.125", "IDR")).toBe(2125)
+    expect(parseAmount("2,125", "IDR")).toBe(2125)
+  })
+
+  it("refuses to guess a lone group of three digits in an area", () => {
+    expect(parseAmount("2.125", "SQM")).toBeNull()
+    expect(parseAmount("2,125", "SQM")).toBeNull()
+  })
+
+  it("reads anything that cannot be a thousands group as decimals", () => {
+    expect(parseAmount("0.125", "SQM")).toBe(0.125)
+    expect(parseAmount("1500.25", "SQM")).toBe(1500.25)
+    expect(parseAmount("12,5", "SQM")).toBe(12.5)
+  })
+
+  it("passes typed spreadsheet numbers through", () => {
+    expect(parseAmount(2.125, "SQM")).toBe(2.125)
+  })
+
+  it("returns NaN for malformed groups", () => {
+    expect(parseAmount("1.50.0", "IDR")).toBeNaN()
+  })
+})
+
+describe("parseSpreadsheet", () => {
+  it("keeps CSV cells as written for the row schema to read", async () => {
+    const csv = "Alamat,Tanggal,Harga,Luas Tanah\nJl. Dago 41,2024-11-05,\"2.125.000.000\",00180\n,,,\n"
+    const { headers, rows } = await parseSpreadsheet(new TextEncoder().encode(csv).buffer as ArrayBuffer, "sales.csv")
+    expect(headers).toEqual(["Alamat", "Tanggal", "Harga", "Luas Tanah"])
+    expect(rows).toEqual([{ Alamat: "Jl. Dago 41", Tanggal: "2024-11-05", Harga: "2.125.000.000", "Luas Tanah": "00180" }])
+  })
+})
+
+describe("comparableImportRowSchema", () => {
+  const row = {
+    address: "Jl. Kemang Raya 10",
+    district: "Kemang",
+    city: "Jakarta",
+    landSize: "300",
+    assetType: "residential",
+    transactionDate: "31/12/2024",
+    pricePerSqm: "25.000.000"
+  }
+
+  it("parses a well-formed row", () => {
+    const result = comparableImportRowSchema.parse(row)
+    expect(result.pricePerSqm).toBe(25000000)
+    expect(result.assetType).toBe("RESIDENTIAL")
+    expect(result.transactionDate).toEqual(new Date(2024, 11, 31))
+  })
+
+  it("rejects an ambiguous land size with a message naming the field", () => {
+    const result = comparableImportRowSchema.safeParse({ ...row, landSize: "2.125" })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(["landSize"])
+    expect(result.error?.issues[0].message).toContain("Land size")
+  })
+
+  it("requires a price", () => {
+    const { pricePerSqm, ...withoutPrice } = row
+    expect(comparableImportRowSchema.safeParse(withoutPrice).success).toBe(false)
+  })
+})
+
+describe("importComparableRows", () => {
+  const parsed = {
+    headers: ["Alamat", "Kecamatan", "Kota", "LT", "Jenis", "Tanggal", "Harga per m2", "Koordinat"],
+    rows: [{
+      Alamat: "Jl. Bangka Raya 3",
+      Kecamatan: "Mampang Prapatan",
+      Kota: "Jakarta Selatan",
+      LT: 180,
+      Jenis: "Residential",
+      Tanggal: "15/03/2024",
+      "Harga per m2": "32.000.000",
+      Koordinat: "-6.2521, 106.8204"
+    }]
+  }
+  const mapping = {
+    address: "Alamat",
+    district: "Kecamatan",
+    city: "Kota",
+    landSize: "LT",
+    assetType: "Jenis",
+    transactionDate: "Tanggal",
+    pricePerSqm: "Harga per m2",
+    coordinates: "Koordinat"
+  }
+  const scope = { importedById: "user-1", organizationId: "org-1", accessFilter: { user: { organizationId: "org-1" } } }
+
+  beforeEach(() => {
+    vi.mocked(db.comparableProperty.findFirst).mockReset().mockResolvedValue(null)
+    vi.mocked(db.comparableProperty.create).mockReset()
+  })
+
+  it("records the organisation and the importer on every row", async () => {
+    const report = await importComparableRows(parsed, mapping, "Broker survey", scope)
+    expect(report.imported).toBe(1)
+    expect(vi.mocked(db.comparableProperty.create).mock.calls[0][0].data).toMatchObject({
+      organizationId: "org-1",
+      importedById: "user-1",
+      pricePerSqm: 32000000
+    })
+  })
+
+  it("looks for duplicates only within the importing organisation", async () => {
+    vi.mocked(db.comparableProperty.findFirst).mockResolvedValue({ id: "existing" } as never)
+    const report = await importComparableRows(parsed, mapping, "Broker survey", scope)
+    expect(report.duplicates).toBe(1)
+    expect(vi.mocked(db.comparableProperty.findFirst).mock.calls[0][0]!.where).toMatchObject({ organizationId: "org-1", dataSource: "Broker survey" })
+    expect(db.comparableProperty.create).not.toHaveBeenCalled()
+  })
+
+  it("geocodes only from records the importer can see", async () => {
+    vi.mocked(db.property.findMany).mockResolvedValue([{ coordinates: "-6.25, 106.82" }] as never)
+    vi.mocked(db.comparableProperty.findMany).mockResolvedValue([])
+    const { Koordinat, ...withoutCoordinates } = parsed.rows[0]
+
+    const report = await importComparableRows({ ...parsed, rows: [withoutCoordinates] }, mapping, "Broker survey", scope, true)
+    expect(report.geocoded).toBe(1)
+    expect(vi.mocked(db.property.findMany).mock.calls[0][0]!.where).toMatchObject({ user: { organizationId: "org-1" } })
+    expect(vi.mocked(db.comparableProperty.findMany).mock.calls[0][0]!.where).toMatchObject({
+      OR: [{ organizationId: "org-1" }, { organizationId: null, importedBy: { platformAdmin: true } }]
+    })
+  })
+})
@@ -0,0 +1,352 @@
+import { createHash } from "crypto"
+import { Readable } from "stream"
+import ExcelJS from "exceljs"
+import { z } from "zod"
+import { AssetType, OwnershipStatus, PropertyCondition, Prisma } from "@prisma/client"
+import { comparableAccessFilter } from "@/lib/comparable-engine"
+import { db } from "@/lib/db"
+import { Coordinates, parseCoordinates } from "@/lib/geo"
+
+export type ComparableImportField =
+  | "sourceId"
+  | "address"
+  | "district"
+  | "city"
+  | "landSize"
+  | "buildingSize"
+  | "assetType"
+  | "condition"
+  | "ownershipStatus"
+  | "transactionDate"
+  | "transactionPrice"
+  | "pricePerSqm"
+  | "coordinates"
+  | "latitude"
+  | "longitude"
+
+// Model fields a spreadsheet column can be mapped to, with header aliases used to pre-fill the mapping
+export const COMPARABLE_IMPORT_FIELDS: Array<{ field: ComparableImportField; label: string; required: boolean; aliases: string[] }> = [
+  { field: "sourceId", label: "Source ID", required: false, aliases: ["id", "source id", "transaction id", "lot", "no"] },
+  { field: "address", label: "Address", required: true, aliases: ["address", "alamat"] },
+  { field: "district", label: "District", required: true, aliases: ["district", "kecamatan", "area"] },
+  { field: "city", label: "City", required: true, aliases: ["city", "kota", "kabupaten"] },
+  { field: "landSize", label: "Land Size (m²)", required: true, aliases: ["land size", "land area", "luas tanah", "lt"] },
+  { field: "buildingSize", label: "Building Size (m²)", required: false, aliases: ["building size", "building area", "luas bangunan", "lb"] },
+  { field: "assetType", label: "Asset Type", required: true, aliases: ["asset type", "property type", "type", "jenis"] },
+  { field: "condition", label: "Condition", required: false, aliases: ["condition", "kondisi"] },
+  { field: "ownershipStatus", label: "Ownership Status", required: false, aliases: ["ownership", "ownership status", "status"] },
+  { field: "transactionDate", label: "Transaction Date", required: true, aliases: ["date", "transaction date", "tanggal", "sale date"] },
+  { field: "transactionPrice", label: "Transaction Price (IDR)", required: false, aliases: ["price", "transaction price", "harga", "sale price"] },
+  { field: "pricePerSqm", label: "Price per m² (IDR)", required: false, aliases: ["price per sqm", "price/m2", "harga per m2"] },
+  { field: "coordinates", label: "Coordinates (lat, lng)", required: false, aliases: ["coordinates", "koordinat", "latlng"] },
+  { field: "latitude", label: "Latitude", required: false, aliases: ["lat", "latitude"] },
+  { field: "longitude", label: "Longitude", required: false, aliases: ["lng", "lon", "longitude"] }
+]
+
+export type ColumnMapping = Partial<Record<ComparableImportField, string>>
+
+// Numeric XLSX cells stay numbers so their decimals are never mistaken for separators; everything else is text
+export type SpreadsheetCell = string | number
+
+export interface ParsedSpreadsheet {
+  headers: string[]
+  rows: Array<Record<string, SpreadsheetCell>>
+}
+
+// Who imports the rows and whose they become. Rows without an organisation are platform reference data that every
+// organisation's valuations draw on.
+export interface ComparableImportScope {
+  importedById: string
+  organizationId: string | null
+  accessFilter: Prisma.PropertyWhereInput // the importer's property scope, which bounds the geocoding evidence
+}
+
+export interface ImportRowError {
+  row: number
+  messages: string[]
+}
+
+export interface ImportReport {
+  totalRows: number
+  imported: number
+  duplicates: number
+  geocoded: number
+  errors: ImportRowError[]
+  dryRun: boolean
+}
+
+const toEnumValue = (value: unknown) =>
+  typeof value === "string" ? value.trim().toUpperCase().replace(/[\s-]+/g, "_") : value
+
+// Indonesian sheets usually write dates day-first (31/12/2024)
+const parseDate = (value: unknown) => {
+  const dayFirst = typeof value === "string" && value.trim().match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4})$/)
+  return dayFirst ? new Date(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1])) : value
+}
+
+export type AmountUnit = "IDR" | "SQM"
+
+// Only these take a typed number from the sheet; every other field is read as text
+const AMOUNT_FIELDS: ComparableImportField[] = ["landSize", "buildingSize", "transactionPrice", "pricePerSqm"]
+
+// Reads "Rp 1.500.000,50" (Indonesian separators) as well as "1,500,000.50". A lone separator before exactly three
+// digits ("2.125") reads either way: rupiah are never quoted to a thousandth, so a price takes it as thousands, but an
+// area could be either and is left to the sheet's author. Returns null for such an area and NaN for anything unreadable.
+export function parseAmount(value: SpreadsheetCell, unit: AmountUnit): number | null {
+  if (typeof value === "number") return value
+  const text = value.replace(/rp|m²|m2|\s/gi, "")
+  const lastDot = text.lastIndexOf(".")
+  const lastComma = text.lastIndexOf(",")
+
+  // With both separators, the last one marks the decimals
+  if (lastDot >= 0 && lastComma >= 0) {
+    return lastComma > lastDot
+      ? Number(text.replace(/\./g, "").replace(",", "."))
+      : Number(text.replace(/,/g, ""))
+  }
+
+  const groups = text.split(lastDot >= 0 ? "." : ",")
+  if (groups.length === 1) return Number(text)
+
+  // A repeated separator can only group thousands
+  const [lead, ...rest] = groups
+  if (groups.length > 2) {
+    return /^\d{1,3}$/.test(lead) && rest.every(group => /^\d{3}$/.test(group)) ? Number(groups.join("")) : NaN
+  }
+
+  if (/^[1-9]\d{0,2}$/.test(lead) && /^\d{3}$/.test(rest[0])) {
+    return unit === "IDR" ? Number(groups.join("")) : null
+  }
+  return Number(groups.join("."))
+}
+
+const amount = (unit: AmountUnit, label: string) => z.union([z.string(), z.number()]).transform((value, context) => {
+  const parsed = parseAmount(value, unit)
+  if (parsed === null) {
+    context.addIssue({
+      code: "custom",
+      message: `${label} "${value}" could mean a decimal or a thousands separator; write it without one (e.g. 2125) or with both (2.125,0)`
+    })
+    return z.NEVER
+  }
+  return parsed
+}).pipe(z.number().positive(`${label} must be a positive number`))
+
+const optionalAmount = (unit: AmountUnit, label: string) => z.preprocess(
+  value => value === "" ? undefined : value,
+  amount(unit, label).optional()
+)
+
+const optionalEnum = <T extends Record<string, string>>(values: T) => z.preprocess(
+  value => value === "" ? undefined : toEnumValue(value),
+  z.enum(values).optional()
+)
+
+export const comparableImportRowSchema = z.object({
+  sourceId: z.string().trim().optional(),
+  address: z.string().trim().min(1, "Address is required"),
+  district: z.string().trim().min(1, "District is required"),
+  city: z.string().trim().min(1, "City is required"),
+  landSize: amount("SQM", "Land size"),
+  buildingSize: optionalAmount("SQM", "Building size"),
+  assetType: z.preprocess(toEnumValue, z.enum(AssetType)),
+  condition: optionalEnum(PropertyCondition),
+  ownershipStatus: optionalEnum(OwnershipStatus),
+  transactionDate: z.preprocess(parseDate, z.coerce.date()).refine(date => !isNaN(date.getTime()) && date <= new Date(), "Transaction date must be a valid date in the past"),
+  transactionPrice: optionalAmount("IDR", "Transaction price"),
+  pricePerSqm: optionalAmount("IDR", "Price per m²"),
+  coordinates: z.string().optional(),
+  latitude: z.string().optional(),
+  longitude: z.string().optional()
+}).refine(row => row.transactionPrice !== undefined || row.pricePerSqm !== undefined, {
+  message: "Either transaction price or price per m² is required"
+})
+
+type ComparableImportRow = z.infer<typeof comparableImportRowSchema>
+
+function toCell(value: ExcelJS.CellValue): SpreadsheetCell {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "number") return value
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "object") {
+    if ("result" in value) return toCell(value.result as ExcelJS.CellValue)
+    if ("richText" in value) return value.richText.map(part => part.text).join("")
+    if ("text" in value) return String(value.text)
+    return ""
+  }
+  return String(value).trim()
+}
+
+export async function parseSpreadsheet(data: ArrayBuffer, filename: string): Promise<ParsedSpreadsheet> {
+  const workbook = new ExcelJS.Workbook()
+  let worksheet: ExcelJS.Worksheet | undefined
+
+  if (filename.toLowerCase().endsWith(".csv")) {
+    // Keep raw strings, which is all the CSV parser yields; typing happens in the zod row schema
+    worksheet = await workbook.csv.read(Readable.from(Buffer.from(data)), {
+      map: (value: ExcelJS.CellValue): ExcelJS.CellValue => typeof value === "string" ? value : toCell(value)
+    })
+  } else {
+    await workbook.xlsx.load(data)
+    worksheet = workbook.worksheets[0]
+  }
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    return { headers: [], rows: [] }
+  }
+
+  const headerRow = worksheet.getRow(1)
+  const headers: string[] = []
+  headerRow.eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column - 1] = String(toCell(cell.value)) || `Column ${column}`
+  })
+
+  const rows: Array<Record<string, SpreadsheetCell>> = []
+  for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber)
+    const record: Record<string, SpreadsheetCell> = {}
+    headers.forEach((header, index) => {
+      record[header] = toCell(row.getCell(index + 1).value)
+    })
+    if (Object.values(record).some(value => value !== "")) {
+      rows.push(record)
+    }
+  }
+
+  return { headers, rows }
+}
+
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  for (const { field, aliases } of COMPARABLE_IMPORT_FIELDS) {
+    const match = headers.find(header => aliases.includes(header.trim().toLowerCase()))
+    if (match) mapping[field] = match
+  }
+  return mapping
+}
+
+function fingerprint(row: ComparableImportRow): string {
+  return createHash("sha1")
+    .update([row.address.toLowerCase(), row.transactionDate.toISOString().slice(0, 10), row.transactionPrice ?? row.pricePerSqm].join("|"))
+    .digest("hex")
+    .slice(0, 16)
+}
+
+// Approximates coordinates from the centroid of records the importer can already see in the same district
+async function geocodeDistrict(district: string, city: string, scope: ComparableImportScope, cache: Map<string, Coordinates | undefined>) {
+  const key = `${city}|${district}`.toLowerCase()
+  if (cache.has(key)) return cache.get(key)
+
+  const [properties, comparables] = await Promise.all([
+    db.property.findMany({
+      where: { ...scope.accessFilter, district, city, coordinates: { not: null } },
+      select: { coordinates: true }
+    }),
+    db.comparableProperty.findMany({
+      where: { ...comparableAccessFilter(scope.organizationId), district, city, coordinates: { not: null } },
+      select: { coordinates: true }
+    })
+  ])
+  const points = [...properties, ...comparables]
+    .map(record => parseCoordinates(record.coordinates))
+    .filter((point): point is Coordinates => !!point)
+
+  const centroid = points.length > 0
+    ? {
+        lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+        lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+      }
+    : undefined
+
+  cache.set(key, centroid)
+  return centroid
+}
+
+export async function importComparableRows(
+  parsed: ParsedSpreadsheet,
+  mapping: ColumnMapping,
+  dataSource: string,
+  scope: ComparableImportScope,
+  dryRun = false
+): Promise<ImportReport> {
+  const report: ImportReport = { totalRows: parsed.rows.length, imported: 0, duplicates: 0, geocoded: 0, errors: [], dryRun }
+  const seenKeys = new Set<string>()
+  const geocodeCache = new Map<string, Coordinates | undefined>()
+
+  for (const [index, raw] of parsed.rows.entries()) {
+    // Spreadsheet row number: header is row 1
+    const rowNumber = index + 2
+    const mapped = Object.fromEntries(
+      Object.entries(mapping)
+        .filter(([, column]) => column)
+        .map(([field, column]) => [field, AMOUNT_FIELDS.includes(field as ComparableImportField) ? raw[column!] ?? "" : String(raw[column!] ?? "")])
+    )
+
+    const result = comparableImportRowSchema.safeParse(mapped)
+    if (!result.success) {
+      report.errors.push({
+        row: rowNumber,
+        messages: result.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)
+      })
+      continue
+    }
+
+    const row = result.data
+    const sourceId = row.sourceId || `fp-${fingerprint(row)}`
+    if (seenKeys.has(sourceId)) {
+      report.errors.push({ row: rowNumber, messages: [`Duplicate source ID ${sourceId} within file`] })
+      continue
+    }
+    seenKeys.add(sourceId)
+
+    const existing = await db.comparableProperty.findFirst({
+      where: { organizationId: scope.organizationId, sourceId, dataSource },
+      select: { id: true }
+    })
+    if (existing) {
+      report.duplicates++
+      continue
+    }
+
+    let coordinates = row.coordinates
+      ? parseCoordinates(row.coordinates)
+      : row.latitude && row.longitude ? parseCoordinates(`${row.latitude}, ${row.longitude}`) : undefined
+    if ((row.coordinates || row.latitude || row.longitude) && !coordinates) {
+      report.errors.push({ row: rowNumber, messages: ["coordinates: Could not parse latitude/longitude"] })
+      continue
+    }
+    if (!coordinates) {
+      coordinates = await geocodeDistrict(row.district, row.city, scope, geocodeCache)
+      if (coordinates) report.geocoded++
+    }
+
+    if (!dryRun) {
+      await db.comparableProperty.create({
+        data: {
+          sourceId,
+          dataSource,
+          address: row.address,
+          district: row.district,
+          city: row.city,
+          landSize: row.landSize,
+          buildingSize: row.buildingSize,
+          assetType: row.assetType,
+          condition: row.condition,
+          ownershipStatus: row.ownershipStatus,
+          coordinates: coordinates ? JSON.stringify(coordinates) : null,
+          transactionDate: row.transactionDate,
+          transactionPrice: row.transactionPrice,
+          pricePerSqm: row.pricePerSqm ?? row.transactionPrice! / row.landSize,
+          similarityScore: 0, // scored per subject property by the comparable engine
+          rawData: JSON.stringify(raw),
+          importedAt: new Date(),
+          organizationId: scope.organizationId,
+          importedById: scope.importedById
+        }
+      })
+    }
+    report.imported++
+  }
+
+  return report
+}
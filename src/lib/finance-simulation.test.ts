@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest"
+import { ProFormaAssumptions } from "@/lib/finance"
+import {
+  createRandom,
+  defaultDistributions,
+  histogram,
+  percentile,
+  sample,
+  SimulationDistributions,
+  simulate
+} from "@/lib/finance-simulation"
+
+const assumptions: ProFormaAssumptions = {
+  propertyValue: 2000000000,
+  grossPotentialRent: 200000000,
+  vacancyRate: 0.05,
+  operatingExpenseRatio: 0.3,
+  loan: { principal: 500000000, annualRate: 0.11, years: 10 },
+  holdYears: 5
+}
+
+// Every input at its modelled value, so each iteration reproduces the deterministic model
+const fixed: SimulationDistributions = {
+  interestRate: { type: "fixed", value: 0.11 },
+  rentChange: { type: "fixed", value: 1 },
+  vacancyRate: { type: "fixed", value: 0.05 },
+  operatingExpenseRatio: { type: "fixed", value: 0.3 },
+  exitValueChange: { type: "fixed", value: 1 }
+}
+
+describe("createRandom", () => {
+  it("repeats its sequence for a seed", () => {
+    const first = createRandom(42)
+    const second = createRandom(42)
+    const draws = Array.from({ length: 5 }, () => first())
+    expect(Array.from({ length: 5 }, () => second())).toEqual(draws)
+    expect(draws.every(draw => draw >= 0 && draw < 1)).toBe(true)
+  })
+})
+
+describe("sample", () => {
+  const random = createRandom(7)
+  const draws = (distribution: Parameters<typeof sample>[0]) => Array.from({ length: 2000 }, () => sample(distribution, random))
+
+  it("keeps uniform and triangular draws within their bounds", () => {
+    expect(draws({ type: "uniform", min: 2, max: 3 }).every(value => value >= 2 && value <= 3)).toBe(true)
+    expect(draws({ type: "triangular", min: 0, mode: 0.2, max: 1 }).every(value => value >= 0 && value <= 1)).toBe(true)
+  })
+
+  it("centres a normal draw on its mean and clamps it", () => {
+    const values = draws({ type: "normal", mean: 1, sd: 0.1, min: 0.9, max: 1.1 })
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+    expect(mean).toBeCloseTo(1, 1)
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0.9)
+    expect(Math.max(...values)).toBeLessThanOrEqual(1.1)
+  })
+})
+
+describe("percentile", () => {
+  it("interpolates between the closest ranks", () => {
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5)
+    expect(percentile([1, 2, 3, 4], 0)).toBe(1)
+    expect(percentile([1, 2, 3, 4], 1)).toBe(4)
+    expect(percentile([], 0.5)).toBe(0)
+  })
+})
+
+describe("histogram", () => {
+  it("counts every value once, the maximum in the last bin", () => {
+    const bins = histogram([0, 1, 2, 3, 4, 10], 5)
+    expect(bins).toHaveLength(5)
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(6)
+    expect(bins[4].count).toBe(1)
+  })
+})
+
+describe("simulate", () => {
+  it("reproduces a stored run from its seed", () => {
+    const first = simulate(assumptions, defaultDistributions(assumptions), { iterations: 200, seed: 3 })
+    const second = simulate(assumptions, defaultDistributions(assumptions), { iterations: 200, seed: 3 })
+    expect(second).toEqual(first)
+  })
+
+  it("collapses to the deterministic model when nothing varies", () => {
+    const result = simulate(assumptions, fixed, { iterations: 100 })
+    expect(result.irr!.p10).toBeCloseTo(result.irr!.p90, 10)
+    expect(result.dscrBreachProbability).toBe(0)
+    expect(result.ltvBreachProbability).toBe(0)
+  })
+
+  it("counts covenant breaches", () => {
+    const result = simulate(assumptions, { ...fixed, exitValueChange: { type: "fixed", value: 0.3 } }, {
+      iterations: 100,
+      dscrCovenant: 10,
+      maxLoanToValue: 0.8
+    })
+    expect(result.dscrBreachProbability).toBe(1)
+    expect(result.ltvBreachProbability).toBe(1)
+  })
+
+  it("widens the spread of returns as the inputs vary", () => {
+    const result = simulate(assumptions, defaultDistributions(assumptions), { iterations: 500 })
+    expect(result.iterations).toBe(500)
+    expect(result.npv.p10).toBeLessThan(result.npv.p50)
+    expect(result.npv.p50).toBeLessThan(result.npv.p90)
+  })
+
+  it("keeps the iteration count within bounds", () => {
+    expect(simulate(assumptions, fixed, { iterations: 0 }).iterations).toBe(1)
+  })
+})
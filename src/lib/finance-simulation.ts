@@ -0,0 +1,204 @@
+import { analyseInvestment, ProFormaAssumptions, shiftLoanRates } from "@/lib/finance"
+
+// Monte Carlo stress testing: every iteration runs the full cash-flow model with sampled inputs,
+// so results move for the same reasons the deterministic model does
+
+export type Distribution =
+  | { type: "fixed"; value: number }
+  | { type: "uniform"; min: number; max: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "normal"; mean: number; sd: number; min?: number; max?: number }
+
+export interface SimulationDistributions {
+  interestRate: Distribution // annual floating rate, decimal; fixed tiers move by the same number of points
+  rentChange: Distribution // multiplier on first-year rent; 1 is the modelled rent
+  vacancyRate: Distribution
+  operatingExpenseRatio: Distribution
+  exitValueChange: Distribution // multiplier on the exit value and on the value the LTV covenant is tested against
+}
+
+export interface SimulationOptions {
+  iterations?: number
+  seed?: number
+  dscrCovenant?: number
+  maxLoanToValue?: number
+  bins?: number
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export interface Percentiles {
+  p10: number
+  p50: number
+  p90: number
+}
+
+export interface SimulationResult {
+  iterations: number
+  dscrCovenant: number
+  maxLoanToValue: number
+  dscrBreachProbability: number
+  ltvBreachProbability: number
+  // Share of iterations where equity never turns a return and IRR is undefined
+  irrUndefinedProbability: number
+  irr: Percentiles | null
+  npv: Percentiles
+  minDscr: Percentiles | null
+  histograms: {
+    irr: HistogramBin[]
+    minDscr: HistogramBin[]
+  }
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 2000
+export const MAX_SIMULATION_ITERATIONS = 20000
+export const DEFAULT_DSCR_COVENANT = 1.2
+export const DEFAULT_MAX_LOAN_TO_VALUE = 0.8
+
+// Ranges an Indonesian credit committee would stress against, centred on the modelled inputs
+export function defaultDistributions(assumptions: ProFormaAssumptions): SimulationDistributions {
+  const rate = assumptions.loan.annualRate
+  const vacancy = assumptions.vacancyRate
+  const opex = assumptions.operatingExpenseRatio
+  return {
+    interestRate: { type: "triangular", min: Math.max(rate - 0.01, 0), mode: rate, max: rate + 0.04 },
+    rentChange: { type: "normal", mean: 1, sd: 0.1, min: 0.5, max: 1.5 },
+    vacancyRate: { type: "triangular", min: Math.max(vacancy - 0.03, 0), mode: vacancy, max: Math.min(vacancy + 0.15, 1) },
+    operatingExpenseRatio: { type: "triangular", min: Math.max(opex - 0.05, 0), mode: opex, max: Math.min(opex + 0.1, 1) },
+    exitValueChange: { type: "normal", mean: 1, sd: 0.15, min: 0.4, max: 1.6 }
+  }
+}
+
+// Seeded so a stored simulation can be reproduced exactly
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function sample(distribution: Distribution, random: () => number): number {
+  switch (distribution.type) {
+    case "fixed":
+      return distribution.value
+    case "uniform":
+      return distribution.min + random() * (distribution.max - distribution.min)
+    case "triangular": {
+      const { min, mode, max } = distribution
+      if (max <= min) return min
+      const u = random()
+      const split = (mode - min) / (max - min)
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode))
+    }
+    case "normal": {
+      // Box-Muller; 1 - random() keeps the log argument above zero
+      const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+      const value = distribution.mean + z * distribution.sd
+      return Math.min(Math.max(value, distribution.min ?? -Infinity), distribution.max ?? Infinity)
+    }
+  }
+}
+
+// Linear interpolation between closest ranks; values must be sorted ascending
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = (sorted.length - 1) * p
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function histogram(sorted: number[], bins: number): HistogramBin[] {
+  if (sorted.length === 0) return []
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  const width = (max - min) / bins || 1
+  const result = Array.from({ length: bins }, (_, index) => ({ from: min + index * width, to: min + (index + 1) * width, count: 0 }))
+  sorted.forEach(value => {
+    result[Math.min(Math.floor((value - min) / width), bins - 1)].count++
+  })
+  return result
+}
+
+const percentiles = (sorted: number[]): Percentiles => ({
+  p10: percentile(sorted, 0.1),
+  p50: percentile(sorted, 0.5),
+  p90: percentile(sorted, 0.9)
+})
+
+export function simulate(
+  assumptions: ProFormaAssumptions,
+  distributions: SimulationDistributions = defaultDistributions(assumptions),
+  options: SimulationOptions = {}
+): SimulationResult {
+  const iterations = Math.min(Math.max(Math.round(options.iterations ?? DEFAULT_SIMULATION_ITERATIONS), 1), MAX_SIMULATION_ITERATIONS)
+  const dscrCovenant = options.dscrCovenant ?? DEFAULT_DSCR_COVENANT
+  const maxLoanToValue = options.maxLoanToValue ?? DEFAULT_MAX_LOAN_TO_VALUE
+  const random = createRandom(options.seed ?? 1)
+
+  const irrs: number[] = []
+  const npvs: number[] = []
+  const minDscrs: number[] = []
+  let dscrBreaches = 0
+  let ltvBreaches = 0
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const valueChange = sample(distributions.exitValueChange, random)
+    const analysis = analyseInvestment({
+      ...assumptions,
+      grossPotentialRent: assumptions.grossPotentialRent * Math.max(sample(distributions.rentChange, random), 0),
+      vacancyRate: Math.min(Math.max(sample(distributions.vacancyRate, random), 0), 1),
+      operatingExpenseRatio: Math.min(Math.max(sample(distributions.operatingExpenseRatio, random), 0), 1),
+      loan: shiftLoanRates(assumptions.loan, sample(distributions.interestRate, random) - assumptions.loan.annualRate),
+      exitValueAdjustment: valueChange
+    })
+
+    const coverage = analysis.proForma
+      .filter(year => year.debtService > 0)
+      .map(year => year.netOperatingIncome / year.debtService)
+    if (coverage.length > 0) {
+      const minDscr = Math.min(...coverage)
+      minDscrs.push(minDscr)
+      if (minDscr < dscrCovenant) dscrBreaches++
+    }
+
+    // The balance only falls, so the opening loan against the stressed value is the worst point
+    const stressedValue = assumptions.propertyValue * valueChange
+    if (stressedValue <= 0 || assumptions.loan.principal / stressedValue > maxLoanToValue) ltvBreaches++
+
+    if (analysis.metrics.irr !== null) irrs.push(analysis.metrics.irr)
+    npvs.push(analysis.metrics.npv)
+  }
+
+  const byValue = (a: number, b: number) => a - b
+  irrs.sort(byValue)
+  npvs.sort(byValue)
+  minDscrs.sort(byValue)
+  const bins = options.bins ?? 20
+
+  return {
+    iterations,
+    dscrCovenant,
+    maxLoanToValue,
+    dscrBreachProbability: dscrBreaches / iterations,
+    ltvBreachProbability: ltvBreaches / iterations,
+    irrUndefinedProbability: (iterations - irrs.length) / iterations,
+    irr: irrs.length > 0 ? percentiles(irrs) : null,
+    npv: percentiles(npvs),
+    minDscr: minDscrs.length > 0 ? percentiles(minDscrs) : null,
+    histograms: {
+      irr: histogram(irrs, bins),
+      minDscr: histogram(minDscrs, bins)
+    }
+  }
+}
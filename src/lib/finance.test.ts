@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest"
+import {
+  amortisationSchedule,
+  analyseInvestment,
+  annualiseSchedule,
+  annuityPayment,
+  applyScenario,
+  buildProForma,
+  estimateGrossRent,
+  irr,
+  LoanTerms,
+  npv,
+  ProFormaAssumptions,
+  rateForPeriod,
+  runScenarios,
+  STANDARD_SCENARIOS
+} from "@/lib/finance"
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+const loan: LoanTerms = { principal: 1000000000, annualRate: 0.11, years: 10 }
+
+const assumptions: ProFormaAssumptions = {
+  propertyValue: 2000000000,
+  grossPotentialRent: 200000000,
+  vacancyRate: 0.05,
+  operatingExpenseRatio: 0.3,
+  loan,
+  holdYears: 5
+}
+
+describe("annuityPayment", () => {
+  it("matches a spreadsheet PMT", () => {
+    expect(annuityPayment(0.01, 12, 1000)).toBeCloseTo(88.8488, 4)
+    expect(annuityPayment(0.11 / 12, 120, 1000000000)).toBeCloseTo(13775001.13, 2)
+  })
+
+  it("spreads the principal evenly without interest", () => {
+    expect(annuityPayment(0, 10, 1000)).toBe(100)
+  })
+
+  it("is zero without a principal or a term", () => {
+    expect(annuityPayment(0.01, 0, 1000)).toBe(0)
+    expect(annuityPayment(0.01, 12, 0)).toBe(0)
+  })
+})
+
+describe("amortisationSchedule", () => {
+  it("repays the principal exactly over the term", () => {
+    const schedule = amortisationSchedule(loan)
+    expect(schedule).toHaveLength(120)
+    expect(sum(schedule.map(row => row.principal))).toBeCloseTo(loan.principal, 2)
+    expect(schedule[schedule.length - 1].balance).toBe(0)
+  })
+
+  it("charges each month's interest on the opening balance", () => {
+    const [first, second] = amortisationSchedule(loan)
+    expect(first.interest).toBeCloseTo(loan.principal * 0.11 / 12, 2)
+    expect(second.interest).toBeCloseTo(first.balance * 0.11 / 12, 2)
+  })
+
+  it("re-amortises the balance when a fixed tier ends", () => {
+    const tiered = { ...loan, rateTiers: [{ years: 3, annualRate: 0.06 }] }
+    const schedule = amortisationSchedule(tiered)
+
+    expect(rateForPeriod(tiered, 36)).toBe(0.06)
+    expect(rateForPeriod(tiered, 37)).toBe(0.11)
+    expect(schedule[0].payment).toBeCloseTo(annuityPayment(0.06 / 12, 120, loan.principal), 2)
+    expect(schedule[36].payment).toBeCloseTo(annuityPayment(0.11 / 12, 84, schedule[35].balance), 2)
+    expect(schedule[36].payment).toBeGreaterThan(schedule[35].payment)
+    expect(schedule[schedule.length - 1].balance).toBe(0)
+  })
+})
+
+describe("annualiseSchedule", () => {
+  it("rolls months up into loan years", () => {
+    const years = annualiseSchedule(amortisationSchedule(loan))
+    expect(years).toHaveLength(10)
+    expect(years[0].openingBalance).toBeCloseTo(loan.principal, 2)
+    expect(years[1].openingBalance).toBeCloseTo(years[0].closingBalance, 2)
+    expect(years[0].payment).toBeCloseTo(years[0].interest + years[0].principal, 2)
+  })
+})
+
+describe("estimateGrossRent", () => {
+  it("prefers the recorded rent", () => {
+    expect(estimateGrossRent(1000000000, "COMMERCIAL", 5000000)).toBe(60000000)
+  })
+
+  it("falls back to the asset type's gross yield", () => {
+    expect(estimateGrossRent(1000000000, "COMMERCIAL")).toBeCloseTo(70000000, 2)
+    expect(estimateGrossRent(1000000000, "UNKNOWN")).toBeCloseTo(50000000, 2)
+  })
+})
+
+describe("buildProForma", () => {
+  it("derives net operating income and cash flow from the income assumptions", () => {
+    const [year] = buildProForma(assumptions)
+    const effectiveGrossIncome = 200000000 * 0.95
+    expect(year.effectiveGrossIncome).toBeCloseTo(effectiveGrossIncome, 2)
+    expect(year.netOperatingIncome).toBeCloseTo(effectiveGrossIncome * 0.7, 2)
+    expect(year.cashFlow).toBeCloseTo(year.netOperatingIncome - year.debtService, 2)
+  })
+
+  it("grows rent and property tax year on year", () => {
+    const years = buildProForma({ ...assumptions, rentGrowth: 0.03, valueGrowth: 0.05, propertyTax: 1000000 })
+    expect(years[1].grossPotentialRent).toBeCloseTo(200000000 * 1.03, 2)
+    expect(years[1].propertyTax).toBeCloseTo(1050000, 2)
+    expect(years[0].propertyValue).toBeCloseTo(2000000000 * 1.05, 2)
+  })
+
+  it("stops debt service once the loan is repaid", () => {
+    const years = buildProForma({ ...assumptions, loan: { ...loan, years: 2 } })
+    expect(years[1].debtService).toBeGreaterThan(0)
+    expect(years[2].debtService).toBe(0)
+    expect(years[2].loanBalance).toBe(0)
+  })
+})
+
+describe("analyseInvestment", () => {
+  it("reports first-year lending metrics", () => {
+    const { metrics, proForma } = analyseInvestment(assumptions)
+    expect(metrics.loanToValue).toBe(0.5)
+    expect(metrics.debtServiceCoverage).toBeCloseTo(proForma[0].netOperatingIncome / proForma[0].debtService, 6)
+    expect(metrics.capRate).toBeCloseTo(proForma[0].netOperatingIncome / 2000000000, 6)
+  })
+
+  it("funds the deposit and acquisition costs from equity", () => {
+    const analysis = analyseInvestment({ ...assumptions, acquisitionCosts: 100000000 })
+    expect(analysis.equity).toBe(1100000000)
+    expect(analysis.equityCashFlows[0]).toBe(-1100000000)
+  })
+
+  it("sells at the final year's value net of selling costs and the loan", () => {
+    const analysis = analyseInvestment({ ...assumptions, valueGrowth: 0.04, sellingCosts: 0.03 })
+    const finalYear = analysis.proForma[4]
+    expect(analysis.salePrice).toBeCloseTo(2000000000 * Math.pow(1.04, 5), 0)
+    expect(analysis.saleProceeds).toBeCloseTo(analysis.salePrice * 0.97 - finalYear.loanBalance, 0)
+  })
+
+  it("capitalises the following year's income at the exit cap rate", () => {
+    const analysis = analyseInvestment({ ...assumptions, rentGrowth: 0.03, exitCapRate: 0.08 })
+    expect(analysis.salePrice).toBeCloseTo(analysis.proForma[4].netOperatingIncome * 1.03 / 0.08, 0)
+  })
+
+  it("has no coverage ratio without debt", () => {
+    const { metrics } = analyseInvestment({ ...assumptions, loan: { ...loan, principal: 0 } })
+    expect(metrics.debtServiceCoverage).toBe(0)
+    expect(metrics.loanToValue).toBe(0)
+  })
+})
+
+describe("npv", () => {
+  it("discounts each flow by its period, the first falling today", () => {
+    expect(npv(0.1, [-100, 60, 60])).toBeCloseTo(4.1322, 4)
+    expect(npv(0, [-100, 60, 60])).toBe(20)
+  })
+})
+
+describe("irr", () => {
+  it("finds the rate at which the flows net to zero", () => {
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 8)
+    const rate = irr([-1000, 300, 400, 500])!
+    expect(rate).toBeCloseTo(0.088963, 6)
+    expect(npv(rate, [-1000, 300, 400, 500])).toBeCloseTo(0, 4)
+  })
+
+  it("handles returns below zero", () => {
+    expect(irr([-100, 50, 40])).toBeCloseTo(-0.0699, 4)
+  })
+
+  it("is undefined when the flows never change sign", () => {
+    expect(irr([-100, -10])).toBeNull()
+    expect(irr([100, 10])).toBeNull()
+  })
+})
+
+describe("multi-year returns", () => {
+  const dcf: ProFormaAssumptions = { ...assumptions, rentGrowth: 0.03, valueGrowth: 0.04, sellingCosts: 0.03, holdYears: 10 }
+
+  it("takes IRR and NPV over the equity flows including the sale", () => {
+    const analysis = analyseInvestment(dcf)
+    expect(analysis.equityCashFlows).toHaveLength(11)
+    expect(analysis.equityCashFlows[10]).toBeCloseTo(analysis.proForma[9].cashFlow + analysis.saleProceeds, 2)
+    expect(analysis.metrics.irr).toBeCloseTo(irr(analysis.equityCashFlows)!, 10)
+    expect(analysis.metrics.npv).toBeCloseTo(npv(0.12, analysis.equityCashFlows), 2)
+  })
+
+  it("breaks even in the first year cumulative equity cash turns positive", () => {
+    const { equityCashFlows, metrics } = analyseInvestment(dcf)
+    const cumulative = (years: number) => sum(equityCashFlows.slice(0, years + 1))
+    expect(metrics.paybackYear).not.toBeNull()
+    expect(cumulative(metrics.paybackYear!)).toBeGreaterThanOrEqual(0)
+    expect(cumulative(metrics.paybackYear! - 1)).toBeLessThan(0)
+  })
+
+  it("ranks the standard scenarios from optimistic to pessimistic", () => {
+    const [base, optimistic, pessimistic] = runScenarios(dcf)
+    expect(optimistic.analysis.metrics.irr!).toBeGreaterThan(base.analysis.metrics.irr!)
+    expect(pessimistic.analysis.metrics.irr!).toBeLessThan(base.analysis.metrics.irr!)
+    expect(sum(STANDARD_SCENARIOS.map(scenario => scenario.probability))).toBeCloseTo(1, 10)
+  })
+
+  it("applies a scenario's rent, vacancy and rate changes", () => {
+    const pessimistic = applyScenario(dcf, STANDARD_SCENARIOS[2])
+    expect(pessimistic.grossPotentialRent).toBeCloseTo(200000000 * 0.85, 2)
+    expect(pessimistic.vacancyRate).toBeCloseTo(0.15, 10)
+    expect(pessimistic.loan.annualRate).toBeCloseTo(0.13, 10)
+  })
+})
@@ -0,0 +1,468 @@
+// Deterministic lending and investment maths shared by the API routes, the workbook export and the UI.
+// Everything here is pure so the browser and the server always arrive at the same figures.
+
+export const DEFAULT_VACANCY_RATE = 0.05
+export const DEFAULT_OPERATING_EXPENSE_RATIO = 0.3
+export const DEFAULT_INTEREST_RATE = 11 // annual, in percent
+export const DEFAULT_LOAN_TERM = 10 // in years
+export const DEFAULT_LOAN_TO_VALUE = 0.7
+export const DEFAULT_HOLD_YEARS = 10
+export const DEFAULT_DISCOUNT_RATE = 0.12
+
+// Gross rental yields by asset type, used when a property has no recorded rent
+export const GROSS_RENTAL_YIELDS: Record<string, number> = {
+  RESIDENTIAL: 0.05,
+  COMMERCIAL: 0.07,
+  INDUSTRIAL: 0.06,
+  MIXED_USE: 0.065,
+  LAND_ONLY: 0.02,
+  AGRICULTURAL: 0.03
+}
+
+export interface RateTier {
+  years: number
+  annualRate: number // decimal
+}
+
+export interface LoanTerms {
+  principal: number
+  annualRate: number // decimal, e.g. 0.11; the floating rate once any fixed tiers run out
+  years: number
+  rateTiers?: RateTier[] // fixed-rate periods from drawdown, in order, e.g. a 3-year promotional rate
+}
+
+export interface AmortisationRow {
+  period: number // month, starting at 1
+  payment: number
+  interest: number
+  principal: number
+  balance: number
+}
+
+export interface AnnualDebtService {
+  year: number
+  openingBalance: number
+  interest: number
+  principal: number
+  payment: number
+  closingBalance: number
+}
+
+export interface ProFormaAssumptions {
+  propertyValue: number
+  grossPotentialRent: number // annual, first year
+  vacancyRate: number
+  operatingExpenseRatio: number // share of effective gross income
+  propertyTax?: number // annual PBB in the first year; follows the property value after that
+  loan: LoanTerms
+  rentGrowth?: number
+  valueGrowth?: number
+  holdYears?: number
+  capexReserve?: number // share of effective gross income set aside for capital works
+  exitCapRate?: number // when set, the sale price capitalises the NOI of the year after exit
+  sellingCosts?: number // share of the sale price
+  exitValueAdjustment?: number // multiplier on the sale price, used by stress tests
+  acquisitionCosts?: number // paid from equity at purchase
+  discountRate?: number
+}
+
+export interface ProFormaYear {
+  year: number
+  grossPotentialRent: number
+  vacancyLoss: number
+  effectiveGrossIncome: number
+  operatingExpenses: number
+  propertyTax: number
+  netOperatingIncome: number
+  capitalReserve: number
+  debtService: number
+  interest: number
+  principal: number
+  cashFlow: number
+  loanBalance: number
+  propertyValue: number
+}
+
+export interface InvestmentMetrics {
+  loanToValue: number
+  debtServiceCoverage: number // first year
+  capRate: number
+  netOperatingIncome: number // first year
+  annualDebtService: number // first year
+  cashFlow: number // first year, after reserves and debt service
+  cashOnCash: number
+  irr: number | null
+  npv: number
+  equityMultiple: number
+  paybackYear: number | null
+}
+
+export interface InvestmentAnalysis {
+  monthlyPayment: number // first instalment; it changes at each rate reset
+  schedule: AmortisationRow[]
+  proForma: ProFormaYear[]
+  equity: number
+  salePrice: number
+  saleProceeds: number // net of selling costs and loan payoff
+  equityCashFlows: number[] // year 0 outlay, then annual cash flow with the sale in the final year
+  metrics: InvestmentMetrics
+}
+
+// Level payment per period; matches Excel's PMT with the sign flipped
+export function annuityPayment(rate: number, periods: number, principal: number): number {
+  if (periods <= 0 || principal <= 0) return 0
+  if (rate === 0) return principal / periods
+  return principal * rate / (1 - Math.pow(1 + rate, -periods))
+}
+
+// Annual rate charged in a given month (1-based): the tier covering it, else the floating rate
+export function rateForPeriod(loan: LoanTerms, period: number): number {
+  let tierEnd = 0
+  for (const tier of loan.rateTiers ?? []) {
+    tierEnd += Math.round(tier.years * 12)
+    if (period <= tierEnd) return tier.annualRate
+  }
+  return loan.annualRate
+}
+
+// Rate shocks move the whole rate path: every fixed tier and the floating rate by the same change
+export function shiftLoanRates(loan: LoanTerms, change: number): LoanTerms {
+  const shift = (rate: number) => Math.max(rate + change, 0)
+  return {
+    ...loan,
+    annualRate: shift(loan.annualRate),
+    rateTiers: loan.rateTiers?.map(tier => ({ ...tier, annualRate: shift(tier.annualRate) }))
+  }
+}
+
+export function amortisationSchedule(loan: LoanTerms): AmortisationRow[] {
+  const months = Math.round(loan.years * 12)
+  const schedule: AmortisationRow[] = []
+
+  let balance = loan.principal
+  let monthlyRate = NaN
+  let payment = 0
+  for (let period = 1; period <= months && loan.principal > 0; period++) {
+    // At each rate reset the outstanding balance is re-amortised over the remaining tenor, as Indonesian lenders do
+    const rate = rateForPeriod(loan, period) / 12
+    if (rate !== monthlyRate) {
+      monthlyRate = rate
+      payment = annuityPayment(monthlyRate, months - period + 1, balance)
+    }
+    const interest = balance * monthlyRate
+    // The last payment clears rounding drift
+    const principal = period === months ? balance : payment - interest
+    balance -= principal
+    schedule.push({ period, payment: interest + principal, interest, principal, balance: Math.max(balance, 0) })
+  }
+  return schedule
+}
+
+export function annualiseSchedule(schedule: AmortisationRow[]): AnnualDebtService[] {
+  const years: AnnualDebtService[] = []
+  schedule.forEach(row => {
+    const index = Math.ceil(row.period / 12) - 1
+    if (!years[index]) {
+      years[index] = {
+        year: index + 1,
+        openingBalance: row.balance + row.principal,
+        interest: 0,
+        principal: 0,
+        payment: 0,
+        closingBalance: 0
+      }
+    }
+    years[index].interest += row.interest
+    years[index].principal += row.principal
+    years[index].payment += row.payment
+    years[index].closingBalance = row.balance
+  })
+  return years
+}
+
+export function estimateGrossRent(propertyValue: number, assetType: string, monthlyRent?: number | null): number {
+  if (monthlyRent && monthlyRent > 0) return monthlyRent * 12
+  return propertyValue * (GROSS_RENTAL_YIELDS[assetType] ?? GROSS_RENTAL_YIELDS.RESIDENTIAL)
+}
+
+export function buildProForma(assumptions: ProFormaAssumptions): ProFormaYear[] {
+  const {
+    propertyValue,
+    grossPotentialRent,
+    vacancyRate,
+    operatingExpenseRatio,
+    loan,
+    rentGrowth = 0,
+    valueGrowth = 0,
+    holdYears = DEFAULT_HOLD_YEARS,
+    capexReserve = 0,
+    propertyTax = 0
+  } = assumptions
+  const debtService = annualiseSchedule(amortisationSchedule(loan))
+
+  return Array.from({ length: holdYears }, (_, index) => {
+    const year = index + 1
+    const rent = grossPotentialRent * Math.pow(1 + rentGrowth, index)
+    const vacancyLoss = rent * vacancyRate
+    const effectiveGrossIncome = rent - vacancyLoss
+    const operatingExpenses = effectiveGrossIncome * operatingExpenseRatio
+    const tax = propertyTax * Math.pow(1 + valueGrowth, index)
+    const netOperatingIncome = effectiveGrossIncome - operatingExpenses - tax
+    const capitalReserve = effectiveGrossIncome * capexReserve
+    const loanYear = debtService[index]
+
+    return {
+      year,
+      grossPotentialRent: rent,
+      vacancyLoss,
+      effectiveGrossIncome,
+      operatingExpenses,
+      propertyTax: tax,
+      netOperatingIncome,
+      capitalReserve,
+      debtService: loanYear?.payment ?? 0,
+      interest: loanYear?.interest ?? 0,
+      principal: loanYear?.principal ?? 0,
+      cashFlow: netOperatingIncome - capitalReserve - (loanYear?.payment ?? 0),
+      // Past the loan term the balance is zero; before the first payment it is the full principal
+      loanBalance: loanYear?.closingBalance ?? (index < loan.years ? loan.principal : 0),
+      propertyValue: propertyValue * Math.pow(1 + valueGrowth, year)
+    }
+  })
+}
+
+// cashFlows[0] falls today; each later entry one period on
+export function npv(rate: number, cashFlows: number[]): number {
+  return cashFlows.reduce((sum, cashFlow, period) => sum + cashFlow / Math.pow(1 + rate, period), 0)
+}
+
+// Newton's method with a bisection fallback; null when the flows never change sign
+export function irr(cashFlows: number[], guess = 0.1): number | null {
+  const hasPositive = cashFlows.some(cashFlow => cashFlow > 0)
+  const hasNegative = cashFlows.some(cashFlow => cashFlow < 0)
+  if (!hasPositive || !hasNegative) return null
+
+  let rate = guess
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const value = npv(rate, cashFlows)
+    const derivative = cashFlows.reduce((sum, cashFlow, period) => sum - period * cashFlow / Math.pow(1 + rate, period + 1), 0)
+    if (Math.abs(value) < 1e-6) return rate
+    if (derivative === 0) break
+    const next = rate - value / derivative
+    if (!isFinite(next) || next <= -1) break
+    if (Math.abs(next - rate) < 1e-10) return next
+    rate = next
+  }
+
+  let low = -0.99
+  let high = 10
+  if (npv(low, cashFlows) * npv(high, cashFlows) > 0) return null
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const mid = (low + high) / 2
+    const value = npv(mid, cashFlows)
+    if (Math.abs(value) < 1e-6) return mid
+    if (npv(low, cashFlows) * value < 0) high = mid
+    else low = mid
+  }
+  return (low + high) / 2
+}
+
+export function analyseInvestment(assumptions: ProFormaAssumptions): InvestmentAnalysis {
+  const {
+    propertyValue,
+    loan,
+    rentGrowth = 0,
+    exitCapRate,
+    exitValueAdjustment = 1,
+    sellingCosts = 0,
+    acquisitionCosts = 0,
+    discountRate = DEFAULT_DISCOUNT_RATE
+  } = assumptions
+  const schedule = amortisationSchedule(loan)
+  const proForma = buildProForma(assumptions)
+  const equity = propertyValue - loan.principal + acquisitionCosts
+
+  // A buyer prices the income they will receive, so the reversion capitalises next year's NOI
+  const finalYear = proForma[proForma.length - 1]
+  const salePrice = !finalYear
+    ? 0
+    : (exitCapRate
+      ? finalYear.netOperatingIncome * (1 + rentGrowth) / exitCapRate
+      : finalYear.propertyValue) * exitValueAdjustment
+  const saleProceeds = finalYear ? salePrice * (1 - sellingCosts) - finalYear.loanBalance : 0
+
+  const equityCashFlows = [
+    -equity,
+    ...proForma.map((year, index) => year.cashFlow + (index === proForma.length - 1 ? saleProceeds : 0))
+  ]
+
+  let cumulative = 0
+  let paybackYear: number | null = null
+  for (let year = 0; year < equityCashFlows.length; year++) {
+    cumulative += equityCashFlows[year]
+    if (year > 0 && cumulative >= 0) {
+      paybackYear = year
+      break
+    }
+  }
+
+  const firstYear = proForma[0]
+  const distributions = equityCashFlows.slice(1).reduce((sum, cashFlow) => sum + cashFlow, 0)
+
+  return {
+    monthlyPayment: schedule[0]?.payment ?? 0,
+    schedule,
+    proForma,
+    equity,
+    salePrice,
+    saleProceeds,
+    equityCashFlows,
+    metrics: {
+      loanToValue: propertyValue > 0 ? loan.principal / propertyValue : 0,
+      debtServiceCoverage: firstYear?.debtService ? firstYear.netOperatingIncome / firstYear.debtService : 0,
+      capRate: propertyValue > 0 && firstYear ? firstYear.netOperatingIncome / propertyValue : 0,
+      netOperatingIncome: firstYear?.netOperatingIncome ?? 0,
+      annualDebtService: firstYear?.debtService ?? 0,
+      cashFlow: firstYear?.cashFlow ?? 0,
+      cashOnCash: equity > 0 && firstYear ? firstYear.cashFlow / equity : 0,
+      irr: irr(equityCashFlows),
+      npv: npv(discountRate, equityCashFlows),
+      equityMultiple: equity > 0 ? distributions / equity : 0,
+      paybackYear
+    }
+  }
+}
+
+export interface ScenarioDefinition {
+  name: string
+  description: string
+  probability: number
+  rentChange: number // applied to first-year rent, e.g. -0.15
+  vacancyChange: number // added to the vacancy rate
+  rateChange: number // added to the annual interest rate (decimal)
+  rentGrowth: number
+  valueGrowth: number
+  capexReserve?: number
+  exitCapRateChange?: number // added to the exit cap rate when one is set
+}
+
+export const STANDARD_SCENARIOS: ScenarioDefinition[] = [
+  {
+    name: "Base Case",
+    description: "Current rent, vacancy and financing terms with modest growth",
+    probability: 0.6,
+    rentChange: 0,
+    vacancyChange: 0,
+    rateChange: 0,
+    rentGrowth: 0.03,
+    valueGrowth: 0.04
+  },
+  {
+    name: "Optimistic",
+    description: "Rents 10% higher, tighter vacancy and stronger growth",
+    probability: 0.2,
+    rentChange: 0.1,
+    vacancyChange: -0.02,
+    rateChange: -0.01,
+    rentGrowth: 0.05,
+    valueGrowth: 0.06
+  },
+  {
+    name: "Pessimistic",
+    description: "Rents 15% lower, vacancy up 10 points and rates up 2 points",
+    probability: 0.2,
+    rentChange: -0.15,
+    vacancyChange: 0.1,
+    rateChange: 0.02,
+    rentGrowth: 0.01,
+    valueGrowth: 0
+  }
+]
+
+export interface ScenarioResult {
+  name: string
+  description: string
+  probability: number
+  roi: number // cash-on-cash in the first year
+  cashFlow: number
+  analysis: InvestmentAnalysis
+}
+
+const clampRate = (value: number) => Math.min(Math.max(value, 0), 1)
+
+export function applyScenario(assumptions: ProFormaAssumptions, scenario: ScenarioDefinition): ProFormaAssumptions {
+  return {
+    ...assumptions,
+    grossPotentialRent: assumptions.grossPotentialRent * (1 + scenario.rentChange),
+    vacancyRate: clampRate(assumptions.vacancyRate + scenario.vacancyChange),
+    loan: shiftLoanRates(assumptions.loan, scenario.rateChange),
+    rentGrowth: scenario.rentGrowth,
+    valueGrowth: scenario.valueGrowth,
+    capexReserve: scenario.capexReserve ?? assumptions.capexReserve,
+    exitCapRate: assumptions.exitCapRate && assumptions.exitCapRate + (scenario.exitCapRateChange ?? 0)
+  }
+}
+
+export function runScenarios(assumptions: ProFormaAssumptions, scenarios = STANDARD_SCENARIOS): ScenarioResult[] {
+  return scenarios.map(scenario => {
+    const analysis = analyseInvestment(applyScenario(assumptions, scenario))
+    return {
+      name: scenario.name,
+      description: scenario.description,
+      probability: scenario.probability,
+      roi: analysis.metrics.cashOnCash,
+      cashFlow: analysis.metrics.cashFlow,
+      analysis
+    }
+  })
+}
+
+export type RiskLevel = "LOW" | "MEDIUM" | "HIGH"
+
+// Lender view: coverage below 1.0x cannot service the debt, below 1.2x leaves no headroom.
+// LTV is judged against the applicable cap: above it is a breach, within a quarter of it is thin.
+export function coverageRisk(debtServiceCoverage: number, loanToValue: number, maxLoanToValue = 0.8): RiskLevel {
+  if ((debtServiceCoverage > 0 && debtServiceCoverage < 1) || loanToValue > maxLoanToValue) return "HIGH"
+  if ((debtServiceCoverage > 0 && debtServiceCoverage < 1.2) || loanToValue > maxLoanToValue * 0.75) return "MEDIUM"
+  return "LOW"
+}
+
+export interface StressTest {
+  key: "interestRateShock" | "rentalDecline" | "valueDecline"
+  description: string
+  cashFlow: number
+  debtServiceCoverage: number
+  loanToValue: number
+  impact: RiskLevel
+}
+
+// Single-factor shocks: +3 points on the rate, rents down 20%, value down 15%. The LTV is judged against the
+// cap the loan was sized under.
+export function stressTest(assumptions: ProFormaAssumptions, maxLoanToValue?: number): StressTest[] {
+  const shocks: Array<[StressTest["key"], string, ProFormaAssumptions]> = [
+    ["interestRateShock", "Interest rates increase by 3 points", {
+      ...assumptions,
+      loan: shiftLoanRates(assumptions.loan, 0.03)
+    }],
+    ["rentalDecline", "Rental income declines by 20%", {
+      ...assumptions,
+      grossPotentialRent: assumptions.grossPotentialRent * 0.8
+    }],
+    ["valueDecline", "Property value declines by 15%", {
+      ...assumptions,
+      propertyValue: assumptions.propertyValue * 0.85
+    }]
+  ]
+
+  return shocks.map(([key, description, stressed]) => {
+    const { metrics } = analyseInvestment(stressed)
+    return {
+      key,
+      description,
+      cashFlow: metrics.cashFlow,
+      debtServiceCoverage: metrics.debtServiceCoverage,
+      loanToValue: metrics.loanToValue,
+      impact: coverageRisk(metrics.debtServiceCoverage, metrics.loanToValue, maxLoanToValue)
+    }
+  })
+}
@@ -0,0 +1,35 @@
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_METERS = 6371000
+
+// Accepts the stored JSON form ({"lat":..,"lng":..}) as well as the "lat, lng" text typed into forms
+export function parseCoordinates(value?: string | null): Coordinates | undefined {
+  if (!value) return undefined
+
+  let lat: number
+  let lng: number
+  try {
+    const parsed = JSON.parse(value)
+    lat = Number(parsed?.lat)
+    lng = Number(parsed?.lng)
+  } catch {
+    ;[lat, lng] = value.split(",").map(part => parseFloat(part.trim()))
+  }
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined
+  return { lat, lng }
+}
+
+export function distanceInMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a))
+}
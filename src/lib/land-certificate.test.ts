@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import { assessCertificate, expiryStatus, parseCertificateNumber, sameCertificate } from "@/lib/land-certificate"
+
+const asOf = new Date("2025-01-01")
+
+describe("parseCertificateNumber", () => {
+  it("reads a BPN registry number and takes the type from its right digit", () => {
+    expect(parseCertificateNumber("09.71.03.04.1.00123")).toEqual({
+      type: "SHM",
+      format: "REGISTRY",
+      officeCode: "09.71",
+      villageCode: "03.04",
+      sequence: "00123",
+      normalized: "SHM 09.71.03.04.1.00123"
+    })
+    expect(parseCertificateNumber("HGB 09710304300045")?.normalized).toBe("HGB 09.71.03.04.3.00045")
+  })
+
+  it("rejects a prefix that contradicts the right digit", () => {
+    expect(parseCertificateNumber("SHM 09.71.03.04.3.00045")).toBeNull()
+  })
+
+  it("rejects right types buyers cannot hold", () => {
+    expect(parseCertificateNumber("09.71.03.04.5.00001")).toBeNull()
+  })
+
+  it("reads an informal number and keeps the village as written", () => {
+    expect(parseCertificateNumber("SHGB No. 4521/Kuningan Timur")).toEqual({
+      type: "HGB",
+      format: "INFORMAL",
+      villageName: "Kuningan Timur",
+      sequence: "04521",
+      normalized: "HGB No. 04521/Kuningan Timur"
+    })
+    expect(parseCertificateNumber("strata title nomor 12")?.type).toBe("HMSRS")
+  })
+
+  it("returns null for anything else", () => {
+    expect(parseCertificateNumber("abc")).toBeNull()
+    expect(parseCertificateNumber("AJB 123/Menteng")).toBeNull()
+  })
+})
+
+describe("sameCertificate", () => {
+  it("matches differently written forms of one title", () => {
+    expect(sameCertificate("SHM No. 12/Menteng", "shm 0012 / menteng")).toBe(true)
+    expect(sameCertificate("SHM No. 12/Menteng", "SHM No. 12/Cikini")).toBe(false)
+  })
+
+  it("compares unparsed references as text", () => {
+    expect(sameCertificate("Girik C 45", " girik c 45")).toBe(true)
+  })
+})
+
+describe("expiryStatus", () => {
+  it("never expires a Hak Milik", () => {
+    expect(expiryStatus("SHM", new Date("2000-01-01"), asOf).status).toBe("PERPETUAL")
+  })
+
+  it("warns within five years of expiry", () => {
+    expect(expiryStatus("HGB", null, asOf).status).toBe("UNRECORDED")
+    expect(expiryStatus("HGB", new Date("2024-06-30"), asOf).status).toBe("EXPIRED")
+    expect(expiryStatus("HGB", new Date("2029-03-31"), asOf).status).toBe("EXPIRING")
+    expect(expiryStatus("HGB", new Date("2040-01-01"), asOf).status).toBe("CURRENT")
+  })
+})
+
+describe("assessCertificate", () => {
+  it("does not count unrecognised text as a valid certificate", () => {
+    const assessment = assessCertificate("abc", null, asOf)
+    expect(assessment.valid).toBe(false)
+    expect(assessment.issues[0]).toMatchObject({ severity: "HIGH", title: "Certificate number is not recognised" })
+  })
+
+  it("leaves an empty number to the caller", () => {
+    expect(assessCertificate("  ", null, asOf)).toMatchObject({ valid: false, issues: [] })
+  })
+
+  it("needs the village of an informal number", () => {
+    const assessment = assessCertificate("SHM No. 1234", null, asOf)
+    expect(assessment.valid).toBe(false)
+    expect(assessment.issues.map(issue => issue.title)).toEqual(["Certificate village missing"])
+  })
+
+  it("asks for the registry number of a valid informal title", () => {
+    const assessment = assessCertificate("SHM No. 1234/Menteng", null, asOf)
+    expect(assessment.valid).toBe(true)
+    expect(assessment.issues.map(issue => issue.severity)).toEqual(["LOW"])
+  })
+
+  it("raises the expiry of a fixed-term right", () => {
+    expect(assessCertificate("HGB 09.71.03.04.3.00045", null, asOf).issues[0].severity).toBe("MEDIUM")
+    expect(assessCertificate("HGB 09.71.03.04.3.00045", new Date("2024-06-30"), asOf).issues[0].severity).toBe("CRITICAL")
+
+    const expiring = assessCertificate("HGB 09.71.03.04.3.00045", new Date("2029-03-31"), asOf)
+    expect(expiring.expiryStatus).toBe("EXPIRING")
+    expect(expiring.issues[0].recommendation).toContain("20-year extension")
+  })
+
+  it("raises nothing for a registered Hak Milik", () => {
+    expect(assessCertificate("09.71.03.04.1.00123", null, asOf)).toMatchObject({ valid: true, expiryStatus: "PERPETUAL", issues: [] })
+  })
+})
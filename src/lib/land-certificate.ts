@@ -0,0 +1,228 @@
+// Indonesian land title identifiers. BPN numbers every right within its village as
+// PP.KK.CC.DD.T.NNNNN (province, regency, district, village, right type, sequence; PMNA/KBPN 3/1997), and titles are
+// also commonly written informally as "SHM No. 1234/Menteng".
+
+export const CERTIFICATE_TYPES = ["SHM", "HGB", "HGU", "HP", "HMSRS"] as const
+
+export type CertificateType = typeof CERTIFICATE_TYPES[number]
+
+export const CERTIFICATE_TYPE_LABELS: Record<CertificateType, string> = {
+  SHM: "Hak Milik",
+  HGB: "Hak Guna Bangunan",
+  HGU: "Hak Guna Usaha",
+  HP: "Hak Pakai",
+  HMSRS: "Hak Milik atas Satuan Rumah Susun (strata title)"
+}
+
+// The right-type digit of a registry number. Hak Pengelolaan (5) and wakaf land (6) are not held by buyers.
+const RIGHT_CODES: Record<string, CertificateType> = { "1": "SHM", "2": "HGU", "3": "HGB", "4": "HP", "7": "HMSRS" }
+
+const TYPE_ALIASES: Record<string, CertificateType> = {
+  SHM: "SHM",
+  HM: "SHM",
+  SHGB: "HGB",
+  HGB: "HGB",
+  SHGU: "HGU",
+  HGU: "HGU",
+  SHP: "HP",
+  HP: "HP",
+  HMSRS: "HMSRS",
+  SHMSRS: "HMSRS",
+  SHSRS: "HMSRS",
+  STRATA: "HMSRS",
+  "STRATA TITLE": "HMSRS"
+}
+
+// Years granted, extended and renewed under PP 18/2021. Hak Milik never expires; a strata title lasts as long as
+// the right over the land beneath the building.
+export const RIGHT_TERMS: Partial<Record<CertificateType, { initial: number; extension: number; renewal: number }>> = {
+  HGB: { initial: 30, extension: 20, renewal: 30 },
+  HGU: { initial: 35, extension: 25, renewal: 35 },
+  HP: { initial: 30, extension: 20, renewal: 30 }
+}
+
+// Lenders rarely accept collateral whose right lapses within a typical tenor without an extension in hand
+export const EXPIRY_WARNING_YEARS = 5
+
+export interface ParsedCertificate {
+  type: CertificateType
+  format: "REGISTRY" | "INFORMAL"
+  officeCode?: string // kantor pertanahan: province and regency, e.g. "09.71"
+  villageCode?: string // district and village within the office, e.g. "03.04"
+  villageName?: string
+  sequence: string
+  normalized: string
+}
+
+export type CertificateIssueSeverity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
+
+export interface CertificateIssue {
+  severity: CertificateIssueSeverity
+  title: string
+  description: string
+  recommendation: string
+}
+
+export type ExpiryStatus = "PERPETUAL" | "UNRECORDED" | "CURRENT" | "EXPIRING" | "EXPIRED"
+
+export interface CertificateAssessment {
+  valid: boolean
+  certificate: ParsedCertificate | null
+  expiryStatus: ExpiryStatus | null
+  yearsRemaining: number | null
+  issues: CertificateIssue[]
+}
+
+const REGISTRY_PATTERN = /^(?:([A-Z ]+?)\s*(?:NO\.?|NOMOR)?\s*[:.]?\s*)?(\d{2})[.\s]?(\d{2})[.\s]?(\d{2})[.\s]?(\d{2})[.\s]?(\d)[.\s]?(\d{5})$/
+const INFORMAL_PATTERN = /^([A-Z ]+?)\s*(?:NO\.?|NOMOR)?\s*[:.]?\s*(\d{1,5})(?:\s*\/\s*(.+))?$/
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000
+
+// Parses either form. A type prefix that contradicts the registry's right-type digit is not a parse.
+export function parseCertificateNumber(input: string): ParsedCertificate | null {
+  const value = input.trim().replace(/\s+/g, " ")
+  const upper = value.toUpperCase()
+
+  const registry = upper.match(REGISTRY_PATTERN)
+  if (registry) {
+    const [, prefix, province, regency, district, village, rightCode, sequence] = registry
+    const type = RIGHT_CODES[rightCode]
+    if (!type) return null
+    if (prefix && TYPE_ALIASES[prefix.trim()] !== type) return null
+    const officeCode = `${province}.${regency}`
+    const villageCode = `${district}.${village}`
+    return {
+      type,
+      format: "REGISTRY",
+      officeCode,
+      villageCode,
+      sequence,
+      normalized: `${type} ${officeCode}.${villageCode}.${rightCode}.${sequence}`
+    }
+  }
+
+  const informal = upper.match(INFORMAL_PATTERN)
+  if (informal) {
+    const type = TYPE_ALIASES[informal[1].trim()]
+    if (!type) return null
+    const sequence = informal[2].padStart(5, "0")
+    // Keep the village as written rather than upper-cased
+    const villageName = informal[3] ? value.slice(value.lastIndexOf("/") + 1).trim() : undefined
+    return {
+      type,
+      format: "INFORMAL",
+      villageName,
+      sequence,
+      normalized: `${type} No. ${sequence}${villageName ? `/${villageName}` : ""}`
+    }
+  }
+
+  return null
+}
+
+// Whether two written numbers name the same title, e.g. "SHM No. 12/Menteng" and "shm 0012 / menteng"
+export function sameCertificate(a: string, b: string): boolean {
+  const left = parseCertificateNumber(a)
+  const right = parseCertificateNumber(b)
+  if (left && right) return left.normalized.toLowerCase() === right.normalized.toLowerCase()
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+export function expiryStatus(
+  type: CertificateType,
+  expiresAt?: Date | null,
+  asOf = new Date()
+): { status: ExpiryStatus; yearsRemaining: number | null } {
+  if (type === "SHM") return { status: "PERPETUAL", yearsRemaining: null }
+  if (!expiresAt) return { status: "UNRECORDED", yearsRemaining: null }
+  const yearsRemaining = (expiresAt.getTime() - asOf.getTime()) / YEAR_MS
+  if (yearsRemaining <= 0) return { status: "EXPIRED", yearsRemaining }
+  if (yearsRemaining < EXPIRY_WARNING_YEARS) return { status: "EXPIRING", yearsRemaining }
+  return { status: "CURRENT", yearsRemaining }
+}
+
+// Structure and expiry of a recorded title, as issues both the legal check and the valuation risk factors use
+export function assessCertificate(
+  certificateNumber: string | null | undefined,
+  expiresAt?: Date | null,
+  asOf = new Date()
+): CertificateAssessment {
+  if (!certificateNumber?.trim()) {
+    return { valid: false, certificate: null, expiryStatus: null, yearsRemaining: null, issues: [] }
+  }
+
+  const certificate = parseCertificateNumber(certificateNumber)
+  if (!certificate) {
+    return {
+      valid: false,
+      certificate: null,
+      expiryStatus: null,
+      yearsRemaining: null,
+      issues: [{
+        severity: "HIGH",
+        title: "Certificate number is not recognised",
+        description: `"${certificateNumber}" is neither a BPN registry number (PP.KK.CC.DD.T.NNNNN) nor a typed title number such as "SHM No. 1234/Menteng".`,
+        recommendation: "Re-enter the number exactly as printed on the certificate"
+      }]
+    }
+  }
+
+  const issues: CertificateIssue[] = []
+  const label = CERTIFICATE_TYPE_LABELS[certificate.type]
+
+  // Sequence numbers restart in every village, so an informal number without one names no single parcel
+  const valid = certificate.format === "REGISTRY" || !!certificate.villageName
+  if (!valid) {
+    issues.push({
+      severity: "HIGH",
+      title: "Certificate village missing",
+      description: `${certificate.normalized} does not name the village it was registered in, so it cannot identify a single title.`,
+      recommendation: "Record the number with its village, e.g. \"SHM No. 1234/Menteng\", or the full registry number"
+    })
+  } else if (certificate.format === "INFORMAL") {
+    issues.push({
+      severity: "LOW",
+      title: "Certificate registry number not recorded",
+      description: `${certificate.normalized} has no land office or village code, so it cannot be matched against the land registry directly.`,
+      recommendation: "Record the registry number printed on the certificate"
+    })
+  }
+
+  const expiry = expiryStatus(certificate.type, expiresAt, asOf)
+  const remaining = expiry.yearsRemaining !== null ? `${Math.abs(expiry.yearsRemaining).toFixed(1)} years` : ""
+  const term = RIGHT_TERMS[certificate.type]
+  const renewal = term
+    ? `Apply for the ${term.extension}-year extension or ${term.renewal}-year renewal at the land office`
+    : "Confirm the remaining term of the land right under the building"
+
+  switch (expiry.status) {
+    case "UNRECORDED":
+      issues.push({
+        severity: "MEDIUM",
+        title: `${certificate.type} expiry date not recorded`,
+        description: term
+          ? `${label} is granted for a fixed term; without its expiry date the remaining term cannot be checked.`
+          : "A strata title lasts as long as the right over the land beneath the building, usually a Hak Guna Bangunan.",
+        recommendation: "Record the expiry date printed on the certificate"
+      })
+      break
+    case "EXPIRED":
+      issues.push({
+        severity: "CRITICAL",
+        title: `${certificate.type} right has expired`,
+        description: `The ${label} expired ${remaining} ago; the land reverts to the state unless the right is renewed.`,
+        recommendation: renewal
+      })
+      break
+    case "EXPIRING":
+      issues.push({
+        severity: "HIGH",
+        title: `${certificate.type} right expires within ${EXPIRY_WARNING_YEARS} years`,
+        description: `The ${label} expires in ${remaining}, before most loan tenors end.`,
+        recommendation: renewal
+      })
+      break
+  }
+
+  return { valid, certificate, expiryStatus: expiry.status, yearsRemaining: expiry.yearsRemaining, issues }
+}
@@ -0,0 +1,189 @@
+import path from "path"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import {
+  FileLandRegistryConnector,
+  LandRegistryError,
+  LandRegistryRecord,
+  lookupKey,
+  lookupTitle,
+  RegistryLookupResult,
+  setLandRegistryConnector
+} from "@/lib/land-registry"
+import { registryFindings, withRegistryFacts } from "@/lib/legal-check"
+
+// Only the lookup cache is touched, and it is stubbed per test
+vi.mock("@/lib/db", () => ({
+  db: { landRegistryLookup: { findUnique: vi.fn(), upsert: vi.fn() } }
+}))
+
+const cache = vi.mocked(db.landRegistryLookup)
+
+const stub = new FileLandRegistryConnector(path.join(process.cwd(), "examples/land-registry/records.json"))
+
+const found = (record: LandRegistryRecord | null): RegistryLookupResult => ({
+  status: "FOUND",
+  provider: "file-stub",
+  record,
+  lookupId: "lookup-1",
+  cached: false,
+  fetchedAt: "2025-01-01T00:00:00.000Z"
+})
+
+describe("FileLandRegistryConnector", () => {
+  it("finds a title by parcel ID whatever its punctuation", async () => {
+    const record = await stub.lookup({ parcelId: "09.71.03.04.000123" })
+    expect(record?.holderName).toBe("Budi Santoso")
+  })
+
+  it("finds a title by any written form of its number", async () => {
+    expect((await stub.lookup({ certificateNumber: "SHM 09710304100123" }))?.area).toBe(250)
+    expect((await stub.lookup({ certificateNumber: "shgb 4521 / Kuningan Timur" }))?.rightType).toBe("HGB")
+  })
+
+  it("returns null for an unknown title", async () => {
+    expect(await stub.lookup({ certificateNumber: "SHM No. 1/Menteng" })).toBeNull()
+  })
+
+  it("reports an unreadable file as a registry error", async () => {
+    const missing = new FileLandRegistryConnector("/nonexistent/records.json")
+    await expect(missing.lookup({ parcelId: "1" })).rejects.toBeInstanceOf(LandRegistryError)
+  })
+})
+
+describe("lookupKey", () => {
+  it("keys parcels by digits and certificates by their normalized form", () => {
+    expect(lookupKey({ parcelId: "09.71.03.04.000123" })).toBe("nib:09710304000123")
+    expect(lookupKey({ certificateNumber: "SHM No. 12/Menteng" })).toBe(lookupKey({ certificateNumber: "shm 0012 / menteng" }))
+    expect(lookupKey({})).toBeNull()
+  })
+
+  it("keys a parcel with its certificate number so a corrected number is not served from the cache", () => {
+    const parcel = "09.71.03.04.000123"
+    expect(lookupKey({ parcelId: parcel, certificateNumber: "SHM No. 1/Menteng" })).toBe("nib:09710304000123|cert:shm no. 00001/menteng")
+    expect(lookupKey({ parcelId: parcel, certificateNumber: "SHM No. 1/Menteng" }))
+      .not.toBe(lookupKey({ parcelId: parcel, certificateNumber: "SHM No. 2/Menteng" }))
+  })
+})
+
+describe("lookupTitle", () => {
+  beforeEach(() => {
+    cache.findUnique.mockReset()
+    cache.upsert.mockReset()
+    setLandRegistryConnector(stub)
+  })
+
+  it("does nothing without a connector", async () => {
+    setLandRegistryConnector(null)
+    expect((await lookupTitle({ parcelId: "1" })).status).toBe("NOT_CONFIGURED")
+    expect(cache.findUnique).not.toHaveBeenCalled()
+  })
+
+  it("records the answer, including a missing title", async () => {
+    cache.findUnique.mockResolvedValue(null)
+    cache.upsert.mockResolvedValue({ id: "lookup-1" } as never)
+
+    const result = await lookupTitle({ certificateNumber: "SHM No. 1/Menteng" })
+    expect(result).toMatchObject({ status: "NOT_FOUND", provider: "file-stub", lookupId: "lookup-1", cached: false })
+    expect(cache.upsert).toHaveBeenCalledOnce()
+  })
+
+  it("serves a fresh cached answer without asking the registry", async () => {
+    const lookup = vi.spyOn(stub, "lookup")
+    cache.findUnique.mockResolvedValue({
+      id: "lookup-2",
+      record: JSON.stringify({ certificateNumber: "SHM No. 1/Menteng" }),
+      fetchedAt: new Date()
+    } as never)
+
+    const result = await lookupTitle({ certificateNumber: "SHM No. 1/Menteng" })
+    expect(result).toMatchObject({ status: "FOUND", cached: true, lookupId: "lookup-2" })
+    expect(lookup).not.toHaveBeenCalled()
+    lookup.mockRestore()
+  })
+
+  it("reports a failed lookup as unavailable and does not cache it", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {})
+    setLandRegistryConnector(new FileLandRegistryConnector("/nonexistent/records.json"))
+    cache.findUnique.mockResolvedValue(null)
+
+    const result = await lookupTitle({ parcelId: "1" })
+    expect(result.status).toBe("UNAVAILABLE")
+    expect(result.error).toContain("Cannot read land registry stub")
+    expect(cache.upsert).not.toHaveBeenCalled()
+    logged.mockRestore()
+  })
+})
+
+describe("registryFindings", () => {
+  const property = { certificateNumber: "SHGB No. 4521/Kuningan Timur", landSize: 1200, zoning: "K.1 Perkantoran" }
+
+  it("reports the registered holder and the mortgage", async () => {
+    const record = (await stub.lookup({ certificateNumber: property.certificateNumber }))!
+    const findings = registryFindings(property, found(record))
+    expect(findings.map(finding => [finding.type, finding.severity])).toEqual([["OWNERSHIP", "INFO"], ["ENCUMBRANCE", "MEDIUM"]])
+    expect(findings[1].title).toBe("Mortgage registered to PT Bank Mandiri (Persero) Tbk")
+  })
+
+  it("treats a blocked title as a critical dispute", async () => {
+    const record = (await stub.lookup({ certificateNumber: "SHM No. 877/Cilandak Barat" }))!
+    const findings = registryFindings({ certificateNumber: "SHM No. 877/Cilandak Barat", landSize: 410, zoning: null }, found(record))
+    expect(findings[1]).toMatchObject({ type: "DISPUTE", severity: "CRITICAL", title: "Title is blocked" })
+  })
+
+  it("flags a different right, area or zone from the record on file", async () => {
+    const record = (await stub.lookup({ certificateNumber: property.certificateNumber }))!
+    const findings = registryFindings({ certificateNumber: "SHM No. 4521/Kuningan Timur", landSize: 1000, zoning: "R.2" }, found(record))
+    expect(findings.map(finding => finding.title)).not.toContain("Registered certificate number differs from the one on file")
+    expect(findings.map(finding => finding.title)).toEqual(expect.arrayContaining([
+      "Registered right differs from the certificate on file",
+      "Registered area differs from land size on file",
+      "Registered zoning differs from the property record"
+    ]))
+  })
+
+  it("flags a different certificate number of the same right", async () => {
+    const record = (await stub.lookup({ certificateNumber: "SHM No. 877/Cilandak Barat" }))!
+    const findings = registryFindings({ certificateNumber: "SHM No. 878/Cilandak Barat", landSize: 410, zoning: null }, found(record))
+    expect(findings.filter(finding => finding.type === "CERTIFICATE")).toEqual([
+      expect.objectContaining({ severity: "HIGH", title: "Registered certificate number differs from the one on file" })
+    ])
+  })
+
+  it("matches a typed number to the registry number by its sequence", async () => {
+    const record = (await stub.lookup({ parcelId: "09710304000123" }))!
+    const matching = registryFindings({ certificateNumber: "SHM No. 123/Menteng", landSize: 250, zoning: null }, found(record))
+    const different = registryFindings({ certificateNumber: "SHM No. 124/Menteng", landSize: 250, zoning: null }, found(record))
+    expect(matching.some(finding => finding.type === "CERTIFICATE")).toBe(false)
+    expect(different.some(finding => finding.title.startsWith("Registered certificate number"))).toBe(true)
+  })
+
+  it("tolerates a small area difference", async () => {
+    const record = (await stub.lookup({ certificateNumber: property.certificateNumber }))!
+    const findings = registryFindings({ ...property, landSize: 1180 }, found(record))
+    expect(findings.some(finding => finding.title.startsWith("Registered area"))).toBe(false)
+  })
+
+  it("distinguishes a missing title from an unreachable registry", () => {
+    const lookup = found(null)
+    expect(registryFindings(property, { ...lookup, status: "NOT_FOUND" })[0]).toMatchObject({ type: "CERTIFICATE", severity: "HIGH" })
+    expect(registryFindings(property, { ...lookup, status: "UNAVAILABLE" })[0]).toMatchObject({ type: "OTHER", severity: "INFO" })
+  })
+})
+
+describe("withRegistryFacts", () => {
+  it("fills gaps from the registry and takes its expiry", async () => {
+    const record = (await stub.lookup({ certificateNumber: "SHGB No. 4521/Kuningan Timur" }))!
+    const facts = withRegistryFacts({
+      ownershipStatus: "CERTIFIED",
+      certificateNumber: "SHGB No. 4521/Kuningan Timur",
+      certificateExpiry: new Date("2040-01-01"),
+      zoning: null,
+      landUse: "Kantor",
+      njop: null
+    } as Parameters<typeof withRegistryFacts>[0], record)
+    expect(facts.certificateExpiry).toEqual(new Date("2029-03-31"))
+    expect(facts.zoning).toBe("K.1 Perkantoran")
+    expect(facts.landUse).toBe("Kantor")
+  })
+})
@@ -0,0 +1,173 @@
+import { readFile } from "fs/promises"
+import { db } from "@/lib/db"
+import { CertificateType, parseCertificateNumber, sameCertificate } from "@/lib/land-certificate"
+
+// Title lookups against a land registry (BPN, through Sentuh Tanahku or a bank's own gateway). Neither offers a
+// public API, so the only bundled connector serves records from a file; a production connector implements the
+// same interface and is installed with setLandRegistryConnector.
+
+export interface LandRegistryQuery {
+  certificateNumber?: string
+  parcelId?: string // NIB, the 14-digit parcel identification number
+}
+
+export interface RegisteredEncumbrance {
+  type: "HAK_TANGGUNGAN" | "BLOKIR" | "SITA" | "OTHER" // mortgage, administrative block, court seizure
+  holder?: string
+  amount?: number
+  registeredAt?: string
+  description: string
+}
+
+export interface LandRegistryRecord {
+  certificateNumber: string
+  parcelId?: string
+  rightType: CertificateType
+  holderName: string
+  area: number // m²
+  rightExpiry?: string // ISO date; absent for Hak Milik
+  encumbrances: RegisteredEncumbrance[]
+  zoning?: string
+  landUse?: string
+}
+
+export interface LandRegistryConnector {
+  name: string
+  lookup(query: LandRegistryQuery): Promise<LandRegistryRecord | null>
+}
+
+export type RegistryStatus = "FOUND" | "NOT_FOUND" | "UNAVAILABLE" | "NOT_CONFIGURED"
+
+export interface RegistryLookupResult {
+  status: RegistryStatus
+  provider: string | null
+  record: LandRegistryRecord | null
+  lookupId: string | null
+  cached: boolean
+  fetchedAt: string | null
+  error?: string
+}
+
+export class LandRegistryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LandRegistryError"
+  }
+}
+
+// Serves records from a JSON array on disk, re-read on every lookup so the file can be edited while the app runs
+export class FileLandRegistryConnector implements LandRegistryConnector {
+  name = "file-stub"
+
+  constructor(private filePath: string) {}
+
+  async lookup(query: LandRegistryQuery): Promise<LandRegistryRecord | null> {
+    let records: LandRegistryRecord[]
+    try {
+      records = JSON.parse(await readFile(this.filePath, "utf-8"))
+    } catch (error) {
+      throw new LandRegistryError(`Cannot read land registry stub ${this.filePath}: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const parcelId = query.parcelId?.replace(/\D/g, "")
+    const match = records.find(record =>
+      (parcelId && record.parcelId?.replace(/\D/g, "") === parcelId) ||
+      (query.certificateNumber && sameCertificate(record.certificateNumber, query.certificateNumber))
+    )
+    return match ? { ...match, encumbrances: match.encumbrances ?? [] } : null
+  }
+}
+
+let activeConnector: LandRegistryConnector | null | undefined
+
+// LAND_REGISTRY_PROVIDER=stub selects the file connector reading LAND_REGISTRY_STUB_FILE; anything else leaves
+// the registry unconfigured and legal checks run without it
+function createConnectorFromEnv(): LandRegistryConnector | null {
+  if (process.env.LAND_REGISTRY_PROVIDER === "stub" && process.env.LAND_REGISTRY_STUB_FILE) {
+    return new FileLandRegistryConnector(process.env.LAND_REGISTRY_STUB_FILE)
+  }
+  return null
+}
+
+export function getLandRegistryConnector(): LandRegistryConnector | null {
+  if (activeConnector === undefined) {
+    activeConnector = createConnectorFromEnv()
+  }
+  return activeConnector
+}
+
+export function setLandRegistryConnector(connector: LandRegistryConnector | null): void {
+  activeConnector = connector
+}
+
+export const DEFAULT_CACHE_HOURS = 24 * 7
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Parcel IDs are exact; certificate numbers are keyed by their normalized form so spelling variants share an entry.
+// Connectors match on either, so a query with both is keyed by both and a corrected number is looked up afresh.
+export function lookupKey(query: LandRegistryQuery): string | null {
+  const parts: string[] = []
+  if (query.parcelId) parts.push(`nib:${query.parcelId.replace(/\D/g, "")}`)
+  if (query.certificateNumber?.trim()) {
+    const parsed = parseCertificateNumber(query.certificateNumber)
+    parts.push(`cert:${(parsed?.normalized ?? query.certificateNumber.trim()).toLowerCase()}`)
+  }
+  return parts.length > 0 ? parts.join("|") : null
+}
+
+// Registry calls are slow and often metered, so answers (including "not found") are kept for a week. Failed
+// lookups are not cached and are reported as UNAVAILABLE rather than as a missing title.
+export async function lookupTitle(query: LandRegistryQuery, maxAgeHours = DEFAULT_CACHE_HOURS): Promise<RegistryLookupResult> {
+  const connector = getLandRegistryConnector()
+  const key = lookupKey(query)
+  if (!connector || !key) {
+    return { status: "NOT_CONFIGURED", provider: connector?.name ?? null, record: null, lookupId: null, cached: false, fetchedAt: null }
+  }
+
+  const cached = await db.landRegistryLookup.findUnique({
+    where: { provider_queryKey: { provider: connector.name, queryKey: key } }
+  })
+  if (cached && Date.now() - cached.fetchedAt.getTime() < maxAgeHours * HOUR_MS) {
+    return {
+      status: cached.record ? "FOUND" : "NOT_FOUND",
+      provider: connector.name,
+      record: cached.record ? JSON.parse(cached.record) : null,
+      lookupId: cached.id,
+      cached: true,
+      fetchedAt: cached.fetchedAt.toISOString()
+    }
+  }
+
+  let record: LandRegistryRecord | null
+  try {
+    record = await connector.lookup(query)
+  } catch (error) {
+    console.error("Land registry lookup failed:", error)
+    return {
+      status: "UNAVAILABLE",
+      provider: connector.name,
+      record: null,
+      lookupId: null,
+      cached: false,
+      fetchedAt: null,
+      error: error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  const fetchedAt = new Date()
+  const lookup = await db.landRegistryLookup.upsert({
+    where: { provider_queryKey: { provider: connector.name, queryKey: key } },
+    create: { provider: connector.name, queryKey: key, record: record && JSON.stringify(record), fetchedAt },
+    update: { record: record && JSON.stringify(record), fetchedAt }
+  })
+
+  return {
+    status: record ? "FOUND" : "NOT_FOUND",
+    provider: connector.name,
+    record,
+    lookupId: lookup.id,
+    cached: false,
+    fetchedAt: fetchedAt.toISOString()
+  }
+}
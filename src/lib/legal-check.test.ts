@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest"
+import { checkFlags, complianceScore, legalRiskLevel, summarizeFindings, systemFindings } from "@/lib/legal-check"
+
+// Findings are derived in memory; only recording them touches the database
+vi.mock("@/lib/db", () => ({ db: {} }))
+
+const finding = (type: string, severity: string, status = "OPEN") => ({ type, severity, status }) as Parameters<typeof complianceScore>[0][number]
+
+const wellDocumented = {
+  ownershipStatus: "CERTIFIED",
+  certificateNumber: "SHM 09.71.03.04.1.00123",
+  certificateExpiry: null,
+  zoning: "R.2",
+  landUse: "Rumah tinggal",
+  njop: 1500000000
+} as Parameters<typeof systemFindings>[0]
+
+describe("complianceScore", () => {
+  it("deducts a penalty for each open finding by severity", () => {
+    expect(complianceScore([])).toBe(1)
+    expect(complianceScore([finding("ZONING", "MEDIUM"), finding("TAX", "LOW")])).toBeCloseTo(0.87, 10)
+  })
+
+  it("ignores resolved findings and never goes below zero", () => {
+    expect(complianceScore([finding("DISPUTE", "CRITICAL", "RESOLVED")])).toBe(1)
+    expect(complianceScore(Array.from({ length: 3 }, () => finding("DISPUTE", "CRITICAL")))).toBe(0)
+  })
+})
+
+describe("checkFlags", () => {
+  it("fails a check only on an open finding of medium severity or worse", () => {
+    const flags = checkFlags([
+      finding("CERTIFICATE", "LOW"),
+      finding("ZONING", "MEDIUM"),
+      finding("DISPUTE", "CRITICAL", "WAIVED")
+    ])
+    expect(flags).toEqual({
+      ownershipVerified: true,
+      certificateValid: true,
+      zoningCompliant: false,
+      landUsePermitted: true
+    })
+  })
+
+  it("counts disputes against ownership", () => {
+    expect(checkFlags([finding("DISPUTE", "HIGH")]).ownershipVerified).toBe(false)
+  })
+
+  it("is summarised with the score", () => {
+    expect(summarizeFindings([finding("PERMIT", "HIGH")])).toMatchObject({ landUsePermitted: false, complianceScore: 0.75 })
+  })
+})
+
+describe("legalRiskLevel", () => {
+  it("takes the worst open finding", () => {
+    expect(legalRiskLevel([])).toBe("LOW")
+    expect(legalRiskLevel([finding("TAX", "LOW"), finding("ZONING", "MEDIUM")])).toBe("MEDIUM")
+    expect(legalRiskLevel([finding("DISPUTE", "CRITICAL"), finding("ZONING", "MEDIUM")])).toBe("CRITICAL")
+    expect(legalRiskLevel([finding("DISPUTE", "CRITICAL", "RESOLVED")])).toBe("LOW")
+  })
+})
+
+describe("systemFindings", () => {
+  it("asks only for the certificate copy when the record is complete", () => {
+    const findings = systemFindings(wellDocumented)
+    expect(findings.map(item => item.title)).toEqual(["Certificate copy not on file"])
+    expect(systemFindings(wellDocumented, [{ reference: "09.71.03.04.1.00123" }])).toEqual([])
+  })
+
+  it("flags disputed and uncertified ownership", () => {
+    expect(systemFindings({ ...wellDocumented, ownershipStatus: "DISPUTED" })[0]).toMatchObject({ type: "DISPUTE", severity: "CRITICAL" })
+    expect(systemFindings({ ...wellDocumented, ownershipStatus: "UNCERTIFIED" })[0]).toMatchObject({ type: "OWNERSHIP", severity: "HIGH" })
+  })
+
+  it("reports every missing fact", () => {
+    const findings = systemFindings({ ...wellDocumented, certificateNumber: null, zoning: null, landUse: null, njop: null })
+    expect(findings.map(item => item.type)).toEqual(["CERTIFICATE", "ZONING", "LAND_USE", "TAX"])
+    expect(findings.every(item => item.source === "SYSTEM_RULE")).toBe(true)
+  })
+})
@@ -0,0 +1,361 @@
+import { FindingSeverity, FindingSource, FindingStatus, LegalFindingType, Prisma, Property } from "@prisma/client"
+import { db } from "@/lib/db"
+import { assessCertificate, ParsedCertificate, parseCertificateNumber, sameCertificate } from "@/lib/land-certificate"
+import { LandRegistryRecord, RegistryLookupResult } from "@/lib/land-registry"
+import { PropertyZoning } from "@/lib/zoning-dataset"
+
+// One findings model behind every legal check: rules, AI analysis and registry data all produce findings, and the
+// check's pass/fail flags and compliance score are derived from whichever of them are still open
+
+export interface FindingInput {
+  type: LegalFindingType
+  severity: FindingSeverity
+  source: FindingSource
+  title: string
+  description: string
+  recommendation?: string | null
+  evidenceDocumentId?: string | null
+}
+
+interface FindingState {
+  type: LegalFindingType
+  severity: FindingSeverity
+  status: FindingStatus
+}
+
+export const OPEN_STATUSES: FindingStatus[] = ["OPEN", "PENDING"]
+
+export const isOpen = (finding: { status: FindingStatus }) => OPEN_STATUSES.includes(finding.status)
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { INFO: 0, LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 }
+
+// Deducted from a perfect score for each open finding
+const SEVERITY_PENALTY: Record<FindingSeverity, number> = { INFO: 0, LOW: 0.03, MEDIUM: 0.1, HIGH: 0.25, CRITICAL: 0.4 }
+
+// A check passes while no open finding of MEDIUM or worse concerns it
+const CHECK_FINDING_TYPES = {
+  ownershipVerified: ["OWNERSHIP", "DISPUTE"],
+  certificateValid: ["CERTIFICATE"],
+  zoningCompliant: ["ZONING"],
+  landUsePermitted: ["LAND_USE", "PERMIT"]
+} satisfies Record<string, LegalFindingType[]>
+
+export type LegalCheckFlags = Record<keyof typeof CHECK_FINDING_TYPES, boolean>
+
+export function complianceScore(findings: FindingState[]): number {
+  const penalty = findings.filter(isOpen).reduce((sum, finding) => sum + SEVERITY_PENALTY[finding.severity], 0)
+  return Math.max(0, 1 - penalty)
+}
+
+export function checkFlags(findings: FindingState[]): LegalCheckFlags {
+  const blocking = findings.filter(finding => isOpen(finding) && SEVERITY_RANK[finding.severity] >= SEVERITY_RANK.MEDIUM)
+  const passes = (types: LegalFindingType[]) => !blocking.some(finding => types.includes(finding.type))
+  return {
+    ownershipVerified: passes(CHECK_FINDING_TYPES.ownershipVerified),
+    certificateValid: passes(CHECK_FINDING_TYPES.certificateValid),
+    zoningCompliant: passes(CHECK_FINDING_TYPES.zoningCompliant),
+    landUsePermitted: passes(CHECK_FINDING_TYPES.landUsePermitted)
+  }
+}
+
+export function summarizeFindings(findings: FindingState[]) {
+  return { ...checkFlags(findings), complianceScore: complianceScore(findings) }
+}
+
+// The worst open finding sets the risk level; a check with nothing open is LOW
+export function legalRiskLevel(findings: FindingState[]): "LOW" | "MEDIUM" | "HIGH" | "CRITICAL" {
+  const worst = Math.max(0, ...findings.filter(isOpen).map(finding => SEVERITY_RANK[finding.severity]))
+  if (worst >= SEVERITY_RANK.CRITICAL) return "CRITICAL"
+  if (worst >= SEVERITY_RANK.HIGH) return "HIGH"
+  if (worst >= SEVERITY_RANK.MEDIUM) return "MEDIUM"
+  return "LOW"
+}
+
+type PropertyFacts = Pick<Property, "ownershipStatus" | "certificateNumber" | "certificateExpiry" | "zoning" | "landUse" | "njop">
+
+// Findings that follow from the recorded property data and the documents on file alone
+export function systemFindings(property: PropertyFacts, documents: Array<{ reference: string }> = []): FindingInput[] {
+  const findings: FindingInput[] = []
+
+  switch (property.ownershipStatus) {
+    case "DISPUTED":
+      findings.push({
+        type: "DISPUTE",
+        severity: "CRITICAL",
+        source: "SYSTEM_RULE",
+        title: "Ownership is disputed",
+        description: "The property is recorded with a disputed ownership status.",
+        recommendation: "Obtain the court or BPN case file and confirm the dispute is settled before lending or transacting"
+      })
+      break
+    case "UNCERTIFIED":
+      findings.push({
+        type: "OWNERSHIP",
+        severity: "HIGH",
+        source: "SYSTEM_RULE",
+        title: "Land is not certified",
+        description: "No land title has been issued by BPN; ownership rests on girik, letter C or similar evidence.",
+        recommendation: "Verify the chain of ownership at the village office and register the land with BPN"
+      })
+      break
+    case "UNDER_PROCESS":
+      findings.push({
+        type: "OWNERSHIP",
+        severity: "MEDIUM",
+        source: "SYSTEM_RULE",
+        title: "Certification in progress",
+        description: "The land title application has not been completed.",
+        recommendation: "Track the application at the land office and obtain the issued certificate"
+      })
+      break
+  }
+
+  if (!property.certificateNumber) {
+    findings.push({
+      type: "CERTIFICATE",
+      severity: "HIGH",
+      source: "SYSTEM_RULE",
+      title: "Certificate number missing",
+      description: "The certificate number has not been recorded, so the title cannot be checked against the land registry.",
+      recommendation: "Record the certificate number from the original SHM or SHGB"
+    })
+  } else {
+    const certificate = assessCertificate(property.certificateNumber, property.certificateExpiry)
+    findings.push(...certificate.issues.map((issue): FindingInput => ({ ...issue, type: "CERTIFICATE", source: "SYSTEM_RULE" })))
+
+    if (certificate.valid && !documents.some(document => sameCertificate(document.reference, property.certificateNumber!))) {
+      findings.push({
+        type: "CERTIFICATE",
+        severity: "LOW",
+        source: "SYSTEM_RULE",
+        title: "Certificate copy not on file",
+        description: `No document with reference ${property.certificateNumber} has been recorded for this property.`,
+        recommendation: "Attach a copy of the certificate so the title can be checked against it"
+      })
+    }
+  }
+
+  if (!property.zoning) {
+    findings.push({
+      type: "ZONING",
+      severity: "MEDIUM",
+      source: "SYSTEM_RULE",
+      title: "Zoning not recorded",
+      description: "Without the zoning designation, compliance with the spatial plan (RDTR) cannot be confirmed.",
+      recommendation: "Confirm the zone in the RDTR or through an ITR/KKPR"
+    })
+  }
+
+  if (!property.landUse) {
+    findings.push({
+      type: "LAND_USE",
+      severity: "MEDIUM",
+      source: "SYSTEM_RULE",
+      title: "Land use not recorded",
+      description: "The current land use is unknown, so it cannot be checked against the permitted uses of the zone.",
+      recommendation: "Record the land use stated on the certificate and building approval (PBG)"
+    })
+  }
+
+  if (!property.njop) {
+    findings.push({
+      type: "TAX",
+      severity: "LOW",
+      source: "SYSTEM_RULE",
+      title: "No SPPT PBB on file",
+      description: "The NJOP and PBB payment status have not been recorded.",
+      recommendation: "Obtain the latest SPPT PBB and proof of payment"
+    })
+  }
+
+  return findings
+}
+
+// A recorded zone is only compliant once its rules have been checked; a zone missing from the dataset is not
+export function zoningFindings(zoning: PropertyZoning): FindingInput[] {
+  if (zoning.status === "ZONE_UNKNOWN") {
+    return [{
+      type: "ZONING",
+      severity: "MEDIUM",
+      source: "ZONING_DATA",
+      title: "Zone not in zoning dataset",
+      description: `"${zoning.zoning}" does not match a zone on record for this location, so its KDB, KLB, KDH and height limits were not checked.`,
+      recommendation: "Record the zone code from the RDTR map, or add the zone's rules to the zoning dataset"
+    }]
+  }
+  if (!zoning.assessment) return []
+  return zoning.assessment.issues.map((issue): FindingInput => ({ ...issue, source: "ZONING_DATA" }))
+}
+
+// The registry answers these authoritatively, so AI findings of the same types are dropped when it found the title
+export const REGISTRY_FINDING_TYPES: LegalFindingType[] = ["OWNERSHIP", "CERTIFICATE", "ENCUMBRANCE"]
+
+// Registry data fills what the property record lacks; a registered expiry overrides the one typed in
+export function withRegistryFacts<T extends PropertyFacts>(property: T, record: LandRegistryRecord | null): T {
+  if (!record) return property
+  return {
+    ...property,
+    certificateExpiry: record.rightExpiry ? new Date(record.rightExpiry) : property.certificateExpiry,
+    zoning: property.zoning || record.zoning || null,
+    landUse: property.landUse || record.landUse || null
+  }
+}
+
+// Tolerance between the registered area and the land size on file before they are reported as different
+const AREA_TOLERANCE = 0.05
+
+const formatArea = (value: number) => `${value.toLocaleString("id-ID")} m²`
+
+export function registryFindings(
+  property: Pick<Property, "certificateNumber" | "landSize" | "zoning">,
+  lookup: RegistryLookupResult
+): FindingInput[] {
+  if (lookup.status === "UNAVAILABLE") {
+    return [{
+      type: "OTHER",
+      severity: "INFO",
+      source: "LAND_REGISTRY",
+      title: "Land registry unavailable",
+      description: `The ${lookup.provider} lookup failed, so title data comes from the property record only.`,
+      recommendation: "Run the check again later"
+    }]
+  }
+  if (lookup.status === "NOT_FOUND") {
+    return [{
+      type: "CERTIFICATE",
+      severity: "HIGH",
+      source: "LAND_REGISTRY",
+      title: "Title not found in land registry",
+      description: `${lookup.provider} has no title matching ${property.certificateNumber || "the recorded parcel"}.`,
+      recommendation: "Check the certificate number against the original and request a title search (pengecekan sertipikat) at the land office"
+    }]
+  }
+  if (!lookup.record) return []
+
+  const { record } = lookup
+  const findings: FindingInput[] = [{
+    type: "OWNERSHIP",
+    severity: "INFO",
+    source: "LAND_REGISTRY",
+    title: `Registered to ${record.holderName}`,
+    description: `${record.rightType} ${record.certificateNumber}, ${formatArea(record.area)}${record.parcelId ? `, NIB ${record.parcelId}` : ""}.`
+  }]
+
+  const recorded = property.certificateNumber ? parseCertificateNumber(property.certificateNumber) : null
+  if (recorded && recorded.type !== record.rightType) {
+    findings.push({
+      type: "CERTIFICATE",
+      severity: "HIGH",
+      source: "LAND_REGISTRY",
+      title: "Registered right differs from the certificate on file",
+      description: `The property record gives ${recorded.type}, the registry ${record.rightType}.`,
+      recommendation: "Confirm whether the right has been converted or the wrong certificate was recorded"
+    })
+  }
+
+  // A parcel lookup can return another title on the same land. The right type is checked above, so only the number
+  // is compared here; a registry number and a typed number share just the sequence.
+  const registered = parseCertificateNumber(record.certificateNumber)
+  const titleNumber = (certificate: ParsedCertificate) => certificate.normalized.slice(certificate.type.length).trim().toLowerCase()
+  if (recorded && registered && (recorded.format === registered.format
+    ? titleNumber(recorded) !== titleNumber(registered)
+    : recorded.sequence !== registered.sequence)) {
+    findings.push({
+      type: "CERTIFICATE",
+      severity: "HIGH",
+      source: "LAND_REGISTRY",
+      title: "Registered certificate number differs from the one on file",
+      description: `The property record gives ${recorded.normalized}, the registry ${registered.normalized}.`,
+      recommendation: "Check the number against the original certificate; the title may have been replaced, split or merged"
+    })
+  }
+
+  if (Math.abs(record.area - property.landSize) > property.landSize * AREA_TOLERANCE) {
+    findings.push({
+      type: "CERTIFICATE",
+      severity: "MEDIUM",
+      source: "LAND_REGISTRY",
+      title: "Registered area differs from land size on file",
+      description: `The registry records ${formatArea(record.area)} against ${formatArea(property.landSize)} on file.`,
+      recommendation: "Value on the registered area or commission a boundary measurement"
+    })
+  }
+
+  for (const encumbrance of record.encumbrances) {
+    const blocking = encumbrance.type === "BLOKIR" || encumbrance.type === "SITA"
+    findings.push({
+      type: blocking ? "DISPUTE" : "ENCUMBRANCE",
+      severity: blocking ? "CRITICAL" : "MEDIUM",
+      source: "LAND_REGISTRY",
+      title: encumbrance.type === "HAK_TANGGUNGAN"
+        ? `Mortgage registered${encumbrance.holder ? ` to ${encumbrance.holder}` : ""}`
+        : encumbrance.type === "BLOKIR" ? "Title is blocked"
+        : encumbrance.type === "SITA" ? "Title is under court seizure"
+        : "Encumbrance registered",
+      description: encumbrance.description,
+      recommendation: encumbrance.type === "HAK_TANGGUNGAN"
+        ? "Require the mortgage to be discharged (roya) at or before the transfer"
+        : blocking ? "Do not transact until the block or seizure is lifted by the land office or court"
+        : "Establish whether the encumbrance survives a transfer"
+    })
+  }
+
+  if (record.zoning && property.zoning && record.zoning.trim().toLowerCase() !== property.zoning.trim().toLowerCase()) {
+    findings.push({
+      type: "ZONING",
+      severity: "MEDIUM",
+      source: "LAND_REGISTRY",
+      title: "Registered zoning differs from the property record",
+      description: `The property record gives "${property.zoning}", the registry "${record.zoning}".`,
+      recommendation: "Confirm the current zone in the RDTR"
+    })
+  }
+
+  return findings
+}
+
+export const legalCheckInclude = {
+  findings: {
+    orderBy: { createdAt: "asc" },
+    include: {
+      evidenceDocument: true,
+      resolvedBy: { select: { id: true, name: true, email: true } }
+    }
+  },
+  registryLookup: true
+} satisfies Prisma.LegalCheckInclude
+
+export type LegalCheckWithFindings = Prisma.LegalCheckGetPayload<{ include: typeof legalCheckInclude }>
+
+export async function recordLegalCheck(
+  propertyId: string,
+  findings: FindingInput[],
+  notes?: string | null,
+  registryLookupId?: string | null
+) {
+  return await db.legalCheck.create({
+    data: {
+      propertyId,
+      registryLookupId,
+      ...summarizeFindings(findings.map(finding => ({ ...finding, status: "OPEN" as const }))),
+      notes,
+      findings: { create: findings }
+    },
+    include: legalCheckInclude
+  })
+}
+
+export function toLegalCheckResponse(legalCheck: LegalCheckWithFindings) {
+  const { findings, registryLookup, ...check } = legalCheck
+  return {
+    ...check,
+    riskLevel: legalRiskLevel(findings),
+    openFindings: findings.filter(isOpen).length,
+    registry: registryLookup && {
+      provider: registryLookup.provider,
+      fetchedAt: registryLookup.fetchedAt,
+      record: registryLookup.record ? JSON.parse(registryLookup.record) as LandRegistryRecord : null
+    },
+    findings
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import { amortisationSchedule, analyseInvestment, applyScenario, ProFormaAssumptions, shiftLoanRates, STANDARD_SCENARIOS, stressTest } from "@/lib/finance"
+import {
+  fixedYears,
+  floatingRate,
+  LoanProductDefinition,
+  maxLoanToValue,
+  productEligibilityIssues,
+  productLoanTerms,
+  upfrontFees
+} from "@/lib/loan-products"
+
+const product: LoanProductDefinition = {
+  id: "kpr-fixed-3",
+  name: "KPR Fixed 3",
+  lender: "Bank Contoh",
+  productType: "KPR",
+  rateTiers: [{ years: 1, annualRate: 0.035 }, { years: 2, annualRate: 0.055 }],
+  referenceRate: 0.0725,
+  floatingMargin: 0.035,
+  maxTenorYears: 20,
+  maxLoanToValue: { RESIDENTIAL: 0.9 },
+  provisionFee: 0.01,
+  adminFee: 500000
+}
+
+describe("loan product terms", () => {
+  it("floats at the reference rate plus margin once the fixed tiers end", () => {
+    expect(floatingRate(product)).toBeCloseTo(0.1075, 10)
+    expect(fixedYears(product)).toBe(3)
+
+    const schedule = amortisationSchedule(productLoanTerms(product, 1000000000, 15))
+    expect(schedule[0].interest).toBeCloseTo(1000000000 * 0.035 / 12, 2)
+    expect(schedule[12].interest).toBeCloseTo(schedule[11].balance * 0.055 / 12, 2)
+    expect(schedule[36].interest).toBeCloseTo(schedule[35].balance * 0.1075 / 12, 2)
+  })
+
+  it("charges provision on the principal plus the flat admin fee", () => {
+    expect(upfrontFees(product, 1000000000)).toBe(10500000)
+  })
+
+  it("finances only the asset types it lists", () => {
+    expect(maxLoanToValue(product, "RESIDENTIAL")).toBe(0.9)
+    expect(maxLoanToValue(product, "COMMERCIAL")).toBeNull()
+  })
+})
+
+describe("productEligibilityIssues", () => {
+  it("accepts a loan within the product's limits", () => {
+    expect(productEligibilityIssues(product, "RESIDENTIAL", 900000000, 1000000000, 20)).toEqual([])
+  })
+
+  it("explains every limit the loan breaks", () => {
+    const issues = productEligibilityIssues(product, "RESIDENTIAL", 950000000, 1000000000, 25)
+    expect(issues).toHaveLength(2)
+    expect(issues[0]).toContain("95.0%")
+    expect(issues[1]).toContain("25 years")
+  })
+
+  it("rejects asset types the product does not finance", () => {
+    expect(productEligibilityIssues(product, "MIXED_USE", 0, 1000000000, 10)[0]).toContain("does not finance mixed use")
+  })
+})
+
+describe("rate shocks on tiered loans", () => {
+  const loan = productLoanTerms(product, 700000000, 15)
+  const assumptions: ProFormaAssumptions = {
+    propertyValue: 1000000000,
+    grossPotentialRent: 60000000,
+    vacancyRate: 0.05,
+    operatingExpenseRatio: 0.3,
+    loan
+  }
+
+  it("moves every fixed tier with the floating rate", () => {
+    const shocked = shiftLoanRates(loan, 0.02)
+    expect(shocked.annualRate).toBeCloseTo(0.1275, 10)
+    expect(shocked.rateTiers!.map(tier => tier.annualRate)).toEqual([0.055, 0.075].map(rate => expect.closeTo(rate, 10)))
+    expect(shocked.rateTiers!.map(tier => tier.years)).toEqual([1, 2])
+  })
+
+  it("never takes a rate below zero", () => {
+    expect(shiftLoanRates(loan, -0.05).rateTiers![0].annualRate).toBe(0)
+  })
+
+  it("raises first-year debt service in the rate stress test", () => {
+    const [rateShock] = stressTest(assumptions)
+    const shocked = analyseInvestment({ ...assumptions, loan: shiftLoanRates(loan, 0.03) })
+    expect(rateShock.key).toBe("interestRateShock")
+    expect(rateShock.debtServiceCoverage).toBeCloseTo(shocked.metrics.debtServiceCoverage, 10)
+    expect(rateShock.debtServiceCoverage).toBeLessThan(analyseInvestment(assumptions).metrics.debtServiceCoverage)
+  })
+
+  it("shifts the tiers in the pessimistic scenario", () => {
+    const pessimistic = applyScenario(assumptions, STANDARD_SCENARIOS[2])
+    expect(pessimistic.loan.rateTiers![0].annualRate).toBeCloseTo(0.055, 10)
+  })
+})
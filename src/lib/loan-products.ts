@@ -0,0 +1,88 @@
+import type { LoanProduct } from "@prisma/client"
+import type { SessionUser } from "@/lib/auth"
+import { LoanTerms, RateTier } from "@/lib/finance"
+
+// KPR/KPA products: fixed or tiered rates for the first years, then a floating reference rate plus margin
+
+export const LOAN_PRODUCT_TYPES = ["KPR", "KPA", "KPR_SYARIAH", "COMMERCIAL"] as const
+
+export type LoanProductType = typeof LOAN_PRODUCT_TYPES[number]
+
+export interface LoanProductDefinition {
+  id: string
+  name: string
+  lender: string
+  productType: LoanProductType
+  rateTiers: RateTier[]
+  referenceRate: number
+  floatingMargin: number
+  maxTenorYears: number
+  maxLoanToValue: Record<string, number> // by asset type
+  provisionFee: number
+  adminFee: number
+}
+
+export function toLoanProductDefinition(product: LoanProduct): LoanProductDefinition {
+  return {
+    id: product.id,
+    name: product.name,
+    lender: product.lender,
+    productType: product.productType as LoanProductType,
+    rateTiers: JSON.parse(product.rateTiers),
+    referenceRate: product.referenceRate,
+    floatingMargin: product.floatingMargin,
+    maxTenorYears: product.maxTenorYears,
+    maxLoanToValue: JSON.parse(product.maxLoanToValue),
+    provisionFee: product.provisionFee,
+    adminFee: product.adminFee
+  }
+}
+
+// Products visible to a user: their organisation's own plus the shared ones
+export const loanProductAccessFilter = (user: SessionUser) => ({
+  OR: [{ organizationId: null }, ...(user.organizationId ? [{ organizationId: user.organizationId }] : [])]
+})
+
+export const floatingRate = (product: LoanProductDefinition) => product.referenceRate + product.floatingMargin
+
+export const fixedYears = (product: LoanProductDefinition) =>
+  product.rateTiers.reduce((sum, tier) => sum + tier.years, 0)
+
+// Provision is charged on the principal and paid from the borrower's equity at drawdown
+export const upfrontFees = (product: LoanProductDefinition, principal: number) =>
+  principal * product.provisionFee + product.adminFee
+
+// Null when the product does not finance the asset type
+export const maxLoanToValue = (product: LoanProductDefinition, assetType: string): number | null =>
+  product.maxLoanToValue[assetType] ?? null
+
+// Tiers longer than the tenor are cut short by the schedule itself
+export function productLoanTerms(product: LoanProductDefinition, principal: number, years: number): LoanTerms {
+  return {
+    principal,
+    annualRate: floatingRate(product),
+    years,
+    rateTiers: product.rateTiers
+  }
+}
+
+// Reasons the requested loan falls outside the product's limits; empty when it qualifies
+export function productEligibilityIssues(
+  product: LoanProductDefinition,
+  assetType: string,
+  principal: number,
+  propertyValue: number,
+  years: number
+): string[] {
+  const issues: string[] = []
+  const limit = maxLoanToValue(product, assetType)
+  if (limit === null) {
+    issues.push(`${product.name} does not finance ${assetType.toLowerCase().replace(/_/g, " ")} property`)
+  } else if (propertyValue > 0 && principal / propertyValue > limit + 1e-9) {
+    issues.push(`Loan-to-value of ${(principal / propertyValue * 100).toFixed(1)}% exceeds the product maximum of ${(limit * 100).toFixed(0)}%`)
+  }
+  if (years > product.maxTenorYears) {
+    issues.push(`Loan term of ${years} years exceeds the product maximum of ${product.maxTenorYears} years`)
+  }
+  return issues
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import { coverageRisk, DEFAULT_LOAN_TO_VALUE, ProFormaAssumptions, stressTest } from "@/lib/finance"
+import { findLtvLimit, LoanSizingError, LtvRule, resolveLoanAmount, sizeLoan } from "@/lib/loan-sizing"
+
+const loan = { annualRate: 0.11, years: 15 }
+
+describe("findLtvLimit", () => {
+  it("applies the stricter band above 70 m² and to unknown sizes", () => {
+    expect(findLtvLimit("RESIDENTIAL", "INDIVIDUAL", 2, 120).maxLoanToValue).toBe(0.8)
+    expect(findLtvLimit("RESIDENTIAL", "INDIVIDUAL", 2, null).maxLoanToValue).toBe(0.8)
+    expect(findLtvLimit("RESIDENTIAL", "INDIVIDUAL", 2, 60).maxLoanToValue).toBe(0.85)
+  })
+
+  it("tightens with each further facility", () => {
+    expect([1, 2, 3].map(facility => findLtvLimit("MIXED_USE", "INDIVIDUAL", facility as 1 | 2 | 3).maxLoanToValue))
+      .toEqual([0.9, 0.8, 0.75])
+  })
+
+  it("separates individual and corporate borrowers", () => {
+    expect(findLtvLimit("RESIDENTIAL", "CORPORATE", 1, 60).maxLoanToValue).toBe(0.8)
+    expect(findLtvLimit("COMMERCIAL", "CORPORATE", 1).maxLoanToValue).toBe(0.7)
+  })
+
+  it("falls back to the house default for types no rule covers", () => {
+    const limit = findLtvLimit("COMMERCIAL", "INDIVIDUAL", 1, null, [])
+    expect(limit.maxLoanToValue).toBe(DEFAULT_LOAN_TO_VALUE)
+    expect(limit.basis).toContain("house default")
+  })
+
+  it("uses a published rule set in place of the defaults", () => {
+    const rules: LtvRule[] = [{ assetType: "RESIDENTIAL", limits: [1, 0.9, 0.85], basis: "PBI 23/2/2021" }]
+    expect(findLtvLimit("RESIDENTIAL", "INDIVIDUAL", 1, 120, rules)).toEqual({ maxLoanToValue: 1, basis: "PBI 23/2/2021" })
+  })
+})
+
+describe("sizeLoan", () => {
+  const base = {
+    propertyValue: 2000000000,
+    assetType: "RESIDENTIAL",
+    buildingSize: 120,
+    loan
+  }
+
+  it("sizes on the LTV cap alone without income figures", () => {
+    const result = sizeLoan(base)
+    expect(result.binding).toBe("ltv")
+    expect(result.maxLoanToValue).toBe(0.9)
+    expect(result.maxLoanAmount).toBeCloseTo(1800000000, 0)
+    expect(result.constraints).toHaveLength(1)
+  })
+
+  it("binds on DSCR when the income cannot service the LTV loan", () => {
+    const result = sizeLoan({ ...base, netOperatingIncome: 100000000, dscrTarget: 1.25 })
+    const dscr = result.constraints.find(constraint => constraint.key === "dscr")!
+    expect(result.binding).toBe("dscr")
+    expect(result.maxLoanAmount).toBe(dscr.maxLoanAmount)
+    expect(result.maxLoanAmount).toBeLessThan(1800000000)
+    expect(result.explanation).toContain("Debt service coverage is the binding constraint")
+  })
+
+  it("binds on debt-to-income net of existing instalments", () => {
+    const result = sizeLoan({ ...base, monthlyIncome: 30000000, existingMonthlyDebt: 2500000 })
+    const dti = result.constraints.find(constraint => constraint.key === "dti")!
+    expect(result.binding).toBe("dti")
+    expect(dti.detail).toContain("leaves Rp 8.000.000")
+  })
+
+  it("applies a loan product's cap when tighter than the regulation", () => {
+    const result = sizeLoan({ ...base, productMaxLoanToValue: 0.75 })
+    expect(result.maxLoanToValue).toBe(0.75)
+    expect(result.constraints[0].detail).toContain("Loan product allows 75%")
+  })
+
+  it("names the ratio FTV for sharia financing", () => {
+    expect(sizeLoan({ ...base, sharia: true }).constraints[0].label).toBe("FTV cap")
+  })
+
+  it("sizes with the rule set it is given", () => {
+    const rules: LtvRule[] = [{ assetType: "RESIDENTIAL", limits: [0.5, 0.5, 0.5], basis: "Test rules" }]
+    expect(sizeLoan({ ...base, ltvRules: rules }).maxLoanAmount).toBeCloseTo(1000000000, 0)
+  })
+})
+
+describe("resolveLoanAmount", () => {
+  const sizing = sizeLoan({ propertyValue: 1500000000, assetType: "RESIDENTIAL", buildingSize: 90, loan })
+
+  it("lends the maximum when no amount is requested", () => {
+    expect(resolveLoanAmount(undefined, sizing)).toBe(sizing.maxLoanAmount)
+  })
+
+  it("models a requested amount within the cap as asked", () => {
+    expect(resolveLoanAmount(1000000000, sizing)).toBe(1000000000)
+    expect(resolveLoanAmount(Math.round(sizing.maxLoanAmount), sizing)).toBe(Math.round(sizing.maxLoanAmount))
+  })
+
+  it("refuses an amount above the cap with the sizing explanation", () => {
+    expect(() => resolveLoanAmount(1400000000, sizing)).toThrow(LoanSizingError)
+    expect(() => resolveLoanAmount(1400000000, sizing)).toThrow("exceeds the maximum of Rp 1.350.000.000")
+  })
+})
+
+describe("coverageRisk", () => {
+  it("judges LTV against the cap it is given", () => {
+    expect(coverageRisk(1.5, 0.85)).toBe("HIGH")
+    expect(coverageRisk(1.5, 0.85, 0.9)).toBe("MEDIUM")
+    expect(coverageRisk(1.5, 0.5, 0.9)).toBe("LOW")
+  })
+
+  it("flags thin or insufficient coverage", () => {
+    expect(coverageRisk(0.9, 0.5)).toBe("HIGH")
+    expect(coverageRisk(1.1, 0.5)).toBe("MEDIUM")
+  })
+
+  it("carries the sizing cap into the stress tests", () => {
+    const assumptions: ProFormaAssumptions = {
+      propertyValue: 2000000000,
+      grossPotentialRent: 400000000,
+      vacancyRate: 0.05,
+      operatingExpenseRatio: 0.3,
+      loan: { ...loan, principal: 1275000000 }
+    }
+    // A 15% fall takes the LTV to 75%: thin under the default 80% cap, a breach of a 70% one
+    const valueDecline = (maxLoanToValue?: number) =>
+      stressTest(assumptions, maxLoanToValue).find(test => test.key === "valueDecline")!
+    expect(valueDecline().loanToValue).toBeCloseTo(0.75, 10)
+    expect(valueDecline().impact).toBe("MEDIUM")
+    expect(valueDecline(0.7).impact).toBe("HIGH")
+  })
+})
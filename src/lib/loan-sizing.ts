@@ -0,0 +1,220 @@
+import { amortisationSchedule, annualiseSchedule, DEFAULT_LOAN_TO_VALUE, LoanTerms } from "@/lib/finance"
+
+// Regulatory loan-to-value (FTV for sharia financing) limits and the three-way loan sizing used by lenders:
+// the smallest of the LTV cap, the amount the property's income can service and the amount the borrower can afford
+
+export const BORROWER_TYPES = ["INDIVIDUAL", "CORPORATE"] as const
+
+export type BorrowerType = typeof BORROWER_TYPES[number]
+
+// 1 for the borrower's first property loan, 2 for the second, 3 for the third and any later facility
+export type FacilityNumber = 1 | 2 | 3
+
+export const DEFAULT_DSCR_TARGET = 1.25
+export const DEFAULT_MAX_DEBT_TO_INCOME = 0.35 // share of gross monthly income, including existing instalments
+
+export interface LtvRule {
+  assetType: string
+  borrowerType?: BorrowerType // any borrower when omitted
+  buildingSizeAbove?: number // m²; properties of unknown size take this stricter band
+  limits: [number, number, number] // first, second, third and later facility
+  basis: string
+}
+
+// First match wins, so size bands are listed strictest first. Bank Indonesia sets no cap on first facilities
+// (PBI 20/8/2018); 90% is the house policy there and for every type the regulation does not cover.
+// Used until a rule version is published through /api/admin/ltv-rules.
+export const DEFAULT_LTV_RULES: LtvRule[] = [
+  {
+    assetType: "RESIDENTIAL",
+    borrowerType: "INDIVIDUAL",
+    buildingSizeAbove: 70,
+    limits: [0.9, 0.8, 0.75],
+    basis: "PBI 20/8/2018, landed house or apartment above 70 m²"
+  },
+  {
+    assetType: "RESIDENTIAL",
+    borrowerType: "INDIVIDUAL",
+    limits: [0.9, 0.85, 0.8],
+    basis: "PBI 20/8/2018, landed house or apartment up to 70 m²"
+  },
+  {
+    assetType: "MIXED_USE",
+    borrowerType: "INDIVIDUAL",
+    limits: [0.9, 0.8, 0.75],
+    basis: "PBI 20/8/2018, shophouse or office house (ruko/rukan)"
+  },
+  {
+    assetType: "RESIDENTIAL",
+    borrowerType: "CORPORATE",
+    limits: [0.8, 0.75, 0.7],
+    basis: "House policy for corporate residential lending"
+  },
+  {
+    assetType: "MIXED_USE",
+    borrowerType: "CORPORATE",
+    limits: [0.8, 0.75, 0.7],
+    basis: "House policy for corporate mixed-use lending"
+  },
+  {
+    assetType: "COMMERCIAL",
+    limits: [0.7, 0.65, 0.6],
+    basis: "House policy for commercial property"
+  },
+  {
+    assetType: "INDUSTRIAL",
+    limits: [0.7, 0.65, 0.6],
+    basis: "House policy for industrial property"
+  },
+  {
+    assetType: "LAND_ONLY",
+    limits: [0.5, 0.5, 0.5],
+    basis: "House policy for vacant land"
+  },
+  {
+    assetType: "AGRICULTURAL",
+    limits: [0.5, 0.5, 0.5],
+    basis: "House policy for agricultural land"
+  }
+]
+
+export interface LtvLimit {
+  maxLoanToValue: number
+  basis: string
+}
+
+export function findLtvLimit(
+  assetType: string,
+  borrowerType: BorrowerType,
+  facility: FacilityNumber,
+  buildingSize?: number | null,
+  rules: LtvRule[] = DEFAULT_LTV_RULES
+): LtvLimit {
+  const rule = rules.find(candidate =>
+    candidate.assetType === assetType &&
+    (!candidate.borrowerType || candidate.borrowerType === borrowerType) &&
+    (candidate.buildingSizeAbove === undefined || !buildingSize || buildingSize > candidate.buildingSizeAbove)
+  )
+  if (!rule) {
+    return { maxLoanToValue: DEFAULT_LOAN_TO_VALUE, basis: "No rule for this asset type; house default applied" }
+  }
+  return { maxLoanToValue: rule.limits[facility - 1], basis: rule.basis }
+}
+
+export type SizingConstraintKey = "ltv" | "dscr" | "dti"
+
+export interface SizingConstraint {
+  key: SizingConstraintKey
+  label: string
+  maxLoanAmount: number
+  detail: string
+}
+
+export interface LoanSizingInput {
+  propertyValue: number
+  assetType: string
+  borrowerType?: BorrowerType
+  facility?: FacilityNumber
+  buildingSize?: number | null
+  productMaxLoanToValue?: number | null // a loan product's own cap, applied when tighter than the regulation
+  ltvRules?: LtvRule[] // the rules in force; the house defaults when omitted
+  sharia?: boolean
+  loan: Omit<LoanTerms, "principal">
+  netOperatingIncome?: number // annual; without it the DSCR test is skipped
+  dscrTarget?: number
+  monthlyIncome?: number // borrower's gross income; without it the DTI test is skipped
+  existingMonthlyDebt?: number
+  maxDebtToIncome?: number
+}
+
+export interface LoanSizingResult {
+  maxLoanAmount: number
+  maxLoanToValue: number
+  binding: SizingConstraintKey
+  constraints: SizingConstraint[]
+  explanation: string
+}
+
+export class LoanSizingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LoanSizingError"
+  }
+}
+
+const formatIdr = (value: number) => `Rp ${Math.round(value).toLocaleString("id-ID")}`
+const formatRatio = (value: number) => `${(value * 100).toFixed(0)}%`
+
+export function sizeLoan(input: LoanSizingInput): LoanSizingResult {
+  const {
+    propertyValue,
+    borrowerType = "INDIVIDUAL",
+    facility = 1,
+    dscrTarget = DEFAULT_DSCR_TARGET,
+    existingMonthlyDebt = 0,
+    maxDebtToIncome = DEFAULT_MAX_DEBT_TO_INCOME
+  } = input
+  const ratioName = input.sharia ? "FTV" : "LTV"
+
+  // Payments scale with the principal, so one unit of loan gives the worst instalment across every rate reset
+  const unitSchedule = amortisationSchedule({ ...input.loan, principal: 1 })
+  const unitMonthly = Math.max(0, ...unitSchedule.map(row => row.payment))
+  const unitAnnual = Math.max(0, ...annualiseSchedule(unitSchedule).map(year => year.payment))
+
+  const limit = findLtvLimit(input.assetType, borrowerType, facility, input.buildingSize, input.ltvRules)
+  const productTighter = input.productMaxLoanToValue != null && input.productMaxLoanToValue < limit.maxLoanToValue
+  const maxLoanToValue = productTighter ? input.productMaxLoanToValue as number : limit.maxLoanToValue
+
+  const constraints: SizingConstraint[] = [{
+    key: "ltv",
+    label: `${ratioName} cap`,
+    maxLoanAmount: propertyValue * maxLoanToValue,
+    detail: productTighter
+      ? `Loan product allows ${formatRatio(maxLoanToValue)} ${ratioName}, below the ${formatRatio(limit.maxLoanToValue)} regulatory limit (${limit.basis})`
+      : `${formatRatio(maxLoanToValue)} ${ratioName} for facility ${facility === 3 ? "3+" : facility} (${limit.basis})`
+  }]
+
+  if (input.netOperatingIncome !== undefined && unitAnnual > 0) {
+    const maxDebtService = Math.max(input.netOperatingIncome, 0) / dscrTarget
+    constraints.push({
+      key: "dscr",
+      label: "Debt service coverage",
+      maxLoanAmount: maxDebtService / unitAnnual,
+      detail: `Net operating income of ${formatIdr(input.netOperatingIncome)} covers annual debt service of up to ${formatIdr(maxDebtService)} at ${dscrTarget.toFixed(2)}x`
+    })
+  }
+
+  if (input.monthlyIncome !== undefined && unitMonthly > 0) {
+    const maxInstalment = Math.max(input.monthlyIncome * maxDebtToIncome - existingMonthlyDebt, 0)
+    constraints.push({
+      key: "dti",
+      label: "Debt-to-income",
+      maxLoanAmount: maxInstalment / unitMonthly,
+      detail: `${formatRatio(maxDebtToIncome)} of ${formatIdr(input.monthlyIncome)} monthly income${existingMonthlyDebt > 0 ? ` less ${formatIdr(existingMonthlyDebt)} existing instalments` : ""} leaves ${formatIdr(maxInstalment)} for this loan`
+    })
+  }
+
+  const binding = constraints.reduce((lowest, constraint) => constraint.maxLoanAmount < lowest.maxLoanAmount ? constraint : lowest)
+  const others = constraints.filter(constraint => constraint !== binding)
+
+  return {
+    maxLoanAmount: binding.maxLoanAmount,
+    maxLoanToValue,
+    binding: binding.key,
+    constraints,
+    explanation: `${binding.label} is the binding constraint at ${formatIdr(binding.maxLoanAmount)}: ${binding.detail}.` +
+      (others.length > 0
+        ? ` ${others.map(constraint => `${constraint.label} alone would allow ${formatIdr(constraint.maxLoanAmount)}`).join("; ")}.`
+        : "")
+  }
+}
+
+// A requested amount is modelled as asked only within what the lender could advance, compared to the rupiah; without
+// one the loan is the maximum
+export function resolveLoanAmount(requested: number | undefined, sizing: LoanSizingResult): number {
+  if (requested === undefined) return sizing.maxLoanAmount
+  if (Math.round(requested) > Math.round(sizing.maxLoanAmount)) {
+    throw new LoanSizingError(`The requested loan of ${formatIdr(requested)} exceeds the maximum of ${formatIdr(sizing.maxLoanAmount)}. ${sizing.explanation}`)
+  }
+  return requested
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest"
+import { DEFAULT_LTV_RULES } from "@/lib/loan-sizing"
+import { ltvRuleVersionSchema } from "@/lib/ltv-rules"
+
+// Validation never reaches the database
+vi.mock("@/lib/db", () => ({ db: {} }))
+
+describe("ltvRuleVersionSchema", () => {
+  const version = { version: "PBI 20/8/2018", effectiveFrom: "2018-08-01", rules: DEFAULT_LTV_RULES }
+
+  it("accepts the house defaults the seed publishes", () => {
+    const parsed = ltvRuleVersionSchema.parse(version)
+    expect(parsed.rules).toHaveLength(DEFAULT_LTV_RULES.length)
+    expect(parsed.effectiveFrom).toEqual(new Date("2018-08-01"))
+  })
+
+  it("rejects caps above 100% and rule sets without three facility limits", () => {
+    const rule = { assetType: "RESIDENTIAL", limits: [0.9, 0.8, 0.75], basis: "Test" }
+    expect(ltvRuleVersionSchema.safeParse({ ...version, rules: [{ ...rule, limits: [1.1, 0.8, 0.75] }] }).success).toBe(false)
+    expect(ltvRuleVersionSchema.safeParse({ ...version, rules: [{ ...rule, limits: [0.9, 0.8] }] }).success).toBe(false)
+    expect(ltvRuleVersionSchema.safeParse({ ...version, rules: [] }).success).toBe(false)
+  })
+
+  it("rejects unknown asset and borrower types", () => {
+    const rule = { assetType: "RESIDENTIAL", limits: [0.9, 0.8, 0.75], basis: "Test" }
+    expect(ltvRuleVersionSchema.safeParse({ ...version, rules: [{ ...rule, assetType: "CASTLE" }] }).success).toBe(false)
+    expect(ltvRuleVersionSchema.safeParse({ ...version, rules: [{ ...rule, borrowerType: "TRUST" }] }).success).toBe(false)
+  })
+})
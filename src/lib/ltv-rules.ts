@@ -0,0 +1,46 @@
+import { AssetType } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { BORROWER_TYPES, DEFAULT_LTV_RULES, LtvRule } from "@/lib/loan-sizing"
+
+const ratio = z.number().positive().max(1)
+
+export const ltvRuleSchema = z.object({
+  assetType: z.enum(AssetType),
+  borrowerType: z.enum(BORROWER_TYPES).optional(),
+  buildingSizeAbove: z.number().positive().optional(),
+  limits: z.tuple([ratio, ratio, ratio]),
+  basis: z.string().trim().min(1).max(200)
+})
+
+export const ltvRuleVersionSchema = z.object({
+  version: z.string().trim().min(1).max(50),
+  regulation: z.string().trim().max(200).optional(),
+  effectiveFrom: z.coerce.date(),
+  rules: z.array(ltvRuleSchema).min(1)
+})
+
+export type LtvRuleVersionInput = z.infer<typeof ltvRuleVersionSchema>
+
+export interface LtvRules {
+  version: string
+  rules: LtvRule[]
+}
+
+// The newest version in force replaces the whole rule list, so a type it leaves out takes the house default cap
+export async function findLtvRules(asOf = new Date()): Promise<LtvRules> {
+  const current = await db.ltvRuleVersion.findFirst({
+    where: { effectiveFrom: { lte: asOf } },
+    orderBy: { effectiveFrom: "desc" }
+  })
+
+  if (!current) return { version: "house-default", rules: DEFAULT_LTV_RULES }
+
+  return { version: current.version, rules: JSON.parse(current.rules) }
+}
+
+export async function publishLtvRuleVersion(input: LtvRuleVersionInput) {
+  return db.ltvRuleVersion.create({
+    data: { ...input, rules: JSON.stringify(input.rules) }
+  })
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { findPriceIndexEntry } from "@/lib/price-index"
+
+// The entry query is stubbed with what the database would return for the asset type and date
+vi.mock("@/lib/db", () => ({
+  db: { priceIndexEntry: { findMany: vi.fn() } }
+}))
+
+const stored = vi.mocked(db.priceIndexEntry.findMany)
+
+const version = (id: string, effectiveFrom: string) => ({
+  id,
+  version: id,
+  effectiveFrom: new Date(effectiveFrom),
+  createdAt: new Date(effectiveFrom)
+})
+
+const baseline = version("baseline", "2020-01-01")
+const q3 = version("2025-Q3", "2025-07-01")
+
+const entry = (
+  indexVersion: ReturnType<typeof version>,
+  location: { province: string; city?: string; district?: string },
+  pricePerSqm: number
+) => ({
+  id: `${indexVersion.id}-${location.district || location.city || location.province}`,
+  city: null,
+  district: null,
+  ...location,
+  assetType: "RESIDENTIAL",
+  pricePerSqm,
+  effectiveFrom: indexVersion.effectiveFrom,
+  effectiveTo: null,
+  versionId: indexVersion.id,
+  version: indexVersion
+})
+
+const menteng = { assetType: "RESIDENTIAL", province: "DKI Jakarta", city: "Jakarta", district: "Menteng" }
+
+describe("findPriceIndexEntry", () => {
+  beforeEach(() => {
+    stored.mockReset()
+  })
+
+  it("asks only for entries and versions in force on the date", async () => {
+    stored.mockResolvedValue([])
+    const asOf = new Date("2024-06-30")
+    await findPriceIndexEntry({ ...menteng, asOf })
+    expect(stored.mock.calls[0][0]!.where).toMatchObject({
+      effectiveFrom: { lte: asOf },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: asOf } }],
+      version: { effectiveFrom: { lte: asOf } }
+    })
+  })
+
+  it("prefers the most specific entry of a version", async () => {
+    stored.mockResolvedValue([
+      entry(baseline, { province: "DKI Jakarta" }, 12000000),
+      entry(baseline, { province: "DKI Jakarta", city: "Jakarta" }, 15000000),
+      entry(baseline, { province: "DKI Jakarta", city: "Jakarta", district: "Menteng" }, 22500000),
+      entry(baseline, { province: "DKI Jakarta", city: "Jakarta", district: "Kemayoran" }, 18000000)
+    ] as never)
+
+    expect(await findPriceIndexEntry(menteng)).toMatchObject({ matchLevel: "DISTRICT", pricePerSqm: 22500000, version: "baseline" })
+    expect(await findPriceIndexEntry({ ...menteng, district: "Tebet" })).toMatchObject({ matchLevel: "CITY", pricePerSqm: 15000000 })
+    expect(await findPriceIndexEntry({ ...menteng, city: "Kepulauan Seribu" })).toMatchObject({ matchLevel: "PROVINCE", pricePerSqm: 12000000 })
+  })
+
+  it("lets a newer version supersede an older one that was never closed", async () => {
+    stored.mockResolvedValue([
+      entry(baseline, { province: "DKI Jakarta", city: "Jakarta", district: "Menteng" }, 22500000),
+      entry(q3, { province: "DKI Jakarta", city: "Jakarta" }, 27000000)
+    ] as never)
+
+    expect(await findPriceIndexEntry(menteng)).toMatchObject({ versionId: "2025-Q3", matchLevel: "CITY", pricePerSqm: 27000000 })
+  })
+
+  it("keeps an older version where the newer one does not cover the location", async () => {
+    stored.mockResolvedValue([
+      entry(baseline, { province: "Jawa Timur", city: "Surabaya" }, 8000000),
+      entry(q3, { province: "DKI Jakarta", city: "Jakarta" }, 27000000)
+    ] as never)
+
+    expect(await findPriceIndexEntry({ assetType: "RESIDENTIAL", province: "Jawa Timur", city: "Surabaya", district: "Gubeng" }))
+      .toMatchObject({ versionId: "baseline", pricePerSqm: 8000000 })
+  })
+
+  it("matches provinces with or without their administrative prefix", async () => {
+    stored.mockResolvedValue([
+      entry(baseline, { province: "DKI Jakarta", city: "Jakarta" }, 15000000),
+      entry(baseline, { province: "DI Yogyakarta", city: "Sleman" }, 6000000)
+    ] as never)
+
+    expect(await findPriceIndexEntry({ ...menteng, province: "Jakarta" })).toMatchObject({ pricePerSqm: 15000000 })
+    expect(await findPriceIndexEntry({ ...menteng, province: "  daerah khusus ibukota  jakarta " })).toMatchObject({ pricePerSqm: 15000000 })
+    expect(await findPriceIndexEntry({ assetType: "RESIDENTIAL", province: "Daerah Istimewa Yogyakarta", city: "Sleman", district: "Depok" }))
+      .toMatchObject({ matchLevel: "CITY", pricePerSqm: 6000000 })
+  })
+
+  it("falls back to the national default when nothing covers the location", async () => {
+    stored.mockResolvedValue([entry(baseline, { province: "Jawa Barat", city: "Bandung" }, 6000000)] as never)
+    expect(await findPriceIndexEntry({ assetType: "COMMERCIAL", province: "Bali", city: "Denpasar", district: "Sanur" }))
+      .toEqual({ version: "national-default", matchLevel: "NATIONAL_DEFAULT", pricePerSqm: 13000000 })
+  })
+})
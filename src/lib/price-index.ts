@@ -0,0 +1,144 @@
+import { z } from "zod"
+import { AssetType } from "@prisma/client"
+import { db } from "@/lib/db"
+
+export type PriceIndexMatchLevel = "DISTRICT" | "CITY" | "PROVINCE" | "NATIONAL_DEFAULT"
+
+export interface PriceIndexCitation {
+  versionId?: string
+  version: string
+  matchLevel: PriceIndexMatchLevel
+  pricePerSqm: number
+  effectiveFrom?: Date
+}
+
+export interface PriceIndexQuery {
+  assetType: string
+  province: string
+  city: string
+  district: string
+  asOf?: Date
+}
+
+export const priceIndexEntrySchema = z.object({
+  province: z.string().trim().min(1),
+  city: z.string().trim().min(1).optional(),
+  district: z.string().trim().min(1).optional(),
+  assetType: z.enum(AssetType),
+  pricePerSqm: z.number().positive(),
+  effectiveFrom: z.coerce.date().optional(),
+  effectiveTo: z.coerce.date().optional()
+})
+
+export const priceIndexVersionSchema = z.object({
+  version: z.string().trim().min(1),
+  source: z.string().optional(),
+  notes: z.string().optional(),
+  effectiveFrom: z.coerce.date(),
+  entries: z.array(priceIndexEntrySchema).min(1)
+})
+
+export type PriceIndexVersionInput = z.infer<typeof priceIndexVersionSchema>
+
+// Used only when no index version covers the requested asset type at all
+const NATIONAL_DEFAULT_PRICE_PER_SQM: Record<string, number> = {
+  RESIDENTIAL: 7000000,
+  COMMERCIAL: 13000000,
+  INDUSTRIAL: 4500000,
+  MIXED_USE: 10000000,
+  LAND_ONLY: 5000000,
+  AGRICULTURAL: 1300000
+}
+
+const normalize = (value?: string | null) => (value || "").trim().toLowerCase().replace(/\s+/g, " ")
+
+// Provinces are written with or without their administrative prefix ("DKI Jakarta" vs "Jakarta",
+// "Daerah Istimewa Yogyakarta" vs "DI Yogyakarta"), so compare the bare names
+const PROVINCE_PREFIX = /^(provinsi|prov\.?|daerah khusus ibukota|daerah istimewa|dki|di)\s+/
+
+const normalizeProvince = (value?: string | null) => normalize(value).replace(PROVINCE_PREFIX, "")
+
+export async function findPriceIndexEntry(query: PriceIndexQuery): Promise<PriceIndexCitation> {
+  const asOf = query.asOf || new Date()
+
+  const entries = await db.priceIndexEntry.findMany({
+    where: {
+      assetType: query.assetType as AssetType,
+      effectiveFrom: { lte: asOf },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: asOf } }],
+      version: { effectiveFrom: { lte: asOf } }
+    },
+    include: { version: true }
+  })
+
+  const candidates = entries
+    .filter(entry => normalizeProvince(entry.province) === normalizeProvince(query.province))
+    .map(entry => {
+      if (entry.district) {
+        const matches = normalize(entry.city) === normalize(query.city) && normalize(entry.district) === normalize(query.district)
+        return { entry, matchLevel: matches ? "DISTRICT" as const : null }
+      }
+      if (entry.city) {
+        return { entry, matchLevel: normalize(entry.city) === normalize(query.city) ? "CITY" as const : null }
+      }
+      return { entry, matchLevel: "PROVINCE" as const }
+    })
+    .filter(candidate => candidate.matchLevel !== null)
+
+  // Versions are published whole and never amended, so the latest one covering the location supersedes the
+  // earlier ones even where their entries were left open-ended or were more specific
+  const specificity = { DISTRICT: 3, CITY: 2, PROVINCE: 1 }
+  candidates.sort((a, b) =>
+    b.entry.version.effectiveFrom.getTime() - a.entry.version.effectiveFrom.getTime() ||
+    b.entry.version.createdAt.getTime() - a.entry.version.createdAt.getTime() ||
+    specificity[b.matchLevel!] - specificity[a.matchLevel!] ||
+    b.entry.effectiveFrom.getTime() - a.entry.effectiveFrom.getTime()
+  )
+
+  const best = candidates[0]
+  if (!best) {
+    return {
+      version: "national-default",
+      matchLevel: "NATIONAL_DEFAULT",
+      pricePerSqm: NATIONAL_DEFAULT_PRICE_PER_SQM[query.assetType] || NATIONAL_DEFAULT_PRICE_PER_SQM.RESIDENTIAL
+    }
+  }
+
+  return {
+    versionId: best.entry.versionId,
+    version: best.entry.version.version,
+    matchLevel: best.matchLevel!,
+    pricePerSqm: best.entry.pricePerSqm,
+    effectiveFrom: best.entry.effectiveFrom
+  }
+}
+
+export function describePriceIndexCitation(citation: PriceIndexCitation): string {
+  if (citation.matchLevel === "NATIONAL_DEFAULT") {
+    return "No market price index entry covers this location; national default price used"
+  }
+  return `Base price from market price index ${citation.version} (${citation.matchLevel.toLowerCase()} level match)`
+}
+
+export async function loadPriceIndexVersion(input: PriceIndexVersionInput) {
+  return db.priceIndexVersion.create({
+    data: {
+      version: input.version,
+      source: input.source,
+      notes: input.notes,
+      effectiveFrom: input.effectiveFrom,
+      entries: {
+        create: input.entries.map(entry => ({
+          province: entry.province,
+          city: entry.city,
+          district: entry.district,
+          assetType: entry.assetType,
+          pricePerSqm: entry.pricePerSqm,
+          effectiveFrom: entry.effectiveFrom || input.effectiveFrom,
+          effectiveTo: entry.effectiveTo
+        }))
+      }
+    },
+    include: { _count: { select: { entries: true } } }
+  })
+}
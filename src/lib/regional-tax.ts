@@ -0,0 +1,38 @@
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { DEFAULT_REGIONAL_TAX_RATES, RegionalTaxRates } from "@/lib/transaction-costs"
+
+export const regionalTaxRateSchema = z.object({
+  province: z.string().trim().min(1),
+  city: z.string().trim().min(1).optional(),
+  npoptkp: z.number().nonnegative(),
+  njoptkp: z.number().nonnegative(),
+  pbbRate: z.number().positive().max(0.005).optional(), // UU 1/2022 caps PBB-P2 at 0.5%
+  regulation: z.string().trim().max(200).optional(),
+  effectiveFrom: z.coerce.date()
+})
+
+export type RegionalTaxRateInput = z.infer<typeof regionalTaxRateSchema>
+
+const normalize = (value?: string | null) => (value || "").trim().toLowerCase()
+
+// A city's own rates win over its province's; the newest effective record wins within a level
+export async function findRegionalTaxRates(province: string, city?: string | null, asOf = new Date()): Promise<RegionalTaxRates> {
+  const rates = await db.regionalTaxRate.findMany({
+    where: { effectiveFrom: { lte: asOf } },
+    orderBy: { effectiveFrom: "desc" }
+  })
+
+  const inProvince = rates.filter(rate => normalize(rate.province) === normalize(province))
+  const match = inProvince.find(rate => rate.city && normalize(rate.city) === normalize(city))
+    || inProvince.find(rate => !rate.city)
+
+  if (!match) return DEFAULT_REGIONAL_TAX_RATES
+
+  return {
+    npoptkp: match.npoptkp,
+    njoptkp: match.njoptkp,
+    pbbRate: match.pbbRate,
+    source: match.regulation || `${match.city || match.province} rates from ${match.effectiveFrom.toISOString().slice(0, 10)}`
+  }
+}
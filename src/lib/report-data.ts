@@ -0,0 +1,129 @@
+import type { ApproachReconciliation } from "@/lib/valuation-approaches"
+
+// Shared by the report generator UI and the server-side renderers
+
+export type ReportType = "VALUATION_REPORT" | "LEGAL_COMPLIANCE" | "FINANCIAL_ANALYSIS" | "COMPREHENSIVE_ANALYSIS"
+
+export type ReportFormat = "PDF" | "XLSX" | "GOOGLE_SHEETS" | "MARKDOWN" | "JSON"
+
+// Formats rendered and stored by /api/reports; the rest are exported in the browser
+export const SERVER_REPORT_FORMATS: ReportFormat[] = ["PDF", "XLSX"]
+
+export const REPORT_SECTIONS = ["overview", "valuation", "legal", "financial", "recommendations"] as const
+
+export type ReportSection = typeof REPORT_SECTIONS[number]
+
+export interface ReportData {
+  property: {
+    address: string
+    district: string
+    city: string
+    landSize: number
+    buildingSize?: number
+    assetType: string
+    ownershipStatus: string
+    certificateNumber?: string
+    zoning?: string
+    landUse?: string
+    monthlyRent?: number
+    vacancyRate?: number
+    operatingExpenseRatio?: number
+  }
+  valuation: {
+    id?: string
+    estimatedValue: number
+    valuePerSqm: number
+    confidenceScore: number
+    valuationMethod: string
+    valuationDate: string
+    status?: string
+    marketTrends: {
+      trend: string
+      description: string
+      factors: string[]
+    }
+    comparableAnalysis: Array<{
+      address: string
+      district: string
+      city: string
+      landSize: number
+      assetType: string
+      transactionPrice?: number
+      pricePerSqm?: number
+      similarityScore: number
+    }>
+    riskFactors: {
+      overallRisk: string
+      factors: string[]
+      mitigation: string[]
+    }
+    strategicValue: {
+      highestBestUse: string
+      upsidePotential: string
+      recommendations: string[]
+    }
+    approaches?: ApproachReconciliation
+  }
+  legalCheck?: {
+    ownershipVerified: boolean
+    certificateValid: boolean
+    zoningCompliant: boolean
+    landUsePermitted: boolean
+    complianceScore: number
+    riskFlags: string[]
+    verificationDate: string
+  }
+  financialModel?: {
+    loanToValue: number
+    debtServiceCoverage: number
+    estimatedRoi: number
+    cashFlow: number
+    capRate: number
+    recommendedLoanAmount: number
+    scenarioAnalysis?: Array<{
+      name: string
+      description: string
+      roi: number
+      cashFlow: number
+      probability: number
+    }>
+    riskAssessment: {
+      overallRisk: string
+      factors: string[]
+      mitigation: string[]
+    }
+  }
+}
+
+// Starting inputs for the workbook's debt model; analysts can change them in Excel
+export interface FinancingAssumptions {
+  loanAmount?: number
+  interestRate?: number // annual, in percent
+  loanTerm?: number // in years
+}
+
+export interface ReportConfig {
+  title: string
+  type: ReportType
+  format: ReportFormat
+  includeSections: string[]
+  customNotes?: string
+  recipientEmail?: string
+  financing?: FinancingAssumptions
+  locale?: "id" | "en"
+  templateId?: string
+}
+
+export interface GeneratedReport {
+  id: string
+  title: string
+  type: ReportType
+  format: ReportFormat
+  generatedAt: string
+  downloadUrl: string | null
+  fileSize: number | null
+  config?: ReportConfig & { valuationId: string }
+  property?: { id: string; address: string; district: string; city: string } | null
+  valuation?: { id: string; status: string; valuationDate: string } | null
+  generatedBy?: string
+}
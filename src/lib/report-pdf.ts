@@ -0,0 +1,321 @@
+import PDFDocument from "pdfkit"
+import { readFileSync } from "fs"
+import path from "path"
+import { ReportConfig, ReportData } from "@/lib/report-data"
+import { buildReportDocument, ReportBlock, ReportDocument, ReportTemplateDefinition } from "@/lib/report-template"
+
+type Doc = PDFKit.PDFDocument
+
+interface TableColumn {
+  header: string
+  width: number
+  align?: "left" | "right" | "center"
+}
+
+type ChartBar = Extract<ReportBlock, { kind: "chart" }>["bars"][number]
+
+export interface ReportPdfOptions {
+  reportId: string
+  generatedAt: Date
+  template: ReportTemplateDefinition
+}
+
+const COLORS = {
+  brand: "#1e3a8a",
+  accent: "#3b82f6",
+  highlight: "#10b981",
+  negative: "#dc2626",
+  text: "#111827",
+  muted: "#6b7280",
+  border: "#e5e7eb",
+  fill: "#f3f4f6"
+}
+
+const MARGIN = 50
+// Space reserved under the content area for the running footer
+const FOOTER_HEIGHT = 30
+
+const contentWidth = (doc: Doc) => doc.page.width - doc.page.margins.left - doc.page.margins.right
+
+const ensureSpace = (doc: Doc, height: number) => {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom - FOOTER_HEIGHT) {
+    doc.addPage()
+  }
+}
+
+function sectionHeading(doc: Doc, title: string) {
+  ensureSpace(doc, 60)
+  doc.moveDown(0.5)
+  doc.font("Helvetica-Bold").fontSize(16).fillColor(COLORS.brand).text(title, MARGIN)
+  const y = doc.y + 2
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(1).strokeColor(COLORS.accent).stroke()
+  doc.moveDown(0.6)
+}
+
+function subHeading(doc: Doc, title: string) {
+  ensureSpace(doc, 40)
+  doc.moveDown(0.4)
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(COLORS.text).text(title, MARGIN)
+  doc.moveDown(0.3)
+}
+
+function paragraph(doc: Doc, text: string) {
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.text).text(text, MARGIN, doc.y, { width: contentWidth(doc) })
+  doc.moveDown(0.4)
+}
+
+function keyValues(doc: Doc, rows: Array<[string, string]>) {
+  const labelWidth = 170
+  const valueWidth = contentWidth(doc) - labelWidth
+  doc.fontSize(10)
+  rows.forEach(([label, value]) => {
+    const height = Math.max(doc.heightOfString(value, { width: valueWidth }), 12) + 4
+    ensureSpace(doc, height)
+    const y = doc.y
+    doc.font("Helvetica").fillColor(COLORS.muted).text(label, MARGIN, y, { width: labelWidth })
+    doc.font("Helvetica").fillColor(COLORS.text).text(value, MARGIN + labelWidth, y, { width: valueWidth })
+    doc.y = y + height
+  })
+  doc.x = MARGIN
+  doc.moveDown(0.3)
+}
+
+function bulletList(doc: Doc, items: string[], emptyText: string) {
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.text)
+  if (items.length === 0 && emptyText) {
+    doc.fillColor(COLORS.muted).text(emptyText, MARGIN + 10)
+  }
+  items.forEach(item => {
+    ensureSpace(doc, doc.heightOfString(item, { width: contentWidth(doc) - 12 }) + 4)
+    const y = doc.y
+    doc.fillColor(COLORS.accent).text("•", MARGIN, y)
+    doc.fillColor(COLORS.text).text(item, MARGIN + 12, y, { width: contentWidth(doc) - 12 })
+  })
+  doc.x = MARGIN
+  doc.moveDown(0.4)
+}
+
+// Paginates by row and repeats the header on each new page
+function table(doc: Doc, columns: TableColumn[], rows: string[][]) {
+  const padding = 4
+  const drawHeader = () => {
+    const y = doc.y
+    doc.rect(MARGIN, y, contentWidth(doc), 18).fill(COLORS.brand)
+    let x = MARGIN
+    doc.font("Helvetica-Bold").fontSize(9).fillColor("#ffffff")
+    columns.forEach(column => {
+      doc.text(column.header, x + padding, y + 5, { width: column.width - padding * 2, align: column.align || "left" })
+      x += column.width
+    })
+    doc.y = y + 18
+  }
+
+  ensureSpace(doc, 40)
+  drawHeader()
+  doc.font("Helvetica").fontSize(9)
+  rows.forEach((row, rowIndex) => {
+    const height = Math.max(...row.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - padding * 2 }))) + padding * 2
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom - FOOTER_HEIGHT) {
+      doc.addPage()
+      drawHeader()
+      doc.font("Helvetica").fontSize(9)
+    }
+    const y = doc.y
+    if (rowIndex % 2 === 1) {
+      doc.rect(MARGIN, y, contentWidth(doc), height).fill(COLORS.fill)
+    }
+    let x = MARGIN
+    doc.fillColor(COLORS.text)
+    row.forEach((cell, i) => {
+      doc.text(cell, x + padding, y + padding, { width: columns[i].width - padding * 2, align: columns[i].align || "left" })
+      x += columns[i].width
+    })
+    doc.y = y + height
+  })
+  doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + contentWidth(doc), doc.y).lineWidth(0.5).strokeColor(COLORS.border).stroke()
+  doc.x = MARGIN
+  doc.moveDown(0.6)
+}
+
+// Horizontal bars scaled to the largest magnitude; negatives are drawn in red
+function barChart(doc: Doc, title: string, bars: ChartBar[]) {
+  if (bars.length === 0) return
+
+  const labelWidth = 150
+  const valueWidth = 110
+  const barHeight = 14
+  const gap = 6
+  const trackWidth = contentWidth(doc) - labelWidth - valueWidth
+  const max = Math.max(...bars.map(bar => Math.abs(bar.value)), 1)
+
+  ensureSpace(doc, 30 + bars.length * (barHeight + gap))
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(COLORS.text).text(title, MARGIN)
+  doc.moveDown(0.4)
+
+  bars.forEach(bar => {
+    const y = doc.y
+    const width = Math.max((Math.abs(bar.value) / max) * trackWidth, 1)
+    const color = bar.value < 0 ? COLORS.negative : bar.highlight ? COLORS.highlight : COLORS.accent
+    doc.font("Helvetica").fontSize(8).fillColor(COLORS.text)
+      .text(bar.label, MARGIN, y + 3, { width: labelWidth - 6, height: barHeight, ellipsis: true })
+    doc.rect(MARGIN + labelWidth, y, trackWidth, barHeight).fill(COLORS.fill)
+    doc.rect(MARGIN + labelWidth, y, width, barHeight).fill(color)
+    doc.fillColor(COLORS.text).text(bar.display, MARGIN + labelWidth + trackWidth + 6, y + 3, { width: valueWidth - 6 })
+    doc.y = y + barHeight + gap
+  })
+  doc.x = MARGIN
+  doc.moveDown(0.6)
+}
+
+// Logos come from a data: URL or a file under public/; anything else is skipped rather than fetched
+function loadLogo(logoUrl?: string | null): Buffer | null {
+  if (!logoUrl) return null
+  try {
+    const dataUrl = logoUrl.match(/^data:image\/(?:png|jpeg|jpg);base64,(.+)$/)
+    if (dataUrl) return Buffer.from(dataUrl[1], "base64")
+    if (logoUrl.startsWith("/") && /\.(png|jpe?g)$/i.test(logoUrl)) {
+      const publicDir = path.join(process.cwd(), "public")
+      const file = path.join(publicDir, logoUrl)
+      if (file.startsWith(publicDir + path.sep)) return readFileSync(file)
+    }
+  } catch (error) {
+    console.error("Failed to load report logo:", error)
+  }
+  return null
+}
+
+function coverPage(doc: Doc, report: ReportDocument) {
+  const width = doc.page.width
+  doc.rect(0, 0, width, 280).fill(COLORS.brand)
+
+  const logo = loadLogo(report.logoUrl)
+  let logoDrawn = false
+  if (logo) {
+    try {
+      doc.image(logo, width - MARGIN - 120, 60, { fit: [120, 60], align: "right" })
+      logoDrawn = true
+    } catch (error) {
+      console.error("Failed to draw report logo:", error)
+    }
+  }
+
+  const titleWidth = width - MARGIN * 2 - (logoDrawn ? 130 : 0)
+  doc.font("Helvetica-Bold").fontSize(28).fillColor("#ffffff").text(report.labels.brand, MARGIN, 80, { width: titleWidth })
+  doc.font("Helvetica").fontSize(12).fillColor("#dbeafe").text(report.labels.brandTagline, MARGIN, 116, { width: titleWidth })
+  doc.font("Helvetica-Bold").fontSize(20).fillColor("#ffffff")
+    .text(report.title, MARGIN, 180, { width: width - MARGIN * 2 })
+
+  doc.y = 320
+  keyValues(doc, report.cover.rows)
+
+  doc.moveDown(1)
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(COLORS.muted).text(report.cover.valueLabel, MARGIN)
+  doc.font("Helvetica-Bold").fontSize(26).fillColor(COLORS.brand).text(report.cover.value, MARGIN)
+  doc.moveDown(1)
+  paragraph(doc, report.intro)
+
+  doc.font("Helvetica").fontSize(9).fillColor(COLORS.muted)
+    .text(report.labels.confidentialNotice, MARGIN, doc.page.height - MARGIN - 40, { width: width - MARGIN * 2, align: "center" })
+}
+
+function renderBlock(doc: Doc, block: ReportBlock) {
+  switch (block.kind) {
+    case "heading":
+      subHeading(doc, block.text)
+      break
+    case "paragraph":
+      paragraph(doc, block.text)
+      break
+    case "fields":
+      keyValues(doc, block.rows)
+      break
+    case "list":
+      bulletList(doc, block.items, block.emptyText)
+      break
+    case "table": {
+      // Column weights are spread across the printable width
+      const totalWeight = block.columns.reduce((sum, column) => sum + column.weight, 0)
+      const columns = block.columns.map(column => ({
+        header: column.header,
+        width: (column.weight / totalWeight) * contentWidth(doc),
+        align: column.align
+      }))
+      table(doc, columns, block.rows)
+      break
+    }
+    case "chart":
+      barChart(doc, block.title, block.bars)
+      break
+  }
+}
+
+function disclaimer(doc: Doc, text: string) {
+  doc.font("Helvetica").fontSize(8)
+  ensureSpace(doc, doc.heightOfString(text, { width: contentWidth(doc) }) + 30)
+  doc.moveDown(1)
+  const y = doc.y
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(0.5).strokeColor(COLORS.border).stroke()
+  doc.fillColor(COLORS.muted).text(text, MARGIN, y + 8, { width: contentWidth(doc) })
+}
+
+// Running header and "Page x of y" footer, drawn once every page exists
+function decoratePages(doc: Doc, report: ReportDocument) {
+  const range = doc.bufferedPageRange()
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i)
+    // Writing inside the margins would otherwise trigger an automatic page break
+    const bottomMargin = doc.page.margins.bottom
+    doc.page.margins.bottom = 0
+
+    const width = doc.page.width - MARGIN * 2
+    if (i > range.start) {
+      doc.font("Helvetica-Bold").fontSize(8).fillColor(COLORS.brand).text(report.labels.brand, MARGIN, 25, { width, lineBreak: false })
+      doc.font("Helvetica").fontSize(8).fillColor(COLORS.muted).text(report.title, MARGIN, 25, { width, align: "right", lineBreak: false, ellipsis: true })
+      doc.moveTo(MARGIN, 38).lineTo(MARGIN + width, 38).lineWidth(0.5).strokeColor(COLORS.border).stroke()
+    }
+    doc.font("Helvetica").fontSize(8).fillColor(COLORS.muted)
+      .text(report.labels.page(i - range.start + 1, range.count), MARGIN, doc.page.height - 35, { width, align: "right", lineBreak: false })
+    doc.text(report.labels.confidential, MARGIN, doc.page.height - 35, { width, lineBreak: false })
+
+    doc.page.margins.bottom = bottomMargin
+  }
+}
+
+export function renderReportPdf(data: ReportData, config: ReportConfig, options: ReportPdfOptions): Promise<Buffer> {
+  const report = buildReportDocument(data, config, options.template, options)
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: MARGIN,
+      bufferPages: true,
+      lang: report.locale,
+      info: {
+        Title: report.title,
+        Author: "Taksa Dana",
+        Subject: report.typeLabel,
+        CreationDate: options.generatedAt
+      }
+    })
+
+    const chunks: Buffer[] = []
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+    doc.on("end", () => resolve(Buffer.concat(chunks)))
+    doc.on("error", reject)
+
+    coverPage(doc, report)
+
+    if (report.sections.length > 0) {
+      doc.addPage()
+    }
+    report.sections.forEach(section => {
+      if (section.title) sectionHeading(doc, section.title)
+      section.blocks.forEach(block => renderBlock(doc, block))
+    })
+
+    disclaimer(doc, report.disclaimer)
+
+    decoratePages(doc, report)
+    doc.end()
+  })
+}
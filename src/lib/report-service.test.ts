@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { db } from "@/lib/db"
+import { loadReportSource } from "@/lib/report-service"
+
+// The stored valuation is stubbed; the query shape decides which records a report may draw on
+vi.mock("@/lib/db", () => ({
+  db: { valuation: { findFirst: vi.fn() } }
+}))
+
+const findValuation = vi.mocked(db.valuation.findFirst)
+
+const user = { id: "user-1", role: "VALUER" as const, organizationId: "org-1", platformAdmin: false }
+
+const storedValuation = (financialModels: unknown[]) => ({
+  id: "valuation-2",
+  status: "APPROVED",
+  estimatedValue: 3000000000,
+  valuePerSqm: 15000000,
+  confidenceScore: 0.85,
+  valuationMethod: "COMPARABLE_SALES",
+  valuationDate: new Date("2025-05-01"),
+  marketTrends: null,
+  comparableAnalysis: null,
+  riskFactors: null,
+  strategicValue: null,
+  approachBreakdown: null,
+  financialModels,
+  property: {
+    id: "property-1",
+    address: "Jl. Wijaya I 12",
+    district: "Kebayoran Baru",
+    city: "Jakarta Selatan",
+    landSize: 200,
+    buildingSize: null,
+    assetType: "RESIDENTIAL",
+    ownershipStatus: "CERTIFIED",
+    certificateNumber: null,
+    zoning: null,
+    landUse: null,
+    monthlyRent: null,
+    vacancyRate: null,
+    operatingExpenseRatio: null,
+    legalChecks: []
+  }
+})
+
+describe("loadReportSource", () => {
+  beforeEach(() => {
+    findValuation.mockReset()
+  })
+
+  it("takes the latest financial model built on the reported valuation", async () => {
+    findValuation.mockResolvedValue(storedValuation([{
+      loanToValue: 0.8,
+      debtServiceCoverage: 1.4,
+      estimatedRoi: 0.06,
+      cashFlow: 45000000,
+      capRate: 0.055,
+      recommendedLoanAmount: 2400000000,
+      scenarioAnalysis: null,
+      riskAssessment: null
+    }]) as never)
+
+    const source = await loadReportSource("valuation-2", user)
+    const { include } = findValuation.mock.calls[0][0]!
+    expect(include!.financialModels).toEqual({ orderBy: { createdAt: "desc" }, take: 1 })
+    expect(include!.property).not.toHaveProperty("include.financialModels")
+    expect(source!.data.financialModel).toMatchObject({ loanToValue: 0.8, recommendedLoanAmount: 2400000000 })
+  })
+
+  it("reports no model when none was built on the valuation", async () => {
+    findValuation.mockResolvedValue(storedValuation([]) as never)
+    expect((await loadReportSource("valuation-2", user))!.data.financialModel).toBeUndefined()
+  })
+})
@@ -0,0 +1,135 @@
+import { ReportTemplate, ValuationStatus } from "@prisma/client"
+import { db } from "@/lib/db"
+import { propertyAccessFilter, SessionUser } from "@/lib/auth"
+import { isOpen } from "@/lib/legal-check"
+import { ReportData, ReportType } from "@/lib/report-data"
+import { defaultTemplate, isReportLocale, ReportLocale, ReportTemplateDefinition } from "@/lib/report-template"
+
+export interface ReportSource {
+  valuationId: string
+  propertyId: string
+  status: ValuationStatus
+  data: ReportData
+}
+
+const parseJson = (value: string | null) => value ? JSON.parse(value) : null
+
+// Reports are always rendered from stored records, never from figures posted by the browser
+export async function loadReportSource(valuationId: string, user: SessionUser): Promise<ReportSource | null> {
+  const valuation = await db.valuation.findFirst({
+    where: { id: valuationId, property: propertyAccessFilter(user) },
+    include: {
+      property: {
+        include: {
+          legalChecks: { orderBy: { verificationDate: "desc" }, take: 1, include: { findings: true } }
+        }
+      },
+      // Only a model built on this valuation's figure belongs in its report
+      financialModels: { orderBy: { createdAt: "desc" }, take: 1 }
+    }
+  })
+
+  if (!valuation) return null
+
+  const { property } = valuation
+  const legalCheck = property.legalChecks[0]
+  const financialModel = valuation.financialModels[0]
+
+  return {
+    valuationId: valuation.id,
+    propertyId: property.id,
+    status: valuation.status,
+    data: {
+      property: {
+        address: property.address,
+        district: property.district,
+        city: property.city,
+        landSize: property.landSize,
+        buildingSize: property.buildingSize ?? undefined,
+        assetType: property.assetType,
+        ownershipStatus: property.ownershipStatus,
+        certificateNumber: property.certificateNumber ?? undefined,
+        zoning: property.zoning ?? undefined,
+        landUse: property.landUse ?? undefined,
+        monthlyRent: property.monthlyRent ?? undefined,
+        vacancyRate: property.vacancyRate ?? undefined,
+        operatingExpenseRatio: property.operatingExpenseRatio ?? undefined
+      },
+      valuation: {
+        id: valuation.id,
+        estimatedValue: valuation.estimatedValue,
+        valuePerSqm: valuation.valuePerSqm,
+        confidenceScore: valuation.confidenceScore,
+        valuationMethod: valuation.valuationMethod,
+        valuationDate: valuation.valuationDate.toISOString(),
+        status: valuation.status,
+        marketTrends: parseJson(valuation.marketTrends) || { trend: "STABLE", description: "", factors: [] },
+        comparableAnalysis: parseJson(valuation.comparableAnalysis) || [],
+        riskFactors: parseJson(valuation.riskFactors) || { overallRisk: "MEDIUM", factors: [], mitigation: [] },
+        strategicValue: parseJson(valuation.strategicValue) || { highestBestUse: "", upsidePotential: "", recommendations: [] },
+        approaches: parseJson(valuation.approachBreakdown) ?? undefined
+      },
+      legalCheck: legalCheck && {
+        ownershipVerified: legalCheck.ownershipVerified,
+        certificateValid: legalCheck.certificateValid,
+        zoningCompliant: legalCheck.zoningCompliant,
+        landUsePermitted: legalCheck.landUsePermitted,
+        complianceScore: legalCheck.complianceScore,
+        riskFlags: legalCheck.findings.filter(isOpen).map(finding => finding.title),
+        verificationDate: legalCheck.verificationDate.toISOString()
+      },
+      financialModel: financialModel && {
+        loanToValue: financialModel.loanToValue,
+        debtServiceCoverage: financialModel.debtServiceCoverage ?? 0,
+        estimatedRoi: financialModel.estimatedRoi ?? 0,
+        cashFlow: financialModel.cashFlow ?? 0,
+        capRate: financialModel.capRate ?? 0,
+        recommendedLoanAmount: financialModel.recommendedLoanAmount ?? 0,
+        scenarioAnalysis: parseJson(financialModel.scenarioAnalysis) || [],
+        riskAssessment: parseJson(financialModel.riskAssessment) || { overallRisk: "MEDIUM", factors: [], mitigation: [] }
+      }
+    }
+  }
+}
+
+export function toTemplateDefinition(template: ReportTemplate): ReportTemplateDefinition {
+  return {
+    id: template.id,
+    name: template.name,
+    // Templates are only created for the report types the generator offers
+    reportType: template.reportType as ReportType,
+    locale: isReportLocale(template.locale) ? template.locale : "id",
+    sections: JSON.parse(template.sections),
+    logoUrl: template.logoUrl,
+    header: template.header,
+    disclaimer: template.disclaimer
+  }
+}
+
+// Templates visible to a user: their organisation's own plus the shared ones
+export const templateAccessFilter = (user: SessionUser) => ({
+  OR: [{ organizationId: null }, ...(user.organizationId ? [{ organizationId: user.organizationId }] : [])]
+})
+
+// An explicit template wins, then the organisation's default, then the shared default, then the built-in layout.
+// Returns null only when an explicitly requested template is not visible to the user.
+export async function resolveReportTemplate(
+  reportType: ReportType,
+  locale: ReportLocale,
+  user: SessionUser,
+  templateId?: string
+): Promise<ReportTemplateDefinition | null> {
+  if (templateId) {
+    const template = await db.reportTemplate.findFirst({
+      where: { id: templateId, reportType, ...templateAccessFilter(user) }
+    })
+    return template && toTemplateDefinition(template)
+  }
+
+  const defaults = await db.reportTemplate.findMany({
+    where: { reportType, locale, isDefault: true, ...templateAccessFilter(user) }
+  })
+  const template = defaults.find(candidate => candidate.organizationId) || defaults[0]
+
+  return template ? toTemplateDefinition(template) : defaultTemplate(reportType, locale)
+}
@@ -0,0 +1,28 @@
+import { mkdir, readFile, unlink, writeFile } from "fs/promises"
+import path from "path"
+
+// Rendered reports live on local disk; override REPORT_STORAGE_DIR to point at a mounted volume
+const STORAGE_DIR = process.env.REPORT_STORAGE_DIR || path.join(process.cwd(), "storage", "reports")
+
+export const REPORT_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+}
+
+export const reportDownloadUrl = (reportId: string) => `/api/reports/${reportId}/download`
+
+// Stored paths are relative to the storage directory so the volume can move
+export async function saveReportFile(reportId: string, extension: string, content: Buffer): Promise<string> {
+  await mkdir(STORAGE_DIR, { recursive: true })
+  const fileName = `${reportId}.${extension}`
+  await writeFile(path.join(STORAGE_DIR, fileName), content)
+  return fileName
+}
+
+export async function readReportFile(fileName: string): Promise<Buffer> {
+  return await readFile(path.join(STORAGE_DIR, path.basename(fileName)))
+}
+
+export async function deleteReportFile(fileName: string): Promise<void> {
+  await unlink(path.join(STORAGE_DIR, path.basename(fileName))).catch(() => undefined)
+}
@@ -0,0 +1,476 @@
+import { createTranslator } from "next-intl"
+import en from "../../messages/en.json"
+import id from "../../messages/id.json"
+import { REPORT_SECTIONS, ReportConfig, ReportData, ReportSection, ReportType } from "@/lib/report-data"
+
+// Builds a locale-aware, template-ordered report document that the Markdown and PDF renderers both consume
+
+export const REPORT_LOCALES = ["id", "en"] as const
+
+export type ReportLocale = typeof REPORT_LOCALES[number]
+
+const MESSAGES = { en, id }
+
+// Intl tags for number and date formatting; both locales report in Rupiah
+const INTL_LOCALES: Record<ReportLocale, string> = {
+  id: "id-ID",
+  en: "en-ID"
+}
+
+export interface TemplateSection {
+  key: ReportSection | "custom"
+  // Overrides the translated heading; may contain placeholders
+  title?: string
+  // Boilerplate printed before the section body
+  intro?: string
+  // Body of a custom section
+  body?: string
+}
+
+export interface ReportTemplateDefinition {
+  id?: string
+  name: string
+  reportType: ReportType
+  locale: ReportLocale
+  sections: TemplateSection[]
+  logoUrl?: string | null
+  // Replaces the default introduction on the cover
+  header?: string | null
+  // Replaces the default closing disclaimer
+  disclaimer?: string | null
+}
+
+export type ReportBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "fields"; rows: Array<[string, string]> }
+  | { kind: "list"; items: string[]; emptyText: string }
+  | { kind: "table"; columns: Array<{ header: string; weight: number; align?: "left" | "right" }>; rows: string[][] }
+  | { kind: "chart"; title: string; bars: Array<{ label: string; value: number; display: string; highlight?: boolean }> }
+
+export interface ReportDocumentSection {
+  key: string
+  title: string
+  blocks: ReportBlock[]
+}
+
+export interface ReportDocument {
+  locale: ReportLocale
+  title: string
+  typeLabel: string
+  logoUrl?: string | null
+  intro: string
+  cover: {
+    rows: Array<[string, string]>
+    valueLabel: string
+    value: string
+  }
+  sections: ReportDocumentSection[]
+  disclaimer: string
+  labels: {
+    brand: string
+    brandTagline: string
+    confidential: string
+    confidentialNotice: string
+    page: (page: number, total: number) => string
+  }
+}
+
+export interface ReportDocumentOptions {
+  reportId?: string
+  generatedAt: Date
+}
+
+// Section order for the built-in templates, used when no stored template applies
+const DEFAULT_SECTIONS: Record<ReportType, ReportSection[]> = {
+  VALUATION_REPORT: ["overview", "valuation", "recommendations"],
+  LEGAL_COMPLIANCE: ["overview", "legal", "recommendations"],
+  FINANCIAL_ANALYSIS: ["overview", "financial", "recommendations"],
+  COMPREHENSIVE_ANALYSIS: [...REPORT_SECTIONS]
+}
+
+export function defaultTemplate(reportType: ReportType, locale: ReportLocale): ReportTemplateDefinition {
+  return {
+    name: "Taksa Dana",
+    reportType,
+    locale,
+    sections: DEFAULT_SECTIONS[reportType].map(key => ({ key }))
+  }
+}
+
+export const isReportLocale = (value: unknown): value is ReportLocale =>
+  REPORT_LOCALES.includes(value as ReportLocale)
+
+function createFormatters(locale: ReportLocale) {
+  const tag = INTL_LOCALES[locale]
+  return {
+    currency: (value: number) => new Intl.NumberFormat(tag, {
+      style: "currency",
+      currency: "IDR",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(value),
+    number: (value: number) => new Intl.NumberFormat(tag).format(value),
+    percent: (value: number) => `${Math.round(value * 100)}%`,
+    date: (value: string | Date) => new Date(value).toLocaleDateString(tag, {
+      year: "numeric",
+      month: "long",
+      day: "numeric"
+    })
+  }
+}
+
+type Formatters = ReturnType<typeof createFormatters>
+
+const resolvePath = (scope: unknown, path: string) =>
+  path.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], scope)
+
+// {{valuation.estimatedValue|currency}} style placeholders. Unknown paths stay visible so template authors spot typos.
+export function fillPlaceholders(text: string, scope: Record<string, unknown>, format: Formatters): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g, (match, path: string, formatter?: string) => {
+    const value = resolvePath(scope, path)
+    if (value === undefined || value === null) return match
+    switch (formatter) {
+      case "currency": return format.currency(Number(value))
+      case "number": return format.number(Number(value))
+      case "percent": return format.percent(Number(value))
+      case "date": return format.date(String(value))
+      case "upper": return String(value).toUpperCase()
+      default: return String(value)
+    }
+  })
+}
+
+export function buildReportDocument(
+  data: ReportData,
+  config: Pick<ReportConfig, "title" | "type" | "includeSections" | "customNotes">,
+  template: ReportTemplateDefinition,
+  options: ReportDocumentOptions
+): ReportDocument {
+  const locale = template.locale
+  const t = createTranslator({ locale, messages: MESSAGES[locale], namespace: "report" })
+  const format = createFormatters(locale)
+  const { property, valuation, legalCheck, financialModel } = data
+
+  // Enum values such as RESIDENTIAL are translated where a label exists
+  const label = (value: string) => {
+    const key = `enums.${value}` as "enums.RESIDENTIAL"
+    return t.has(key) ? t(key) : value.replace(/_/g, " ")
+  }
+  const yesNo = (passed: boolean) => passed ? t("values.yes") : t("values.no")
+
+  const scope: Record<string, unknown> = {
+    property,
+    valuation,
+    legalCheck,
+    financialModel,
+    report: { id: options.reportId, title: config.title, generatedAt: options.generatedAt.toISOString() }
+  }
+  const fill = (text: string) => fillPlaceholders(text, scope, format)
+
+  const builders: Record<ReportSection, () => ReportBlock[]> = {
+    overview: () => [{
+      kind: "fields",
+      rows: [
+        [t("fields.address"), property.address],
+        [t("fields.districtCity"), `${property.district}, ${property.city}`],
+        [t("fields.landSize"), `${format.number(property.landSize)} m²`],
+        [t("fields.buildingSize"), property.buildingSize ? `${format.number(property.buildingSize)} m²` : t("values.notApplicable")],
+        [t("fields.assetType"), label(property.assetType)],
+        [t("fields.ownershipStatus"), label(property.ownershipStatus)],
+        [t("fields.certificateNumber"), property.certificateNumber || t("values.notProvided")],
+        [t("fields.zoning"), property.zoning || t("values.notSpecified")],
+        [t("fields.landUse"), property.landUse || t("values.notSpecified")]
+      ]
+    }],
+
+    valuation: () => {
+      const blocks: ReportBlock[] = [{
+        kind: "fields",
+        rows: [
+          [t("fields.estimatedValue"), format.currency(valuation.estimatedValue)],
+          [t("fields.valuePerSqm"), format.currency(valuation.valuePerSqm)],
+          [t("fields.confidenceScore"), format.percent(valuation.confidenceScore)],
+          [t("fields.valuationMethod"), label(valuation.valuationMethod)],
+          [t("fields.valuationDate"), format.date(valuation.valuationDate)]
+        ]
+      }]
+
+      if (valuation.approaches && valuation.approaches.indications.length > 1) {
+        const { indications } = valuation.approaches
+        blocks.push(
+          { kind: "heading", text: t("headings.approachReconciliation") },
+          {
+            kind: "table",
+            columns: [
+              { header: t("columns.approach"), weight: 3 },
+              { header: t("columns.indicatedValue"), weight: 2, align: "right" },
+              { header: t("columns.valuePerSqm"), weight: 2, align: "right" },
+              { header: t("columns.weight"), weight: 1, align: "right" }
+            ],
+            rows: indications.map(indication => [
+              label(indication.method),
+              format.currency(indication.value),
+              format.currency(indication.valuePerSqm),
+              format.percent(indication.weight)
+            ])
+          },
+          {
+            kind: "chart",
+            title: t("charts.approachValues"),
+            bars: indications.map(indication => ({
+              label: label(indication.method),
+              value: indication.value,
+              display: format.currency(indication.value)
+            }))
+          }
+        )
+      }
+
+      blocks.push(
+        { kind: "heading", text: t("headings.marketTrends") },
+        {
+          kind: "fields",
+          rows: [
+            [t("fields.trend"), label(valuation.marketTrends.trend)],
+            [t("fields.description"), valuation.marketTrends.description || "—"]
+          ]
+        },
+        { kind: "list", items: valuation.marketTrends.factors, emptyText: t("values.none") },
+        { kind: "heading", text: t("headings.comparables") }
+      )
+
+      if (valuation.comparableAnalysis.length === 0) {
+        blocks.push({ kind: "paragraph", text: t("empty.comparables") })
+      } else {
+        blocks.push(
+          {
+            kind: "table",
+            columns: [
+              { header: t("columns.address"), weight: 3 },
+              { header: t("columns.location"), weight: 2 },
+              { header: t("columns.landSize"), weight: 1.2, align: "right" },
+              { header: t("columns.price"), weight: 1.7, align: "right" },
+              { header: t("columns.pricePerSqm"), weight: 1.4, align: "right" },
+              { header: t("columns.similarity"), weight: 0.8, align: "right" }
+            ],
+            rows: valuation.comparableAnalysis.map(comp => [
+              comp.address,
+              `${comp.district}, ${comp.city}`,
+              format.number(comp.landSize),
+              comp.transactionPrice ? format.currency(comp.transactionPrice) : "—",
+              comp.pricePerSqm ? format.currency(comp.pricePerSqm) : "—",
+              format.percent(comp.similarityScore)
+            ])
+          },
+          {
+            kind: "chart",
+            title: t("charts.pricePerSqm"),
+            bars: [
+              { label: t("charts.subject"), value: valuation.valuePerSqm, display: format.currency(valuation.valuePerSqm), highlight: true },
+              ...valuation.comparableAnalysis
+                .filter(comp => comp.pricePerSqm)
+                .map(comp => ({ label: comp.address, value: comp.pricePerSqm as number, display: format.currency(comp.pricePerSqm as number) }))
+            ]
+          }
+        )
+      }
+
+      blocks.push(
+        { kind: "heading", text: t("headings.riskAssessment") },
+        { kind: "fields", rows: [[t("fields.overallRisk"), label(valuation.riskFactors.overallRisk)]] },
+        { kind: "list", items: valuation.riskFactors.factors, emptyText: t("values.none") },
+        { kind: "heading", text: t("headings.mitigation") },
+        { kind: "list", items: valuation.riskFactors.mitigation, emptyText: t("values.none") },
+        { kind: "heading", text: t("headings.strategicValue") },
+        {
+          kind: "fields",
+          rows: [
+            [t("fields.highestBestUse"), valuation.strategicValue.highestBestUse || "—"],
+            [t("fields.upsidePotential"), valuation.strategicValue.upsidePotential || "—"]
+          ]
+        }
+      )
+      return blocks
+    },
+
+    legal: () => {
+      if (!legalCheck) return [{ kind: "paragraph", text: t("empty.legal") }]
+      return [
+        {
+          kind: "fields",
+          rows: [
+            [t("fields.ownershipVerified"), yesNo(legalCheck.ownershipVerified)],
+            [t("fields.certificateValid"), yesNo(legalCheck.certificateValid)],
+            [t("fields.zoningCompliant"), yesNo(legalCheck.zoningCompliant)],
+            [t("fields.landUsePermitted"), yesNo(legalCheck.landUsePermitted)],
+            [t("fields.complianceScore"), format.percent(legalCheck.complianceScore)],
+            [t("fields.verificationDate"), format.date(legalCheck.verificationDate)]
+          ]
+        },
+        { kind: "heading", text: t("headings.riskFlags") },
+        { kind: "list", items: legalCheck.riskFlags, emptyText: t("values.noRiskFlags") }
+      ]
+    },
+
+    financial: () => {
+      if (!financialModel) return [{ kind: "paragraph", text: t("empty.financial") }]
+      const blocks: ReportBlock[] = [{
+        kind: "table",
+        columns: [
+          { header: t("columns.metric"), weight: 1 },
+          { header: t("columns.value"), weight: 1, align: "right" }
+        ],
+        rows: [
+          [t("fields.loanToValue"), format.percent(financialModel.loanToValue)],
+          [t("fields.debtServiceCoverage"), `${financialModel.debtServiceCoverage.toFixed(2)}x`],
+          [t("fields.estimatedRoi"), format.percent(financialModel.estimatedRoi)],
+          [t("fields.cashFlow"), format.currency(financialModel.cashFlow)],
+          [t("fields.capRate"), format.percent(financialModel.capRate)],
+          [t("fields.recommendedLoanAmount"), format.currency(financialModel.recommendedLoanAmount)]
+        ]
+      }]
+
+      const scenarios = financialModel.scenarioAnalysis || []
+      if (scenarios.length > 0) {
+        blocks.push(
+          { kind: "heading", text: t("headings.scenarioAnalysis") },
+          {
+            kind: "table",
+            columns: [
+              { header: t("columns.scenario"), weight: 2 },
+              { header: t("columns.description"), weight: 3.2 },
+              { header: t("columns.roi"), weight: 1, align: "right" },
+              { header: t("columns.cashFlow"), weight: 1.7, align: "right" },
+              { header: t("columns.probability"), weight: 1, align: "right" }
+            ],
+            rows: scenarios.map(scenario => [
+              scenario.name,
+              scenario.description,
+              format.percent(scenario.roi),
+              format.currency(scenario.cashFlow),
+              format.percent(scenario.probability)
+            ])
+          },
+          {
+            kind: "chart",
+            title: t("charts.scenarioCashFlow"),
+            bars: scenarios.map(scenario => ({ label: scenario.name, value: scenario.cashFlow, display: format.currency(scenario.cashFlow) }))
+          }
+        )
+      }
+
+      blocks.push(
+        { kind: "heading", text: t("headings.riskAssessment") },
+        { kind: "fields", rows: [[t("fields.overallRisk"), label(financialModel.riskAssessment.overallRisk)]] },
+        { kind: "list", items: financialModel.riskAssessment.factors, emptyText: t("values.none") }
+      )
+      return blocks
+    },
+
+    recommendations: () => [
+      { kind: "list", items: valuation.strategicValue.recommendations, emptyText: t("values.noRecommendations") },
+      { kind: "heading", text: t("headings.nextSteps") },
+      { kind: "list", items: [t("nextSteps.review"), t("nextSteps.dueDiligence"), t("nextSteps.planning")], emptyText: "" }
+    ]
+  }
+
+  // Template order wins; the generator's section toggles can only switch built-in sections off
+  const sections: ReportDocumentSection[] = template.sections
+    .filter(section => section.key === "custom" || config.includeSections.includes(section.key))
+    .map(section => {
+      const blocks: ReportBlock[] = []
+      if (section.intro) blocks.push({ kind: "paragraph", text: fill(section.intro) })
+      if (section.key === "custom") {
+        if (section.body) blocks.push({ kind: "paragraph", text: fill(section.body) })
+      } else {
+        blocks.push(...builders[section.key]())
+      }
+      return {
+        key: section.key,
+        title: section.title ? fill(section.title) : section.key === "custom" ? "" : t(`sections.${section.key}`),
+        blocks
+      }
+    })
+
+  if (config.customNotes) {
+    sections.push({ key: "notes", title: t("sections.notes"), blocks: [{ kind: "paragraph", text: config.customNotes }] })
+  }
+
+  return {
+    locale,
+    title: config.title,
+    typeLabel: t(`types.${config.type}`),
+    logoUrl: template.logoUrl,
+    intro: template.header
+      ? fill(template.header)
+      : t("intro", { address: `${property.address}, ${property.city}`, date: format.date(valuation.valuationDate) }),
+    cover: {
+      rows: [
+        [t("cover.property"), `${property.address}, ${property.district}, ${property.city}`],
+        [t("cover.reportType"), t(`types.${config.type}`)],
+        [t("cover.valuationDate"), format.date(valuation.valuationDate)],
+        [t("cover.status"), label(valuation.status || "DRAFT")],
+        [t("cover.generatedOn"), format.date(options.generatedAt)],
+        ...(options.reportId ? [[t("cover.reportId"), options.reportId] as [string, string]] : [])
+      ],
+      valueLabel: t("cover.estimatedValue"),
+      value: format.currency(valuation.estimatedValue)
+    },
+    sections,
+    disclaimer: template.disclaimer ? fill(template.disclaimer) : t("disclaimer"),
+    labels: {
+      brand: t("brand"),
+      brandTagline: t("brandTagline"),
+      confidential: t("confidential"),
+      confidentialNotice: t("confidentialNotice"),
+      page: (page, total) => t("page", { page, total })
+    }
+  }
+}
+
+export function renderReportMarkdown(document: ReportDocument): string {
+  const lines: string[] = []
+
+  if (document.logoUrl) lines.push(`![${document.labels.brand}](${document.logoUrl})`, "")
+  lines.push(`# ${document.title}`, "")
+  document.cover.rows.forEach(([label, value]) => lines.push(`**${label}:** ${value}  `))
+  lines.push(`**${document.cover.valueLabel}:** ${document.cover.value}`, "", document.intro, "", "---", "")
+
+  const escapeCell = (value: string) => value.replace(/\|/g, "\\|")
+
+  document.sections.forEach(section => {
+    if (section.title) lines.push(`## ${section.title}`, "")
+    section.blocks.forEach(block => {
+      switch (block.kind) {
+        case "heading":
+          lines.push(`### ${block.text}`, "")
+          break
+        case "paragraph":
+          lines.push(block.text, "")
+          break
+        case "fields":
+          block.rows.forEach(([label, value]) => lines.push(`- **${label}:** ${value}`))
+          lines.push("")
+          break
+        case "list":
+          if (block.items.length === 0 && block.emptyText) lines.push(`- ${block.emptyText}`)
+          block.items.forEach(item => lines.push(`- ${item}`))
+          lines.push("")
+          break
+        case "table":
+          lines.push(`| ${block.columns.map(column => escapeCell(column.header)).join(" | ")} |`)
+          lines.push(`| ${block.columns.map(column => column.align === "right" ? "---:" : "---").join(" | ")} |`)
+          block.rows.forEach(row => lines.push(`| ${row.map(escapeCell).join(" | ")} |`))
+          lines.push("")
+          break
+        // Charts only exist in the PDF; the table beside them carries the same figures
+        case "chart":
+          break
+      }
+    })
+  })
+
+  lines.push("---", "", `*${document.disclaimer}*`, "", `**${document.labels.confidentialNotice}**`)
+  return lines.join("\n")
+}
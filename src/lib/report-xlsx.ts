@@ -0,0 +1,298 @@
+import ExcelJS from "exceljs"
+import { ReportConfig, ReportData } from "@/lib/report-data"
+import { CAP_RATES } from "@/lib/valuation-approaches"
+import {
+  amortisationSchedule,
+  annualiseSchedule,
+  annuityPayment,
+  DEFAULT_INTEREST_RATE,
+  DEFAULT_LOAN_TERM,
+  DEFAULT_LOAN_TO_VALUE,
+  DEFAULT_OPERATING_EXPENSE_RATIO,
+  DEFAULT_VACANCY_RATE
+} from "@/lib/finance"
+
+export interface ReportWorkbookOptions {
+  reportId: string
+  generatedAt: Date
+}
+
+// The amortisation sheet has this many rows; years past the loan term render blank
+const MAX_SCHEDULE_YEARS = 30
+
+const FORMATS = {
+  currency: '"Rp" #,##0',
+  percent: '0.00%',
+  ratio: '0.00"x"',
+  number: '#,##0'
+}
+
+const INPUT_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFFFF7D6" } }
+const HEADER_FILL: ExcelJS.Fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF1E3A8A" } }
+
+interface Assumption {
+  name: string
+  label: string
+  value: number
+  format: string
+  note: string
+}
+
+const humanize = (value: string) => value.replace(/_/g, ' ')
+
+function styleHeader(row: ExcelJS.Row) {
+  row.eachCell(cell => {
+    cell.font = { bold: true, color: { argb: "FFFFFFFF" } }
+    cell.fill = HEADER_FILL
+  })
+}
+
+function summarySheet(workbook: ExcelJS.Workbook, data: ReportData, config: ReportConfig, options: ReportWorkbookOptions) {
+  const sheet = workbook.addWorksheet("Summary")
+  sheet.columns = [{ width: 32 }, { width: 60 }]
+
+  sheet.addRow([config.title]).font = { bold: true, size: 14 }
+  sheet.addRow([])
+
+  const rows: Array<[string, string | number | Date, string?]> = [
+    ["Report ID", options.reportId],
+    ["Generated On", options.generatedAt],
+    ["Report Type", humanize(config.type)],
+    ["Address", data.property.address],
+    ["District / City", `${data.property.district}, ${data.property.city}`],
+    ["Asset Type", humanize(data.property.assetType)],
+    ["Land Size (m²)", data.property.landSize, FORMATS.number],
+    ["Building Size (m²)", data.property.buildingSize ?? "N/A", FORMATS.number],
+    ["Ownership Status", humanize(data.property.ownershipStatus)],
+    ["Certificate Number", data.property.certificateNumber || "Not provided"],
+    ["Estimated Market Value", data.valuation.estimatedValue, FORMATS.currency],
+    ["Value per m²", data.valuation.valuePerSqm, FORMATS.currency],
+    ["Confidence Score", data.valuation.confidenceScore, FORMATS.percent],
+    ["Valuation Method", humanize(data.valuation.valuationMethod)],
+    ["Valuation Date", new Date(data.valuation.valuationDate)],
+    ["Valuation Status", data.valuation.status || "DRAFT"],
+    ["Overall Risk", data.valuation.riskFactors.overallRisk]
+  ]
+  rows.forEach(([label, value, format]) => {
+    const row = sheet.addRow([label, value])
+    row.getCell(1).font = { bold: true }
+    if (format) row.getCell(2).numFmt = format
+    if (value instanceof Date) row.getCell(2).numFmt = "dd mmm yyyy"
+    row.getCell(2).alignment = { horizontal: "left" }
+  })
+}
+
+function assumptionsSheet(workbook: ExcelJS.Workbook, assumptions: Assumption[]) {
+  const sheet = workbook.addWorksheet("Assumptions")
+  sheet.columns = [{ width: 30 }, { width: 22 }, { width: 60 }]
+  styleHeader(sheet.addRow(["Assumption", "Value", "Notes"]))
+
+  assumptions.forEach(assumption => {
+    const row = sheet.addRow([assumption.label, assumption.value, assumption.note])
+    const cell = row.getCell(2)
+    cell.numFmt = assumption.format
+    cell.fill = INPUT_FILL
+    cell.font = { color: { argb: "FF1D4ED8" } }
+    // Named inputs keep the model's formulas readable, e.g. =PMT(InterestRate/12, LoanTerm*12, -LoanAmount)
+    workbook.definedNames.add(`Assumptions!$B$${row.number}`, assumption.name)
+  })
+
+  sheet.addRow([])
+  sheet.addRow(["Shaded cells are inputs; every figure on the Financial Model and Amortisation sheets recalculates from them."])
+    .getCell(1).font = { italic: true, color: { argb: "FF6B7280" } }
+}
+
+function financialModelSheet(workbook: ExcelJS.Workbook, data: ReportData, inputs: Record<string, number>) {
+  const sheet = workbook.addWorksheet("Financial Model")
+  sheet.columns = [{ width: 34 }, { width: 22 }, { width: 22 }]
+  styleHeader(sheet.addRow(["Metric", "Live Model", "Recorded Model"]))
+
+  // Cached results so viewers that don't recalculate still show numbers
+  const grossRent = inputs.MonthlyRent * 12
+  const vacancyLoss = -grossRent * inputs.VacancyRate
+  const effectiveGrossIncome = grossRent + vacancyLoss
+  const operatingExpenses = -effectiveGrossIncome * inputs.OpexRatio
+  const netOperatingIncome = effectiveGrossIncome + operatingExpenses
+  const monthlyDebtService = annuityPayment(inputs.InterestRate / 12, inputs.LoanTerm * 12, inputs.LoanAmount)
+  const annualDebtService = monthlyDebtService * 12
+  const cashFlow = netOperatingIncome - annualDebtService
+  const equity = inputs.PropertyValue - inputs.LoanAmount
+
+  const recorded = data.financialModel
+  const rows: Array<{ label: string; formula: string; result: number; format: string; recorded?: number }> = [
+    { label: "Gross Potential Rent (annual)", formula: "MonthlyRent*12", result: grossRent, format: FORMATS.currency },
+    { label: "Vacancy Loss", formula: "-B2*VacancyRate", result: vacancyLoss, format: FORMATS.currency },
+    { label: "Effective Gross Income", formula: "B2+B3", result: effectiveGrossIncome, format: FORMATS.currency },
+    { label: "Operating Expenses", formula: "-B4*OpexRatio", result: operatingExpenses, format: FORMATS.currency },
+    { label: "Net Operating Income", formula: "B4+B5", result: netOperatingIncome, format: FORMATS.currency },
+    { label: "Loan Amount", formula: "LoanAmount", result: inputs.LoanAmount, format: FORMATS.currency, recorded: recorded?.recommendedLoanAmount },
+    { label: "Monthly Debt Service", formula: "PMT(InterestRate/12,LoanTerm*12,-LoanAmount)", result: monthlyDebtService, format: FORMATS.currency },
+    { label: "Annual Debt Service", formula: "B8*12", result: annualDebtService, format: FORMATS.currency },
+    { label: "Cash Flow After Debt Service", formula: "B6-B9", result: cashFlow, format: FORMATS.currency, recorded: recorded?.cashFlow },
+    { label: "Debt Service Coverage (DSCR)", formula: "IF(B9=0,0,B6/B9)", result: annualDebtService ? netOperatingIncome / annualDebtService : 0, format: FORMATS.ratio, recorded: recorded?.debtServiceCoverage },
+    { label: "Loan-to-Value (LTV)", formula: "IF(PropertyValue=0,0,LoanAmount/PropertyValue)", result: inputs.PropertyValue ? inputs.LoanAmount / inputs.PropertyValue : 0, format: FORMATS.percent, recorded: recorded?.loanToValue },
+    { label: "Capitalization Rate", formula: "IF(PropertyValue=0,0,B6/PropertyValue)", result: inputs.PropertyValue ? netOperatingIncome / inputs.PropertyValue : 0, format: FORMATS.percent, recorded: recorded?.capRate },
+    { label: "Income Value at Market Yield", formula: "IF(MarketYield=0,0,B6/MarketYield)", result: inputs.MarketYield ? netOperatingIncome / inputs.MarketYield : 0, format: FORMATS.currency },
+    { label: "Equity Required", formula: "PropertyValue-LoanAmount", result: equity, format: FORMATS.currency },
+    { label: "Cash-on-Cash Return", formula: "IF(B15=0,0,B10/B15)", result: equity ? cashFlow / equity : 0, format: FORMATS.percent, recorded: recorded?.estimatedRoi }
+  ]
+
+  rows.forEach(({ label, formula, result, format, recorded: recordedValue }) => {
+    const row = sheet.addRow([label, { formula, result }, recordedValue ?? null])
+    row.getCell(2).numFmt = format
+    row.getCell(3).numFmt = format
+  })
+  sheet.getRow(6).font = { bold: true }
+
+  sheet.addRow([])
+  sheet.addRow([recorded
+    ? "Recorded Model shows the figures stored with the property's latest financial model, for comparison."
+    : "No financial model has been recorded for this property; only the live model is shown."
+  ]).getCell(1).font = { italic: true, color: { argb: "FF6B7280" } }
+}
+
+function amortisationSheet(workbook: ExcelJS.Workbook, inputs: Record<string, number>) {
+  const sheet = workbook.addWorksheet("Amortisation")
+  sheet.columns = [
+    { width: 8 }, { width: 20 }, { width: 20 }, { width: 20 }, { width: 20 }, { width: 20 }, { width: 12 }
+  ]
+  styleHeader(sheet.addRow(["Year", "Opening Balance", "Interest", "Principal", "Debt Service", "Closing Balance", "DSCR"]))
+
+  // Cached results come from the shared finance engine; the formulas recompute them in Excel
+  const debtService = annualiseSchedule(amortisationSchedule({
+    principal: inputs.LoanAmount,
+    annualRate: inputs.InterestRate,
+    years: inputs.LoanTerm
+  }))
+  const netOperatingIncome = inputs.MonthlyRent * 12 * (1 - inputs.VacancyRate) * (1 - inputs.OpexRatio)
+
+  for (let year = 1; year <= Math.max(MAX_SCHEDULE_YEARS, inputs.LoanTerm); year++) {
+    const r = year + 1
+    const loanYear = debtService[year - 1]
+    const active = year <= inputs.LoanTerm && !!loanYear
+
+    // Every cell blanks out past the loan term so changing LoanTerm reshapes the schedule
+    const guard = (formula: string) => `IF($A${r}>LoanTerm,"",${formula})`
+    const periods = `(A${r}-1)*12+1,A${r}*12`
+    const row = sheet.addRow([
+      year,
+      { formula: guard(year === 1 ? "LoanAmount" : `F${r - 1}`), result: active ? loanYear.openingBalance : "" },
+      { formula: guard(`-CUMIPMT(InterestRate/12,LoanTerm*12,LoanAmount,${periods},0)`), result: active ? loanYear.interest : "" },
+      { formula: guard(`-CUMPRINC(InterestRate/12,LoanTerm*12,LoanAmount,${periods},0)`), result: active ? loanYear.principal : "" },
+      { formula: guard(`C${r}+D${r}`), result: active ? loanYear.payment : "" },
+      { formula: guard(`B${r}-D${r}`), result: active ? loanYear.closingBalance : "" },
+      { formula: guard(`IF(E${r}=0,0,'Financial Model'!$B$6/E${r})`), result: active && loanYear.payment ? netOperatingIncome / loanYear.payment : "" }
+    ])
+    for (let column = 2; column <= 6; column++) {
+      row.getCell(column).numFmt = FORMATS.currency
+    }
+    row.getCell(7).numFmt = FORMATS.ratio
+  }
+}
+
+function comparablesSheet(workbook: ExcelJS.Workbook, data: ReportData) {
+  const sheet = workbook.addWorksheet("Comparables")
+  sheet.columns = [
+    { width: 40 }, { width: 18 }, { width: 18 }, { width: 14 }, { width: 16 }, { width: 20 }, { width: 18 }, { width: 12 }, { width: 22 }
+  ]
+  styleHeader(sheet.addRow([
+    "Address", "District", "City", "Land Size (m²)", "Asset Type", "Transaction Price", "Price per m²", "Similarity", "Implied Subject Value"
+  ]))
+
+  const comparables = data.valuation.comparableAnalysis
+  comparables.forEach((comp, index) => {
+    const r = index + 2
+    const row = sheet.addRow([
+      comp.address,
+      comp.district,
+      comp.city,
+      comp.landSize,
+      humanize(comp.assetType),
+      comp.transactionPrice ?? null,
+      comp.pricePerSqm ?? null,
+      comp.similarityScore,
+      { formula: `IF(G${r}="","",G${r}*LandSize)`, result: comp.pricePerSqm ? comp.pricePerSqm * data.property.landSize : "" }
+    ])
+    row.getCell(4).numFmt = FORMATS.number
+    row.getCell(6).numFmt = FORMATS.currency
+    row.getCell(7).numFmt = FORMATS.currency
+    row.getCell(8).numFmt = FORMATS.percent
+    row.getCell(9).numFmt = FORMATS.currency
+  })
+
+  if (comparables.length === 0) {
+    sheet.addRow(["No comparable transactions were used for this valuation."])
+    return
+  }
+
+  const first = 2
+  const last = comparables.length + 1
+  const prices = comparables.map(comp => comp.pricePerSqm).filter((price): price is number => !!price)
+  const weightTotal = comparables.reduce((sum, comp) => sum + (comp.pricePerSqm ? comp.similarityScore : 0), 0)
+  const weighted = weightTotal
+    ? comparables.reduce((sum, comp) => sum + (comp.pricePerSqm || 0) * comp.similarityScore, 0) / weightTotal
+    : 0
+  const sorted = [...prices].sort((a, b) => a - b)
+  const median = sorted.length === 0 ? 0 : sorted.length % 2
+    ? sorted[(sorted.length - 1) / 2]
+    : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+
+  sheet.addRow([])
+  const statistics: Array<[string, string, number]> = [
+    ["Average Price per m²", `IFERROR(AVERAGE(G${first}:G${last}),0)`, prices.length ? prices.reduce((a, b) => a + b, 0) / prices.length : 0],
+    ["Median Price per m²", `IFERROR(MEDIAN(G${first}:G${last}),0)`, median],
+    ["Similarity-Weighted Price per m²", `IFERROR(SUMPRODUCT(G${first}:G${last},H${first}:H${last})/SUMIFS(H${first}:H${last},G${first}:G${last},">0"),0)`, weighted],
+    ["Indicated Subject Value", `G${last + 4}*LandSize`, weighted * data.property.landSize],
+    ["Valuation Value per m²", "ValuePerSqm", data.valuation.valuePerSqm]
+  ]
+  statistics.forEach(([label, formula, result]) => {
+    const row = sheet.addRow([label, null, null, null, null, null, { formula, result }])
+    row.getCell(1).font = { bold: true }
+    row.getCell(7).numFmt = FORMATS.currency
+  })
+}
+
+export async function renderReportWorkbook(data: ReportData, config: ReportConfig, options: ReportWorkbookOptions): Promise<Buffer> {
+  const financing = config.financing || {}
+  const assumptions: Assumption[] = [
+    { name: "PropertyValue", label: "Property Value", value: data.valuation.estimatedValue, format: FORMATS.currency, note: "Approved market value" },
+    { name: "LandSize", label: "Land Size (m²)", value: data.property.landSize, format: FORMATS.number, note: "From the property record" },
+    { name: "ValuePerSqm", label: "Value per m²", value: data.valuation.valuePerSqm, format: FORMATS.currency, note: "Approved value per m² of land" },
+    {
+      name: "LoanAmount",
+      label: "Loan Amount",
+      value: financing.loanAmount ?? data.financialModel?.recommendedLoanAmount ?? Math.round(data.valuation.estimatedValue * DEFAULT_LOAN_TO_VALUE),
+      format: FORMATS.currency,
+      note: financing.loanAmount !== undefined ? "Requested with the export" : data.financialModel ? "Recommended by the latest financial model" : `${DEFAULT_LOAN_TO_VALUE * 100}% of property value`
+    },
+    { name: "InterestRate", label: "Interest Rate (annual)", value: (financing.interestRate ?? DEFAULT_INTEREST_RATE) / 100, format: FORMATS.percent, note: "Fixed rate, monthly compounding" },
+    { name: "LoanTerm", label: "Loan Term (years)", value: financing.loanTerm ?? DEFAULT_LOAN_TERM, format: FORMATS.number, note: `Schedule shows up to ${MAX_SCHEDULE_YEARS} years` },
+    {
+      name: "MonthlyRent",
+      label: "Gross Monthly Rent",
+      value: data.property.monthlyRent ?? 0,
+      format: FORMATS.currency,
+      note: data.property.monthlyRent ? "From the property record" : "No rent recorded; enter the expected rent"
+    },
+    { name: "VacancyRate", label: "Vacancy Rate", value: data.property.vacancyRate ?? DEFAULT_VACANCY_RATE, format: FORMATS.percent, note: "Share of potential rent lost to vacancy" },
+    { name: "OpexRatio", label: "Operating Expense Ratio", value: data.property.operatingExpenseRatio ?? DEFAULT_OPERATING_EXPENSE_RATIO, format: FORMATS.percent, note: "Share of effective gross income" },
+    { name: "MarketYield", label: "Market Yield (Cap Rate)", value: CAP_RATES[data.property.assetType] || CAP_RATES.RESIDENTIAL, format: FORMATS.percent, note: `Market capitalisation rate for ${humanize(data.property.assetType).toLowerCase()}` }
+  ]
+  const inputs = Object.fromEntries(assumptions.map(assumption => [assumption.name, assumption.value]))
+
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = "Taksa Dana"
+  workbook.created = options.generatedAt
+  workbook.title = config.title
+  // Cached results are a convenience; Excel recomputes everything on open
+  workbook.calcProperties.fullCalcOnLoad = true
+
+  summarySheet(workbook, data, config, options)
+  assumptionsSheet(workbook, assumptions)
+  financialModelSheet(workbook, data, inputs)
+  amortisationSheet(workbook, inputs)
+  comparablesSheet(workbook, data)
+
+  // exceljs declares its own Buffer type, which newer @types/node buffers don't satisfy
+  return Buffer.from(await workbook.xlsx.writeBuffer() as ArrayBuffer)
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  analyseHighestBestUse,
+  appraiseScenario,
+  DevelopmentAssumptions,
+  DevelopmentScenario
+} from "@/lib/residual-land-value"
+import { BPHTB_RATE, DEFAULT_NOTARY_RATE, PPH_FINAL_RATE } from "@/lib/transaction-costs"
+import { DEFAULT_ZONES } from "@/lib/zoning"
+
+// Construction costs and cap rates come from the valuation approaches, which never reach the database here
+vi.mock("@/lib/db", () => ({ db: {} }))
+
+const zone = (code: string) => DEFAULT_ZONES.find(rules => rules.code === code)!
+
+const assumptions: DevelopmentAssumptions = {
+  softCostRate: 0.1,
+  disposalCostRate: 0,
+  financeRate: 0.1,
+  constructionMonths: 12,
+  developerMargin: 0.2,
+  vacancyRate: 0,
+  operatingExpenseRatio: 0,
+  demolitionCostPerSqm: 500000
+}
+
+const forSale = (use: DevelopmentScenario["use"], salePricePerSqm: number): DevelopmentScenario => ({
+  use,
+  label: `${use} for sale`,
+  constructionCostPerSqm: 4000000,
+  unitMix: [{ label: "Units", share: 1, efficiency: 0.8, disposal: "SALE", salePricePerSqm }]
+})
+
+describe("appraiseScenario", () => {
+  it("leaves for the land what the scheme earns over its costs and profit", () => {
+    const appraisal = appraiseScenario(forSale("RESIDENTIAL", 10000000), { landSize: 500, grossFloorArea: 1000 }, assumptions)
+    const gdv = 800 * 10000000 * (1 - PPH_FINAL_RATE)
+
+    expect(appraisal.netArea).toBeCloseTo(800, 10)
+    expect(appraisal.grossDevelopmentValue).toBeCloseTo(gdv, 0)
+    expect(appraisal.softCosts).toBeCloseTo(400000000, 0)
+    // Half of the 4.4 billion building cost borrowed for the year of the build
+    expect(appraisal.financeCosts).toBeCloseTo(220000000, 0)
+    expect(appraisal.totalDevelopmentCost).toBeCloseTo(4620000000, 0)
+
+    const landCarry = (1 + BPHTB_RATE + DEFAULT_NOTARY_RATE) * 1.1
+    expect(appraisal.residualLandValue).toBeCloseTo((gdv * 0.8 - 4620000000) / landCarry, 0)
+    expect(appraisal.residualLandValuePerSqm).toBeCloseTo(appraisal.residualLandValue / 500, 0)
+  })
+
+  it("balances once the land's taxes and carry are added back", () => {
+    const appraisal = appraiseScenario(forSale("RESIDENTIAL", 10000000), { landSize: 500, grossFloorArea: 1000 }, assumptions)
+    const outlay = appraisal.residualLandValue + appraisal.landAcquisitionCosts + appraisal.landFinanceCosts
+      + appraisal.totalDevelopmentCost + appraisal.developerProfit
+    expect(outlay).toBeCloseTo(appraisal.grossDevelopmentValue, 0)
+  })
+
+  it("capitalises let space at its cap rate", () => {
+    const offices: DevelopmentScenario = {
+      use: "COMMERCIAL",
+      label: "Offices",
+      constructionCostPerSqm: 6000000,
+      unitMix: [{ label: "Offices", share: 1, efficiency: 0.8, disposal: "RENT", monthlyRentPerSqm: 100000, capRate: 0.08 }]
+    }
+    const appraisal = appraiseScenario(offices, { landSize: 500, grossFloorArea: 1000 }, { ...assumptions, vacancyRate: 0.1 })
+    expect(appraisal.grossDevelopmentValue).toBeCloseTo(800 * 100000 * 12 * 0.9 / 0.08, 0)
+  })
+
+  it("charges for clearing the existing building", () => {
+    const site = { landSize: 500, grossFloorArea: 1000 }
+    const cleared = appraiseScenario(forSale("RESIDENTIAL", 10000000), { ...site, existingBuildingSize: 300 }, assumptions)
+    expect(cleared.demolitionCost).toBe(150000000)
+    expect(cleared.residualLandValue).toBeLessThan(appraiseScenario(forSale("RESIDENTIAL", 10000000), site, assumptions).residualLandValue)
+  })
+
+  it("records whether the zone permits the use", () => {
+    const site = { landSize: 500, grossFloorArea: 1000 }
+    expect(appraiseScenario(forSale("RESIDENTIAL", 1), site, assumptions, zone("R.2"))).toMatchObject({ permitted: true, conditional: false })
+    expect(appraiseScenario(forSale("MIXED_USE", 1), site, assumptions, zone("R.2"))).toMatchObject({ permitted: false, conditional: true })
+    expect(appraiseScenario(forSale("COMMERCIAL", 1), site, assumptions, zone("R.2"))).toMatchObject({ permitted: false, conditional: false })
+  })
+})
+
+describe("analyseHighestBestUse", () => {
+  const input = { zone: zone("R.2"), landSize: 500, maxBuildableGfa: 1000, assumptions }
+
+  it("never recommends a use the zone forbids", () => {
+    const analysis = analyseHighestBestUse({
+      ...input,
+      scenarios: [forSale("COMMERCIAL", 40000000), forSale("RESIDENTIAL", 20000000)]
+    })
+    expect(analysis.scenarios[0].residualLandValue).toBeGreaterThan(analysis.scenarios[1].residualLandValue)
+    expect(analysis.recommended?.use).toBe("RESIDENTIAL")
+  })
+
+  it("recommends a conditional use subject to its permit", () => {
+    const analysis = analyseHighestBestUse({
+      ...input,
+      scenarios: [forSale("MIXED_USE", 30000000), forSale("RESIDENTIAL", 20000000)]
+    })
+    expect(analysis.recommended?.use).toBe("MIXED_USE")
+    expect(analysis.summary).toContain("subject to a use permit")
+  })
+
+  it("keeps the current use when it is worth more than redevelopment", () => {
+    const scenarios = [forSale("RESIDENTIAL", 20000000)]
+    const residual = analyseHighestBestUse({ ...input, scenarios }).recommended!.residualLandValue
+
+    const analysis = analyseHighestBestUse({ ...input, scenarios, asIsValue: residual + 1, assetType: "RESIDENTIAL" })
+    expect(analysis.recommended).toBeNull()
+    expect(analysis.redevelopmentSupported).toBe(false)
+    expect(analysis.summary).toMatch(/^Continued residential use: the as-is value/)
+  })
+
+  it("recommends nothing when no permitted scheme leaves value for the land", () => {
+    const analysis = analyseHighestBestUse({ ...input, scenarios: [forSale("RESIDENTIAL", 1000000)] })
+    expect(analysis.scenarios[0].residualLandValue).toBeLessThan(0)
+    expect(analysis.recommended).toBeNull()
+    expect(analysis.summary).toContain("no use permitted in zone R.2")
+  })
+
+  it("fills unset assumptions from the defaults", () => {
+    const analysis = analyseHighestBestUse({ zone: zone("C.1"), landSize: 1000, maxBuildableGfa: 4000, assumptions: { developerMargin: 0.25 } })
+    expect(analysis.assumptions.developerMargin).toBe(0.25)
+    expect(analysis.assumptions.constructionMonths).toBe(30)
+    expect(analysis.scenarios.map(scenario => scenario.use)).toEqual(["RESIDENTIAL", "COMMERCIAL", "MIXED_USE"])
+  })
+})
@@ -0,0 +1,246 @@
+// Highest and best use by the residual method: what a developer could pay for the land is the value of the finished
+// scheme less everything it costs to build, finance and sell, and the profit it must earn. Each use the zone permits
+// is appraised on the floor area the zone allows, and the use with the highest residual is the recommendation unless
+// the property is worth more as it stands.
+
+import { DEFAULT_INTEREST_RATE, DEFAULT_OPERATING_EXPENSE_RATIO, DEFAULT_VACANCY_RATE } from "@/lib/finance"
+import { BPHTB_RATE, DEFAULT_NOTARY_RATE, PPH_FINAL_RATE } from "@/lib/transaction-costs"
+import { CAP_RATES, CONSTRUCTION_COST_PER_SQM } from "@/lib/valuation-approaches"
+import { ZoneRules } from "@/lib/zoning"
+
+export type DevelopmentUse = "RESIDENTIAL" | "COMMERCIAL" | "MIXED_USE"
+
+export interface UnitMixComponent {
+  label: string
+  share: number // of gross floor area
+  efficiency: number // net saleable or lettable area over gross
+  disposal: "SALE" | "RENT"
+  salePricePerSqm?: number // per net m², before PPN
+  monthlyRentPerSqm?: number // per net m²
+  capRate?: number // defaults to the cap rate of the scenario's use
+}
+
+export interface DevelopmentScenario {
+  use: DevelopmentUse
+  label: string
+  constructionCostPerSqm: number // per m² of gross floor area
+  unitMix: UnitMixComponent[]
+}
+
+export interface DevelopmentAssumptions {
+  softCostRate: number // design, permits (PBG), supervision and contingency, on construction cost
+  disposalCostRate: number // marketing, agency and letting fees, on gross development value
+  financeRate: number // annual interest on development borrowing
+  constructionMonths: number
+  developerMargin: number // profit on gross development value
+  vacancyRate: number
+  operatingExpenseRatio: number
+  demolitionCostPerSqm: number // per m² of existing building cleared
+}
+
+export const DEFAULT_DEVELOPMENT_ASSUMPTIONS: DevelopmentAssumptions = {
+  softCostRate: 0.15,
+  disposalCostRate: 0.03,
+  financeRate: DEFAULT_INTEREST_RATE / 100,
+  constructionMonths: 30,
+  developerMargin: 0.2,
+  vacancyRate: DEFAULT_VACANCY_RATE,
+  operatingExpenseRatio: DEFAULT_OPERATING_EXPENSE_RATIO,
+  demolitionCostPerSqm: 500000
+}
+
+// House market inputs for Jakarta schemes; override them with local evidence through the highest-best-use endpoint
+export const DEFAULT_DEVELOPMENT_SCENARIOS: DevelopmentScenario[] = [
+  {
+    use: "RESIDENTIAL",
+    label: "Residential for sale",
+    constructionCostPerSqm: CONSTRUCTION_COST_PER_SQM.RESIDENTIAL,
+    unitMix: [
+      { label: "Residential units", share: 1, efficiency: 0.8, disposal: "SALE", salePricePerSqm: 30000000 }
+    ]
+  },
+  {
+    use: "COMMERCIAL",
+    label: "Offices to let",
+    constructionCostPerSqm: CONSTRUCTION_COST_PER_SQM.COMMERCIAL,
+    unitMix: [
+      { label: "Offices", share: 0.85, efficiency: 0.8, disposal: "RENT", monthlyRentPerSqm: 200000 },
+      { label: "Ground-floor retail", share: 0.15, efficiency: 0.7, disposal: "RENT", monthlyRentPerSqm: 350000 }
+    ]
+  },
+  {
+    use: "MIXED_USE",
+    label: "Mixed-use: apartments, offices and retail",
+    constructionCostPerSqm: CONSTRUCTION_COST_PER_SQM.MIXED_USE,
+    unitMix: [
+      { label: "Apartments", share: 0.6, efficiency: 0.75, disposal: "SALE", salePricePerSqm: 30000000 },
+      { label: "Offices", share: 0.25, efficiency: 0.8, disposal: "RENT", monthlyRentPerSqm: 200000 },
+      { label: "Retail podium", share: 0.15, efficiency: 0.7, disposal: "RENT", monthlyRentPerSqm: 350000 }
+    ]
+  }
+]
+
+// The buyer of the land pays BPHTB and the PPAT's fee on top of the price
+const LAND_ACQUISITION_RATE = BPHTB_RATE + DEFAULT_NOTARY_RATE
+
+export interface UnitMixValue {
+  label: string
+  grossFloorArea: number
+  netArea: number
+  value: number
+}
+
+export interface ScenarioAppraisal {
+  use: DevelopmentUse
+  label: string
+  permitted: boolean
+  conditional: boolean // allowed only with a permit
+  grossFloorArea: number
+  netArea: number
+  unitMix: UnitMixValue[]
+  grossDevelopmentValue: number
+  constructionCost: number
+  demolitionCost: number
+  softCosts: number
+  disposalCosts: number
+  financeCosts: number
+  developerProfit: number
+  totalDevelopmentCost: number // everything but the land
+  landAcquisitionCosts: number
+  landFinanceCosts: number
+  residualLandValue: number
+  residualLandValuePerSqm: number
+}
+
+export interface HighestBestUseAnalysis {
+  zoneCode: string
+  landSize: number
+  maxBuildableGfa: number
+  asIsValue: number | null
+  assumptions: DevelopmentAssumptions
+  scenarios: ScenarioAppraisal[]
+  recommended: ScenarioAppraisal | null // null when continued current use is worth more than any redevelopment
+  redevelopmentSupported: boolean
+  summary: string
+}
+
+// Sale prices are quoted before PPN, which passes through to the buyer; the developer bears the final PPh on sales
+function componentValue(component: UnitMixComponent, netArea: number, use: DevelopmentUse, assumptions: DevelopmentAssumptions): number {
+  if (component.disposal === "SALE") {
+    return netArea * (component.salePricePerSqm ?? 0) * (1 - PPH_FINAL_RATE)
+  }
+  const netOperatingIncome = netArea * (component.monthlyRentPerSqm ?? 0) * 12
+    * (1 - assumptions.vacancyRate) * (1 - assumptions.operatingExpenseRatio)
+  return netOperatingIncome / (component.capRate ?? CAP_RATES[use])
+}
+
+export function appraiseScenario(
+  scenario: DevelopmentScenario,
+  site: { landSize: number; grossFloorArea: number; existingBuildingSize?: number | null },
+  assumptions: DevelopmentAssumptions = DEFAULT_DEVELOPMENT_ASSUMPTIONS,
+  zone?: ZoneRules
+): ScenarioAppraisal {
+  const { grossFloorArea } = site
+  const totalShare = scenario.unitMix.reduce((sum, component) => sum + component.share, 0) || 1
+
+  const unitMix = scenario.unitMix.map(component => {
+    const componentGfa = grossFloorArea * component.share / totalShare
+    const netArea = componentGfa * component.efficiency
+    return {
+      label: component.label,
+      grossFloorArea: componentGfa,
+      netArea,
+      value: componentValue(component, netArea, scenario.use, assumptions)
+    }
+  })
+
+  const grossDevelopmentValue = unitMix.reduce((sum, component) => sum + component.value, 0)
+  const constructionCost = grossFloorArea * scenario.constructionCostPerSqm
+  const demolitionCost = (site.existingBuildingSize ?? 0) * assumptions.demolitionCostPerSqm
+  const softCosts = constructionCost * assumptions.softCostRate
+  const disposalCosts = grossDevelopmentValue * assumptions.disposalCostRate
+  const buildYears = assumptions.constructionMonths / 12
+  // Building costs are drawn down over the build, so on average half of them are borrowed for its length
+  const financeCosts = (constructionCost + demolitionCost + softCosts) * assumptions.financeRate * buildYears * 0.5
+  const developerProfit = grossDevelopmentValue * assumptions.developerMargin
+  const totalDevelopmentCost = constructionCost + demolitionCost + softCosts + disposalCosts + financeCosts
+
+  // The land is bought, with its taxes, before the build starts and carried to the end of it
+  const available = grossDevelopmentValue - totalDevelopmentCost - developerProfit
+  const landCarry = (1 + LAND_ACQUISITION_RATE) * (1 + assumptions.financeRate * buildYears)
+  const residualLandValue = available / landCarry
+
+  return {
+    use: scenario.use,
+    label: scenario.label,
+    permitted: zone ? zone.permittedAssetTypes.includes(scenario.use) : true,
+    conditional: zone ? zone.conditionalAssetTypes.includes(scenario.use) : false,
+    grossFloorArea,
+    netArea: unitMix.reduce((sum, component) => sum + component.netArea, 0),
+    unitMix,
+    grossDevelopmentValue,
+    constructionCost,
+    demolitionCost,
+    softCosts,
+    disposalCosts,
+    financeCosts,
+    developerProfit,
+    totalDevelopmentCost,
+    landAcquisitionCosts: residualLandValue * LAND_ACQUISITION_RATE,
+    landFinanceCosts: residualLandValue * (1 + LAND_ACQUISITION_RATE) * assumptions.financeRate * buildYears,
+    residualLandValue,
+    residualLandValuePerSqm: residualLandValue / site.landSize
+  }
+}
+
+const formatRupiah = (value: number) => `Rp ${Math.round(value).toLocaleString("id-ID")}`
+
+export interface HighestBestUseInput {
+  zone: ZoneRules
+  landSize: number
+  maxBuildableGfa: number
+  existingBuildingSize?: number | null
+  asIsValue?: number | null
+  assetType?: string
+  scenarios?: DevelopmentScenario[]
+  assumptions?: Partial<DevelopmentAssumptions>
+}
+
+// Uses the zone forbids are appraised for comparison but never recommended
+export function analyseHighestBestUse(input: HighestBestUseInput): HighestBestUseAnalysis {
+  const assumptions = { ...DEFAULT_DEVELOPMENT_ASSUMPTIONS, ...input.assumptions }
+  const site = { landSize: input.landSize, grossFloorArea: input.maxBuildableGfa, existingBuildingSize: input.existingBuildingSize }
+  const scenarios = (input.scenarios ?? DEFAULT_DEVELOPMENT_SCENARIOS)
+    .map(scenario => appraiseScenario(scenario, site, assumptions, input.zone))
+
+  const [best] = scenarios
+    .filter(scenario => (scenario.permitted || scenario.conditional) && scenario.residualLandValue > 0)
+    .sort((a, b) => b.residualLandValue - a.residualLandValue)
+  const asIsValue = input.asIsValue ?? null
+  const redevelopmentSupported = !!best && (asIsValue === null || best.residualLandValue > asIsValue)
+  const currentUse = input.assetType ? `${input.assetType.replace("_", " ").toLowerCase()} use` : "current use"
+
+  let summary: string
+  if (!best) {
+    summary = `Continued ${currentUse}: no use permitted in zone ${input.zone.code} yields a positive residual land value`
+  } else if (!redevelopmentSupported) {
+    summary = `Continued ${currentUse}: the as-is value of ${formatRupiah(asIsValue!)} exceeds the best redevelopment residual ` +
+      `(${best.label}, ${formatRupiah(best.residualLandValue)})`
+  } else {
+    summary = `${best.label}: residual land value ${formatRupiah(best.residualLandValue)} ` +
+      `(${formatRupiah(best.residualLandValuePerSqm)}/m² of land) on ${Math.round(input.maxBuildableGfa).toLocaleString("id-ID")} m² ` +
+      `of floor area allowed in zone ${input.zone.code}${best.conditional ? ", subject to a use permit" : ""}`
+  }
+
+  return {
+    zoneCode: input.zone.code,
+    landSize: input.landSize,
+    maxBuildableGfa: input.maxBuildableGfa,
+    asIsValue,
+    assumptions,
+    scenarios,
+    recommended: redevelopmentSupported ? best : null,
+    redevelopmentSupported,
+    summary
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import {
+  acquisitionCosts,
+  annualPropertyTax,
+  dispositionCosts,
+  pbbRate,
+  RegionalTaxRates,
+  sellingCostRate,
+  totalCost
+} from "@/lib/transaction-costs"
+
+const jakarta: RegionalTaxRates = { npoptkp: 80000000, njoptkp: 15000000, source: "Perda DKI Jakarta 1/2024" }
+
+const amountOf = (items: Array<{ key: string; amount: number }>, key: string) => items.find(item => item.key === key)?.amount
+
+describe("acquisitionCosts", () => {
+  it("charges BPHTB on the value above NPOPTKP", () => {
+    const items = acquisitionCosts({ price: 1000000000 })
+    expect(amountOf(items, "bphtb")).toBe(46000000)
+  })
+
+  it("assesses BPHTB on NJOP when it exceeds the price", () => {
+    const items = acquisitionCosts({ price: 1000000000, njop: 1200000000 })
+    expect(amountOf(items, "bphtb")).toBe(56000000)
+  })
+
+  it("uses the region's NPOPTKP", () => {
+    const items = acquisitionCosts({ price: 1000000000, regional: { ...jakarta, npoptkp: 300000000 } })
+    expect(amountOf(items, "bphtb")).toBe(35000000)
+  })
+
+  it("adds PPN only on a new build", () => {
+    expect(amountOf(acquisitionCosts({ price: 1000000000 }), "ppn")).toBeUndefined()
+    expect(amountOf(acquisitionCosts({ price: 1000000000, newBuild: true }), "ppn")).toBeCloseTo(110000000, 2)
+  })
+
+  it("itemises notary and land office fees on the price", () => {
+    const items = acquisitionCosts({ price: 1000000000 })
+    expect(amountOf(items, "notary")).toBe(10000000)
+    expect(amountOf(items, "landOffice")).toBe(1050000)
+    expect(totalCost(items)).toBe(57050000)
+  })
+})
+
+describe("dispositionCosts", () => {
+  it("charges the seller PPh final and agent commission", () => {
+    const items = dispositionCosts({ price: 2000000000 })
+    expect(amountOf(items, "pphFinal")).toBe(50000000)
+    expect(amountOf(items, "agent")).toBe(50000000)
+  })
+
+  it("applies the reduced PPh rate to simple houses", () => {
+    expect(amountOf(dispositionCosts({ price: 300000000, simpleHouse: true }), "pphFinal")).toBe(3000000)
+  })
+})
+
+describe("PBB", () => {
+  it("takes the band the NJOP falls in", () => {
+    expect(pbbRate(100000000)).toBe(0.0001)
+    expect(pbbRate(1000000000)).toBe(0.001)
+    expect(pbbRate(5000000000)).toBe(0.002)
+    expect(pbbRate(20000000000)).toBe(0.003)
+  })
+
+  it("prefers a region's single tariff", () => {
+    expect(pbbRate(20000000000, { ...jakarta, pbbRate: 0.0025 })).toBe(0.0025)
+  })
+
+  it("charges the annual tax on NJOP above NJOPTKP", () => {
+    const tax = annualPropertyTax({ price: 2000000000, njop: 1500000000, regional: jakarta })
+    expect(tax.amount).toBeCloseTo((1500000000 - 15000000) * 0.001, 2)
+    expect(tax.basis).not.toContain("NJOP unknown")
+  })
+
+  it("falls back to the price when NJOP is unknown", () => {
+    expect(annualPropertyTax({ price: 1000000000 }).basis).toContain("NJOP unknown")
+  })
+})
+
+describe("sellingCostRate", () => {
+  it("expresses disposition costs as a share of the sale price", () => {
+    expect(sellingCostRate({})).toBeCloseTo(0.05, 10)
+    expect(sellingCostRate({ agentRate: 0.02, simpleHouse: true })).toBeCloseTo(0.03, 10)
+  })
+})
@@ -0,0 +1,156 @@
+// Indonesian taxes and fees on buying, holding and selling property. Pure, like the finance engine,
+// so the UI and /api/financial-model itemise the same costs.
+
+// Floors set by UU 1/2022 (HKPD); regions may set higher thresholds through their own regulations
+export const DEFAULT_NPOPTKP = 80000000
+export const DEFAULT_NJOPTKP = 10000000
+
+export const BPHTB_RATE = 0.05
+export const PPN_RATE = 0.11 // effective rate on property since 2025: 12% on a base of 11/12 of the price
+export const PPH_FINAL_RATE = 0.025 // PP 34/2016
+export const PPH_FINAL_SIMPLE_HOUSE_RATE = 0.01 // simple houses and flats sold by their developer
+export const DEFAULT_NOTARY_RATE = 0.01 // PPAT fees are capped at 1% of the transaction value (PP 24/2016)
+export const DEFAULT_AGENT_RATE = 0.025
+
+// PBB-P2 bands of Perda DKI Jakarta 16/2011, applied to the whole taxable NJOP when a region has not
+// recorded a single rate
+export const PBB_TARIFF_BANDS: Array<{ njopBelow: number; rate: number }> = [
+  { njopBelow: 200000000, rate: 0.0001 },
+  { njopBelow: 2000000000, rate: 0.001 },
+  { njopBelow: 10000000000, rate: 0.002 },
+  { njopBelow: Infinity, rate: 0.003 }
+]
+
+export interface RegionalTaxRates {
+  npoptkp: number
+  njoptkp: number
+  pbbRate?: number | null
+  source: string
+}
+
+export const DEFAULT_REGIONAL_TAX_RATES: RegionalTaxRates = {
+  npoptkp: DEFAULT_NPOPTKP,
+  njoptkp: DEFAULT_NJOPTKP,
+  source: "UU 1/2022 minimum thresholds"
+}
+
+export type CostStage = "ACQUISITION" | "HOLDING" | "DISPOSITION"
+
+export interface CostItem {
+  key: string
+  stage: CostStage
+  label: string
+  payer: "BUYER" | "SELLER" | "OWNER"
+  basis: string
+  amount: number
+}
+
+export interface TransactionCostInputs {
+  price: number // agreed transaction value, before PPN
+  njop?: number | null // from the latest SPPT PBB; the price stands in when unknown
+  regional?: RegionalTaxRates
+  newBuild?: boolean // bought from a VAT-registered developer
+  simpleHouse?: boolean
+  notaryRate?: number
+  agentRate?: number // seller's agent on disposition
+}
+
+const formatIdr = (value: number) => `Rp ${Math.round(value).toLocaleString("id-ID")}`
+const formatRate = (value: number) => `${+(value * 100).toFixed(3)}%`
+
+// BPHTB and PPh are assessed on the higher of the agreed price and NJOP
+const taxableValue = (inputs: TransactionCostInputs) => Math.max(inputs.price, inputs.njop ?? 0)
+
+export function acquisitionCosts(inputs: TransactionCostInputs): CostItem[] {
+  const { price, regional = DEFAULT_REGIONAL_TAX_RATES, notaryRate = DEFAULT_NOTARY_RATE } = inputs
+  const npop = taxableValue(inputs)
+  const items: CostItem[] = [
+    {
+      key: "bphtb",
+      stage: "ACQUISITION",
+      label: "BPHTB",
+      payer: "BUYER",
+      basis: `${formatRate(BPHTB_RATE)} of ${formatIdr(npop)} less NPOPTKP of ${formatIdr(regional.npoptkp)} (${regional.source})`,
+      amount: Math.max(npop - regional.npoptkp, 0) * BPHTB_RATE
+    }
+  ]
+  if (inputs.newBuild) {
+    items.push({
+      key: "ppn",
+      stage: "ACQUISITION",
+      label: "PPN",
+      payer: "BUYER",
+      basis: `${formatRate(PPN_RATE)} of the developer's price`,
+      amount: price * PPN_RATE
+    })
+  }
+  items.push(
+    {
+      key: "notary",
+      stage: "ACQUISITION",
+      label: "Notary and PPAT fees",
+      payer: "BUYER",
+      basis: `${formatRate(notaryRate)} of the transaction value`,
+      amount: price * notaryRate
+    },
+    {
+      // PNBP for registering the transfer: one per mille of the value plus Rp 50,000 (PP 128/2015)
+      key: "landOffice",
+      stage: "ACQUISITION",
+      label: "Land office registration",
+      payer: "BUYER",
+      basis: "0.1% of the transaction value plus Rp 50.000",
+      amount: price / 1000 + 50000
+    }
+  )
+  return items
+}
+
+export function dispositionCosts(inputs: TransactionCostInputs): CostItem[] {
+  const { price, agentRate = DEFAULT_AGENT_RATE } = inputs
+  const pphRate = inputs.simpleHouse ? PPH_FINAL_SIMPLE_HOUSE_RATE : PPH_FINAL_RATE
+  return [
+    {
+      key: "pphFinal",
+      stage: "DISPOSITION",
+      label: "PPh final",
+      payer: "SELLER",
+      basis: `${formatRate(pphRate)} of ${formatIdr(taxableValue(inputs))}`,
+      amount: taxableValue(inputs) * pphRate
+    },
+    {
+      key: "agent",
+      stage: "DISPOSITION",
+      label: "Agent commission",
+      payer: "SELLER",
+      basis: `${formatRate(agentRate)} of the sale price`,
+      amount: price * agentRate
+    }
+  ]
+}
+
+export function pbbRate(njop: number, regional: RegionalTaxRates = DEFAULT_REGIONAL_TAX_RATES): number {
+  return regional.pbbRate ?? PBB_TARIFF_BANDS.find(band => njop < band.njopBelow)!.rate
+}
+
+export function annualPropertyTax(inputs: TransactionCostInputs): CostItem {
+  const { regional = DEFAULT_REGIONAL_TAX_RATES } = inputs
+  const njop = inputs.njop ?? inputs.price
+  const rate = pbbRate(njop, regional)
+  return {
+    key: "pbb",
+    stage: "HOLDING",
+    label: "PBB (annual)",
+    payer: "OWNER",
+    basis: `${formatRate(rate)} of NJOP ${formatIdr(njop)}${inputs.njop ? "" : " (market value, NJOP unknown)"} less NJOPTKP of ${formatIdr(regional.njoptkp)}`,
+    amount: Math.max(njop - regional.njoptkp, 0) * rate
+  }
+}
+
+export const totalCost = (items: CostItem[]) => items.reduce((sum, item) => sum + item.amount, 0)
+
+// Disposition costs as a share of the sale price, for ProFormaAssumptions.sellingCosts. PPh on an NJOP above
+// the price cannot be expressed as a share, so the sale is assumed to clear at or above NJOP.
+export function sellingCostRate(inputs: Omit<TransactionCostInputs, "price" | "njop">): number {
+  return totalCost(dispositionCosts({ ...inputs, price: 1, njop: null }))
+}
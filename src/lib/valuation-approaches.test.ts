@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { findPriceIndexEntry } from "@/lib/price-index"
+import { ApproachSubject, costApproach, incomeApproach, reconcileApproaches } from "@/lib/valuation-approaches"
+
+// The land price behind the cost approach comes from the price index, stubbed at a flat rate
+vi.mock("@/lib/price-index", () => ({ findPriceIndexEntry: vi.fn() }))
+
+const landIndex = vi.mocked(findPriceIndexEntry)
+
+const warehouse: ApproachSubject = {
+  district: "Rungkut",
+  city: "Surabaya",
+  province: "Jawa Timur",
+  landSize: 2000,
+  buildingSize: 1200,
+  assetType: "INDUSTRIAL",
+  yearBuilt: new Date().getFullYear() - 12,
+  condition: "GOOD"
+}
+
+const offices: ApproachSubject = {
+  district: "Setiabudi",
+  city: "Jakarta",
+  province: "DKI Jakarta",
+  landSize: 800,
+  buildingSize: 2400,
+  assetType: "COMMERCIAL",
+  yearBuilt: new Date().getFullYear() - 5,
+  condition: "EXCELLENT",
+  monthlyRent: 100000000,
+  vacancyRate: 0.1,
+  operatingExpenseRatio: 0.25
+}
+
+describe("incomeApproach", () => {
+  it("averages direct capitalisation with a ten-year DCF", () => {
+    const indication = incomeApproach(offices)!
+    const noi = 100000000 * 12 * 0.9 * 0.75
+    expect(indication.details.netOperatingIncome).toBeCloseTo(noi, 0)
+    expect(indication.details.directCapitalizationValue).toBeCloseTo(noi / 0.075, 0)
+
+    // A growing annuity discounted at the cap rate plus growth, then a reversion at a 50bp wider exit yield
+    const growth = 1.04 / 1.115
+    const dcf = noi / 0.075 * (1 - Math.pow(growth, 10)) + noi * Math.pow(1.04, 10) / 0.08 * 0.98 / Math.pow(1.115, 10)
+    expect(indication.details.dcfValue).toBeCloseTo(dcf, 0)
+    expect(indication.value).toBeCloseTo((noi / 0.075 + dcf) / 2, 0)
+  })
+
+  it("assumes market vacancy and expenses when the record has none", () => {
+    const indication = incomeApproach({ ...offices, vacancyRate: undefined, operatingExpenseRatio: undefined })!
+    expect(indication.details.netOperatingIncome).toBeCloseTo(100000000 * 12 * 0.95 * 0.7, 0)
+  })
+
+  it("needs a rent", () => {
+    expect(incomeApproach({ ...offices, monthlyRent: undefined })).toBeNull()
+  })
+})
+
+describe("costApproach", () => {
+  beforeEach(() => {
+    landIndex.mockReset().mockResolvedValue({ version: "2025-Q3", matchLevel: "CITY", pricePerSqm: 6000000 })
+  })
+
+  it("adds the depreciated building to the land", async () => {
+    const indication = (await costApproach(warehouse))!
+    expect(landIndex).toHaveBeenCalledWith(expect.objectContaining({ assetType: "LAND_ONLY", city: "Surabaya" }))
+
+    // Twelve years in good condition count as 10.2 of a 30-year life
+    expect(indication.details.depreciationRate).toBeCloseTo(0.34, 10)
+    expect(indication.details.landValue).toBe(12000000000)
+    expect(indication.details.depreciatedImprovements).toBeCloseTo(1200 * 4500000 * 0.66, 0)
+    expect(indication.value).toBeCloseTo(12000000000 + 1200 * 4500000 * 0.66, 0)
+  })
+
+  it("never writes the building down below its salvage share", async () => {
+    const indication = (await costApproach({ ...warehouse, yearBuilt: 1965, condition: "POOR" }))!
+    expect(indication.details.depreciationRate).toBe(0.9)
+  })
+
+  it("needs a building with a construction cost", async () => {
+    expect(await costApproach({ ...warehouse, buildingSize: undefined })).toBeNull()
+    expect(await costApproach({ ...warehouse, assetType: "LAND_ONLY" })).toBeNull()
+    expect(landIndex).not.toHaveBeenCalled()
+  })
+})
+
+describe("reconcileApproaches", () => {
+  beforeEach(() => {
+    landIndex.mockReset().mockResolvedValue({ version: "2025-Q3", matchLevel: "DISTRICT", pricePerSqm: 30000000 })
+  })
+
+  it("weights the approaches by asset type", async () => {
+    const { indications, method } = await reconcileApproaches(offices, 40000000000)
+    expect(method).toBe("HYBRID")
+    expect(Object.fromEntries(indications.map(indication => [indication.method, indication.weight]))).toEqual({
+      COMPARABLE_SALES: expect.closeTo(0.3, 10),
+      INCOME_APPROACH: expect.closeTo(0.5, 10),
+      COST_APPROACH: expect.closeTo(0.2, 10)
+    })
+  })
+
+  it("renormalises over the approaches the record allows", async () => {
+    const house = { ...offices, assetType: "RESIDENTIAL", monthlyRent: undefined }
+    const { indications, reconciledValue } = await reconcileApproaches(house, 30000000000)
+    expect(indications.map(indication => [indication.method, indication.weight])).toEqual([
+      ["COMPARABLE_SALES", expect.closeTo(0.75, 10)],
+      ["COST_APPROACH", expect.closeTo(0.25, 10)]
+    ])
+    expect(reconciledValue).toBeCloseTo(0.75 * 30000000000 + 0.25 * indications[1].value, 0)
+  })
+
+  it("values land on sales evidence alone", async () => {
+    const plot = { ...offices, assetType: "LAND_ONLY", buildingSize: undefined }
+    const reconciliation = await reconcileApproaches(plot, 24000000000)
+    expect(reconciliation.method).toBe("COMPARABLE_SALES")
+    expect(reconciliation.reconciledValue).toBe(24000000000)
+  })
+
+  it("quotes every indication as the whole property per m² of land", async () => {
+    const { indications, reconciledValue, reconciledValuePerSqm } = await reconcileApproaches(offices, 40000000000)
+    for (const indication of indications) {
+      expect(indication.valuePerSqm * offices.landSize).toBeCloseTo(indication.value, 0)
+    }
+    // The cost indication carries the building as well as the land the sales figure is quoted against
+    const cost = indications.find(indication => indication.method === "COST_APPROACH")!
+    expect(cost.value).toBeGreaterThan(cost.details.landValue as number)
+    expect(reconciledValuePerSqm).toBeCloseTo(reconciledValue / 800, 0)
+  })
+})
@@ -0,0 +1,203 @@
+import { findPriceIndexEntry } from "@/lib/price-index"
+import { DEFAULT_OPERATING_EXPENSE_RATIO, DEFAULT_VACANCY_RATE } from "@/lib/finance"
+
+export type ApproachMethod = "COMPARABLE_SALES" | "INCOME_APPROACH" | "COST_APPROACH"
+
+export interface ApproachSubject {
+  district: string
+  city: string
+  province: string
+  landSize: number
+  buildingSize?: number
+  assetType: string
+  yearBuilt?: number
+  condition?: string
+  monthlyRent?: number
+  vacancyRate?: number
+  operatingExpenseRatio?: number
+}
+
+// Every indication values the whole property, land and buildings together, quoted per m² of land. Comparable and
+// price index prices are whole-property sale prices divided by land area, the cost approach adds the depreciated
+// building to the land, and the income approach capitalises the rent the whole property earns.
+export interface ApproachIndication {
+  method: ApproachMethod
+  value: number
+  valuePerSqm: number
+  weight: number
+  details: Record<string, number | string>
+}
+
+export interface ApproachReconciliation {
+  indications: ApproachIndication[]
+  reconciledValue: number
+  reconciledValuePerSqm: number
+  method: ApproachMethod | "HYBRID"
+}
+
+// Market capitalisation rates by asset type (Indonesian prime-to-secondary blend)
+export const CAP_RATES: Record<string, number> = {
+  RESIDENTIAL: 0.055,
+  COMMERCIAL: 0.075,
+  INDUSTRIAL: 0.085,
+  MIXED_USE: 0.07,
+  AGRICULTURAL: 0.06,
+  LAND_ONLY: 0.05
+}
+
+// Replacement cost new in IDR per m² of building area
+export const CONSTRUCTION_COST_PER_SQM: Record<string, number> = {
+  RESIDENTIAL: 6000000,
+  COMMERCIAL: 9000000,
+  INDUSTRIAL: 4500000,
+  MIXED_USE: 8000000,
+  AGRICULTURAL: 2000000
+}
+
+// Total economic life in years
+const ECONOMIC_LIFE: Record<string, number> = {
+  RESIDENTIAL: 50,
+  COMMERCIAL: 40,
+  INDUSTRIAL: 30,
+  MIXED_USE: 40,
+  AGRICULTURAL: 25
+}
+
+// Condition stretches or shortens the effective age used for depreciation
+const EFFECTIVE_AGE_FACTORS: Record<string, number> = {
+  EXCELLENT: 0.7,
+  GOOD: 0.85,
+  FAIR: 1.0,
+  POOR: 1.2,
+  NEEDS_RENOVATION: 1.4
+}
+
+// Reconciliation weights before renormalising over the approaches that could be applied
+const APPROACH_WEIGHTS: Record<string, Record<ApproachMethod, number>> = {
+  RESIDENTIAL: { COMPARABLE_SALES: 0.6, INCOME_APPROACH: 0.2, COST_APPROACH: 0.2 },
+  COMMERCIAL: { COMPARABLE_SALES: 0.3, INCOME_APPROACH: 0.5, COST_APPROACH: 0.2 },
+  INDUSTRIAL: { COMPARABLE_SALES: 0.3, INCOME_APPROACH: 0.3, COST_APPROACH: 0.4 },
+  MIXED_USE: { COMPARABLE_SALES: 0.4, INCOME_APPROACH: 0.4, COST_APPROACH: 0.2 },
+  AGRICULTURAL: { COMPARABLE_SALES: 0.7, INCOME_APPROACH: 0.2, COST_APPROACH: 0.1 },
+  LAND_ONLY: { COMPARABLE_SALES: 1, INCOME_APPROACH: 0, COST_APPROACH: 0 }
+}
+
+const DCF_ASSUMPTIONS = {
+  holdingPeriodYears: 10,
+  rentGrowth: 0.04,
+  exitCapRateSpread: 0.005,
+  sellingCosts: 0.02
+}
+
+const MAX_DEPRECIATION = 0.9
+
+export function incomeApproach(subject: ApproachSubject): ApproachIndication | null {
+  if (!subject.monthlyRent || subject.monthlyRent <= 0) return null
+
+  const vacancyRate = subject.vacancyRate ?? DEFAULT_VACANCY_RATE
+  const operatingExpenseRatio = subject.operatingExpenseRatio ?? DEFAULT_OPERATING_EXPENSE_RATIO
+  const capRate = CAP_RATES[subject.assetType] || CAP_RATES.RESIDENTIAL
+
+  const potentialGrossIncome = subject.monthlyRent * 12
+  const effectiveGrossIncome = potentialGrossIncome * (1 - vacancyRate)
+  const netOperatingIncome = effectiveGrossIncome * (1 - operatingExpenseRatio)
+
+  const directCapitalizationValue = netOperatingIncome / capRate
+
+  // DCF: discount rate implied by the cap rate plus expected growth; reversion at a slightly higher exit cap
+  const { holdingPeriodYears, rentGrowth, exitCapRateSpread, sellingCosts } = DCF_ASSUMPTIONS
+  const discountRate = capRate + rentGrowth
+  let presentValueOfIncome = 0
+  for (let year = 1; year <= holdingPeriodYears; year++) {
+    presentValueOfIncome += netOperatingIncome * Math.pow(1 + rentGrowth, year - 1) / Math.pow(1 + discountRate, year)
+  }
+  const reversionNoi = netOperatingIncome * Math.pow(1 + rentGrowth, holdingPeriodYears)
+  const reversionValue = reversionNoi / (capRate + exitCapRateSpread) * (1 - sellingCosts)
+  const dcfValue = presentValueOfIncome + reversionValue / Math.pow(1 + discountRate, holdingPeriodYears)
+
+  const value = (directCapitalizationValue + dcfValue) / 2
+
+  return {
+    method: "INCOME_APPROACH",
+    value,
+    valuePerSqm: value / subject.landSize,
+    weight: 0,
+    details: {
+      potentialGrossIncome,
+      effectiveGrossIncome,
+      netOperatingIncome,
+      capRate,
+      discountRate,
+      directCapitalizationValue,
+      dcfValue
+    }
+  }
+}
+
+export async function costApproach(subject: ApproachSubject): Promise<ApproachIndication | null> {
+  const constructionCost = CONSTRUCTION_COST_PER_SQM[subject.assetType]
+  if (!subject.buildingSize || subject.buildingSize <= 0 || !constructionCost) return null
+
+  const landIndex = await findPriceIndexEntry({
+    assetType: "LAND_ONLY",
+    province: subject.province,
+    city: subject.city,
+    district: subject.district
+  })
+  const landValue = landIndex.pricePerSqm * subject.landSize
+
+  const replacementCostNew = subject.buildingSize * constructionCost
+  const economicLife = ECONOMIC_LIFE[subject.assetType] || 40
+  const actualAge = subject.yearBuilt ? Math.max(0, new Date().getFullYear() - subject.yearBuilt) : economicLife / 2
+  const effectiveAge = actualAge * (EFFECTIVE_AGE_FACTORS[subject.condition || "FAIR"] || 1)
+  const depreciationRate = Math.min(MAX_DEPRECIATION, effectiveAge / economicLife)
+  const depreciatedImprovements = replacementCostNew * (1 - depreciationRate)
+
+  const value = landValue + depreciatedImprovements
+
+  return {
+    method: "COST_APPROACH",
+    value,
+    valuePerSqm: value / subject.landSize,
+    weight: 0,
+    details: {
+      landValue,
+      landIndexVersion: landIndex.version,
+      replacementCostNew,
+      effectiveAge,
+      economicLife,
+      depreciationRate,
+      depreciatedImprovements
+    }
+  }
+}
+
+// The sales comparison value is the whole property at its indicated price per m² of land
+export async function reconcileApproaches(subject: ApproachSubject, salesComparisonValue: number): Promise<ApproachReconciliation> {
+  const salesComparison: ApproachIndication = {
+    method: "COMPARABLE_SALES",
+    value: salesComparisonValue,
+    valuePerSqm: salesComparisonValue / subject.landSize,
+    weight: 0,
+    details: {}
+  }
+
+  const baseWeights = APPROACH_WEIGHTS[subject.assetType] || APPROACH_WEIGHTS.RESIDENTIAL
+  const indications = [salesComparison, incomeApproach(subject), await costApproach(subject)]
+    .filter((indication): indication is ApproachIndication => !!indication && baseWeights[indication.method] > 0)
+
+  const totalWeight = indications.reduce((sum, indication) => sum + baseWeights[indication.method], 0)
+  const weighted = indications.map(indication => ({
+    ...indication,
+    weight: baseWeights[indication.method] / totalWeight
+  }))
+
+  const reconciledValue = weighted.reduce((sum, indication) => sum + indication.value * indication.weight, 0)
+
+  return {
+    indications: weighted,
+    reconciledValue,
+    reconciledValuePerSqm: reconciledValue / subject.landSize,
+    method: weighted.length > 1 ? "HYBRID" : weighted[0].method
+  }
+}
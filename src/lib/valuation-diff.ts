@@ -0,0 +1,109 @@
+export interface ValuationSnapshot {
+  id: string
+  estimatedValue: number
+  valuePerSqm: number
+  confidenceScore: number
+  valuationMethod: string
+  valuationDate: string
+  status?: string
+  marketTrends?: { trend: string } | null
+  riskFactors?: { overallRisk: string; factors: string[] } | null
+  strategicValue?: { highestBestUse: string } | null
+  comparableAnalysis: Array<{
+    address: string
+    sourceRecordId?: string
+    pricePerSqm?: number
+    adjustedPricePerSqm?: number
+  }>
+  engineVersion?: string
+}
+
+export interface FieldChange {
+  field: string
+  label: string
+  before: string | number | null
+  after: string | number | null
+  // Relative change for numeric fields
+  change?: number
+}
+
+export interface ComparableChange {
+  key: string
+  address: string
+  before?: number
+  after?: number
+}
+
+export interface ValuationDiff {
+  fields: FieldChange[]
+  riskFactors: { added: string[]; removed: string[]; unchanged: string[] }
+  comparables: { added: ComparableChange[]; removed: ComparableChange[]; changed: ComparableChange[] }
+}
+
+const NUMERIC_FIELDS: Array<{ field: keyof ValuationSnapshot; label: string }> = [
+  { field: "estimatedValue", label: "Estimated Value" },
+  { field: "valuePerSqm", label: "Value per m²" },
+  { field: "confidenceScore", label: "Confidence Score" }
+]
+
+const comparableKey = (comp: ValuationSnapshot["comparableAnalysis"][number]) =>
+  comp.sourceRecordId || comp.address.trim().toLowerCase()
+
+const comparablePrice = (comp: ValuationSnapshot["comparableAnalysis"][number]) =>
+  comp.adjustedPricePerSqm ?? comp.pricePerSqm
+
+// Field-by-field comparison of a later valuation against an earlier one
+export function diffValuations(before: ValuationSnapshot, after: ValuationSnapshot): ValuationDiff {
+  const fields: FieldChange[] = NUMERIC_FIELDS.map(({ field, label }) => {
+    const previous = before[field] as number
+    const current = after[field] as number
+    return {
+      field,
+      label,
+      before: previous,
+      after: current,
+      change: previous ? (current - previous) / previous : undefined
+    }
+  })
+
+  const textFields: Array<{ field: string; label: string; before?: string | null; after?: string | null }> = [
+    { field: "valuationMethod", label: "Method", before: before.valuationMethod, after: after.valuationMethod },
+    { field: "marketTrend", label: "Market Trend", before: before.marketTrends?.trend, after: after.marketTrends?.trend },
+    { field: "overallRisk", label: "Overall Risk", before: before.riskFactors?.overallRisk, after: after.riskFactors?.overallRisk },
+    { field: "highestBestUse", label: "Highest & Best Use", before: before.strategicValue?.highestBestUse, after: after.strategicValue?.highestBestUse },
+    { field: "engineVersion", label: "Engine Version", before: before.engineVersion, after: after.engineVersion }
+  ]
+  textFields.forEach(({ field, label, before: previous, after: current }) => {
+    fields.push({ field, label, before: previous ?? null, after: current ?? null })
+  })
+
+  const previousFactors = before.riskFactors?.factors || []
+  const currentFactors = after.riskFactors?.factors || []
+
+  const previousComparables = new Map(before.comparableAnalysis.map(comp => [comparableKey(comp), comp]))
+  const currentComparables = new Map(after.comparableAnalysis.map(comp => [comparableKey(comp), comp]))
+
+  const added: ComparableChange[] = []
+  const changed: ComparableChange[] = []
+  currentComparables.forEach((comp, key) => {
+    const previous = previousComparables.get(key)
+    if (!previous) {
+      added.push({ key, address: comp.address, after: comparablePrice(comp) })
+    } else if (comparablePrice(previous) !== comparablePrice(comp)) {
+      changed.push({ key, address: comp.address, before: comparablePrice(previous), after: comparablePrice(comp) })
+    }
+  })
+  const removed: ComparableChange[] = [...previousComparables.entries()]
+    .filter(([key]) => !currentComparables.has(key))
+    .map(([key, comp]) => ({ key, address: comp.address, before: comparablePrice(comp) }))
+
+  return {
+    fields,
+    riskFactors: {
+      added: currentFactors.filter(factor => !previousFactors.includes(factor)),
+      removed: previousFactors.filter(factor => !currentFactors.includes(factor)),
+      unchanged: currentFactors.filter(factor => previousFactors.includes(factor))
+    },
+    comparables: { added, removed, changed }
+  }
+}
@@ -1,4 +1,15 @@
-import ZAI from "z-ai-web-dev-sdk"
+import { ValuationMethod } from "@prisma/client"
+import { AIResponseError, generateStructured, StructuredCompletion } from "@/lib/ai-client"
+import { ValuationResponse, valuationResponseSchema } from "@/lib/ai-schemas"
+import { propertyAccessFilter, SessionUser } from "@/lib/auth"
+import { describePriceIndexCitation, findPriceIndexEntry, PriceIndexCitation } from "@/lib/price-index"
+import { buildComparableGrid, ComparableAdjustments, ComparableGrid, CONDITION_MULTIPLIERS, OWNERSHIP_MULTIPLIERS } from "@/lib/comparable-engine"
+import { Coordinates } from "@/lib/geo"
+import { ApproachReconciliation, reconcileApproaches } from "@/lib/valuation-approaches"
+import { assessCertificate } from "@/lib/land-certificate"
+import { analyseHighestBestUse, HighestBestUseAnalysis } from "@/lib/residual-land-value"
+import { assessZoning } from "@/lib/zoning"
+import { findZone } from "@/lib/zoning-dataset"
 
 export interface PropertyData {
   id: string
@@ -6,15 +17,21 @@ export interface PropertyData {
   district: string
   city: string
   province: string
+  coordinates?: Coordinates
   landSize: number
   buildingSize?: number
+  floors?: number
   assetType: string
   zoning?: string
   landUse?: string
   ownershipStatus: string
   certificateNumber?: string
+  certificateExpiry?: string // ISO date
   yearBuilt?: number
   condition?: string
+  monthlyRent?: number
+  vacancyRate?: number
+  operatingExpenseRatio?: number
   description?: string
   features?: string[]
 }
@@ -23,14 +40,31 @@ export interface ValuationResult {
   estimatedValue: number
   valuePerSqm: number
   confidenceScore: number
-  valuationMethod: string
+  valuationMethod: ValuationMethod
   marketTrends: MarketTrends
   comparableAnalysis: ComparableProperty[]
   riskFactors: RiskFactors
   strategicValue: StrategicValue
+  priceIndex?: PriceIndexCitation
+  approaches?: ApproachReconciliation
+  provenance?: ValuationProvenance
   notes?: string
 }
 
+export interface ValuationProvenance {
+  engineVersion: string
+  propertySnapshot: PropertyData
+  prompt: string
+  aiProvider?: string
+  aiAttempts?: number
+  rawResponse?: string
+  validationErrors: string[]
+  fallbackReason?: string
+  multipliers: Record<string, number>
+  comparableRecordIds: string[]
+  priceIndexVersion?: string
+}
+
 export interface MarketTrends {
   trend: string
   description: string
@@ -49,6 +83,11 @@ export interface ComparableProperty {
   distance?: number
   similarityScore: number
   dataSource: string
+  sourceRecordId?: string
+  transactionDate?: string
+  adjustedPricePerSqm?: number
+  adjustments?: ComparableAdjustments
+  weight?: number
 }
 
 export interface RiskFactors {
@@ -61,11 +100,14 @@ export interface StrategicValue {
   highestBestUse: string
   upsidePotential: string
   recommendations: string[]
+  residualAnalysis?: HighestBestUseAnalysis
 }
 
+// Bump when valuation logic changes in a way that would move results for the same inputs
+export const VALUATION_ENGINE_VERSION = "2.1.0"
+
 export class ValuationService {
   private static instance: ValuationService
-  private zai: any = null
 
   private constructor() {}
 
@@ -76,32 +118,204 @@ export class ValuationService {
     return ValuationService.instance
   }
 
-  private async initializeAI(): Promise<void> {
-    if (!this.zai) {
-      try {
-        this.zai = await ZAI.create()
-      } catch (error) {
-        console.error("Failed to initialize AI service:", error)
-        throw new Error("AI service initialization failed")
+  // The valuer's organisation bounds the comparable evidence
+  public async performValuation(propertyData: PropertyData, user: SessionUser): Promise<ValuationResult> {
+    const comparableGrid = await this.findComparableGrid(propertyData, user)
+    const prompt = this.buildValuationPrompt(propertyData, comparableGrid)
+    const provenance: ValuationProvenance = {
+      engineVersion: VALUATION_ENGINE_VERSION,
+      propertySnapshot: propertyData,
+      prompt,
+      validationErrors: [],
+      multipliers: {},
+      comparableRecordIds: comparableGrid ? comparableGrid.rows.map(row => row.sourceRecordId) : []
+    }
+
+    let salesComparison: ValuationResult
+    try {
+      const completion = await this.generateAIValuation(prompt)
+      provenance.aiProvider = completion.provider
+      provenance.aiAttempts = completion.attempts
+      provenance.rawResponse = completion.rawResponse
+      provenance.validationErrors = completion.validationErrors
+
+      // Comparables are evidence only when they are recorded; whatever the model lists without a grid is dropped
+      const aiValuation = this.toValuationResult(completion.data)
+      salesComparison = comparableGrid
+        ? this.applyComparableGrid(aiValuation, propertyData, comparableGrid)
+        : { ...aiValuation, comparableAnalysis: [] }
+    } catch (error) {
+      console.error("AI valuation failed, using fallback:", error)
+      if (error instanceof AIResponseError) {
+        provenance.aiAttempts = error.attempts
+        provenance.rawResponse = error.rawResponse
+        provenance.validationErrors = error.validationErrors
+      }
+      provenance.fallbackReason = error instanceof Error ? error.message : String(error)
+      if (!comparableGrid) {
+        provenance.multipliers.condition = this.getConditionMultiplier(propertyData.condition)
+        provenance.multipliers.ownership = this.getOwnershipMultiplier(propertyData.ownershipStatus)
       }
+      salesComparison = await this.generateFallbackValuation(propertyData, comparableGrid)
+    }
+
+    const result = await this.applyHighestBestUse(
+      this.applyCertificateRisk(await this.applyApproachReconciliation(salesComparison, propertyData), propertyData),
+      propertyData
+    )
+    result.approaches?.indications.forEach(indication => {
+      provenance.multipliers[`weight.${indication.method}`] = indication.weight
+    })
+    provenance.priceIndexVersion = result.priceIndex?.version
+
+    return { ...result, provenance }
+  }
+
+  // Weighs the sales comparison against income and cost indications where the inputs allow them
+  private async applyApproachReconciliation(valuation: ValuationResult, propertyData: PropertyData): Promise<ValuationResult> {
+    let approaches: ApproachReconciliation
+    try {
+      approaches = await reconcileApproaches(propertyData, valuation.estimatedValue)
+    } catch (error) {
+      console.error("Approach reconciliation failed:", error)
+      return valuation
+    }
+
+    if (approaches.method !== "HYBRID") {
+      return { ...valuation, approaches }
+    }
+
+    return {
+      ...valuation,
+      estimatedValue: approaches.reconciledValue,
+      valuePerSqm: approaches.reconciledValuePerSqm,
+      valuationMethod: "HYBRID",
+      approaches
     }
   }
 
-  public async performValuation(propertyData: PropertyData): Promise<ValuationResult> {
-    await this.initializeAI()
+  // Title defects and expiring rights are checked by rule, whatever the AI reported
+  private applyCertificateRisk(valuation: ValuationResult, propertyData: PropertyData): ValuationResult {
+    const { issues } = assessCertificate(
+      propertyData.certificateNumber,
+      propertyData.certificateExpiry ? new Date(propertyData.certificateExpiry) : null
+    )
+    const material = issues.filter(issue => issue.severity !== "LOW")
+    if (material.length === 0) return valuation
+
+    const { riskFactors } = valuation
+    const overallRisk = material.some(issue => issue.severity === "CRITICAL") ? "HIGH"
+      : riskFactors.overallRisk === "LOW" ? "MEDIUM"
+      : riskFactors.overallRisk
 
+    return {
+      ...valuation,
+      riskFactors: {
+        overallRisk,
+        factors: [...riskFactors.factors, ...material.map(issue => issue.title)],
+        mitigation: [...new Set([...riskFactors.mitigation, ...material.map(issue => issue.recommendation)])]
+      }
+    }
+  }
+
+  // Where the zone's rules are on record, the residual appraisal of each permitted use replaces the AI's or the
+  // fallback's view of the highest and best use
+  private async applyHighestBestUse(valuation: ValuationResult, propertyData: PropertyData): Promise<ValuationResult> {
+    if (!propertyData.zoning) return valuation
+
+    let analysis: HighestBestUseAnalysis
     try {
-      return await this.generateAIValuation(propertyData)
+      const zone = await findZone(propertyData.zoning, propertyData.province, propertyData.city)
+      if (!zone) return valuation
+      const { maxBuildableGfa } = assessZoning(propertyData, zone)
+      analysis = analyseHighestBestUse({
+        zone,
+        landSize: propertyData.landSize,
+        maxBuildableGfa,
+        existingBuildingSize: propertyData.buildingSize,
+        asIsValue: valuation.estimatedValue,
+        assetType: propertyData.assetType
+      })
     } catch (error) {
-      console.error("AI valuation failed, using fallback:", error)
-      return this.generateFallbackValuation(propertyData)
+      console.error("Highest and best use analysis failed:", error)
+      return valuation
+    }
+
+    const { recommended } = analysis
+    const upside = recommended ? recommended.residualLandValue / valuation.estimatedValue - 1 : 0
+    const strategicRecommendations = recommended
+      ? [`Test a ${recommended.label.toLowerCase()} scheme of ${Math.round(recommended.grossFloorArea).toLocaleString('id-ID')} m² with local sale and rent evidence`]
+      : ["Hold in current use; redevelopment under the zone's limits does not exceed the as-is value"]
+
+    return {
+      ...valuation,
+      strategicValue: {
+        highestBestUse: analysis.summary,
+        upsidePotential: recommended
+          ? `${upside > 0.25 ? "High" : "Moderate"} - redevelopment residual is ${Math.round(upside * 100)}% above the as-is value`
+          : valuation.strategicValue.upsidePotential,
+        recommendations: [...strategicRecommendations, ...valuation.strategicValue.recommendations],
+        residualAnalysis: analysis
+      }
     }
   }
 
-  private async generateAIValuation(propertyData: PropertyData): Promise<ValuationResult> {
-    const prompt = this.buildValuationPrompt(propertyData)
+  private async findComparableGrid(propertyData: PropertyData, user: SessionUser): Promise<ComparableGrid | null> {
+    try {
+      return await buildComparableGrid({
+        id: propertyData.id,
+        district: propertyData.district,
+        city: propertyData.city,
+        landSize: propertyData.landSize,
+        assetType: propertyData.assetType,
+        ownershipStatus: propertyData.ownershipStatus,
+        condition: propertyData.condition,
+        coordinates: propertyData.coordinates,
+        accessFilter: propertyAccessFilter(user),
+        organizationId: user.organizationId
+      })
+    } catch (error) {
+      console.error("Comparable search failed:", error)
+      return null
+    }
+  }
+
+  // Recorded comparables override AI-estimated value per m² and replace any AI-invented comparables
+  private applyComparableGrid(valuation: ValuationResult, propertyData: PropertyData, grid: ComparableGrid): ValuationResult {
+    return {
+      ...valuation,
+      estimatedValue: grid.indicatedValuePerSqm * propertyData.landSize,
+      valuePerSqm: grid.indicatedValuePerSqm,
+      valuationMethod: "COMPARABLE_SALES",
+      comparableAnalysis: this.toComparableAnalysis(grid)
+    }
+  }
+
+  private toComparableAnalysis(grid: ComparableGrid): ComparableProperty[] {
+    return grid.rows.map(row => ({
+      address: row.address,
+      district: row.district,
+      city: row.city,
+      landSize: row.landSize,
+      buildingSize: row.buildingSize,
+      assetType: row.assetType,
+      transactionPrice: row.transactionPrice,
+      pricePerSqm: row.pricePerSqm,
+      distance: row.distance,
+      similarityScore: row.similarityScore,
+      dataSource: row.dataSource,
+      sourceRecordId: row.sourceRecordId,
+      transactionDate: row.transactionDate,
+      adjustedPricePerSqm: row.adjustedPricePerSqm,
+      adjustments: row.adjustments,
+      weight: row.weight
+    }))
+  }
 
-    const completion = await this.zai.chat.completions.create({
+  private async generateAIValuation(prompt: string): Promise<StructuredCompletion<ValuationResponse>> {
+    return await generateStructured({
+      task: "valuation",
+      schema: valuationResponseSchema,
       messages: [
         {
           role: "system",
@@ -122,25 +336,19 @@ export class ValuationService {
         }
       ],
       temperature: 0.3,
-      max_tokens: 2500
+      maxTokens: 2500
     })
-
-    const responseContent = completion.choices[0]?.message?.content
-    
-    if (!responseContent) {
-      throw new Error("No response from AI")
-    }
-
-    try {
-      const valuationData = JSON.parse(responseContent)
-      return this.validateAndCleanValuationResult(valuationData)
-    } catch (parseError) {
-      console.error("Error parsing AI response:", parseError)
-      throw new Error("Failed to parse AI valuation response")
-    }
   }
 
-  private buildValuationPrompt(propertyData: PropertyData): string {
+  private buildValuationPrompt(propertyData: PropertyData, comparableGrid: ComparableGrid | null): string {
+    const comparableEvidence = comparableGrid
+      ? comparableGrid.rows.map((row, index) =>
+          `    ${index + 1}. ${row.address}, ${row.district} - ${row.landSize.toLocaleString('id-ID')} m², ` +
+          `Rp ${Math.round(row.pricePerSqm).toLocaleString('id-ID')}/m² (adjusted Rp ${Math.round(row.adjustedPricePerSqm).toLocaleString('id-ID')}/m²), ` +
+          `${row.transactionDate?.slice(0, 10)}, source: ${row.dataSource}`
+        ).join('\n')
+      : '    None on record - do not invent transactions; return an empty comparableAnalysis array'
+
     return `
     Please provide a comprehensive property valuation for the following property:
 
@@ -156,11 +364,15 @@ export class ValuationService {
     - Current Land Use: ${propertyData.landUse || 'Not specified'}
     - Ownership Status: ${propertyData.ownershipStatus}
     - Certificate Number: ${propertyData.certificateNumber || 'Not provided'}
+    - Certificate Expiry: ${propertyData.certificateExpiry?.slice(0, 10) || 'None recorded'}
     - Year Built: ${propertyData.yearBuilt || 'N/A'}
     - Property Condition: ${propertyData.condition || 'Not assessed'}
     - Features: ${propertyData.features?.join(', ') || 'None specified'}
     - Description: ${propertyData.description || 'No description provided'}
 
+    RECORDED COMPARABLE SALES:
+${comparableEvidence}
+
     VALUATION REQUIREMENTS:
     Please provide a comprehensive valuation analysis including:
 
@@ -176,9 +388,9 @@ export class ValuationService {
        - Market conditions assessment
 
     3. COMPARABLE ANALYSIS:
-       - Generate 3-5 comparable properties
+       - Use only the recorded comparable sales listed above
        - Include address, size, transaction prices, similarity scores
-       - Data sources (market data, recent transactions, etc.)
+       - Keep the data source exactly as recorded
 
     4. RISK ASSESSMENT:
        - Overall risk level (LOW/MEDIUM/HIGH)
@@ -233,80 +445,50 @@ export class ValuationService {
     `
   }
 
-  private validateAndCleanValuationResult(data: any): ValuationResult {
-    // Validate required fields
-    if (!data.estimatedValue || !data.valuePerSqm || !data.confidenceScore) {
-      throw new Error("Missing required valuation fields")
-    }
-
-    // Clean and validate numeric values
-    const estimatedValue = Math.max(0, Number(data.estimatedValue) || 0)
-    const valuePerSqm = Math.max(0, Number(data.valuePerSqm) || 0)
-    const confidenceScore = Math.max(0, Math.min(1, Number(data.confidenceScore) || 0.5))
-
-    // Validate and clean comparable analysis
-    const comparableAnalysis = Array.isArray(data.comparableAnalysis) 
-      ? data.comparableAnalysis.map((comp: any) => ({
-          address: String(comp.address || 'Unknown'),
-          district: String(comp.district || 'Unknown'),
-          city: String(comp.city || 'Unknown'),
-          landSize: Math.max(0, Number(comp.landSize) || 0),
-          buildingSize: comp.buildingSize ? Math.max(0, Number(comp.buildingSize)) : undefined,
-          assetType: String(comp.assetType || 'UNKNOWN'),
-          transactionPrice: comp.transactionPrice ? Math.max(0, Number(comp.transactionPrice)) : undefined,
-          pricePerSqm: comp.pricePerSqm ? Math.max(0, Number(comp.pricePerSqm)) : undefined,
-          distance: comp.distance ? Math.max(0, Number(comp.distance)) : undefined,
-          similarityScore: Math.max(0, Math.min(1, Number(comp.similarityScore) || 0.5)),
-          dataSource: String(comp.dataSource || 'AI_Generated')
-        }))
-      : []
-
+  private toValuationResult(data: ValuationResponse): ValuationResult {
     return {
-      estimatedValue,
-      valuePerSqm,
-      confidenceScore,
-      valuationMethod: String(data.valuationMethod || 'AI_ENHANCED'),
-      marketTrends: {
-        trend: String(data.marketTrends?.trend || 'STABLE'),
-        description: String(data.marketTrends?.description || 'Market analysis completed'),
-        factors: Array.isArray(data.marketTrends?.factors) ? data.marketTrends.factors.map(String) : []
-      },
-      comparableAnalysis,
-      riskFactors: {
-        overallRisk: String(data.riskFactors?.overallRisk || 'MEDIUM'),
-        factors: Array.isArray(data.riskFactors?.factors) ? data.riskFactors.factors.map(String) : [],
-        mitigation: Array.isArray(data.riskFactors?.mitigation) ? data.riskFactors.mitigation.map(String) : []
-      },
-      strategicValue: {
-        highestBestUse: String(data.strategicValue?.highestBestUse || 'Current use'),
-        upsidePotential: String(data.strategicValue?.upsidePotential || 'Moderate'),
-        recommendations: Array.isArray(data.strategicValue?.recommendations) ? data.strategicValue.recommendations.map(String) : []
-      },
-      notes: data.notes ? String(data.notes) : undefined
+      ...data,
+      comparableAnalysis: data.comparableAnalysis.map(comp => ({
+        ...comp,
+        buildingSize: comp.buildingSize ?? undefined,
+        transactionPrice: comp.transactionPrice ?? undefined,
+        pricePerSqm: comp.pricePerSqm ?? undefined,
+        distance: comp.distance ?? undefined
+      }))
     }
   }
 
-  private generateFallbackValuation(propertyData: PropertyData): ValuationResult {
-    // Comprehensive fallback valuation logic based on Indonesian market data
-    const basePricePerSqm = this.getBasePricePerSqm(propertyData.assetType, propertyData.city)
-    const districtMultiplier = this.getDistrictMultiplier(propertyData.district, propertyData.city)
+  private async generateFallbackValuation(propertyData: PropertyData, comparableGrid: ComparableGrid | null): Promise<ValuationResult> {
+    // Recorded comparables drive the value when there is enough evidence; otherwise the market price index
+    const priceIndex = await findPriceIndexEntry({
+      assetType: propertyData.assetType,
+      province: propertyData.province,
+      city: propertyData.city,
+      district: propertyData.district
+    })
     const conditionMultiplier = this.getConditionMultiplier(propertyData.condition)
     const ownershipMultiplier = this.getOwnershipMultiplier(propertyData.ownershipStatus)
 
-    const pricePerSqm = basePricePerSqm * districtMultiplier * conditionMultiplier * ownershipMultiplier
+    const pricePerSqm = comparableGrid
+      ? comparableGrid.indicatedValuePerSqm
+      : priceIndex.pricePerSqm * conditionMultiplier * ownershipMultiplier
     const estimatedValue = pricePerSqm * propertyData.landSize
 
+    const basis = comparableGrid
+      ? `Value per m² derived from ${comparableGrid.rows.length} adjusted comparable sales`
+      : `No recorded comparables matched. ${describePriceIndexCitation(priceIndex)}`
+
     return {
       estimatedValue,
       valuePerSqm: pricePerSqm,
-      confidenceScore: this.calculateConfidenceScore(propertyData),
+      confidenceScore: this.calculateConfidenceScore(propertyData, priceIndex, comparableGrid),
       valuationMethod: "COMPARABLE_SALES",
       marketTrends: {
         trend: "STABLE",
         description: "Market conditions analyzed based on available data",
         factors: ["Location", "Property type", "Market conditions", "Infrastructure development"]
       },
-      comparableAnalysis: this.generateFallbackComparables(propertyData, pricePerSqm),
+      comparableAnalysis: comparableGrid ? this.toComparableAnalysis(comparableGrid) : [],
       riskFactors: {
         overallRisk: this.assessOverallRisk(propertyData),
         factors: this.identifyRiskFactors(propertyData),
@@ -317,113 +499,33 @@ export class ValuationService {
         upsidePotential: this.assessUpsidePotential(propertyData),
         recommendations: this.generateStrategicRecommendations(propertyData)
       },
-      notes: "Valuation generated using fallback methodology due to AI service limitations"
-    }
-  }
-
-  private getBasePricePerSqm(assetType: string, city: string): number {
-    const basePrices: Record<string, Record<string, number>> = {
-      RESIDENTIAL: {
-        "Jakarta": 15000000, // 15 juta/m²
-        "Surabaya": 8000000,  // 8 juta/m²
-        "Bandung": 6000000,   // 6 juta/m²
-        "Medan": 5000000,     // 5 juta/m²
-        "default": 7000000
-      },
-      COMMERCIAL: {
-        "Jakarta": 25000000, // 25 juta/m²
-        "Surabaya": 15000000, // 15 juta/m²
-        "Bandung": 12000000,  // 12 juta/m²
-        "Medan": 10000000,    // 10 juta/m²
-        "default": 13000000
-      },
-      INDUSTRIAL: {
-        "Jakarta": 8000000,  // 8 juta/m²
-        "Surabaya": 5000000,  // 5 juta/m²
-        "Bandung": 4000000,   // 4 juta/m²
-        "Medan": 3500000,     // 3.5 juta/m²
-        "default": 4500000
-      },
-      MIXED_USE: {
-        "Jakarta": 20000000, // 20 juta/m²
-        "Surabaya": 12000000, // 12 juta/m²
-        "Bandung": 9000000,   // 9 juta/m²
-        "Medan": 7500000,     // 7.5 juta/m²
-        "default": 10000000
-      },
-      LAND_ONLY: {
-        "Jakarta": 10000000, // 10 juta/m²
-        "Surabaya": 6000000,  // 6 juta/m²
-        "Bandung": 4500000,   // 4.5 juta/m²
-        "Medan": 4000000,     // 4 juta/m²
-        "default": 5000000
-      },
-      AGRICULTURAL: {
-        "Jakarta": 2000000,  // 2 juta/m²
-        "Surabaya": 1500000,  // 1.5 juta/m²
-        "Bandung": 1200000,   // 1.2 juta/m²
-        "Medan": 1000000,     // 1 juta/m²
-        "default": 1300000
-      }
-    }
-
-    return basePrices[assetType]?.[city] || basePrices[assetType]?.default || 7000000
-  }
-
-  private getDistrictMultiplier(district: string, city: string): number {
-    const premiumDistricts: Record<string, string[]> = {
-      "Jakarta": ["Menteng", "Kuningan", "Sudirman", "Thamrin", "Kelapa Gading", "Pondok Indah"],
-      "Surabaya": ["Tunjungan", "Gubeng", "Darmo", "Manyar"],
-      "Bandung": ["Dago", "Ciumbuleuit", "Setiabudi"],
-      "Medan": ["Polonia", "Sisingamangaraja"]
-    }
-
-    const standardDistricts: Record<string, string[]> = {
-      "Jakarta": ["Kemayoran", "Pasar Minggu", "Cilandak", "Kebayoran"],
-      "Surabaya": ["Wonokromo", "Sukomanunggal", "Tegalsari"],
-      "Bandung": ["Antapani", "Arcamanik", "Bojongloa"],
-      "Medan": ["Medan Area", "Medan Baru", "Medan Kota"]
-    }
-
-    if (premiumDistricts[city]?.includes(district)) {
-      return 1.5
-    } else if (standardDistricts[city]?.includes(district)) {
-      return 1.2
-    } else {
-      return 1.0
+      priceIndex: comparableGrid ? undefined : priceIndex,
+      notes: `Valuation generated using fallback methodology due to AI service limitations. ${basis}.`
     }
   }
 
   private getConditionMultiplier(condition?: string): number {
-    const multipliers: Record<string, number> = {
-      EXCELLENT: 1.3,
-      GOOD: 1.1,
-      FAIR: 1.0,
-      POOR: 0.8,
-      NEEDS_RENOVATION: 0.7
-    }
-    return multipliers[condition || "FAIR"] || 1.0
+    return CONDITION_MULTIPLIERS[condition || "FAIR"] || 1.0
   }
 
   private getOwnershipMultiplier(ownershipStatus: string): number {
-    const multipliers: Record<string, number> = {
-      CERTIFIED: 1.2,
-      UNDER_PROCESS: 1.0,
-      UNCERTIFIED: 0.8,
-      DISPUTED: 0.5
-    }
-    return multipliers[ownershipStatus] || 1.0
+    return OWNERSHIP_MULTIPLIERS[ownershipStatus] || 1.0
   }
 
-  private calculateConfidenceScore(propertyData: PropertyData): number {
+  private calculateConfidenceScore(propertyData: PropertyData, priceIndex: PriceIndexCitation, comparableGrid: ComparableGrid | null): number {
     let score = 0.5 // Base score
 
+    // Comparable evidence raises the score; an index-only value without a local entry lowers it
+    if (comparableGrid) score += 0.05 * comparableGrid.rows.length
+    else if (priceIndex.matchLevel === "NATIONAL_DEFAULT") score -= 0.2
+    else if (priceIndex.matchLevel === "PROVINCE") score -= 0.1
+
     // Increase score for certified ownership
     if (propertyData.ownershipStatus === "CERTIFIED") score += 0.2
     else if (propertyData.ownershipStatus === "UNDER_PROCESS") score += 0.1
 
     // Increase score for complete data
-    if (propertyData.certificateNumber) score += 0.1
+    if (assessCertificate(propertyData.certificateNumber).valid) score += 0.1
     if (propertyData.zoning) score += 0.05
     if (propertyData.description) score += 0.05
     if (propertyData.buildingSize) score += 0.05
@@ -432,37 +534,6 @@ export class ValuationService {
     return Math.min(1.0, score)
   }
 
-  private generateFallbackComparables(propertyData: PropertyData, pricePerSqm: number): ComparableProperty[] {
-    return [
-      {
-        address: `Similar property in ${propertyData.district}`,
-        district: propertyData.district,
-        city: propertyData.city,
-        landSize: propertyData.landSize * 0.95,
-        buildingSize: propertyData.buildingSize ? propertyData.buildingSize * 0.95 : undefined,
-        assetType: propertyData.assetType,
-        transactionPrice: pricePerSqm * propertyData.landSize * 0.95,
-        pricePerSqm: pricePerSqm * 0.95,
-        distance: 500,
-        similarityScore: 0.85,
-        dataSource: "Market_Data"
-      },
-      {
-        address: `Comparable property nearby ${propertyData.district}`,
-        district: propertyData.district,
-        city: propertyData.city,
-        landSize: propertyData.landSize * 1.05,
-        buildingSize: propertyData.buildingSize ? propertyData.buildingSize * 1.05 : undefined,
-        assetType: propertyData.assetType,
-        transactionPrice: pricePerSqm * propertyData.landSize * 1.05,
-        pricePerSqm: pricePerSqm * 1.05,
-        distance: 750,
-        similarityScore: 0.80,
-        dataSource: "Market_Data"
-      }
-    ]
-  }
-
   private assessOverallRisk(propertyData: PropertyData): string {
     if (propertyData.ownershipStatus === "DISPUTED") return "HIGH"
     if (propertyData.ownershipStatus === "UNCERTIFIED") return "MEDIUM"
@@ -0,0 +1,111 @@
+import { ReviewAction, UserRole, ValuationStatus } from "@prisma/client"
+import { describe, expect, it } from "vitest"
+import { SessionUser } from "@/lib/auth"
+import { availableActions, isExportable, resolveTransition, WorkflowError } from "@/lib/valuation-workflow"
+
+const member = (id: string, role: UserRole): SessionUser => ({ id, role, organizationId: "org-kjpp", platformAdmin: false })
+
+const author = member("valuer-rina", "VALUER")
+const reviewer = member("reviewer-agus", "REVIEWER")
+const admin = member("admin-dewi", "ADMIN")
+
+const prepared = (status: ValuationStatus) => ({ status, userId: author.id })
+
+const refusal = (run: () => unknown) => {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(WorkflowError)
+    return { status: (error as WorkflowError).status, message: (error as WorkflowError).message }
+  }
+  throw new Error("Transition was allowed")
+}
+
+// Each action taken by someone the role and four-eyes rules allow, so only the status decides
+const actor: Record<ReviewAction, SessionUser> = { SUBMIT: author, APPROVE: reviewer, REJECT: reviewer }
+
+const allowed: Array<[ReviewAction, ValuationStatus, ValuationStatus]> = [
+  ["SUBMIT", "DRAFT", "SUBMITTED"],
+  ["SUBMIT", "REJECTED", "SUBMITTED"],
+  ["APPROVE", "SUBMITTED", "APPROVED"],
+  ["REJECT", "SUBMITTED", "REJECTED"]
+]
+
+const refused = Object.values(ReviewAction).flatMap(action =>
+  Object.values(ValuationStatus)
+    .filter(status => !allowed.some(([allowedAction, from]) => allowedAction === action && from === status))
+    .map(status => [action, status] as [ReviewAction, ValuationStatus])
+)
+
+describe("resolveTransition", () => {
+  it.each(allowed)("%s moves a %s valuation to %s", (action, from, to) => {
+    expect(resolveTransition(prepared(from), action, actor[action], "Rent evidence checked")).toBe(to)
+  })
+
+  it.each(refused)("refuses to %s a %s valuation", (action, status) => {
+    expect(refusal(() => resolveTransition(prepared(status), action, actor[action], "Rent evidence checked"))).toEqual({
+      status: 409,
+      message: `Cannot ${action.toLowerCase()} a valuation that is ${status}`
+    })
+  })
+
+  it.each([
+    ["SUBMIT", "REVIEWER"],
+    ["SUBMIT", "CREDIT_OFFICER"],
+    ["APPROVE", "VALUER"],
+    ["APPROVE", "CREDIT_OFFICER"],
+    ["REJECT", "VALUER"],
+    ["REJECT", "CREDIT_OFFICER"]
+  ] as Array<[ReviewAction, UserRole]>)("refuses %s to a %s", (action, role) => {
+    const from = action === "SUBMIT" ? "DRAFT" : "SUBMITTED"
+    const user = member(action === "SUBMIT" ? author.id : "colleague-sari", role)
+    expect(refusal(() => resolveTransition(prepared(from), action, user, "Comment"))).toEqual({
+      status: 403,
+      message: `Role ${role} cannot ${action.toLowerCase()} valuations`
+    })
+  })
+
+  it("checks the role before the status", () => {
+    expect(refusal(() => resolveTransition(prepared("APPROVED"), "APPROVE", author)).status).toBe(403)
+  })
+
+  it("never lets the author approve or reject their own valuation, even as an admin", () => {
+    const ownedByAdmin = { status: "SUBMITTED" as const, userId: admin.id }
+    expect(refusal(() => resolveTransition(ownedByAdmin, "APPROVE", admin))).toEqual({
+      status: 403,
+      message: "Valuations must be reviewed by someone other than their author"
+    })
+    expect(refusal(() => resolveTransition(ownedByAdmin, "REJECT", admin, "Own work")).status).toBe(403)
+    expect(resolveTransition(prepared("SUBMITTED"), "APPROVE", admin)).toBe("APPROVED")
+  })
+
+  it("lets only the author, or an admin, submit", () => {
+    expect(refusal(() => resolveTransition(prepared("DRAFT"), "SUBMIT", member("valuer-sari", "VALUER"))).status).toBe(403)
+    expect(resolveTransition(prepared("DRAFT"), "SUBMIT", admin)).toBe("SUBMITTED")
+  })
+
+  it("requires a reason to reject", () => {
+    expect(refusal(() => resolveTransition(prepared("SUBMITTED"), "REJECT", reviewer))).toEqual({
+      status: 400,
+      message: "A comment is required when rejecting a valuation"
+    })
+    expect(refusal(() => resolveTransition(prepared("SUBMITTED"), "REJECT", reviewer, "   ")).status).toBe(400)
+  })
+})
+
+describe("availableActions", () => {
+  it("offers each party only what they may do next", () => {
+    expect(availableActions(prepared("DRAFT"), author)).toEqual(["SUBMIT"])
+    expect(availableActions(prepared("DRAFT"), reviewer)).toEqual([])
+    expect(availableActions(prepared("SUBMITTED"), author)).toEqual([])
+    expect(availableActions(prepared("SUBMITTED"), reviewer)).toEqual(["APPROVE", "REJECT"])
+    expect(availableActions(prepared("REJECTED"), author)).toEqual(["SUBMIT"])
+    expect(availableActions(prepared("APPROVED"), admin)).toEqual([])
+  })
+})
+
+describe("isExportable", () => {
+  it("exports only approved valuations", () => {
+    expect(Object.values(ValuationStatus).filter(isExportable)).toEqual(["APPROVED"])
+  })
+})
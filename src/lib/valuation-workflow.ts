@@ -0,0 +1,63 @@
+import { ReviewAction, UserRole, ValuationStatus } from "@prisma/client"
+import { SessionUser } from "@/lib/auth"
+
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = "WorkflowError"
+  }
+}
+
+interface WorkflowTransition {
+  from: ValuationStatus[]
+  to: ValuationStatus
+  roles: UserRole[]
+}
+
+// DRAFT → SUBMITTED → APPROVED/REJECTED; a rejected valuation goes back through SUBMIT after rework
+export const VALUATION_TRANSITIONS: Record<ReviewAction, WorkflowTransition> = {
+  SUBMIT: { from: ["DRAFT", "REJECTED"], to: "SUBMITTED", roles: ["VALUER", "ADMIN"] },
+  APPROVE: { from: ["SUBMITTED"], to: "APPROVED", roles: ["REVIEWER", "ADMIN"] },
+  REJECT: { from: ["SUBMITTED"], to: "REJECTED", roles: ["REVIEWER", "ADMIN"] }
+}
+
+export interface WorkflowValuation {
+  status: ValuationStatus
+  userId: string
+}
+
+export function resolveTransition(valuation: WorkflowValuation, action: ReviewAction, user: SessionUser, comment?: string): ValuationStatus {
+  const transition = VALUATION_TRANSITIONS[action]
+
+  if (!transition.roles.includes(user.role)) {
+    throw new WorkflowError(`Role ${user.role} cannot ${action.toLowerCase()} valuations`, 403)
+  }
+  if (!transition.from.includes(valuation.status)) {
+    throw new WorkflowError(`Cannot ${action.toLowerCase()} a valuation that is ${valuation.status}`, 409)
+  }
+  // Four-eyes: whoever prepared the valuation never signs it off
+  if (action !== "SUBMIT" && valuation.userId === user.id) {
+    throw new WorkflowError("Valuations must be reviewed by someone other than their author", 403)
+  }
+  if (action === "SUBMIT" && valuation.userId !== user.id && user.role !== "ADMIN") {
+    throw new WorkflowError("Only the author can submit a valuation for review", 403)
+  }
+  if (action === "REJECT" && !comment?.trim()) {
+    throw new WorkflowError("A comment is required when rejecting a valuation", 400)
+  }
+
+  return transition.to
+}
+
+export function availableActions(valuation: WorkflowValuation, user: SessionUser): ReviewAction[] {
+  return (Object.keys(VALUATION_TRANSITIONS) as ReviewAction[]).filter(action => {
+    try {
+      resolveTransition(valuation, action, user, "check")
+      return true
+    } catch {
+      return false
+    }
+  })
+}
+
+export const isExportable = (status: ValuationStatus) => status === "APPROVED"
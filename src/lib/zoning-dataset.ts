@@ -0,0 +1,102 @@
+import { AssetType, Property, ZoningZone } from "@prisma/client"
+import { z } from "zod"
+import { db } from "@/lib/db"
+import { assessZoning, DEFAULT_ZONE_PROVINCE, DEFAULT_ZONES, parseZoneCode, ZoneRules, ZoningAssessment } from "@/lib/zoning"
+
+const ratio = z.number().min(0).max(1)
+
+export const zoningZoneSchema = z.object({
+  code: z.string().trim().min(1).max(20).transform(code => parseZoneCode(code) ?? code.toUpperCase()),
+  name: z.string().trim().min(1).max(100),
+  province: z.string().trim().min(1),
+  city: z.string().trim().min(1).optional(),
+  permittedAssetTypes: z.array(z.enum(AssetType)).default([]),
+  conditionalAssetTypes: z.array(z.enum(AssetType)).default([]),
+  permittedUses: z.array(z.string().trim().toLowerCase().min(1)).default([]),
+  kdb: ratio,
+  klb: z.number().min(0).max(20),
+  kdh: ratio,
+  maxFloors: z.number().int().nonnegative().optional(),
+  regulation: z.string().trim().max(200).optional(),
+  effectiveFrom: z.coerce.date()
+})
+
+export type ZoningZoneInput = z.infer<typeof zoningZoneSchema>
+
+export function toZoningZoneData(input: ZoningZoneInput) {
+  return {
+    ...input,
+    permittedAssetTypes: JSON.stringify(input.permittedAssetTypes),
+    conditionalAssetTypes: JSON.stringify(input.conditionalAssetTypes),
+    permittedUses: JSON.stringify(input.permittedUses)
+  }
+}
+
+function toZoneRules(zone: ZoningZone): ZoneRules {
+  return {
+    code: zone.code,
+    name: zone.name,
+    permittedAssetTypes: JSON.parse(zone.permittedAssetTypes),
+    conditionalAssetTypes: JSON.parse(zone.conditionalAssetTypes),
+    permittedUses: JSON.parse(zone.permittedUses),
+    kdb: zone.kdb,
+    klb: zone.klb,
+    kdh: zone.kdh,
+    maxFloors: zone.maxFloors,
+    source: zone.regulation || `${zone.city || zone.province} zone ${zone.code} from ${zone.effectiveFrom.toISOString().slice(0, 10)}`
+  }
+}
+
+const normalize = (value?: string | null) => (value || "").trim().toLowerCase()
+
+// Every zone in force for a location: a city's own record wins over its province's, the newest effective record
+// wins within a level, and the house defaults cover codes Jakarta has no record for
+export async function listZones(province: string, city?: string | null, asOf = new Date()): Promise<ZoneRules[]> {
+  const zones = await db.zoningZone.findMany({
+    where: { effectiveFrom: { lte: asOf } },
+    orderBy: { effectiveFrom: "desc" }
+  })
+
+  const inProvince = zones.filter(zone => normalize(zone.province) === normalize(province))
+  const byCode = new Map<string, ZoneRules>()
+  for (const zone of [
+    ...inProvince.filter(zone => zone.city && normalize(zone.city) === normalize(city)),
+    ...inProvince.filter(zone => !zone.city)
+  ]) {
+    if (!byCode.has(zone.code)) byCode.set(zone.code, toZoneRules(zone))
+  }
+
+  if (normalize(province) === normalize(DEFAULT_ZONE_PROVINCE)) {
+    for (const zone of DEFAULT_ZONES) {
+      if (!byCode.has(zone.code)) byCode.set(zone.code, zone)
+    }
+  }
+
+  return [...byCode.values()].sort((a, b) => a.code.localeCompare(b.code))
+}
+
+// Matches the zone by its code ("K.1 Perkantoran") or, failing that, by its name ("Perkantoran")
+export async function findZone(zoning: string, province: string, city?: string | null): Promise<ZoneRules | null> {
+  const zones = await listZones(province, city)
+  const code = parseZoneCode(zoning)
+  return zones.find(zone => zone.code === code)
+    || zones.find(zone => normalize(zone.name) === normalize(zoning))
+    || null
+}
+
+export type ZoningStatus = "ASSESSED" | "ZONE_UNKNOWN" | "NOT_RECORDED"
+
+export interface PropertyZoning {
+  status: ZoningStatus
+  zoning: string | null
+  assessment: ZoningAssessment | null
+}
+
+export async function assessPropertyZoning(
+  property: Pick<Property, "zoning" | "province" | "city" | "landSize" | "buildingSize" | "floors" | "assetType" | "landUse">
+): Promise<PropertyZoning> {
+  if (!property.zoning) return { status: "NOT_RECORDED", zoning: null, assessment: null }
+  const zone = await findZone(property.zoning, property.province, property.city)
+  if (!zone) return { status: "ZONE_UNKNOWN", zoning: property.zoning, assessment: null }
+  return { status: "ASSESSED", zoning: property.zoning, assessment: assessZoning(property, zone) }
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from "vitest"
+import { zoningFindings } from "@/lib/legal-check"
+import { assessZoning, DEFAULT_ZONES, parseZoneCode, ZoneRules } from "@/lib/zoning"
+
+// Zone rules are passed in directly; the dataset lookups are not exercised
+vi.mock("@/lib/db", () => ({ db: {} }))
+
+const zone = (code: string) => DEFAULT_ZONES.find(rules => rules.code === code)!
+
+const house = { landSize: 200, buildingSize: 200, floors: 2, assetType: "RESIDENTIAL", landUse: "Rumah tinggal" }
+
+const verdicts = (checks: ReturnType<typeof assessZoning>["checks"]) =>
+  Object.fromEntries(checks.map(check => [check.key, check.compliant]))
+
+describe("parseZoneCode", () => {
+  it("reads the zone code however it is written", () => {
+    expect(parseZoneCode("K.1 Perkantoran")).toBe("K.1")
+    expect(parseZoneCode("k-1")).toBe("K.1")
+    expect(parseZoneCode("Zona R.2")).toBe("R.2")
+    expect(parseZoneCode("I (Industri)")).toBe("I")
+  })
+
+  it("returns null when no code is given", () => {
+    expect(parseZoneCode("")).toBeNull()
+    expect(parseZoneCode("123")).toBeNull()
+  })
+})
+
+describe("assessZoning", () => {
+  it("derives the buildable envelope from the land size", () => {
+    const assessment = assessZoning(house, zone("R.2"))
+    expect(assessment.maxFootprint).toBeCloseTo(120, 10)
+    expect(assessment.maxGrossFloorArea).toBeCloseTo(240, 10)
+    expect(assessment.minGreenArea).toBeCloseTo(40, 10)
+    expect(assessment.unusedGfa).toBeCloseTo(40, 10)
+  })
+
+  it("caps buildable floor area at the footprint stacked to the height limit", () => {
+    const tall: ZoneRules = { ...zone("R.2"), klb: 3 }
+    expect(assessZoning(house, tall).maxBuildableGfa).toBeCloseTo(240, 10)
+    expect(assessZoning(house, { ...tall, maxFloors: null }).maxBuildableGfa).toBeCloseTo(600, 10)
+  })
+
+  it("passes a house within every limit", () => {
+    const assessment = assessZoning(house, zone("R.2"))
+    expect(verdicts(assessment.checks)).toEqual({ use: true, landUse: true, klb: true, kdb: true, kdh: true, height: true })
+    expect(assessment.issues).toEqual([])
+  })
+
+  it("reports each limit an overbuilt house breaks", () => {
+    const assessment = assessZoning({ ...house, buildingSize: 510, floors: 3 }, zone("R.2"))
+    expect(verdicts(assessment.checks)).toMatchObject({ klb: false, kdb: false, kdh: false, height: false })
+    expect(assessment.issues.map(issue => issue.severity)).toEqual(["HIGH", "MEDIUM", "LOW", "HIGH"])
+    expect(assessment.unusedGfa).toBe(0)
+  })
+
+  it("leaves checks open when the record lacks the figures", () => {
+    const assessment = assessZoning({ landSize: 200, assetType: "RESIDENTIAL" }, zone("R.2"))
+    expect(verdicts(assessment.checks)).toEqual({ use: true, klb: null, kdb: null, kdh: null, height: null })
+    expect(assessment.unusedGfa).toBeNull()
+  })
+
+  it("separates conditional from forbidden uses", () => {
+    expect(assessZoning({ ...house, assetType: "MIXED_USE", landUse: null }, zone("R.2")).issues[0])
+      .toMatchObject({ type: "LAND_USE", severity: "MEDIUM" })
+    expect(assessZoning({ ...house, assetType: "INDUSTRIAL", landUse: null }, zone("R.2")).issues[0])
+      .toMatchObject({ type: "LAND_USE", severity: "HIGH", title: "INDUSTRIAL use is not permitted in R.2" })
+  })
+
+  it("matches the recorded land use against the zone's uses", () => {
+    const assessment = assessZoning({ ...house, landUse: "Gudang" }, zone("R.2"))
+    expect(verdicts(assessment.checks).landUse).toBe(false)
+    expect(assessment.issues.map(issue => issue.title)).toEqual(['Land use "Gudang" is not listed for R.2'])
+  })
+
+  it("does not judge the use of vacant land", () => {
+    const assessment = assessZoning({ landSize: 500, assetType: "LAND_ONLY" }, zone("H.2"))
+    expect(assessment.checks.some(check => check.key === "use")).toBe(false)
+    expect(assessment.maxBuildableGfa).toBe(0)
+  })
+})
+
+describe("zoningFindings", () => {
+  it("asks for the zone when the dataset does not know it", () => {
+    expect(zoningFindings({ status: "ZONE_UNKNOWN", zoning: "X.9", assessment: null })).toEqual([
+      expect.objectContaining({ type: "ZONING", severity: "MEDIUM", source: "ZONING_DATA" })
+    ])
+    expect(zoningFindings({ status: "NOT_RECORDED", zoning: null, assessment: null })).toEqual([])
+  })
+
+  it("turns the assessment's issues into findings", () => {
+    const assessment = assessZoning({ ...house, floors: 3 }, zone("R.2"))
+    const findings = zoningFindings({ status: "ASSESSED", zoning: "R.2", assessment })
+    expect(findings).toEqual([expect.objectContaining({ type: "ZONING", severity: "HIGH", source: "ZONING_DATA" })])
+  })
+})
@@ -0,0 +1,316 @@
+// Intensity rules of a detailed spatial plan (RDTR) zone and the checks of a property against them. Pure, like the
+// finance engine, so the legal check, the map and the highest-and-best-use analysis read the same limits.
+
+export interface ZoneRules {
+  code: string // e.g. "K.1"
+  name: string
+  permittedAssetTypes: string[]
+  conditionalAssetTypes: string[] // allowed with a permit (izin pemanfaatan ruang) or limits on share of floor area
+  permittedUses: string[] // land-use keywords matched against Property.landUse
+  kdb: number // koefisien dasar bangunan: building footprint as a share of the land
+  klb: number // koefisien lantai bangunan: gross floor area as a multiple of the land
+  kdh: number // koefisien dasar hijau: minimum share of the land left as green area
+  maxFloors: number | null // ketinggian bangunan; null when the zone sets no limit
+  source: string
+}
+
+// House defaults for the zone families of the DKI Jakarta RDTR. Block-level values differ; record the parcel's
+// sub-zone from the RDTR map through /api/admin/zoning where they do.
+export const DEFAULT_ZONE_PROVINCE = "DKI Jakarta"
+
+export const DEFAULT_ZONES: ZoneRules[] = [
+  {
+    code: "R.2",
+    name: "Rumah kepadatan sedang",
+    permittedAssetTypes: ["RESIDENTIAL"],
+    conditionalAssetTypes: ["MIXED_USE"],
+    permittedUses: ["rumah", "hunian", "residential", "house"],
+    kdb: 0.6,
+    klb: 1.2,
+    kdh: 0.2,
+    maxFloors: 2,
+    source: "House default for DKI Jakarta residential zones"
+  },
+  {
+    code: "R.3",
+    name: "Rumah susun",
+    permittedAssetTypes: ["RESIDENTIAL"],
+    conditionalAssetTypes: ["MIXED_USE", "COMMERCIAL"],
+    permittedUses: ["rumah susun", "apartemen", "apartment", "hunian", "residential"],
+    kdb: 0.5,
+    klb: 3.5,
+    kdh: 0.3,
+    maxFloors: 16,
+    source: "House default for DKI Jakarta residential zones"
+  },
+  {
+    code: "K.1",
+    name: "Perkantoran",
+    permittedAssetTypes: ["COMMERCIAL"],
+    conditionalAssetTypes: ["MIXED_USE"],
+    permittedUses: ["kantor", "perkantoran", "office"],
+    kdb: 0.6,
+    klb: 4,
+    kdh: 0.2,
+    maxFloors: 24,
+    source: "House default for DKI Jakarta commercial zones"
+  },
+  {
+    code: "K.2",
+    name: "Perdagangan dan jasa",
+    permittedAssetTypes: ["COMMERCIAL", "MIXED_USE"],
+    conditionalAssetTypes: ["RESIDENTIAL"],
+    permittedUses: ["toko", "ruko", "perdagangan", "jasa", "retail", "shop", "restaurant", "hotel"],
+    kdb: 0.6,
+    klb: 3,
+    kdh: 0.2,
+    maxFloors: 8,
+    source: "House default for DKI Jakarta commercial zones"
+  },
+  {
+    code: "C.1",
+    name: "Campuran",
+    permittedAssetTypes: ["MIXED_USE", "COMMERCIAL", "RESIDENTIAL"],
+    conditionalAssetTypes: [],
+    permittedUses: ["campuran", "mixed", "kantor", "toko", "hunian", "apartemen", "hotel"],
+    kdb: 0.6,
+    klb: 4,
+    kdh: 0.2,
+    maxFloors: 24,
+    source: "House default for DKI Jakarta mixed-use zones"
+  },
+  {
+    code: "I",
+    name: "Industri",
+    permittedAssetTypes: ["INDUSTRIAL"],
+    conditionalAssetTypes: ["COMMERCIAL"],
+    permittedUses: ["industri", "pabrik", "gudang", "industrial", "factory", "warehouse"],
+    kdb: 0.6,
+    klb: 1.8,
+    kdh: 0.2,
+    maxFloors: 4,
+    source: "House default for DKI Jakarta industrial zones"
+  },
+  {
+    code: "P",
+    name: "Pertanian",
+    permittedAssetTypes: ["AGRICULTURAL"],
+    conditionalAssetTypes: [],
+    permittedUses: ["sawah", "kebun", "pertanian", "ladang", "agricultural", "farm"],
+    kdb: 0.1,
+    klb: 0.1,
+    kdh: 0.8,
+    maxFloors: 1,
+    source: "House default for DKI Jakarta agricultural zones"
+  },
+  {
+    code: "H.2",
+    name: "Jalur hijau",
+    permittedAssetTypes: [],
+    conditionalAssetTypes: [],
+    permittedUses: ["taman", "jalur hijau", "ruang terbuka", "park"],
+    kdb: 0,
+    klb: 0,
+    kdh: 1,
+    maxFloors: 0,
+    source: "House default for DKI Jakarta green zones"
+  }
+]
+
+// "K.1 Perkantoran", "k-1" and "Zona K.1" all name zone K.1
+export function parseZoneCode(zoning: string): string | null {
+  const match = zoning.toUpperCase().match(/(?:^|\s)([A-Z]{1,2})(?:[.\-\s]?(\d{1,2}))?(?=$|[\s,/(])/)
+  if (!match) return null
+  return match[2] ? `${match[1]}.${match[2]}` : match[1]
+}
+
+export interface ZoningSubject {
+  landSize: number
+  buildingSize?: number | null // gross floor area, m²
+  floors?: number | null
+  assetType: string
+  landUse?: string | null
+}
+
+export type ZoningCheckKey = "use" | "landUse" | "klb" | "kdb" | "kdh" | "height"
+
+export interface ZoningCheck {
+  key: ZoningCheckKey
+  label: string
+  limit: string
+  actual: string
+  compliant: boolean | null // null when the property record lacks the figure to check
+}
+
+export interface ZoningIssue {
+  type: "ZONING" | "LAND_USE"
+  severity: "INFO" | "LOW" | "MEDIUM" | "HIGH"
+  title: string
+  description: string
+  recommendation: string
+}
+
+export interface ZoningAssessment {
+  zone: ZoneRules
+  maxFootprint: number
+  maxGrossFloorArea: number
+  maxBuildableGfa: number // the lower of the KLB and the KDB footprint stacked to the height limit
+  minGreenArea: number
+  unusedGfa: number | null
+  checks: ZoningCheck[]
+  issues: ZoningIssue[]
+}
+
+const formatArea = (value: number) => `${Math.round(value).toLocaleString("id-ID")} m²`
+const formatRatio = (value: number) => `${+(value * 100).toFixed(1)}%`
+
+export function assessZoning(subject: ZoningSubject, zone: ZoneRules): ZoningAssessment {
+  const { landSize } = subject
+  const gfa = subject.buildingSize ?? null
+  const floors = subject.floors ?? null
+  const footprint = gfa !== null && floors ? gfa / floors : null
+
+  const maxFootprint = landSize * zone.kdb
+  const maxGrossFloorArea = landSize * zone.klb
+  const maxBuildableGfa = zone.maxFloors === null
+    ? maxGrossFloorArea
+    : Math.min(maxGrossFloorArea, maxFootprint * zone.maxFloors)
+  const minGreenArea = landSize * zone.kdh
+
+  const checks: ZoningCheck[] = []
+  const issues: ZoningIssue[] = []
+  const zoneLabel = `zone ${zone.code} (${zone.name})`
+
+  // Vacant land complies with any zone; what may be built on it is the highest-and-best-use question
+  if (subject.assetType !== "LAND_ONLY") {
+    const permitted = zone.permittedAssetTypes.includes(subject.assetType)
+    const conditional = zone.conditionalAssetTypes.includes(subject.assetType)
+    checks.push({
+      key: "use",
+      label: "Permitted use",
+      limit: [...zone.permittedAssetTypes, ...zone.conditionalAssetTypes.map(type => `${type} (conditional)`)].join(", ") || "No buildings",
+      actual: subject.assetType,
+      compliant: permitted || conditional
+    })
+    if (conditional) {
+      issues.push({
+        type: "LAND_USE",
+        severity: "MEDIUM",
+        title: `${subject.assetType.replace("_", " ")} use is conditional in ${zone.code}`,
+        description: `${zoneLabel} allows this use only with a spatial use permit or within limits on its share of floor area.`,
+        recommendation: "Obtain the KKPR or permit showing the use was approved"
+      })
+    } else if (!permitted) {
+      issues.push({
+        type: "LAND_USE",
+        severity: "HIGH",
+        title: `${subject.assetType.replace("_", " ")} use is not permitted in ${zone.code}`,
+        description: `${zoneLabel} permits ${zone.permittedAssetTypes.join(", ") || "no buildings"}.`,
+        recommendation: "Value on a permitted use, or confirm a use approved before the current RDTR (existing use rights)"
+      })
+    }
+  }
+
+  if (subject.landUse) {
+    const landUse = subject.landUse.toLowerCase()
+    const matches = zone.permittedUses.some(use => landUse.includes(use))
+    checks.push({
+      key: "landUse",
+      label: "Recorded land use",
+      limit: zone.permittedUses.join(", "),
+      actual: subject.landUse,
+      compliant: matches
+    })
+    if (!matches) {
+      issues.push({
+        type: "LAND_USE",
+        severity: "MEDIUM",
+        title: `Land use "${subject.landUse}" is not listed for ${zone.code}`,
+        description: `The recorded land use does not match the uses of ${zoneLabel}: ${zone.permittedUses.join(", ")}.`,
+        recommendation: "Confirm the use against the zoning regulation's activity matrix (ITBX)"
+      })
+    }
+  }
+
+  checks.push({
+    key: "klb",
+    label: "Floor area (KLB)",
+    limit: `${zone.klb} × land = ${formatArea(maxGrossFloorArea)}`,
+    actual: gfa !== null ? formatArea(gfa) : "Building size not recorded",
+    compliant: gfa !== null ? gfa <= maxGrossFloorArea : null
+  })
+  if (gfa !== null && gfa > maxGrossFloorArea) {
+    issues.push({
+      type: "ZONING",
+      severity: "HIGH",
+      title: `Floor area exceeds the KLB of ${zone.code}`,
+      description: `${formatArea(gfa)} of floor area against ${formatArea(maxGrossFloorArea)} allowed at KLB ${zone.klb}.`,
+      recommendation: "Check the building approval (PBG) for the approved floor area; excess area may carry a penalty or demolition order"
+    })
+  }
+
+  checks.push({
+    key: "kdb",
+    label: "Building coverage (KDB)",
+    limit: `${formatRatio(zone.kdb)} = ${formatArea(maxFootprint)}`,
+    actual: footprint !== null ? formatArea(footprint) : "Floors not recorded",
+    compliant: footprint !== null ? footprint <= maxFootprint : null
+  })
+  if (footprint !== null && footprint > maxFootprint) {
+    issues.push({
+      type: "ZONING",
+      severity: "MEDIUM",
+      title: `Building coverage exceeds the KDB of ${zone.code}`,
+      description: `An estimated footprint of ${formatArea(footprint)} (floor area over ${floors} floors) against ${formatArea(maxFootprint)} allowed.`,
+      recommendation: "Measure the footprint on site and compare with the approved site plan"
+    })
+  }
+
+  const openArea = footprint !== null ? landSize - footprint : null
+  checks.push({
+    key: "kdh",
+    label: "Green area (KDH)",
+    limit: `at least ${formatRatio(zone.kdh)} = ${formatArea(minGreenArea)}`,
+    actual: openArea !== null ? `${formatArea(openArea)} unbuilt` : "Floors not recorded",
+    compliant: openArea !== null ? openArea >= minGreenArea : null
+  })
+  if (openArea !== null && openArea < minGreenArea) {
+    issues.push({
+      type: "ZONING",
+      severity: "LOW",
+      title: `Unbuilt area is below the KDH of ${zone.code}`,
+      description: `Only ${formatArea(openArea)} of the land is unbuilt, less than the ${formatArea(minGreenArea)} green area required.`,
+      recommendation: "Confirm the green area on site; a shortfall is usually remedied when the building is next altered"
+    })
+  }
+
+  if (zone.maxFloors !== null) {
+    checks.push({
+      key: "height",
+      label: "Height (floors)",
+      limit: `${zone.maxFloors} floors`,
+      actual: floors ? `${floors} floors` : "Floors not recorded",
+      compliant: floors ? floors <= zone.maxFloors : null
+    })
+    if (floors && floors > zone.maxFloors) {
+      issues.push({
+        type: "ZONING",
+        severity: "HIGH",
+        title: `Building is taller than ${zone.code} allows`,
+        description: `${floors} floors against a limit of ${zone.maxFloors}.`,
+        recommendation: "Check the building approval (PBG) and any height dispensation granted"
+      })
+    }
+  }
+
+  return {
+    zone,
+    maxFootprint,
+    maxGrossFloorArea,
+    maxBuildableGfa,
+    minGreenArea,
+    unusedGfa: gfa !== null ? Math.max(maxBuildableGfa - gfa, 0) : null,
+    checks,
+    issues
+  }
+}
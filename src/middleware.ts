@@ -0,0 +1,10 @@
+import { withAuth } from "next-auth/middleware"
+
+export default withAuth({
+  pages: { signIn: "/auth/signin" }
+})
+
+// Pages require a session; API routes check it themselves so they can answer 401 instead of redirecting
+export const config = {
+  matcher: ["/", "/properties/:path*"]
+}